@@ -35,6 +35,75 @@ export const sequelize = new Sequelize(db_name, db_user, db_password, {
   },
 });
 
+// 기존 데이터베이스에 적용할 스키마 변경 (sync로는 인덱스가 바뀌지 않으므로 시작 시 실행)
+// 여러 번 실행해도 결과가 같아야 함
+const SCHEMA_UPGRADES: Array<{ name: string; sql: string }> = [
+  {
+    // 근무표 날짜 유니크 인덱스를 활성 근무만 대상으로 변경
+    // (삭제된 근무가 휴지통에 남아 있어도 같은 날짜에 새 근무 저장 가능)
+    name: "work_shifts 활성 근무 날짜 유니크 인덱스",
+    sql: `
+      DO $$
+      DECLARE
+        target record;
+      BEGIN
+        IF to_regclass('work_shifts') IS NULL THEN
+          RETURN;
+        END IF;
+
+        FOR target IN
+          SELECT index_class.relname AS index_name, con.conname
+          FROM pg_index idx
+          JOIN pg_class index_class ON index_class.oid = idx.indexrelid
+          LEFT JOIN pg_constraint con ON con.conindid = idx.indexrelid
+          WHERE idx.indrelid = 'work_shifts'::regclass
+            AND idx.indisunique
+            AND idx.indpred IS NULL
+            AND (
+              SELECT array_agg(att.attname::text ORDER BY att.attname)
+              FROM pg_attribute att
+              WHERE att.attrelid = idx.indrelid
+                AND att.attnum = ANY (idx.indkey)
+            ) = ARRAY['owner_user_id', 'work_date']
+        LOOP
+          IF target.conname IS NOT NULL THEN
+            EXECUTE format(
+              'ALTER TABLE work_shifts DROP CONSTRAINT %I',
+              target.conname
+            );
+          ELSE
+            EXECUTE format('DROP INDEX %I', target.index_name);
+          END IF;
+        END LOOP;
+
+        CREATE UNIQUE INDEX IF NOT EXISTS work_shifts_active_owner_date
+          ON work_shifts (owner_user_id, work_date)
+          WHERE deleted_at IS NULL;
+      END $$;
+    `,
+  },
+  {
+    // 근무 교환 요청 시점의 교환 결과 (수락 시 양쪽 근무 변경 여부 확인)
+    name: "shift_swap_requests.expected_changes 컬럼",
+    sql: `
+      DO $$
+      BEGIN
+        IF to_regclass('shift_swap_requests') IS NOT NULL THEN
+          ALTER TABLE shift_swap_requests
+            ADD COLUMN IF NOT EXISTS expected_changes JSONB;
+        END IF;
+      END $$;
+    `,
+  },
+];
+
+async function applySchemaUpgrades(): Promise<void> {
+  for (const upgrade of SCHEMA_UPGRADES) {
+    await sequelize.query(upgrade.sql);
+    console.log(`✅ 스키마 변경 적용: ${upgrade.name}`);
+  }
+}
+
 export async function connectDatabase(): Promise<void> {
   try {
     await sequelize.authenticate();
@@ -56,6 +125,8 @@ export async function connectDatabase(): Promise<void> {
         "ℹ️  자동 스키마 동기화는 비활성화되어 있습니다. (DB_SYNC=true로 활성화 가능)"
       );
     }
+
+    await applySchemaUpgrades();
   } catch (error) {
     console.error("❌ 데이터베이스 연결 실패:", error);
     process.exit(1);
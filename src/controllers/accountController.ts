@@ -0,0 +1,388 @@
+import { Request, Response } from "express";
+import { validationResult } from "express-validator";
+import { User } from "../models";
+import * as accountService from "../services/accountService";
+import * as accountExportService from "../services/accountExportService";
+import * as accountLinkService from "../services/accountLinkService";
+import { AccountErrorCodes } from "../services/accountService";
+import { AccountExportErrorCodes } from "../services/accountExportService";
+import {
+  AccountLinkErrorCodes,
+  SocialProvider,
+} from "../services/accountLinkService";
+
+// 인증된 요청 타입
+interface AuthenticatedRequest extends Request {
+  user?: User;
+}
+
+// ============================================================
+// 에러 응답 매핑
+// ============================================================
+const ErrorMessages: Record<string, { status: number; message: string }> = {
+  [AccountErrorCodes.USER_NOT_FOUND]: {
+    status: 404,
+    message: "해당 사용자를 찾을 수 없습니다.",
+  },
+  [AccountErrorCodes.ALREADY_WITHDRAWN]: {
+    status: 400,
+    message: "이미 탈퇴한 계정입니다.",
+  },
+  [AccountExportErrorCodes.EXPORT_NOT_FOUND]: {
+    status: 404,
+    message: "내보내기 요청을 찾을 수 없습니다.",
+  },
+  [AccountExportErrorCodes.EXPORT_NOT_READY]: {
+    status: 409,
+    message: "내보내기 파일이 아직 준비되지 않았습니다.",
+  },
+  [AccountExportErrorCodes.EXPORT_EXPIRED]: {
+    status: 410,
+    message: "다운로드 기간이 지난 내보내기 파일입니다.",
+  },
+  [AccountLinkErrorCodes.MISSING_PROVIDER_CREDENTIALS]: {
+    status: 400,
+    message: "소셜 계정 인증 정보가 필요합니다.",
+  },
+  [AccountLinkErrorCodes.PROVIDER_AUTH_FAILED]: {
+    status: 401,
+    message: "소셜 계정 인증에 실패했습니다.",
+  },
+  [AccountLinkErrorCodes.PROVIDER_ALREADY_LINKED]: {
+    status: 409,
+    message: "이미 같은 서비스의 다른 계정이 연결되어 있습니다.",
+  },
+  [AccountLinkErrorCodes.PROVIDER_LINKED_TO_OTHER_ACCOUNT]: {
+    status: 409,
+    message:
+      "다른 계정에 연결된 소셜 계정입니다. 계정 통합을 이용해주세요.",
+  },
+  [AccountLinkErrorCodes.PROVIDER_NOT_LINKED]: {
+    status: 404,
+    message: "연결되지 않은 소셜 계정입니다.",
+  },
+  [AccountLinkErrorCodes.LAST_LOGIN_METHOD]: {
+    status: 400,
+    message: "마지막 로그인 수단은 연결 해제할 수 없습니다.",
+  },
+  [AccountLinkErrorCodes.MERGE_SOURCE_NOT_FOUND]: {
+    status: 404,
+    message: "해당 소셜 계정으로 가입된 계정이 없습니다.",
+  },
+  [AccountLinkErrorCodes.SAME_ACCOUNT]: {
+    status: 400,
+    message: "현재 로그인한 계정과 같은 계정입니다.",
+  },
+  [AccountLinkErrorCodes.MERGE_PROVIDER_CONFLICT]: {
+    status: 409,
+    message:
+      "두 계정에 같은 서비스의 서로 다른 소셜 계정이 연결되어 있어 통합할 수 없습니다.",
+  },
+};
+
+/**
+ * 에러 응답 헬퍼 함수
+ */
+function handleError(res: Response, error: unknown): void {
+  const error_code = error instanceof Error ? error.message : "UNKNOWN_ERROR";
+  const error_info = ErrorMessages[error_code];
+
+  if (error_info) {
+    res.status(error_info.status).json({
+      success: false,
+      error: {
+        code: error_code,
+        message: error_info.message,
+      },
+    });
+  } else {
+    console.error("Account controller error:", error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "INTERNAL_SERVER_ERROR",
+        message: "서버 오류가 발생했습니다.",
+      },
+    });
+  }
+}
+
+/**
+ * 입력값 검증 실패 응답 (실패 시 true)
+ */
+function respondValidationError(
+  req: AuthenticatedRequest,
+  res: Response
+): boolean {
+  const errors = validationResult(req);
+  if (errors.isEmpty()) {
+    return false;
+  }
+
+  res.status(400).json({
+    success: false,
+    error: {
+      code: "VALIDATION_ERROR",
+      message: "입력값 검증에 실패했습니다.",
+    },
+    errors: errors.array(),
+  });
+  return true;
+}
+
+// ============================================================
+// 회원 탈퇴
+// DELETE /api/v1/account
+// ============================================================
+export async function withdrawAccount(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  try {
+    const user_id = req.user!.user_id;
+
+    const result = await accountService.withdrawAccount(user_id);
+
+    res.json({
+      success: true,
+      data: result,
+      message: `탈퇴 처리되었습니다. ${accountService.ACCOUNT_DELETION_GRACE_DAYS}일 이내에 다시 로그인하면 계정을 복구할 수 있습니다.`,
+    });
+  } catch (error) {
+    handleError(res, error);
+  }
+}
+
+// ============================================================
+// 로그인 수단 연결 상태 조회
+// GET /api/v1/account/providers
+// ============================================================
+export async function getLinkedProviders(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  try {
+    const user_id = req.user!.user_id;
+
+    const result = await accountLinkService.getLinkedProviders(user_id);
+
+    res.json({
+      success: true,
+      data: { providers: result },
+    });
+  } catch (error) {
+    handleError(res, error);
+  }
+}
+
+// ============================================================
+// 소셜 계정 연결
+// POST /api/v1/account/providers/:provider
+// ============================================================
+export async function linkProvider(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  try {
+    if (respondValidationError(req, res)) {
+      return;
+    }
+
+    const user_id = req.user!.user_id;
+    const provider = req.params.provider as SocialProvider;
+    const { access_token, code, state, redirect_uri, identity_token, nonce } =
+      req.body;
+
+    const result = await accountLinkService.linkProvider(user_id, provider, {
+      access_token,
+      code,
+      state,
+      redirect_uri,
+      identity_token,
+      nonce,
+    });
+
+    res.json({
+      success: true,
+      data: { providers: result },
+      message: "소셜 계정이 연결되었습니다.",
+    });
+  } catch (error) {
+    handleError(res, error);
+  }
+}
+
+// ============================================================
+// 소셜 계정 연결 해제
+// DELETE /api/v1/account/providers/:provider
+// ============================================================
+export async function unlinkProvider(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  try {
+    if (respondValidationError(req, res)) {
+      return;
+    }
+
+    const user_id = req.user!.user_id;
+    const provider = req.params.provider as SocialProvider;
+
+    const result = await accountLinkService.unlinkProvider(user_id, provider);
+
+    res.json({
+      success: true,
+      data: { providers: result },
+      message: "소셜 계정 연결이 해제되었습니다.",
+    });
+  } catch (error) {
+    handleError(res, error);
+  }
+}
+
+// ============================================================
+// 계정 통합
+// POST /api/v1/account/merge
+// ============================================================
+export async function mergeAccount(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  try {
+    if (respondValidationError(req, res)) {
+      return;
+    }
+
+    const user_id = req.user!.user_id;
+    const {
+      provider,
+      access_token,
+      code,
+      state,
+      redirect_uri,
+      identity_token,
+      nonce,
+    } = req.body;
+
+    const result = await accountLinkService.mergeAccount(user_id, provider, {
+      access_token,
+      code,
+      state,
+      redirect_uri,
+      identity_token,
+      nonce,
+    });
+
+    res.json({
+      success: true,
+      data: { merge: result },
+      message: "계정이 통합되었습니다.",
+    });
+  } catch (error) {
+    handleError(res, error);
+  }
+}
+
+// ============================================================
+// 계정 데이터 내보내기 요청
+// POST /api/v1/account/exports
+// ============================================================
+export async function requestAccountExport(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  try {
+    const user_id = req.user!.user_id;
+
+    const result = await accountExportService.requestAccountExport(user_id);
+
+    res.status(202).json({
+      success: true,
+      data: { export: result.export },
+      message: result.created
+        ? "데이터 내보내기를 시작했습니다."
+        : "이미 진행 중인 데이터 내보내기가 있습니다.",
+    });
+  } catch (error) {
+    handleError(res, error);
+  }
+}
+
+// ============================================================
+// 계정 데이터 내보내기 목록 조회
+// GET /api/v1/account/exports
+// ============================================================
+export async function getAccountExports(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  try {
+    const user_id = req.user!.user_id;
+
+    const exports = await accountExportService.getAccountExports(user_id);
+
+    res.json({
+      success: true,
+      data: { exports },
+    });
+  } catch (error) {
+    handleError(res, error);
+  }
+}
+
+// ============================================================
+// 계정 데이터 내보내기 상태 조회
+// GET /api/v1/account/exports/:export_id
+// ============================================================
+export async function getAccountExport(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  try {
+    if (respondValidationError(req, res)) {
+      return;
+    }
+
+    const user_id = req.user!.user_id;
+    const { export_id } = req.params;
+
+    const result = await accountExportService.getAccountExport(
+      user_id,
+      export_id
+    );
+
+    res.json({
+      success: true,
+      data: { export: result },
+    });
+  } catch (error) {
+    handleError(res, error);
+  }
+}
+
+// ============================================================
+// 계정 데이터 내보내기 파일 다운로드
+// GET /api/v1/account/exports/:export_id/download
+// ============================================================
+export async function downloadAccountExport(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  try {
+    if (respondValidationError(req, res)) {
+      return;
+    }
+
+    const user_id = req.user!.user_id;
+    const { export_id } = req.params;
+
+    const { file_name, archive } =
+      await accountExportService.downloadAccountExport(user_id, export_id);
+
+    res.setHeader("Content-Type", "application/zip");
+    res.setHeader("Content-Disposition", `attachment; filename="${file_name}"`);
+    res.send(archive);
+  } catch (error) {
+    handleError(res, error);
+  }
+}
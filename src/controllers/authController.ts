@@ -6,16 +6,39 @@ import {
   rotateRefreshToken,
   revokeRefreshToken,
   revokeAllUserTokens,
+  getActiveSessions,
+  revokeSession,
 } from "../services/authService";
 import { processKakaoLogin, getKakaoUserInfo } from "../services/kakaoService";
 import { processNaverLogin, getNaverUserInfo } from "../services/naverService";
+import {
+  AppleAuthErrorCodes,
+  verifyAppleIdentityToken,
+} from "../services/appleService";
 import { ensureDefaultTemplate } from "../services/shiftTemplateService";
+import { restoreWithdrawnAccount } from "../services/accountService";
 
-// Express Request에 user 속성 추가 타입
+// Express Request에 user, session_id 속성 추가 타입
 interface AuthenticatedRequest extends Request {
   user?: User;
+  session_id?: string;
 }
 
+// Apple은 최초 로그인 때만 이름을 제공하므로 이름이 없을 때 사용
+const APPLE_DEFAULT_USER_NAME = "Apple 사용자";
+
+// Apple identity token 검증 실패 메시지 (그 외 에러는 서버 오류로 처리)
+const AppleAuthErrorMessages: Record<string, string> = {
+  [AppleAuthErrorCodes.INVALID_IDENTITY_TOKEN]:
+    "유효하지 않은 Apple identity token입니다.",
+  [AppleAuthErrorCodes.IDENTITY_TOKEN_EXPIRED]:
+    "만료된 Apple identity token입니다.",
+  [AppleAuthErrorCodes.UNKNOWN_SIGNING_KEY]:
+    "Apple identity token의 서명 키를 찾을 수 없습니다.",
+  [AppleAuthErrorCodes.NONCE_MISMATCH]:
+    "Apple identity token의 nonce가 일치하지 않습니다.",
+};
+
 // 디바이스 정보 추출 헬퍼
 function getDeviceInfo(req: Request): string {
   const user_agent = req.headers["user-agent"] || "unknown";
@@ -23,6 +46,15 @@ function getDeviceInfo(req: Request): string {
   return `${user_agent} | ${ip}`;
 }
 
+// 복구 시도 후에도 탈퇴 상태인 계정 (유예 기간 만료, 데이터 삭제 대기 중)
+function respondAccountDeleted(res: Response): void {
+  res.status(403).json({
+    success: false,
+    code: "ACCOUNT_DELETED",
+    message: "탈퇴 유예 기간이 지나 삭제된 계정입니다.",
+  });
+}
+
 // 회원가입 (패스워드 인증 - 추후 활성화)
 export async function register(req: Request, res: Response): Promise<void> {
   try {
@@ -105,6 +137,15 @@ export async function login(req: Request, res: Response): Promise<void> {
       return;
     }
 
+    // 탈퇴한 사용자 (유예 기간 중 복구는 소셜 로그인으로만 가능)
+    if (user.withdrawn_at) {
+      res.status(401).json({
+        success: false,
+        message: "탈퇴한 사용자입니다.",
+      });
+      return;
+    }
+
     // 토큰 생성 (DB에 refresh_token 저장)
     const device_info = getDeviceInfo(req);
     const tokens = await generateTokens(user, { device_info });
@@ -220,6 +261,77 @@ export async function logoutAll(
   }
 }
 
+// 로그인 세션(기기) 목록 조회
+export async function getSessions(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, message: "인증이 필요합니다." });
+      return;
+    }
+
+    const sessions = await getActiveSessions(req.user.user_id, req.session_id);
+
+    res.json({
+      success: true,
+      data: { sessions },
+    });
+  } catch (error) {
+    console.error("Get sessions error:", error);
+    res
+      .status(500)
+      .json({ success: false, message: "서버 오류가 발생했습니다." });
+  }
+}
+
+// 특정 기기 로그아웃
+export async function deleteSession(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ success: false, errors: errors.array() });
+      return;
+    }
+
+    if (!req.user) {
+      res.status(401).json({ success: false, message: "인증이 필요합니다." });
+      return;
+    }
+
+    const revoked_token = await revokeSession(
+      req.user.user_id,
+      req.params.token_id
+    );
+
+    if (!revoked_token) {
+      res
+        .status(404)
+        .json({ success: false, message: "세션을 찾을 수 없습니다." });
+      return;
+    }
+
+    const is_current = revoked_token.session_id === req.session_id;
+
+    res.json({
+      success: true,
+      message: is_current
+        ? "현재 기기에서 로그아웃 되었습니다."
+        : "해당 기기에서 로그아웃 되었습니다.",
+      data: { token_id: revoked_token.token_id, is_current },
+    });
+  } catch (error) {
+    console.error("Delete session error:", error);
+    res
+      .status(500)
+      .json({ success: false, message: "서버 오류가 발생했습니다." });
+  }
+}
+
 // 내 정보 조회
 export async function getProfile(
   req: AuthenticatedRequest,
@@ -298,18 +410,27 @@ export async function kakaoLogin(req: Request, res: Response): Promise<void> {
       await ensureDefaultTemplate(user.user_id);
     }
 
+    // 탈퇴 유예 기간 중인 계정이면 복구
+    const restored = await restoreWithdrawnAccount(user);
+    if (user.withdrawn_at) {
+      respondAccountDeleted(res);
+      return;
+    }
+
     // JWT 토큰 생성 (DB에 refresh_token 저장)
     const device_info = getDeviceInfo(req);
     const tokens = await generateTokens(user, { device_info });
 
     res.json({
       success: true,
-      message:
-        user.created_at && Date.now() - user.created_at.getTime() < 1000
-          ? "회원가입이 완료되었습니다."
-          : "로그인 성공",
+      message: restored
+        ? "탈퇴가 취소되어 계정이 복구되었습니다."
+        : user.created_at && Date.now() - user.created_at.getTime() < 1000
+        ? "회원가입이 완료되었습니다."
+        : "로그인 성공",
       data: {
         user: user.toJSON(),
+        restored,
         ...tokens,
       },
     });
@@ -384,18 +505,27 @@ export async function kakaoLoginWithToken(
       await ensureDefaultTemplate(user.user_id);
     }
 
+    // 탈퇴 유예 기간 중인 계정이면 복구
+    const restored = await restoreWithdrawnAccount(user);
+    if (user.withdrawn_at) {
+      respondAccountDeleted(res);
+      return;
+    }
+
     // JWT 토큰 생성 (DB에 refresh_token 저장)
     const device_info = getDeviceInfo(req);
     const tokens = await generateTokens(user, { device_info });
 
     res.json({
       success: true,
-      message:
-        user.created_at && Date.now() - user.created_at.getTime() < 1000
-          ? "회원가입이 완료되었습니다."
-          : "로그인 성공",
+      message: restored
+        ? "탈퇴가 취소되어 계정이 복구되었습니다."
+        : user.created_at && Date.now() - user.created_at.getTime() < 1000
+        ? "회원가입이 완료되었습니다."
+        : "로그인 성공",
       data: {
         user: user.toJSON(),
+        restored,
         ...tokens,
       },
     });
@@ -474,18 +604,27 @@ export async function naverLogin(req: Request, res: Response): Promise<void> {
       await ensureDefaultTemplate(user.user_id);
     }
 
+    // 탈퇴 유예 기간 중인 계정이면 복구
+    const restored = await restoreWithdrawnAccount(user);
+    if (user.withdrawn_at) {
+      respondAccountDeleted(res);
+      return;
+    }
+
     // JWT 토큰 생성 (DB에 refresh_token 저장)
     const device_info = getDeviceInfo(req);
     const tokens = await generateTokens(user, { device_info });
 
     res.json({
       success: true,
-      message:
-        user.created_at && Date.now() - user.created_at.getTime() < 1000
-          ? "회원가입이 완료되었습니다."
-          : "로그인 성공",
+      message: restored
+        ? "탈퇴가 취소되어 계정이 복구되었습니다."
+        : user.created_at && Date.now() - user.created_at.getTime() < 1000
+        ? "회원가입이 완료되었습니다."
+        : "로그인 성공",
       data: {
         user: user.toJSON(),
+        restored,
         ...tokens,
       },
     });
@@ -560,18 +699,27 @@ export async function naverLoginWithToken(
       await ensureDefaultTemplate(user.user_id);
     }
 
+    // 탈퇴 유예 기간 중인 계정이면 복구
+    const restored = await restoreWithdrawnAccount(user);
+    if (user.withdrawn_at) {
+      respondAccountDeleted(res);
+      return;
+    }
+
     // JWT 토큰 생성 (DB에 refresh_token 저장)
     const device_info = getDeviceInfo(req);
     const tokens = await generateTokens(user, { device_info });
 
     res.json({
       success: true,
-      message:
-        user.created_at && Date.now() - user.created_at.getTime() < 1000
-          ? "회원가입이 완료되었습니다."
-          : "로그인 성공",
+      message: restored
+        ? "탈퇴가 취소되어 계정이 복구되었습니다."
+        : user.created_at && Date.now() - user.created_at.getTime() < 1000
+        ? "회원가입이 완료되었습니다."
+        : "로그인 성공",
       data: {
         user: user.toJSON(),
+        restored,
         ...tokens,
       },
     });
@@ -589,3 +737,137 @@ export async function naverLoginWithToken(
     });
   }
 }
+
+// Apple 로그인 (identity token)
+export async function appleLogin(req: Request, res: Response): Promise<void> {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ success: false, errors: errors.array() });
+      return;
+    }
+
+    // name은 Apple이 최초 로그인 때만 클라이언트에 전달하므로 선택값
+    const { identity_token, nonce, name } = req.body;
+    const apple_name =
+      typeof name === "string" && name.trim() ? name.trim() : null;
+
+    // Apple identity token 서명 검증 후 사용자 정보 추출
+    const apple_user_info = await verifyAppleIdentityToken(
+      identity_token,
+      nonce
+    );
+
+    // 기존 사용자 조회 (apple_id 기준)
+    let user = await User.findOne({
+      where: { apple_id: apple_user_info.apple_id },
+    });
+
+    if (!user) {
+      if (!apple_user_info.email) {
+        res.status(400).json({
+          success: false,
+          message:
+            "Apple 계정의 이메일 정보가 없습니다. 이메일 제공에 동의해주세요.",
+        });
+        return;
+      }
+
+      // 이메일로 기존 사용자 확인 (다른 OAuth로 가입된 경우)
+      // 비공개 이메일 릴레이 주소는 앱마다 달라 다른 계정과 일치하지 않음
+      const existing_email_user = await User.findOne({
+        where: { email: apple_user_info.email },
+      });
+
+      if (existing_email_user) {
+        // 인증된 이메일이고 다른 Apple ID가 연결되지 않은 계정에만 자동 연결
+        if (!apple_user_info.email_verified) {
+          res.status(409).json({
+            success: false,
+            message:
+              "이메일 인증이 완료되지 않은 Apple 계정은 기존 계정과 연결할 수 없습니다.",
+          });
+          return;
+        }
+        if (existing_email_user.apple_id) {
+          res.status(409).json({
+            success: false,
+            message:
+              "같은 이메일의 계정에 이미 다른 Apple 계정이 연결되어 있습니다.",
+          });
+          return;
+        }
+
+        // 기존 계정에 Apple ID 연결
+        existing_email_user.apple_id = apple_user_info.apple_id;
+        await existing_email_user.save();
+        user = existing_email_user;
+        console.log(`Apple 계정 연결: ${user.email}`);
+        // 기존 사용자도 템플릿이 없으면 생성
+        await ensureDefaultTemplate(user.user_id);
+      } else {
+        // 신규 사용자 생성 (비공개 릴레이 이메일도 그대로 저장)
+        user = await User.create({
+          email: apple_user_info.email,
+          name: apple_name ?? APPLE_DEFAULT_USER_NAME,
+          apple_id: apple_user_info.apple_id,
+          timezone: "Asia/Seoul", // 기본 타임존
+        });
+        console.log(`Apple 회원가입 성공: ${user.email}`);
+        // 신규 사용자 기본 근무 템플릿 생성
+        await ensureDefaultTemplate(user.user_id);
+      }
+    } else {
+      // 최초 로그인 때 이름을 받지 못했다가 이후 전달된 경우 반영
+      if (apple_name && user.name === APPLE_DEFAULT_USER_NAME) {
+        user.name = apple_name;
+        await user.save();
+      }
+      console.log(`Apple 로그인 성공: ${user.email}`);
+      // 기존 사용자도 템플릿이 없으면 생성 (마이그레이션용)
+      await ensureDefaultTemplate(user.user_id);
+    }
+
+    // 탈퇴 유예 기간 중인 계정이면 복구
+    const restored = await restoreWithdrawnAccount(user);
+    if (user.withdrawn_at) {
+      respondAccountDeleted(res);
+      return;
+    }
+
+    // JWT 토큰 생성 (DB에 refresh_token 저장)
+    const device_info = getDeviceInfo(req);
+    const tokens = await generateTokens(user, { device_info });
+
+    res.json({
+      success: true,
+      message: restored
+        ? "탈퇴가 취소되어 계정이 복구되었습니다."
+        : user.created_at && Date.now() - user.created_at.getTime() < 1000
+        ? "회원가입이 완료되었습니다."
+        : "로그인 성공",
+      data: {
+        user: user.toJSON(),
+        restored,
+        is_private_email: apple_user_info.is_private_email,
+        ...tokens,
+      },
+    });
+  } catch (error) {
+    console.error("Apple login error:", error);
+
+    if (error instanceof Error && AppleAuthErrorMessages[error.message]) {
+      res.status(401).json({
+        success: false,
+        code: error.message,
+        message: AppleAuthErrorMessages[error.message],
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      message: "Apple 로그인 처리 중 오류가 발생했습니다.",
+    });
+  }
+}
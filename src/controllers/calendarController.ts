@@ -3,6 +3,19 @@ import { validationResult } from "express-validator";
 import { User, WorkShift, ShiftTypeSchedule, ShiftType } from "../models";
 import * as calendarService from "../services/calendarService";
 import * as shiftTemplateService from "../services/shiftTemplateService";
+import * as icalService from "../services/icalService";
+import * as shiftPatternService from "../services/shiftPatternService";
+import * as workShiftHistoryService from "../services/workShiftHistoryService";
+import * as trashService from "../services/trashService";
+import * as shiftStatsService from "../services/shiftStatsService";
+import * as payService from "../services/payService";
+import * as templateDocumentService from "../services/templateDocumentService";
+import { diffDays } from "../utils/dateUtils";
+
+// iCalendar 내보내기 최대 기간 (일)
+const MAX_EXPORT_RANGE_DAYS = 366;
+// 근무표 변경 이력 조회 최대 기간 (일)
+const MAX_HISTORY_RANGE_DAYS = 366;
 
 // Express Request에 user 속성 추가 타입
 interface AuthenticatedRequest extends Request {
@@ -18,9 +31,27 @@ export async function getShiftTypes(
   res: Response
 ): Promise<void> {
   try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "요청 파라미터 오류",
+          details: errors.array(),
+        },
+      });
+      return;
+    }
+
     const user_id = req.user!.user_id;
+    const template_id = req.query.template_id as string | undefined;
 
-    const result = await calendarService.getShiftTypes(user_id);
+    const result = await calendarService.getShiftTypes(
+      user_id,
+      req.user!.timezone,
+      template_id
+    );
 
     res.json({
       success: true,
@@ -166,7 +197,11 @@ export async function getDaySchedule(
       return;
     }
 
-    const result = await calendarService.getDaySchedule(user_id, date);
+    const result = await calendarService.getDaySchedule(
+      user_id,
+      date,
+      req.user!.timezone
+    );
 
     res.json({
       success: true,
@@ -245,7 +280,8 @@ export async function getEvents(
     const events = await calendarService.getEvents(
       user_id,
       start_date,
-      end_date
+      end_date,
+      req.user!.timezone
     );
 
     res.json({
@@ -266,6 +302,330 @@ export async function getEvents(
   }
 }
 
+/**
+ * 일정 생성/수정 에러 응답
+ */
+function handleEventWriteError(res: Response, error: any): boolean {
+  if (error.message === "EVENT_NOT_FOUND") {
+    res.status(404).json({
+      success: false,
+      error: {
+        code: "NOT_FOUND",
+        message: "일정을 찾을 수 없습니다.",
+      },
+    });
+    return true;
+  }
+  if (error.message === "INVALID_DATE_RANGE") {
+    res.status(400).json({
+      success: false,
+      error: {
+        code: "INVALID_DATE_RANGE",
+        message: "종료 일시는 시작 일시보다 늦어야 합니다.",
+      },
+    });
+    return true;
+  }
+  if (error.message === "INVALID_DATE_FORMAT") {
+    res.status(400).json({
+      success: false,
+      error: {
+        code: "VALIDATION_ERROR",
+        message: "날짜 형식이 올바르지 않습니다. (ISO 8601 형식 필요)",
+      },
+    });
+    return true;
+  }
+  if (error.message === "INVALID_VISIBILITY_LEVEL") {
+    res.status(400).json({
+      success: false,
+      error: {
+        code: "INVALID_VISIBILITY_LEVEL",
+        message: "공개 레벨은 0~5 사이여야 합니다.",
+      },
+    });
+    return true;
+  }
+  if (error.message === "INVALID_RRULE") {
+    res.status(400).json({
+      success: false,
+      error: {
+        code: "INVALID_RRULE",
+        message:
+          "반복 규칙이 올바르지 않습니다. (FREQ, INTERVAL, BYDAY, COUNT, UNTIL 지원)",
+      },
+    });
+    return true;
+  }
+  if (error.message === "NOT_RECURRING_EVENT") {
+    res.status(400).json({
+      success: false,
+      error: {
+        code: "NOT_RECURRING_EVENT",
+        message: "반복 일정이 아닙니다.",
+      },
+    });
+    return true;
+  }
+  if (error.message === "OCCURRENCE_NOT_FOUND") {
+    res.status(404).json({
+      success: false,
+      error: {
+        code: "OCCURRENCE_NOT_FOUND",
+        message: "해당 날짜에 반복 일정이 없습니다.",
+      },
+    });
+    return true;
+  }
+  return false;
+}
+
+/**
+ * 일정 생성
+ * POST /api/v1/events
+ */
+export async function createEvent(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "요청 파라미터 오류",
+          details: errors.array(),
+        },
+      });
+      return;
+    }
+
+    const user_id = req.user!.user_id;
+    const {
+      title,
+      memo,
+      place,
+      all_day,
+      start_at,
+      end_at,
+      visibility_level,
+      rrule,
+      exdates,
+    } = req.body;
+
+    const event = await calendarService.createEvent(
+      user_id,
+      {
+        title,
+        memo,
+        place,
+        all_day,
+        start_at,
+        end_at,
+        visibility_level,
+        rrule,
+        exdates,
+      },
+      req.user!.timezone
+    );
+
+    res.status(201).json({
+      success: true,
+      data: event,
+    });
+  } catch (error: any) {
+    console.error("Create event error:", error);
+    if (handleEventWriteError(res, error)) {
+      return;
+    }
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "INTERNAL_SERVER_ERROR",
+        message: "서버 오류가 발생했습니다.",
+      },
+    });
+  }
+}
+
+/**
+ * 일정 수정
+ * PUT /api/v1/events/:event_id
+ */
+export async function updateEvent(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "요청 파라미터 오류",
+          details: errors.array(),
+        },
+      });
+      return;
+    }
+
+    const user_id = req.user!.user_id;
+    const { event_id } = req.params;
+    const {
+      title,
+      memo,
+      place,
+      all_day,
+      start_at,
+      end_at,
+      visibility_level,
+      rrule,
+      exdates,
+    } = req.body;
+
+    const event = await calendarService.updateEvent(
+      user_id,
+      event_id,
+      {
+        title,
+        memo,
+        place,
+        all_day,
+        start_at,
+        end_at,
+        visibility_level,
+        rrule,
+        exdates,
+      },
+      req.user!.timezone
+    );
+
+    res.json({
+      success: true,
+      data: event,
+    });
+  } catch (error: any) {
+    console.error("Update event error:", error);
+    if (handleEventWriteError(res, error)) {
+      return;
+    }
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "INTERNAL_SERVER_ERROR",
+        message: "서버 오류가 발생했습니다.",
+      },
+    });
+  }
+}
+
+/**
+ * 반복 일정의 특정 발생 수정
+ * PUT /api/v1/events/:event_id/occurrences/:occurrence_date
+ */
+export async function upsertEventOccurrence(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "요청 파라미터 오류",
+          details: errors.array(),
+        },
+      });
+      return;
+    }
+
+    const user_id = req.user!.user_id;
+    const { event_id, occurrence_date } = req.params;
+    const { title, memo, place, start_at, end_at } = req.body;
+
+    const occurrence = await calendarService.upsertEventOccurrence(
+      user_id,
+      event_id,
+      occurrence_date,
+      { title, memo, place, start_at, end_at },
+      req.user!.timezone
+    );
+
+    res.json({
+      success: true,
+      data: occurrence,
+    });
+  } catch (error: any) {
+    console.error("Upsert event occurrence error:", error);
+    if (handleEventWriteError(res, error)) {
+      return;
+    }
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "INTERNAL_SERVER_ERROR",
+        message: "서버 오류가 발생했습니다.",
+      },
+    });
+  }
+}
+
+/**
+ * 반복 일정의 특정 발생 삭제
+ * DELETE /api/v1/events/:event_id/occurrences/:occurrence_date
+ */
+export async function cancelEventOccurrence(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "요청 파라미터 오류",
+          details: errors.array(),
+        },
+      });
+      return;
+    }
+
+    const user_id = req.user!.user_id;
+    const { event_id, occurrence_date } = req.params;
+
+    const result = await calendarService.cancelEventOccurrence(
+      user_id,
+      event_id,
+      occurrence_date,
+      req.user!.timezone
+    );
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  } catch (error: any) {
+    console.error("Cancel event occurrence error:", error);
+    if (handleEventWriteError(res, error)) {
+      return;
+    }
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "INTERNAL_SERVER_ERROR",
+        message: "서버 오류가 발생했습니다.",
+      },
+    });
+  }
+}
+
 /**
  * 일정 삭제 (soft delete)
  * DELETE /api/v1/events/:event_id
@@ -275,6 +635,19 @@ export async function deleteEvent(
   res: Response
 ): Promise<void> {
   try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "요청 파라미터 오류",
+          details: errors.array(),
+        },
+      });
+      return;
+    }
+
     const user_id = req.user!.user_id;
     const { event_id } = req.params;
 
@@ -369,7 +742,8 @@ export async function getCalendarRange(
     const result = await calendarService.getCalendarRange(
       user_id,
       start_date,
-      end_date
+      end_date,
+      req.user!.timezone
     );
 
     res.json({
@@ -389,10 +763,10 @@ export async function getCalendarRange(
 }
 
 /**
- * 근무표 생성/수정 (UPSERT)
- * POST /api/v1/work-shifts
+ * 기간별 근무표 + 일정 iCalendar(.ics) 내보내기
+ * GET /api/v1/calendar/export.ics?start_date=&end_date=&include_events=
  */
-export async function upsertWorkShift(
+export async function exportCalendarIcs(
   req: AuthenticatedRequest,
   res: Response
 ): Promise<void> {
@@ -411,28 +785,322 @@ export async function upsertWorkShift(
     }
 
     const user_id = req.user!.user_id;
-    const { work_date, shift_type_code, note } = req.body;
+    const start_date = req.query.start_date as string;
+    const end_date = req.query.end_date as string;
+    const include_events = req.query.include_events !== "false";
 
-    if (!work_date || !shift_type_code) {
+    // 날짜 형식 검증 (YYYY-MM-DD)
+    const date_regex = /^\d{4}-\d{2}-\d{2}$/;
+    if (!date_regex.test(start_date) || !date_regex.test(end_date)) {
       res.status(400).json({
         success: false,
         error: {
-          code: "VALIDATION_ERROR",
-          message: "work_date와 shift_type_code가 필요합니다.",
+          code: "INVALID_DATE_RANGE",
+          message: "날짜 범위가 유효하지 않습니다. (YYYY-MM-DD 형식 필요)",
         },
       });
       return;
     }
 
-    const work_shift = await calendarService.upsertWorkShift(
-      user_id,
-      work_date,
-      shift_type_code,
-      note
-    );
-
-    // 응답을 위해 schedule 정보 포함하여 조회
-    const work_shift_with_details = await WorkShift.findByPk(
+    if (start_date > end_date) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: "INVALID_DATE_RANGE",
+          message: "시작 날짜가 종료 날짜보다 늦을 수 없습니다.",
+        },
+      });
+      return;
+    }
+
+    if (diffDays(start_date, end_date) >= MAX_EXPORT_RANGE_DAYS) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: "DATE_RANGE_TOO_LARGE",
+          message: `최대 ${MAX_EXPORT_RANGE_DAYS}일까지 내보낼 수 있습니다.`,
+        },
+      });
+      return;
+    }
+
+    const ics = await icalService.buildCalendarIcs(user_id, {
+      start_date,
+      end_date,
+      timezone: req.user!.timezone,
+      include_events,
+    });
+
+    res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="shift-calendar-${start_date}-${end_date}.ics"`
+    );
+    res.send(ics);
+  } catch (error: any) {
+    console.error("Export calendar ics error:", error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "INTERNAL_SERVER_ERROR",
+        message: "서버 오류가 발생했습니다.",
+      },
+    });
+  }
+}
+
+/**
+ * 가져오기 요청에서 iCalendar 본문과 옵션 추출
+ * - 본문: text/calendar 원문 또는 JSON의 ics 필드
+ * - 옵션: 쿼리 파라미터 (map_shifts, visibility_level)
+ */
+function getIcsImportInput(req: AuthenticatedRequest): {
+  ics_text: string | null;
+  options: icalService.IcsImportOptions;
+} {
+  const ics_text =
+    typeof req.body === "string"
+      ? req.body
+      : typeof req.body?.ics === "string"
+      ? req.body.ics
+      : null;
+
+  return {
+    ics_text,
+    options: {
+      map_shifts: req.query.map_shifts === "true",
+      visibility_level:
+        req.query.visibility_level !== undefined
+          ? Number(req.query.visibility_level)
+          : undefined,
+    },
+  };
+}
+
+/**
+ * iCalendar 가져오기 에러 응답
+ */
+function handleIcsImportError(res: Response, error: any): boolean {
+  if (error.message === "INVALID_ICS") {
+    res.status(400).json({
+      success: false,
+      error: {
+        code: "INVALID_ICS",
+        message: "올바른 iCalendar(.ics) 파일이 아닙니다.",
+      },
+    });
+    return true;
+  }
+  if (error.message === "IMPORT_TOO_LARGE") {
+    res.status(400).json({
+      success: false,
+      error: {
+        code: "IMPORT_TOO_LARGE",
+        message: "한 번에 가져올 수 있는 일정 수를 초과했습니다.",
+      },
+    });
+    return true;
+  }
+  if (error.message === "TEMPLATE_NOT_FOUND") {
+    res.status(404).json({
+      success: false,
+      error: {
+        code: "TEMPLATE_NOT_FOUND",
+        message: "근무 템플릿을 찾을 수 없습니다.",
+      },
+    });
+    return true;
+  }
+  if (error.message === "TEMPLATE_VERSION_NOT_FOUND") {
+    res.status(404).json({
+      success: false,
+      error: {
+        code: "TEMPLATE_VERSION_NOT_FOUND",
+        message: "해당 날짜에 유효한 템플릿 버전이 없습니다.",
+        details: {
+          work_date: error.work_date,
+        },
+      },
+    });
+    return true;
+  }
+  return handleEventWriteError(res, error);
+}
+
+/**
+ * iCalendar 가져오기 미리보기 (저장하지 않음)
+ * POST /api/v1/calendar/import/preview
+ */
+export async function previewCalendarImport(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "요청 파라미터 오류",
+          details: errors.array(),
+        },
+      });
+      return;
+    }
+
+    const user_id = req.user!.user_id;
+    const { ics_text, options } = getIcsImportInput(req);
+
+    if (!ics_text) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "iCalendar(.ics) 내용이 필요합니다.",
+        },
+      });
+      return;
+    }
+
+    const preview = await icalService.previewIcsImport(
+      user_id,
+      ics_text,
+      options,
+      req.user!.timezone
+    );
+
+    res.json({
+      success: true,
+      data: preview,
+    });
+  } catch (error: any) {
+    console.error("Preview calendar import error:", error);
+    if (handleIcsImportError(res, error)) {
+      return;
+    }
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "INTERNAL_SERVER_ERROR",
+        message: "서버 오류가 발생했습니다.",
+      },
+    });
+  }
+}
+
+/**
+ * iCalendar 가져오기 실행
+ * POST /api/v1/calendar/import
+ */
+export async function importCalendarIcs(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "요청 파라미터 오류",
+          details: errors.array(),
+        },
+      });
+      return;
+    }
+
+    const user_id = req.user!.user_id;
+    const { ics_text, options } = getIcsImportInput(req);
+
+    if (!ics_text) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "iCalendar(.ics) 내용이 필요합니다.",
+        },
+      });
+      return;
+    }
+
+    const result = await icalService.importIcs(
+      user_id,
+      ics_text,
+      options,
+      req.user!.timezone
+    );
+
+    res.status(201).json({
+      success: true,
+      data: {
+        summary: result.preview.summary,
+        skipped: result.preview.skipped,
+        events: result.events,
+        work_shifts: result.work_shifts,
+      },
+    });
+  } catch (error: any) {
+    console.error("Import calendar ics error:", error);
+    if (handleIcsImportError(res, error)) {
+      return;
+    }
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "INTERNAL_SERVER_ERROR",
+        message: "서버 오류가 발생했습니다.",
+      },
+    });
+  }
+}
+
+/**
+ * 근무표 생성/수정 (UPSERT)
+ * POST /api/v1/work-shifts
+ */
+export async function upsertWorkShift(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "요청 파라미터 오류",
+          details: errors.array(),
+        },
+      });
+      return;
+    }
+
+    const user_id = req.user!.user_id;
+    const { work_date, shift_type_code, note } = req.body;
+
+    if (!work_date || !shift_type_code) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "work_date와 shift_type_code가 필요합니다.",
+        },
+      });
+      return;
+    }
+
+    const work_shift = await calendarService.upsertWorkShift(
+      user_id,
+      work_date,
+      shift_type_code,
+      note
+    );
+
+    // 응답을 위해 schedule 정보 포함하여 조회
+    const work_shift_with_details = await WorkShift.findByPk(
       work_shift.work_shift_id,
       {
         include: [
@@ -913,30 +1581,50 @@ export async function batchUpsertWorkShifts(
 }
 
 /**
- * 현재 사용자의 활성 템플릿 조회
- * GET /api/v1/shift-templates/current
+ * 근무 한 건의 변경 이력 조회
+ * GET /api/v1/work-shifts/:work_shift_id/history
  */
-export async function getCurrentTemplate(
+export async function getWorkShiftHistory(
   req: AuthenticatedRequest,
   res: Response
 ): Promise<void> {
   try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "요청 파라미터 오류",
+          details: errors.array(),
+        },
+      });
+      return;
+    }
+
     const user_id = req.user!.user_id;
+    const { work_shift_id } = req.params;
 
-    const result = await shiftTemplateService.getCurrentTemplate(user_id);
+    const histories = await workShiftHistoryService.getWorkShiftHistory(
+      user_id,
+      work_shift_id
+    );
 
     res.json({
       success: true,
-      data: result,
+      data: {
+        work_shift_id,
+        histories,
+      },
     });
   } catch (error: any) {
-    console.error("Get current template error:", error);
-    if (error.message === "TEMPLATE_NOT_FOUND") {
+    console.error("Get work shift history error:", error);
+    if (error.message === "WORK_SHIFT_NOT_FOUND") {
       res.status(404).json({
         success: false,
         error: {
-          code: "TEMPLATE_NOT_FOUND",
-          message: "활성 템플릿을 찾을 수 없습니다.",
+          code: "NOT_FOUND",
+          message: "근무표를 찾을 수 없습니다.",
         },
       });
       return;
@@ -952,10 +1640,10 @@ export async function getCurrentTemplate(
 }
 
 /**
- * 템플릿 이름 변경
- * PUT /api/v1/shift-templates/current
+ * 기간별 근무표 변경 이력 조회
+ * GET /api/v1/work-shifts/history?start_date=&end_date=&page=&limit=
  */
-export async function updateCurrentTemplate(
+export async function getWorkShiftHistoryFeed(
   req: AuthenticatedRequest,
   res: Response
 ): Promise<void> {
@@ -966,48 +1654,1356 @@ export async function updateCurrentTemplate(
         success: false,
         error: {
           code: "VALIDATION_ERROR",
-          message: "입력값 검증에 실패했습니다.",
+          message: "요청 파라미터 오류",
+          details: errors.array(),
         },
-        errors: errors.array(),
       });
       return;
     }
 
     const user_id = req.user!.user_id;
-    const { name } = req.body;
-
-    const result = await shiftTemplateService.updateTemplateName(user_id, name);
+    const start_date = req.query.start_date as string;
+    const end_date = req.query.end_date as string;
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 100);
 
-    res.json({
-      success: true,
-      data: {
-        template_id: result.template_id,
-        template_name: result.name,
-        updated_at: result.created_at, // 모델에 updated_at이 없어서 created_at 사용
-      },
-    });
+    // 날짜 형식 검증 (YYYY-MM-DD)
+    const date_regex = /^\d{4}-\d{2}-\d{2}$/;
+    if (!date_regex.test(start_date) || !date_regex.test(end_date)) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: "INVALID_DATE_RANGE",
+          message: "날짜 범위가 유효하지 않습니다. (YYYY-MM-DD 형식 필요)",
+        },
+      });
+      return;
+    }
+
+    if (start_date > end_date) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: "INVALID_DATE_RANGE",
+          message: "시작 날짜가 종료 날짜보다 늦을 수 없습니다.",
+        },
+      });
+      return;
+    }
+
+    if (diffDays(start_date, end_date) >= MAX_HISTORY_RANGE_DAYS) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: "DATE_RANGE_TOO_LARGE",
+          message: `최대 ${MAX_HISTORY_RANGE_DAYS}일까지 조회할 수 있습니다.`,
+        },
+      });
+      return;
+    }
+
+    const result = await workShiftHistoryService.getWorkShiftHistoryFeed(
+      user_id,
+      start_date,
+      end_date,
+      page,
+      limit
+    );
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  } catch (error: any) {
+    console.error("Get work shift history feed error:", error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "INTERNAL_SERVER_ERROR",
+        message: "서버 오류가 발생했습니다.",
+      },
+    });
+  }
+}
+
+/**
+ * 근무 변경 되돌리기 (해당 이력의 변경 전 상태로 복원)
+ * POST /api/v1/work-shifts/history/:history_id/revert
+ */
+export async function revertWorkShiftChange(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "요청 파라미터 오류",
+          details: errors.array(),
+        },
+      });
+      return;
+    }
+
+    const user_id = req.user!.user_id;
+    const { history_id } = req.params;
+
+    const result = await calendarService.revertWorkShiftChange(
+      user_id,
+      history_id
+    );
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  } catch (error: any) {
+    console.error("Revert work shift change error:", error);
+    if (
+      error.message === "HISTORY_NOT_FOUND" ||
+      error.message === "WORK_SHIFT_NOT_FOUND"
+    ) {
+      res.status(404).json({
+        success: false,
+        error: {
+          code: "NOT_FOUND",
+          message: "근무표 변경 이력을 찾을 수 없습니다.",
+        },
+      });
+      return;
+    }
+    if (error.message === "SHIFT_TYPE_NOT_FOUND") {
+      res.status(409).json({
+        success: false,
+        error: {
+          code: "SHIFT_TYPE_NOT_FOUND",
+          message: "삭제된 근무 타입으로는 되돌릴 수 없습니다.",
+        },
+      });
+      return;
+    }
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "INTERNAL_SERVER_ERROR",
+        message: "서버 오류가 발생했습니다.",
+      },
+    });
+  }
+}
+
+/**
+ * 기간별 근무 통계 (월/주 단위)
+ * GET /api/v1/work-shifts/statistics?start_date=&end_date=&group_by=month|week
+ */
+export async function getWorkShiftStatistics(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "요청 파라미터 오류",
+          details: errors.array(),
+        },
+      });
+      return;
+    }
+
+    const user_id = req.user!.user_id;
+    const start_date = req.query.start_date as string;
+    const end_date = req.query.end_date as string;
+    const group_by =
+      (req.query.group_by as shiftStatsService.StatsGroupBy) || "month";
+
+    // 날짜 형식 검증 (YYYY-MM-DD)
+    const date_regex = /^\d{4}-\d{2}-\d{2}$/;
+    if (!date_regex.test(start_date) || !date_regex.test(end_date)) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: "INVALID_DATE_RANGE",
+          message: "날짜 범위가 유효하지 않습니다. (YYYY-MM-DD 형식 필요)",
+        },
+      });
+      return;
+    }
+
+    if (start_date > end_date) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: "INVALID_DATE_RANGE",
+          message: "시작 날짜가 종료 날짜보다 늦을 수 없습니다.",
+        },
+      });
+      return;
+    }
+
+    if (
+      diffDays(start_date, end_date) >= shiftStatsService.MAX_STATS_RANGE_DAYS
+    ) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: "DATE_RANGE_TOO_LARGE",
+          message: `최대 ${shiftStatsService.MAX_STATS_RANGE_DAYS}일까지 조회할 수 있습니다.`,
+        },
+      });
+      return;
+    }
+
+    const statistics = await shiftStatsService.getShiftStatistics(
+      user_id,
+      start_date,
+      end_date,
+      group_by
+    );
+
+    res.json({
+      success: true,
+      data: {
+        start_date,
+        end_date,
+        ...statistics,
+      },
+    });
+  } catch (error: any) {
+    console.error("Get work shift statistics error:", error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "INTERNAL_SERVER_ERROR",
+        message: "서버 오류가 발생했습니다.",
+      },
+    });
+  }
+}
+
+/**
+ * 휴지통 조회 (최근 N일 이내 삭제된 근무표/일정)
+ * GET /api/v1/trash?days=
+ */
+export async function getTrash(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "요청 파라미터 오류",
+          details: errors.array(),
+        },
+      });
+      return;
+    }
+
+    const user_id = req.user!.user_id;
+    const days = req.query.days
+      ? parseInt(req.query.days as string, 10)
+      : trashService.TRASH_RETENTION_DAYS;
+
+    const result = await trashService.getTrash(user_id, days);
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  } catch (error: any) {
+    console.error("Get trash error:", error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "INTERNAL_SERVER_ERROR",
+        message: "서버 오류가 발생했습니다.",
+      },
+    });
+  }
+}
+
+/**
+ * 삭제된 근무표 복원
+ * POST /api/v1/trash/work-shifts/:work_shift_id/restore
+ */
+export async function restoreWorkShift(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "요청 파라미터 오류",
+          details: errors.array(),
+        },
+      });
+      return;
+    }
+
+    const user_id = req.user!.user_id;
+    const { work_shift_id } = req.params;
+    const overwrite = req.body?.overwrite === true;
+
+    const work_shift = await trashService.restoreWorkShift(
+      user_id,
+      work_shift_id,
+      overwrite
+    );
+
+    res.json({
+      success: true,
+      data: work_shift,
+    });
+  } catch (error: any) {
+    console.error("Restore work shift error:", error);
+    if (error.message === "WORK_SHIFT_NOT_FOUND") {
+      res.status(404).json({
+        success: false,
+        error: {
+          code: "NOT_FOUND",
+          message: "삭제된 근무표를 찾을 수 없습니다.",
+        },
+      });
+      return;
+    }
+    if (error.message === "WORK_SHIFT_DATE_CONFLICT") {
+      res.status(409).json({
+        success: false,
+        error: {
+          code: "WORK_SHIFT_DATE_CONFLICT",
+          message:
+            "같은 날짜에 이미 근무가 있습니다. 덮어쓰려면 overwrite를 true로 설정하세요.",
+          details: {
+            work_date: error.work_date,
+            existing_work_shift_id: error.existing_work_shift.work_shift_id,
+            existing_work_shift: error.existing_work_shift,
+          },
+        },
+      });
+      return;
+    }
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "INTERNAL_SERVER_ERROR",
+        message: "서버 오류가 발생했습니다.",
+      },
+    });
+  }
+}
+
+/**
+ * 삭제된 일정 복원
+ * POST /api/v1/trash/events/:event_id/restore
+ */
+export async function restoreEvent(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "요청 파라미터 오류",
+          details: errors.array(),
+        },
+      });
+      return;
+    }
+
+    const user_id = req.user!.user_id;
+    const { event_id } = req.params;
+
+    const event = await trashService.restoreEvent(user_id, event_id);
+
+    res.json({
+      success: true,
+      data: event,
+    });
+  } catch (error: any) {
+    console.error("Restore event error:", error);
+    if (error.message === "EVENT_NOT_FOUND") {
+      res.status(404).json({
+        success: false,
+        error: {
+          code: "NOT_FOUND",
+          message: "삭제된 일정을 찾을 수 없습니다.",
+        },
+      });
+      return;
+    }
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "INTERNAL_SERVER_ERROR",
+        message: "서버 오류가 발생했습니다.",
+      },
+    });
+  }
+}
+
+/**
+ * 현재 사용자의 활성 템플릿 조회
+ * GET /api/v1/shift-templates/current
+ */
+export async function getCurrentTemplate(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  try {
+    const user_id = req.user!.user_id;
+
+    const result = await shiftTemplateService.getCurrentTemplate(
+      user_id,
+      req.user!.timezone
+    );
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  } catch (error: any) {
+    console.error("Get current template error:", error);
+    if (error.message === "TEMPLATE_NOT_FOUND") {
+      res.status(404).json({
+        success: false,
+        error: {
+          code: "TEMPLATE_NOT_FOUND",
+          message: "활성 템플릿을 찾을 수 없습니다.",
+        },
+      });
+      return;
+    }
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "INTERNAL_SERVER_ERROR",
+        message: "서버 오류가 발생했습니다.",
+      },
+    });
+  }
+}
+
+/**
+ * 템플릿 이름 변경
+ * PUT /api/v1/shift-templates/current
+ */
+export async function updateCurrentTemplate(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "입력값 검증에 실패했습니다.",
+        },
+        errors: errors.array(),
+      });
+      return;
+    }
+
+    const user_id = req.user!.user_id;
+    const { name } = req.body;
+
+    const result = await shiftTemplateService.updateTemplateName(user_id, name);
+
+    res.json({
+      success: true,
+      data: {
+        template_id: result.template_id,
+        template_name: result.name,
+        updated_at: result.created_at, // 모델에 updated_at이 없어서 created_at 사용
+      },
+    });
+  } catch (error: any) {
+    console.error("Update current template error:", error);
+    if (error.message === "TEMPLATE_NOT_FOUND") {
+      res.status(404).json({
+        success: false,
+        error: {
+          code: "TEMPLATE_NOT_FOUND",
+          message: "활성 템플릿을 찾을 수 없습니다.",
+        },
+      });
+      return;
+    }
+    if (error.message === "DUPLICATE_NAME") {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: "DUPLICATE_NAME",
+          message: "이미 사용 중인 템플릿 이름입니다.",
+        },
+      });
+      return;
+    }
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "INTERNAL_SERVER_ERROR",
+        message: "서버 오류가 발생했습니다.",
+      },
+    });
+  }
+}
+
+/**
+ * 템플릿 관리 관련 에러 응답 (처리했으면 true)
+ */
+function handleTemplateError(res: Response, error: any): boolean {
+  const errors: Record<string, { status: number; message: string }> = {
+    TEMPLATE_NOT_FOUND: {
+      status: 404,
+      message: "템플릿을 찾을 수 없습니다.",
+    },
+    DUPLICATE_NAME: {
+      status: 400,
+      message: "이미 사용 중인 템플릿 이름입니다.",
+    },
+    INVALID_EFFECTIVE_FROM: {
+      status: 400,
+      message: "활성화 시작일은 오늘 이후여야 합니다.",
+    },
+    TEMPLATE_ARCHIVED: {
+      status: 409,
+      message: "보관된 템플릿은 활성화할 수 없습니다.",
+    },
+    TEMPLATE_IN_USE: {
+      status: 409,
+      message: "사용 중이거나 활성화가 예정된 템플릿은 보관할 수 없습니다.",
+    },
+    INVALID_TEMPLATE_DOCUMENT: {
+      status: 400,
+      message:
+        "템플릿 문서의 근무 타입 코드 또는 버전 적용일이 중복되었거나 없는 코드를 참조합니다.",
+    },
+    MAX_SHIFT_TYPES_EXCEEDED: {
+      status: 400,
+      message: "근무 타입은 템플릿당 최대 10개까지 추가할 수 있습니다.",
+    },
+  };
+
+  const error_info = errors[error.message];
+  if (!error_info) {
+    return false;
+  }
+
+  res.status(error_info.status).json({
+    success: false,
+    error: {
+      code: error.message,
+      message: error_info.message,
+    },
+  });
+  return true;
+}
+
+/**
+ * 템플릿 목록 조회
+ * GET /api/v1/shift-templates
+ */
+export async function getTemplates(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  try {
+    const user_id = req.user!.user_id;
+    const include_archived = req.query.include_archived === "true";
+
+    const result = await shiftTemplateService.getTemplates(
+      user_id,
+      include_archived,
+      req.user!.timezone
+    );
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  } catch (error: any) {
+    console.error("Get templates error:", error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "INTERNAL_SERVER_ERROR",
+        message: "서버 오류가 발생했습니다.",
+      },
+    });
+  }
+}
+
+/**
+ * 새 템플릿 생성 (기본 근무 타입 또는 기존 템플릿 복사)
+ * POST /api/v1/shift-templates
+ */
+export async function createTemplate(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "요청 파라미터 오류",
+          details: errors.array(),
+        },
+      });
+      return;
+    }
+
+    const user_id = req.user!.user_id;
+    const { name, source_template_id } = req.body;
+
+    const template = await shiftTemplateService.createTemplate(
+      user_id,
+      { name, source_template_id },
+      req.user!.timezone
+    );
+
+    res.status(201).json({
+      success: true,
+      data: template,
+    });
+  } catch (error: any) {
+    console.error("Create template error:", error);
+    if (handleTemplateError(res, error)) {
+      return;
+    }
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "INTERNAL_SERVER_ERROR",
+        message: "서버 오류가 발생했습니다.",
+      },
+    });
+  }
+}
+
+/**
+ * 특정 템플릿 이름 변경
+ * PUT /api/v1/shift-templates/:template_id
+ */
+export async function updateTemplate(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "요청 파라미터 오류",
+          details: errors.array(),
+        },
+      });
+      return;
+    }
+
+    const user_id = req.user!.user_id;
+    const { template_id } = req.params;
+    const { name } = req.body;
+
+    const result = await shiftTemplateService.updateTemplateName(
+      user_id,
+      name,
+      template_id
+    );
+
+    res.json({
+      success: true,
+      data: {
+        template_id: result.template_id,
+        template_name: result.name,
+      },
+    });
+  } catch (error: any) {
+    console.error("Update template error:", error);
+    if (handleTemplateError(res, error)) {
+      return;
+    }
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "INTERNAL_SERVER_ERROR",
+        message: "서버 오류가 발생했습니다.",
+      },
+    });
+  }
+}
+
+/**
+ * 템플릿 활성화 (지정한 날짜부터 적용)
+ * POST /api/v1/shift-templates/:template_id/activate
+ */
+export async function activateTemplate(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "요청 파라미터 오류",
+          details: errors.array(),
+        },
+      });
+      return;
+    }
+
+    const user_id = req.user!.user_id;
+    const { template_id } = req.params;
+    const { effective_from } = req.body;
+
+    const result = await shiftTemplateService.activateTemplate(
+      user_id,
+      template_id,
+      effective_from,
+      req.user!.timezone
+    );
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  } catch (error: any) {
+    console.error("Activate template error:", error);
+    if (handleTemplateError(res, error)) {
+      return;
+    }
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "INTERNAL_SERVER_ERROR",
+        message: "서버 오류가 발생했습니다.",
+      },
+    });
+  }
+}
+
+/**
+ * 템플릿 보관
+ * POST /api/v1/shift-templates/:template_id/archive
+ */
+export async function archiveTemplate(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "요청 파라미터 오류",
+          details: errors.array(),
+        },
+      });
+      return;
+    }
+
+    const user_id = req.user!.user_id;
+    const { template_id } = req.params;
+
+    const template = await shiftTemplateService.archiveTemplate(
+      user_id,
+      template_id,
+      req.user!.timezone
+    );
+
+    res.json({
+      success: true,
+      data: {
+        template_id: template.template_id,
+        archived_at: template.archived_at,
+      },
+    });
+  } catch (error: any) {
+    console.error("Archive template error:", error);
+    if (handleTemplateError(res, error)) {
+      return;
+    }
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "INTERNAL_SERVER_ERROR",
+        message: "서버 오류가 발생했습니다.",
+      },
+    });
+  }
+}
+
+/**
+ * 템플릿 보관 해제
+ * POST /api/v1/shift-templates/:template_id/unarchive
+ */
+export async function unarchiveTemplate(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "요청 파라미터 오류",
+          details: errors.array(),
+        },
+      });
+      return;
+    }
+
+    const user_id = req.user!.user_id;
+    const { template_id } = req.params;
+
+    const template = await shiftTemplateService.unarchiveTemplate(
+      user_id,
+      template_id
+    );
+
+    res.json({
+      success: true,
+      data: {
+        template_id: template.template_id,
+        archived_at: null,
+      },
+    });
+  } catch (error: any) {
+    console.error("Unarchive template error:", error);
+    if (handleTemplateError(res, error)) {
+      return;
+    }
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "INTERNAL_SERVER_ERROR",
+        message: "서버 오류가 발생했습니다.",
+      },
+    });
+  }
+}
+
+/**
+ * 템플릿 JSON 내보내기 (모든 버전 포함)
+ * GET /api/v1/shift-templates/:template_id/export
+ */
+export async function exportTemplateDocument(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "요청 파라미터 오류",
+          details: errors.array(),
+        },
+      });
+      return;
+    }
+
+    const user_id = req.user!.user_id;
+    const { template_id } = req.params;
+
+    const document = await templateDocumentService.exportTemplateDocument(
+      user_id,
+      template_id
+    );
+
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="shift-template-${template_id}.json"`
+    );
+    res.json(document);
+  } catch (error: any) {
+    console.error("Export template document error:", error);
+    if (handleTemplateError(res, error)) {
+      return;
+    }
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "INTERNAL_SERVER_ERROR",
+        message: "서버 오류가 발생했습니다.",
+      },
+    });
+  }
+}
+
+/**
+ * 템플릿 JSON 가져오기
+ * POST /api/v1/shift-templates/import
+ */
+export async function importTemplateDocument(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "요청 파라미터 오류",
+          details: errors.array(),
+        },
+      });
+      return;
+    }
+
+    const user_id = req.user!.user_id;
+    const { document, mode, name, template_id, conflict_resolution } =
+      req.body;
+
+    const result = await templateDocumentService.importTemplateDocument(
+      user_id,
+      document,
+      { mode, name, template_id, conflict_resolution },
+      req.user!.timezone
+    );
+
+    res.status(mode === "new" ? 201 : 200).json({
+      success: true,
+      data: result,
+    });
+  } catch (error: any) {
+    console.error("Import template document error:", error);
+    if (handleTemplateError(res, error)) {
+      return;
+    }
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "INTERNAL_SERVER_ERROR",
+        message: "서버 오류가 발생했습니다.",
+      },
+    });
+  }
+}
+
+/**
+ * 템플릿 버전 관련 에러 응답 (처리했으면 true)
+ */
+function handleTemplateVersionError(res: Response, error: any): boolean {
+  const errors: Record<string, { status: number; message: string }> = {
+    TEMPLATE_NOT_FOUND: {
+      status: 404,
+      message: "활성 템플릿을 찾을 수 없습니다.",
+    },
+    TEMPLATE_VERSION_NOT_FOUND: {
+      status: 404,
+      message: "템플릿 버전을 찾을 수 없습니다.",
+    },
+    SHIFT_TYPE_NOT_FOUND: {
+      status: 404,
+      message: "근무 타입을 찾을 수 없습니다.",
+    },
+    INVALID_EFFECTIVE_FROM: {
+      status: 400,
+      message: "새 버전의 적용 시작일은 오늘 이후여야 합니다.",
+    },
+    DUPLICATE_EFFECTIVE_FROM: {
+      status: 409,
+      message: "같은 날짜부터 적용되는 버전이 이미 있습니다.",
+    },
+    VERSION_IN_USE: {
+      status: 409,
+      message:
+        "지난 근무에 사용된 버전의 시간은 수정할 수 없습니다. 새 버전을 만들어 수정하세요.",
+    },
+  };
+
+  const error_info = errors[error.message];
+  if (!error_info) {
+    return false;
+  }
+
+  res.status(error_info.status).json({
+    success: false,
+    error: {
+      code: error.message,
+      message: error_info.message,
+    },
+  });
+  return true;
+}
+
+/**
+ * 활성 템플릿의 버전 타임라인 조회
+ * GET /api/v1/shift-templates/current/versions
+ */
+export async function getTemplateVersions(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  try {
+    const user_id = req.user!.user_id;
+    const versions = await shiftTemplateService.getTemplateVersions(
+      user_id,
+      req.user!.timezone
+    );
+
+    res.json({
+      success: true,
+      data: { versions },
+    });
+  } catch (error: any) {
+    console.error("Get template versions error:", error);
+    if (handleTemplateVersionError(res, error)) {
+      return;
+    }
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "INTERNAL_SERVER_ERROR",
+        message: "서버 오류가 발생했습니다.",
+      },
+    });
+  }
+}
+
+/**
+ * 새 템플릿 버전 생성 (미래 날짜부터 적용, 시간표 복사)
+ * POST /api/v1/shift-templates/current/versions
+ */
+export async function createTemplateVersion(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "요청 파라미터 오류",
+          details: errors.array(),
+        },
+      });
+      return;
+    }
+
+    const user_id = req.user!.user_id;
+    const { effective_from, source_version_id } = req.body;
+
+    const version = await shiftTemplateService.createTemplateVersion(
+      user_id,
+      { effective_from, source_version_id },
+      req.user!.timezone
+    );
+
+    res.status(201).json({
+      success: true,
+      data: version,
+    });
+  } catch (error: any) {
+    console.error("Create template version error:", error);
+    if (handleTemplateVersionError(res, error)) {
+      return;
+    }
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "INTERNAL_SERVER_ERROR",
+        message: "서버 오류가 발생했습니다.",
+      },
+    });
+  }
+}
+
+/**
+ * 특정 버전의 근무 타입 시간 수정
+ * PUT /api/v1/shift-templates/current/versions/:template_version_id/schedules/:shift_type_id
+ */
+export async function updateTemplateVersionSchedule(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "요청 파라미터 오류",
+          details: errors.array(),
+        },
+      });
+      return;
+    }
+
+    const user_id = req.user!.user_id;
+    const { template_version_id, shift_type_id } = req.params;
+    const { start_time, end_time } = req.body;
+
+    const schedule = await shiftTemplateService.updateTemplateVersionSchedule(
+      user_id,
+      template_version_id,
+      shift_type_id,
+      {
+        start_time: start_time || null,
+        end_time: end_time || null,
+      },
+      req.user!.timezone
+    );
+
+    res.json({
+      success: true,
+      data: schedule,
+    });
+  } catch (error: any) {
+    console.error("Update template version schedule error:", error);
+    if (handleTemplateVersionError(res, error)) {
+      return;
+    }
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "INTERNAL_SERVER_ERROR",
+        message: "서버 오류가 발생했습니다.",
+      },
+    });
+  }
+}
+
+/**
+ * 급여 규칙 관련 에러 응답 (처리했으면 true)
+ */
+function handlePayRuleError(res: Response, error: any): boolean {
+  const errors: Record<string, { status: number; message: string }> = {
+    TEMPLATE_NOT_FOUND: {
+      status: 404,
+      message: "활성 템플릿을 찾을 수 없습니다.",
+    },
+    PAY_RULE_NOT_FOUND: {
+      status: 404,
+      message: "급여 규칙이 설정되어 있지 않습니다.",
+    },
+    INVALID_NIGHT_WINDOW: {
+      status: 400,
+      message: "야간 시작 시각과 종료 시각은 같을 수 없습니다.",
+    },
+    INVALID_SHIFT_TYPE: {
+      status: 400,
+      message: "유효하지 않은 근무 타입 코드입니다.",
+    },
+  };
+
+  const error_info = errors[error.message];
+  if (!error_info) {
+    return false;
+  }
+
+  res.status(error_info.status).json({
+    success: false,
+    error: {
+      code: error.message,
+      message: error_info.message,
+      ...(error.invalid_codes && {
+        details: { invalid_codes: error.invalid_codes },
+      }),
+    },
+  });
+  return true;
+}
+
+/**
+ * 활성 템플릿의 급여 규칙 조회
+ * GET /api/v1/shift-templates/current/pay-rule
+ */
+export async function getPayRule(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  try {
+    const user_id = req.user!.user_id;
+    const pay_rule = await payService.getPayRule(user_id);
+
+    res.json({
+      success: true,
+      data: pay_rule,
+    });
+  } catch (error: any) {
+    console.error("Get pay rule error:", error);
+    if (handlePayRuleError(res, error)) {
+      return;
+    }
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "INTERNAL_SERVER_ERROR",
+        message: "서버 오류가 발생했습니다.",
+      },
+    });
+  }
+}
+
+/**
+ * 활성 템플릿의 급여 규칙 저장 (생성 또는 전체 교체)
+ * PUT /api/v1/shift-templates/current/pay-rule
+ */
+export async function savePayRule(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "요청 파라미터 오류",
+          details: errors.array(),
+        },
+      });
+      return;
+    }
+
+    const user_id = req.user!.user_id;
+    const {
+      base_hourly_wage,
+      night_start_time,
+      night_end_time,
+      night_multiplier,
+      holiday_multiplier,
+      holiday_weekdays,
+      shift_allowances,
+    } = req.body;
+
+    const pay_rule = await payService.savePayRule(user_id, {
+      base_hourly_wage,
+      night_start_time,
+      night_end_time,
+      night_multiplier,
+      holiday_multiplier,
+      holiday_weekdays,
+      shift_allowances,
+    });
+
+    res.json({
+      success: true,
+      data: pay_rule,
+    });
+  } catch (error: any) {
+    console.error("Save pay rule error:", error);
+    if (handlePayRuleError(res, error)) {
+      return;
+    }
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "INTERNAL_SERVER_ERROR",
+        message: "서버 오류가 발생했습니다.",
+      },
+    });
+  }
+}
+
+/**
+ * 활성 템플릿의 급여 규칙 삭제
+ * DELETE /api/v1/shift-templates/current/pay-rule
+ */
+export async function deletePayRule(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  try {
+    const user_id = req.user!.user_id;
+    await payService.deletePayRule(user_id);
+
+    res.json({
+      success: true,
+      message: "급여 규칙이 삭제되었습니다.",
+    });
   } catch (error: any) {
-    console.error("Update current template error:", error);
-    if (error.message === "TEMPLATE_NOT_FOUND") {
-      res.status(404).json({
-        success: false,
-        error: {
-          code: "TEMPLATE_NOT_FOUND",
-          message: "활성 템플릿을 찾을 수 없습니다.",
-        },
-      });
+    console.error("Delete pay rule error:", error);
+    if (handlePayRuleError(res, error)) {
       return;
     }
-    if (error.message === "DUPLICATE_NAME") {
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "INTERNAL_SERVER_ERROR",
+        message: "서버 오류가 발생했습니다.",
+      },
+    });
+  }
+}
+
+/**
+ * 월 예상 급여 조회
+ * GET /api/v1/work-shifts/pay-estimate?month=YYYY-MM
+ */
+export async function getPayEstimate(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
       res.status(400).json({
         success: false,
         error: {
-          code: "DUPLICATE_NAME",
-          message: "이미 사용 중인 템플릿 이름입니다.",
+          code: "VALIDATION_ERROR",
+          message: "요청 파라미터 오류",
+          details: errors.array(),
         },
       });
       return;
     }
+
+    const user_id = req.user!.user_id;
+    const month = req.query.month as string;
+
+    const estimate = await payService.getPayEstimate(user_id, month);
+
+    res.json({
+      success: true,
+      data: estimate,
+    });
+  } catch (error: any) {
+    console.error("Get pay estimate error:", error);
+    if (handlePayRuleError(res, error)) {
+      return;
+    }
     res.status(500).json({
       success: false,
       error: {
@@ -1041,9 +3037,18 @@ export async function createShiftType(
     }
 
     const user_id = req.user!.user_id;
-    const { code, name, color, start_time, end_time, sort_order } = req.body;
+    const {
+      template_id,
+      code,
+      name,
+      color,
+      start_time,
+      end_time,
+      sort_order,
+    } = req.body;
 
     const result = await shiftTemplateService.createShiftType(user_id, {
+      template_id: template_id ?? null,
       code,
       name,
       color: color ?? null,
@@ -1135,7 +3140,8 @@ export async function updateShiftType(
         start_time: start_time !== undefined ? start_time : undefined,
         end_time: end_time !== undefined ? end_time : undefined,
         sort_order: sort_order !== undefined ? sort_order : undefined,
-      }
+      },
+      req.user!.timezone
     );
 
     res.json({
@@ -1246,3 +3252,304 @@ export async function deleteShiftType(
     });
   }
 }
+
+/**
+ * 근무 패턴 에러 응답
+ */
+function handleShiftPatternError(res: Response, error: any): boolean {
+  const errors: Record<string, { status: number; message: string }> = {
+    TEMPLATE_NOT_FOUND: {
+      status: 404,
+      message: "활성 템플릿을 찾을 수 없습니다.",
+    },
+    TEMPLATE_VERSION_NOT_FOUND: {
+      status: 404,
+      message: "해당 날짜에 유효한 템플릿 버전이 없습니다.",
+    },
+    PATTERN_NOT_FOUND: {
+      status: 404,
+      message: "근무 패턴을 찾을 수 없습니다.",
+    },
+    DUPLICATE_NAME: {
+      status: 400,
+      message: "이미 사용 중인 패턴 이름입니다.",
+    },
+    INVALID_PATTERN_LENGTH: {
+      status: 400,
+      message: "패턴은 1~62개의 근무 타입으로 구성되어야 합니다.",
+    },
+    INVALID_SHIFT_TYPE: {
+      status: 400,
+      message: "유효하지 않은 근무 타입 코드입니다.",
+    },
+    PATTERN_SHIFT_TYPE_DELETED: {
+      status: 409,
+      message: "패턴에 삭제된 근무 타입이 포함되어 있습니다. 패턴을 수정해주세요.",
+    },
+    INVALID_DATE_RANGE: {
+      status: 400,
+      message: "적용 기간이 올바르지 않습니다. (end_date 또는 days 필요)",
+    },
+    DATE_RANGE_TOO_LARGE: {
+      status: 400,
+      message: "패턴은 최대 366일까지 적용할 수 있습니다.",
+    },
+    INVALID_START_INDEX: {
+      status: 400,
+      message: "시작 위치가 패턴 길이를 벗어났습니다.",
+    },
+  };
+
+  const error_info = errors[error.message];
+  if (!error_info) {
+    return false;
+  }
+
+  res.status(error_info.status).json({
+    success: false,
+    error: {
+      code: error.message,
+      message: error_info.message,
+      ...(error.invalid_codes && {
+        details: { invalid_codes: error.invalid_codes },
+      }),
+    },
+  });
+  return true;
+}
+
+/**
+ * 근무 패턴 목록 조회
+ * GET /api/v1/shift-patterns
+ */
+export async function getShiftPatterns(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  try {
+    const user_id = req.user!.user_id;
+    const patterns = await shiftPatternService.getPatterns(user_id);
+
+    res.json({
+      success: true,
+      data: { patterns },
+    });
+  } catch (error: any) {
+    console.error("Get shift patterns error:", error);
+    if (handleShiftPatternError(res, error)) {
+      return;
+    }
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "INTERNAL_SERVER_ERROR",
+        message: "서버 오류가 발생했습니다.",
+      },
+    });
+  }
+}
+
+/**
+ * 근무 패턴 생성
+ * POST /api/v1/shift-patterns
+ */
+export async function createShiftPattern(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "입력값 검증에 실패했습니다.",
+        },
+        errors: errors.array(),
+      });
+      return;
+    }
+
+    const user_id = req.user!.user_id;
+    const { name, shift_type_codes } = req.body;
+
+    const pattern = await shiftPatternService.createPattern(user_id, {
+      name,
+      shift_type_codes,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: { pattern },
+    });
+  } catch (error: any) {
+    console.error("Create shift pattern error:", error);
+    if (handleShiftPatternError(res, error)) {
+      return;
+    }
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "INTERNAL_SERVER_ERROR",
+        message: "서버 오류가 발생했습니다.",
+      },
+    });
+  }
+}
+
+/**
+ * 근무 패턴 수정
+ * PUT /api/v1/shift-patterns/:pattern_id
+ */
+export async function updateShiftPattern(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "입력값 검증에 실패했습니다.",
+        },
+        errors: errors.array(),
+      });
+      return;
+    }
+
+    const user_id = req.user!.user_id;
+    const { pattern_id } = req.params;
+    const { name, shift_type_codes } = req.body;
+
+    const pattern = await shiftPatternService.updatePattern(
+      user_id,
+      pattern_id,
+      { name, shift_type_codes }
+    );
+
+    res.json({
+      success: true,
+      data: { pattern },
+    });
+  } catch (error: any) {
+    console.error("Update shift pattern error:", error);
+    if (handleShiftPatternError(res, error)) {
+      return;
+    }
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "INTERNAL_SERVER_ERROR",
+        message: "서버 오류가 발생했습니다.",
+      },
+    });
+  }
+}
+
+/**
+ * 근무 패턴 삭제
+ * DELETE /api/v1/shift-patterns/:pattern_id
+ */
+export async function deleteShiftPattern(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "입력값 검증에 실패했습니다.",
+        },
+        errors: errors.array(),
+      });
+      return;
+    }
+
+    const user_id = req.user!.user_id;
+    const { pattern_id } = req.params;
+
+    await shiftPatternService.deletePattern(user_id, pattern_id);
+
+    res.json({
+      success: true,
+      data: null,
+    });
+  } catch (error: any) {
+    console.error("Delete shift pattern error:", error);
+    if (handleShiftPatternError(res, error)) {
+      return;
+    }
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "INTERNAL_SERVER_ERROR",
+        message: "서버 오류가 발생했습니다.",
+      },
+    });
+  }
+}
+
+/**
+ * 근무 패턴 적용
+ * POST /api/v1/shift-patterns/:pattern_id/apply
+ */
+export async function applyShiftPattern(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "입력값 검증에 실패했습니다.",
+        },
+        errors: errors.array(),
+      });
+      return;
+    }
+
+    const user_id = req.user!.user_id;
+    const { pattern_id } = req.params;
+    const { start_date, end_date, days, start_index, on_existing, dry_run } =
+      req.body;
+
+    const result = await shiftPatternService.applyPattern(user_id, pattern_id, {
+      start_date,
+      end_date,
+      days,
+      start_index,
+      on_existing,
+      dry_run,
+    });
+
+    res.json({
+      success: true,
+      data: {
+        dry_run: Boolean(dry_run),
+        preview: result.preview,
+        work_shifts: result.work_shifts,
+      },
+    });
+  } catch (error: any) {
+    console.error("Apply shift pattern error:", error);
+    if (handleShiftPatternError(res, error)) {
+      return;
+    }
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "INTERNAL_SERVER_ERROR",
+        message: "서버 오류가 발생했습니다.",
+      },
+    });
+  }
+}
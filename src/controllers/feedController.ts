@@ -0,0 +1,205 @@
+import { Request, Response } from "express";
+import { validationResult } from "express-validator";
+import { User } from "../models";
+import * as feedService from "../services/feedService";
+import { FeedErrorCodes } from "../services/feedService";
+
+// Express Request에 user 속성 추가 타입
+interface AuthenticatedRequest extends Request {
+  user?: User;
+}
+
+// ============================================================
+// 에러 응답 매핑
+// ============================================================
+const ErrorMessages: Record<string, { status: number; message: string }> = {
+  [FeedErrorCodes.FEED_NOT_FOUND]: {
+    status: 404,
+    message: "구독 피드를 찾을 수 없습니다.",
+  },
+  [FeedErrorCodes.INVALID_SCOPE]: {
+    status: 400,
+    message: "피드 범위는 SHIFTS_ONLY 또는 SHIFTS_AND_EVENTS여야 합니다.",
+  },
+  [FeedErrorCodes.INVALID_VISIBILITY_LEVEL]: {
+    status: 400,
+    message: "공개 레벨은 0~5 사이여야 합니다.",
+  },
+};
+
+/**
+ * 에러 응답 헬퍼 함수
+ */
+function handleError(res: Response, error: unknown): void {
+  const error_code = error instanceof Error ? error.message : "UNKNOWN_ERROR";
+  const error_info = ErrorMessages[error_code];
+
+  if (error_info) {
+    res.status(error_info.status).json({
+      success: false,
+      error: {
+        code: error_code,
+        message: error_info.message,
+      },
+    });
+  } else {
+    console.error("Feed controller error:", error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "INTERNAL_SERVER_ERROR",
+        message: "서버 오류가 발생했습니다.",
+      },
+    });
+  }
+}
+
+function sendValidationError(req: Request, res: Response): boolean {
+  const errors = validationResult(req);
+  if (errors.isEmpty()) {
+    return false;
+  }
+  res.status(400).json({
+    success: false,
+    error: {
+      code: "VALIDATION_ERROR",
+      message: "입력값 검증에 실패했습니다.",
+    },
+    errors: errors.array(),
+  });
+  return true;
+}
+
+/**
+ * 구독 URL 생성 (PUBLIC_BASE_URL이 없으면 요청 호스트 기준)
+ */
+function buildFeedUrl(req: Request, token: string): string {
+  const base_url =
+    process.env.PUBLIC_BASE_URL || `${req.protocol}://${req.get("host")}`;
+  return `${base_url.replace(/\/+$/, "")}/api/v1/feeds/${token}.ics`;
+}
+
+// ============================================================
+// 구독 피드 설정 조회
+// GET /api/v1/feeds/me
+// ============================================================
+export async function getFeed(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  try {
+    const user_id = req.user!.user_id;
+
+    const feed = await feedService.getFeed(user_id);
+
+    res.json({
+      success: true,
+      data: { feed },
+    });
+  } catch (error) {
+    handleError(res, error);
+  }
+}
+
+// ============================================================
+// 구독 피드 토큰 발급 (재발급)
+// POST /api/v1/feeds/me
+// ============================================================
+export async function issueFeedToken(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  try {
+    if (sendValidationError(req, res)) {
+      return;
+    }
+
+    const user_id = req.user!.user_id;
+    const { scope, max_visibility_level } = req.body;
+
+    const result = await feedService.issueFeedToken(user_id, {
+      scope,
+      max_visibility_level,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: {
+        feed: {
+          ...result,
+          feed_url: buildFeedUrl(req, result.token),
+        },
+      },
+    });
+  } catch (error) {
+    handleError(res, error);
+  }
+}
+
+// ============================================================
+// 구독 피드 설정 변경
+// PUT /api/v1/feeds/me
+// ============================================================
+export async function updateFeedSettings(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  try {
+    if (sendValidationError(req, res)) {
+      return;
+    }
+
+    const user_id = req.user!.user_id;
+    const { scope, max_visibility_level } = req.body;
+
+    const feed = await feedService.updateFeedSettings(user_id, {
+      scope,
+      max_visibility_level,
+    });
+
+    res.json({
+      success: true,
+      data: { feed },
+    });
+  } catch (error) {
+    handleError(res, error);
+  }
+}
+
+// ============================================================
+// 구독 피드 폐기
+// DELETE /api/v1/feeds/me
+// ============================================================
+export async function revokeFeed(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  try {
+    const user_id = req.user!.user_id;
+
+    await feedService.revokeFeed(user_id);
+
+    res.json({
+      success: true,
+      message: "구독 피드가 폐기되었습니다.",
+    });
+  } catch (error) {
+    handleError(res, error);
+  }
+}
+
+// ============================================================
+// iCalendar 구독 피드 (인증 없음, 토큰으로 접근)
+// GET /api/v1/feeds/:token.ics
+// ============================================================
+export async function getFeedIcs(req: Request, res: Response): Promise<void> {
+  try {
+    const ics = await feedService.renderFeed(req.params.token);
+
+    res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+    res.setHeader("Cache-Control", "private, max-age=900");
+    res.send(ics);
+  } catch (error) {
+    handleError(res, error);
+  }
+}
@@ -2,6 +2,7 @@ import { Request, Response } from "express";
 import { validationResult } from "express-validator";
 import * as friendService from "../services/friendService";
 import { FriendErrorCodes } from "../services/friendService";
+import * as friendCalendarService from "../services/friendCalendarService";
 
 // 인증된 요청 타입
 interface AuthenticatedRequest extends Request {
@@ -64,6 +65,14 @@ const ErrorMessages: Record<string, { status: number; message: string }> = {
     status: 400,
     message: "올바른 이메일 또는 전화번호를 입력해주세요.",
   },
+  [FriendErrorCodes.CALENDAR_NOT_SHARED]: {
+    status: 403,
+    message: "친구가 캘린더 열람을 허용하지 않았습니다.",
+  },
+  [FriendErrorCodes.INVALID_TIME_RANGE]: {
+    status: 400,
+    message: "검색 기간 또는 시간대가 올바르지 않습니다.",
+  },
 };
 
 /**
@@ -393,6 +402,166 @@ export async function updateFriendSettings(
   }
 }
 
+// ============================================================
+// 친구 캘린더 기간 조회
+// GET /api/v1/friends/:friend_user_id/calendar/range
+// ============================================================
+export async function getFriendCalendarRange(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "입력값 검증에 실패했습니다.",
+        },
+        errors: errors.array(),
+      });
+      return;
+    }
+
+    const user_id = req.user!.user_id;
+    const { friend_user_id } = req.params;
+    const start_date = req.query.start_date as string;
+    const end_date = req.query.end_date as string;
+
+    if (start_date > end_date) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: "INVALID_DATE_RANGE",
+          message: "시작 날짜가 종료 날짜보다 늦을 수 없습니다.",
+        },
+      });
+      return;
+    }
+
+    const result = await friendService.getFriendCalendarRange(
+      user_id,
+      friend_user_id,
+      start_date,
+      end_date
+    );
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    handleError(res, error);
+  }
+}
+
+// ============================================================
+// 친구 캘린더 겹쳐보기
+// GET /api/v1/friends/calendar/overlay
+// ============================================================
+export async function getCalendarOverlay(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "입력값 검증에 실패했습니다.",
+        },
+        errors: errors.array(),
+      });
+      return;
+    }
+
+    const user_id = req.user!.user_id;
+    const friend_user_ids = req.query.friend_user_ids as string[];
+    const start_date = req.query.start_date as string;
+    const end_date = req.query.end_date as string;
+
+    if (start_date > end_date) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: "INVALID_DATE_RANGE",
+          message: "시작 날짜가 종료 날짜보다 늦을 수 없습니다.",
+        },
+      });
+      return;
+    }
+
+    const result = await friendCalendarService.getCalendarOverlay(
+      user_id,
+      friend_user_ids,
+      start_date,
+      end_date
+    );
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    handleError(res, error);
+  }
+}
+
+// ============================================================
+// 친구들과 공통 빈 시간 찾기
+// GET /api/v1/friends/calendar/free-time
+// ============================================================
+export async function findCommonFreeTime(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "입력값 검증에 실패했습니다.",
+        },
+        errors: errors.array(),
+      });
+      return;
+    }
+
+    const user_id = req.user!.user_id;
+    const { start_date, end_date, day_start, day_end } = req.query as Record<
+      string,
+      string | undefined
+    >;
+
+    const result = await friendCalendarService.findCommonFreeTime(
+      user_id,
+      req.query.friend_user_ids as string[],
+      {
+        start_date,
+        end_date,
+        day_start,
+        day_end,
+        min_duration_minutes: req.query.min_duration_minutes
+          ? Number(req.query.min_duration_minutes)
+          : undefined,
+        limit: req.query.limit ? Number(req.query.limit) : undefined,
+      }
+    );
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    handleError(res, error);
+  }
+}
+
 // ============================================================
 // 친구 삭제
 // DELETE /api/v1/friends/:friend_user_id
@@ -0,0 +1,167 @@
+import { Request, Response } from "express";
+import { validationResult } from "express-validator";
+import * as holidayService from "../services/holidayService";
+import { HolidayErrorCodes } from "../services/holidayService";
+
+// ============================================================
+// 에러 응답 매핑
+// ============================================================
+const ErrorMessages: Record<string, { status: number; message: string }> = {
+  [HolidayErrorCodes.DUPLICATE_DATE]: {
+    status: 400,
+    message: "같은 날짜를 중복해서 등록할 수 없습니다.",
+  },
+  [HolidayErrorCodes.HOLIDAY_OVERRIDE_NOT_FOUND]: {
+    status: 404,
+    message: "공휴일 재정의를 찾을 수 없습니다.",
+  },
+  [HolidayErrorCodes.INVALID_DATE_RANGE]: {
+    status: 400,
+    message: "조회 기간이 올바르지 않습니다. (최대 2년)",
+  },
+};
+
+/**
+ * 에러 응답 헬퍼 함수
+ */
+function handleError(res: Response, error: unknown): void {
+  const error_code = error instanceof Error ? error.message : "UNKNOWN_ERROR";
+  const error_info = ErrorMessages[error_code];
+
+  if (error_info) {
+    res.status(error_info.status).json({
+      success: false,
+      error: {
+        code: error_code,
+        message: error_info.message,
+      },
+    });
+  } else {
+    console.error("Holiday controller error:", error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "INTERNAL_SERVER_ERROR",
+        message: "서버 오류가 발생했습니다.",
+      },
+    });
+  }
+}
+
+function sendValidationError(req: Request, res: Response): boolean {
+  const errors = validationResult(req);
+  if (errors.isEmpty()) {
+    return false;
+  }
+  res.status(400).json({
+    success: false,
+    error: {
+      code: "VALIDATION_ERROR",
+      message: "입력값 검증에 실패했습니다.",
+    },
+    errors: errors.array(),
+  });
+  return true;
+}
+
+// ============================================================
+// 공휴일 목록 조회
+// GET /api/v1/holidays?start_date=&end_date=
+// ============================================================
+export async function getHolidays(req: Request, res: Response): Promise<void> {
+  try {
+    if (sendValidationError(req, res)) {
+      return;
+    }
+
+    const start_date = req.query.start_date as string;
+    const end_date = req.query.end_date as string;
+
+    const result = await holidayService.listHolidays(start_date, end_date);
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    handleError(res, error);
+  }
+}
+
+// ============================================================
+// 공휴일 재정의 목록 조회 (관리자)
+// GET /api/v1/holidays/overrides?year=
+// ============================================================
+export async function getHolidayOverrides(
+  req: Request,
+  res: Response
+): Promise<void> {
+  try {
+    if (sendValidationError(req, res)) {
+      return;
+    }
+
+    const year = req.query.year
+      ? parseInt(req.query.year as string, 10)
+      : undefined;
+    const overrides = await holidayService.getHolidayOverrides(year);
+
+    res.json({
+      success: true,
+      data: { overrides },
+    });
+  } catch (error) {
+    handleError(res, error);
+  }
+}
+
+// ============================================================
+// 공휴일 재정의 일괄 등록 (관리자)
+// PUT /api/v1/holidays/overrides
+// ============================================================
+export async function saveHolidayOverrides(
+  req: Request,
+  res: Response
+): Promise<void> {
+  try {
+    if (sendValidationError(req, res)) {
+      return;
+    }
+
+    const overrides = await holidayService.saveHolidayOverrides(
+      req.body.overrides
+    );
+
+    res.json({
+      success: true,
+      data: { overrides },
+      message: "공휴일 재정의를 저장했습니다.",
+    });
+  } catch (error) {
+    handleError(res, error);
+  }
+}
+
+// ============================================================
+// 공휴일 재정의 삭제 (관리자)
+// DELETE /api/v1/holidays/overrides/:date
+// ============================================================
+export async function deleteHolidayOverride(
+  req: Request,
+  res: Response
+): Promise<void> {
+  try {
+    if (sendValidationError(req, res)) {
+      return;
+    }
+
+    await holidayService.deleteHolidayOverride(req.params.date);
+
+    res.json({
+      success: true,
+      message: "공휴일 재정의를 삭제했습니다.",
+    });
+  } catch (error) {
+    handleError(res, error);
+  }
+}
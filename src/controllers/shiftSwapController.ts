@@ -0,0 +1,290 @@
+import { Request, Response } from "express";
+import { validationResult } from "express-validator";
+import * as shiftSwapService from "../services/shiftSwapService";
+import { ShiftSwapErrorCodes } from "../services/shiftSwapService";
+
+// 인증된 요청 타입
+interface AuthenticatedRequest extends Request {
+  user?: {
+    user_id: string;
+    email: string;
+    name: string;
+  };
+}
+
+// ============================================================
+// 에러 응답 매핑
+// ============================================================
+const ErrorMessages: Record<string, { status: number; message: string }> = {
+  [ShiftSwapErrorCodes.SELF_REQUEST]: {
+    status: 400,
+    message: "자기 자신에게 근무 교환을 요청할 수 없습니다.",
+  },
+  [ShiftSwapErrorCodes.NOT_FRIENDS]: {
+    status: 400,
+    message: "친구 관계가 아닙니다.",
+  },
+  [ShiftSwapErrorCodes.USER_NOT_FOUND]: {
+    status: 404,
+    message: "해당 사용자를 찾을 수 없습니다.",
+  },
+  [ShiftSwapErrorCodes.SHIFT_NOT_FOUND]: {
+    status: 404,
+    message: "교환할 근무를 찾을 수 없습니다.",
+  },
+  [ShiftSwapErrorCodes.SHIFT_TYPE_NOT_IN_TEMPLATE]: {
+    status: 400,
+    message: "상대방 근무 템플릿에 없는 근무 타입은 교환할 수 없습니다.",
+  },
+  [ShiftSwapErrorCodes.SHIFT_CHANGED]: {
+    status: 409,
+    message: "요청 이후 근무가 변경되어 교환할 수 없습니다.",
+  },
+  [ShiftSwapErrorCodes.PENDING_REQUEST_EXISTS]: {
+    status: 400,
+    message: "이미 대기 중인 요청이 있습니다.",
+  },
+  [ShiftSwapErrorCodes.REQUEST_NOT_FOUND]: {
+    status: 404,
+    message: "근무 교환 요청을 찾을 수 없습니다.",
+  },
+  [ShiftSwapErrorCodes.NOT_ADDRESSEE]: {
+    status: 403,
+    message: "이 요청에 응답할 권한이 없습니다.",
+  },
+  [ShiftSwapErrorCodes.NOT_REQUESTER]: {
+    status: 403,
+    message: "이 요청을 취소할 권한이 없습니다.",
+  },
+  [ShiftSwapErrorCodes.NOT_PENDING]: {
+    status: 400,
+    message: "이미 처리된 요청입니다.",
+  },
+  [ShiftSwapErrorCodes.INVALID_ACTION]: {
+    status: 400,
+    message: "올바른 응답을 선택해주세요.",
+  },
+};
+
+/**
+ * 에러 응답 헬퍼 함수
+ */
+function handleError(res: Response, error: unknown): void {
+  const error_code = error instanceof Error ? error.message : "UNKNOWN_ERROR";
+  const error_info = ErrorMessages[error_code];
+
+  if (error_info) {
+    res.status(error_info.status).json({
+      success: false,
+      error: {
+        code: error_code,
+        message: error_info.message,
+      },
+    });
+  } else {
+    console.error("Shift swap controller error:", error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "INTERNAL_SERVER_ERROR",
+        message: "서버 오류가 발생했습니다.",
+      },
+    });
+  }
+}
+
+/**
+ * 입력값 검증 실패 응답 (실패 시 true)
+ */
+function respondValidationError(
+  req: AuthenticatedRequest,
+  res: Response
+): boolean {
+  const errors = validationResult(req);
+  if (errors.isEmpty()) {
+    return false;
+  }
+
+  res.status(400).json({
+    success: false,
+    error: {
+      code: "VALIDATION_ERROR",
+      message: "입력값 검증에 실패했습니다.",
+    },
+    errors: errors.array(),
+  });
+  return true;
+}
+
+// ============================================================
+// 근무 교환 요청 보내기
+// POST /api/v1/shift-swaps
+// ============================================================
+export async function sendSwapRequest(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  try {
+    if (respondValidationError(req, res)) {
+      return;
+    }
+
+    const requester_user_id = req.user!.user_id;
+    const { addressee_user_id, requester_date, addressee_date, message } =
+      req.body;
+
+    const result = await shiftSwapService.sendSwapRequest(requester_user_id, {
+      addressee_user_id,
+      requester_date,
+      addressee_date,
+      message,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: result,
+      message: "근무 교환 요청을 보냈습니다.",
+    });
+  } catch (error) {
+    handleError(res, error);
+  }
+}
+
+// ============================================================
+// 받은 근무 교환 요청 목록 조회
+// GET /api/v1/shift-swaps/received
+// ============================================================
+export async function getReceivedSwapRequests(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  try {
+    if (respondValidationError(req, res)) {
+      return;
+    }
+
+    const user_id = req.user!.user_id;
+    const status = req.query.status as string | undefined;
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+
+    const result = await shiftSwapService.getSwapRequests(
+      user_id,
+      "received",
+      status,
+      page,
+      limit
+    );
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    handleError(res, error);
+  }
+}
+
+// ============================================================
+// 보낸 근무 교환 요청 목록 조회
+// GET /api/v1/shift-swaps/sent
+// ============================================================
+export async function getSentSwapRequests(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  try {
+    if (respondValidationError(req, res)) {
+      return;
+    }
+
+    const user_id = req.user!.user_id;
+    const status = req.query.status as string | undefined;
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+
+    const result = await shiftSwapService.getSwapRequests(
+      user_id,
+      "sent",
+      status,
+      page,
+      limit
+    );
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    handleError(res, error);
+  }
+}
+
+// ============================================================
+// 근무 교환 요청 응답 (수락/거절)
+// PUT /api/v1/shift-swaps/:swap_request_id/respond
+// ============================================================
+export async function respondToSwapRequest(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  try {
+    if (respondValidationError(req, res)) {
+      return;
+    }
+
+    const user_id = req.user!.user_id;
+    const { swap_request_id } = req.params;
+    const { action } = req.body;
+
+    const result = await shiftSwapService.respondToSwapRequest(
+      user_id,
+      swap_request_id,
+      action
+    );
+
+    const message =
+      action === "accept"
+        ? "근무 교환을 수락했습니다."
+        : "근무 교환을 거절했습니다.";
+
+    res.json({
+      success: true,
+      data: result,
+      message,
+    });
+  } catch (error) {
+    handleError(res, error);
+  }
+}
+
+// ============================================================
+// 근무 교환 요청 취소
+// PUT /api/v1/shift-swaps/:swap_request_id/cancel
+// ============================================================
+export async function cancelSwapRequest(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  try {
+    if (respondValidationError(req, res)) {
+      return;
+    }
+
+    const user_id = req.user!.user_id;
+    const { swap_request_id } = req.params;
+
+    const result = await shiftSwapService.cancelSwapRequest(
+      user_id,
+      swap_request_id
+    );
+
+    res.json({
+      success: true,
+      data: { request: result },
+      message: "근무 교환 요청을 취소했습니다.",
+    });
+  } catch (error) {
+    handleError(res, error);
+  }
+}
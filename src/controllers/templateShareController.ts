@@ -0,0 +1,277 @@
+import { Request, Response } from "express";
+import { validationResult } from "express-validator";
+import { User } from "../models";
+import * as templateShareService from "../services/templateShareService";
+import { TemplateShareErrorCodes } from "../services/templateShareService";
+
+// 인증된 요청 타입
+interface AuthenticatedRequest extends Request {
+  user?: User;
+}
+
+// ============================================================
+// 에러 응답 매핑
+// ============================================================
+const ErrorMessages: Record<string, { status: number; message: string }> = {
+  [TemplateShareErrorCodes.TEMPLATE_NOT_FOUND]: {
+    status: 404,
+    message: "템플릿을 찾을 수 없습니다.",
+  },
+  [TemplateShareErrorCodes.USER_NOT_FOUND]: {
+    status: 404,
+    message: "해당 사용자를 찾을 수 없습니다.",
+  },
+  [TemplateShareErrorCodes.SELF_SHARE]: {
+    status: 400,
+    message: "자기 자신에게 템플릿을 보낼 수 없습니다.",
+  },
+  [TemplateShareErrorCodes.NOT_FRIENDS]: {
+    status: 400,
+    message: "친구 관계가 아닙니다.",
+  },
+  [TemplateShareErrorCodes.SHARE_NOT_FOUND]: {
+    status: 404,
+    message: "공유된 템플릿을 찾을 수 없습니다.",
+  },
+  [TemplateShareErrorCodes.SHARE_EXPIRED]: {
+    status: 410,
+    message: "만료된 공유 코드입니다.",
+  },
+  [TemplateShareErrorCodes.NOT_RECIPIENT]: {
+    status: 403,
+    message: "이 공유를 받을 권한이 없습니다.",
+  },
+  [TemplateShareErrorCodes.NOT_OWNER]: {
+    status: 403,
+    message: "이 공유를 취소할 권한이 없습니다.",
+  },
+  [TemplateShareErrorCodes.DUPLICATE_NAME]: {
+    status: 400,
+    message: "이미 사용 중인 템플릿 이름입니다.",
+  },
+  [TemplateShareErrorCodes.MAX_SHIFT_TYPES_EXCEEDED]: {
+    status: 400,
+    message: "근무 타입은 템플릿당 최대 10개까지 추가할 수 있습니다.",
+  },
+};
+
+/**
+ * 에러 응답 헬퍼 함수
+ */
+function handleError(res: Response, error: unknown): void {
+  const error_code = error instanceof Error ? error.message : "UNKNOWN_ERROR";
+  const error_info = ErrorMessages[error_code];
+
+  if (error_info) {
+    res.status(error_info.status).json({
+      success: false,
+      error: {
+        code: error_code,
+        message: error_info.message,
+      },
+    });
+  } else {
+    console.error("Template share controller error:", error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "INTERNAL_SERVER_ERROR",
+        message: "서버 오류가 발생했습니다.",
+      },
+    });
+  }
+}
+
+/**
+ * 입력값 검증 실패 응답 (실패 시 true)
+ */
+function respondValidationError(
+  req: AuthenticatedRequest,
+  res: Response
+): boolean {
+  const errors = validationResult(req);
+  if (errors.isEmpty()) {
+    return false;
+  }
+
+  res.status(400).json({
+    success: false,
+    error: {
+      code: "VALIDATION_ERROR",
+      message: "입력값 검증에 실패했습니다.",
+    },
+    errors: errors.array(),
+  });
+  return true;
+}
+
+// ============================================================
+// 템플릿 공유 코드 발급
+// POST /api/v1/shift-templates/:template_id/shares
+// ============================================================
+export async function createTemplateShare(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  try {
+    if (respondValidationError(req, res)) {
+      return;
+    }
+
+    const user_id = req.user!.user_id;
+    const { template_id } = req.params;
+    const { recipient_user_id } = req.body;
+
+    const result = await templateShareService.createTemplateShare(
+      user_id,
+      template_id,
+      { recipient_user_id },
+      req.user!.timezone
+    );
+
+    res.status(201).json({
+      success: true,
+      data: { share: result },
+      message: recipient_user_id
+        ? "친구에게 템플릿을 보냈습니다."
+        : "공유 코드가 발급되었습니다.",
+    });
+  } catch (error) {
+    handleError(res, error);
+  }
+}
+
+// ============================================================
+// 템플릿 공유 목록 조회
+// GET /api/v1/shift-template-shares
+// ============================================================
+export async function getTemplateShares(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  try {
+    if (respondValidationError(req, res)) {
+      return;
+    }
+
+    const user_id = req.user!.user_id;
+    const direction =
+      (req.query.type as "sent" | "received" | undefined) ?? "received";
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+
+    const result = await templateShareService.getTemplateShares(
+      user_id,
+      direction,
+      page,
+      limit
+    );
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    handleError(res, error);
+  }
+}
+
+// ============================================================
+// 공유된 템플릿 미리보기
+// GET /api/v1/shift-template-shares/:share_code
+// ============================================================
+export async function getTemplateShare(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  try {
+    if (respondValidationError(req, res)) {
+      return;
+    }
+
+    const user_id = req.user!.user_id;
+    const { share_code } = req.params;
+
+    const result = await templateShareService.getTemplateShare(
+      user_id,
+      share_code,
+      req.user!.timezone
+    );
+
+    res.json({
+      success: true,
+      data: { share: result },
+    });
+  } catch (error) {
+    handleError(res, error);
+  }
+}
+
+// ============================================================
+// 공유된 템플릿 가져오기
+// POST /api/v1/shift-template-shares/:share_code/import
+// ============================================================
+export async function importTemplateShare(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  try {
+    if (respondValidationError(req, res)) {
+      return;
+    }
+
+    const user_id = req.user!.user_id;
+    const { share_code } = req.params;
+    const { mode, name, template_id, conflict_resolution, resolutions } =
+      req.body;
+
+    const result = await templateShareService.importTemplateShare(
+      user_id,
+      share_code,
+      { mode, name, template_id, conflict_resolution, resolutions },
+      req.user!.timezone
+    );
+
+    res.status(mode === "new" ? 201 : 200).json({
+      success: true,
+      data: result,
+      message:
+        mode === "new"
+          ? "새 템플릿으로 가져왔습니다."
+          : "템플릿에 근무 타입을 병합했습니다.",
+    });
+  } catch (error) {
+    handleError(res, error);
+  }
+}
+
+// ============================================================
+// 템플릿 공유 취소
+// DELETE /api/v1/shift-template-shares/:share_code
+// ============================================================
+export async function revokeTemplateShare(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  try {
+    if (respondValidationError(req, res)) {
+      return;
+    }
+
+    const user_id = req.user!.user_id;
+    const { share_code } = req.params;
+
+    const result = await templateShareService.revokeTemplateShare(
+      user_id,
+      share_code
+    );
+
+    res.json({
+      success: true,
+      data: { share: result },
+      message: "템플릿 공유를 취소했습니다.",
+    });
+  } catch (error) {
+    handleError(res, error);
+  }
+}
@@ -0,0 +1,125 @@
+/**
+ * 대한민국 공휴일 데이터 (오프라인 내장)
+ * - 관공서의 공휴일에 관한 규정 기준, 음력 공휴일(설날/부처님오신날/추석)은 양력으로 변환
+ * - 대체공휴일, 선거일 및 임시공휴일 포함
+ * - 새 연도 추가나 정정은 관리자 공휴일 재정의(holiday_overrides)로 반영
+ */
+
+export type KoreanHolidayType = "PUBLIC" | "SUBSTITUTE" | "TEMPORARY";
+
+export interface KoreanHoliday {
+  date: string; // YYYY-MM-DD
+  name: string;
+  type: KoreanHolidayType;
+}
+
+export const KOREAN_HOLIDAYS_FIRST_YEAR = 2023;
+export const KOREAN_HOLIDAYS_LAST_YEAR = 2027;
+
+export const KOREAN_HOLIDAYS: KoreanHoliday[] = [
+  // 2023
+  { date: "2023-01-01", name: "신정", type: "PUBLIC" },
+  { date: "2023-01-21", name: "설날 연휴", type: "PUBLIC" },
+  { date: "2023-01-22", name: "설날", type: "PUBLIC" },
+  { date: "2023-01-23", name: "설날 연휴", type: "PUBLIC" },
+  { date: "2023-01-24", name: "대체공휴일(설날)", type: "SUBSTITUTE" },
+  { date: "2023-03-01", name: "삼일절", type: "PUBLIC" },
+  { date: "2023-05-05", name: "어린이날", type: "PUBLIC" },
+  { date: "2023-05-27", name: "부처님오신날", type: "PUBLIC" },
+  { date: "2023-05-29", name: "대체공휴일(부처님오신날)", type: "SUBSTITUTE" },
+  { date: "2023-06-06", name: "현충일", type: "PUBLIC" },
+  { date: "2023-08-15", name: "광복절", type: "PUBLIC" },
+  { date: "2023-09-28", name: "추석 연휴", type: "PUBLIC" },
+  { date: "2023-09-29", name: "추석", type: "PUBLIC" },
+  { date: "2023-09-30", name: "추석 연휴", type: "PUBLIC" },
+  { date: "2023-10-02", name: "임시공휴일", type: "TEMPORARY" },
+  { date: "2023-10-03", name: "개천절", type: "PUBLIC" },
+  { date: "2023-10-09", name: "한글날", type: "PUBLIC" },
+  { date: "2023-12-25", name: "성탄절", type: "PUBLIC" },
+
+  // 2024
+  { date: "2024-01-01", name: "신정", type: "PUBLIC" },
+  { date: "2024-02-09", name: "설날 연휴", type: "PUBLIC" },
+  { date: "2024-02-10", name: "설날", type: "PUBLIC" },
+  { date: "2024-02-11", name: "설날 연휴", type: "PUBLIC" },
+  { date: "2024-02-12", name: "대체공휴일(설날)", type: "SUBSTITUTE" },
+  { date: "2024-03-01", name: "삼일절", type: "PUBLIC" },
+  { date: "2024-04-10", name: "제22대 국회의원 선거일", type: "TEMPORARY" },
+  { date: "2024-05-05", name: "어린이날", type: "PUBLIC" },
+  { date: "2024-05-06", name: "대체공휴일(어린이날)", type: "SUBSTITUTE" },
+  { date: "2024-05-15", name: "부처님오신날", type: "PUBLIC" },
+  { date: "2024-06-06", name: "현충일", type: "PUBLIC" },
+  { date: "2024-08-15", name: "광복절", type: "PUBLIC" },
+  { date: "2024-09-16", name: "추석 연휴", type: "PUBLIC" },
+  { date: "2024-09-17", name: "추석", type: "PUBLIC" },
+  { date: "2024-09-18", name: "추석 연휴", type: "PUBLIC" },
+  { date: "2024-10-01", name: "국군의 날(임시공휴일)", type: "TEMPORARY" },
+  { date: "2024-10-03", name: "개천절", type: "PUBLIC" },
+  { date: "2024-10-09", name: "한글날", type: "PUBLIC" },
+  { date: "2024-12-25", name: "성탄절", type: "PUBLIC" },
+
+  // 2025
+  { date: "2025-01-01", name: "신정", type: "PUBLIC" },
+  { date: "2025-01-27", name: "임시공휴일", type: "TEMPORARY" },
+  { date: "2025-01-28", name: "설날 연휴", type: "PUBLIC" },
+  { date: "2025-01-29", name: "설날", type: "PUBLIC" },
+  { date: "2025-01-30", name: "설날 연휴", type: "PUBLIC" },
+  { date: "2025-03-01", name: "삼일절", type: "PUBLIC" },
+  { date: "2025-03-03", name: "대체공휴일(삼일절)", type: "SUBSTITUTE" },
+  { date: "2025-05-05", name: "어린이날·부처님오신날", type: "PUBLIC" },
+  { date: "2025-05-06", name: "대체공휴일(부처님오신날)", type: "SUBSTITUTE" },
+  { date: "2025-06-03", name: "제21대 대통령 선거일", type: "TEMPORARY" },
+  { date: "2025-06-06", name: "현충일", type: "PUBLIC" },
+  { date: "2025-08-15", name: "광복절", type: "PUBLIC" },
+  { date: "2025-10-03", name: "개천절", type: "PUBLIC" },
+  { date: "2025-10-05", name: "추석 연휴", type: "PUBLIC" },
+  { date: "2025-10-06", name: "추석", type: "PUBLIC" },
+  { date: "2025-10-07", name: "추석 연휴", type: "PUBLIC" },
+  { date: "2025-10-08", name: "대체공휴일(추석)", type: "SUBSTITUTE" },
+  { date: "2025-10-09", name: "한글날", type: "PUBLIC" },
+  { date: "2025-12-25", name: "성탄절", type: "PUBLIC" },
+
+  // 2026
+  { date: "2026-01-01", name: "신정", type: "PUBLIC" },
+  { date: "2026-02-16", name: "설날 연휴", type: "PUBLIC" },
+  { date: "2026-02-17", name: "설날", type: "PUBLIC" },
+  { date: "2026-02-18", name: "설날 연휴", type: "PUBLIC" },
+  { date: "2026-03-01", name: "삼일절", type: "PUBLIC" },
+  { date: "2026-03-02", name: "대체공휴일(삼일절)", type: "SUBSTITUTE" },
+  { date: "2026-05-05", name: "어린이날", type: "PUBLIC" },
+  { date: "2026-05-24", name: "부처님오신날", type: "PUBLIC" },
+  { date: "2026-05-25", name: "대체공휴일(부처님오신날)", type: "SUBSTITUTE" },
+  { date: "2026-06-03", name: "제9회 전국동시지방선거일", type: "TEMPORARY" },
+  { date: "2026-06-06", name: "현충일", type: "PUBLIC" },
+  { date: "2026-08-15", name: "광복절", type: "PUBLIC" },
+  { date: "2026-08-17", name: "대체공휴일(광복절)", type: "SUBSTITUTE" },
+  { date: "2026-09-24", name: "추석 연휴", type: "PUBLIC" },
+  { date: "2026-09-25", name: "추석", type: "PUBLIC" },
+  { date: "2026-09-26", name: "추석 연휴", type: "PUBLIC" },
+  { date: "2026-10-03", name: "개천절", type: "PUBLIC" },
+  { date: "2026-10-05", name: "대체공휴일(개천절)", type: "SUBSTITUTE" },
+  { date: "2026-10-09", name: "한글날", type: "PUBLIC" },
+  { date: "2026-12-25", name: "성탄절", type: "PUBLIC" },
+
+  // 2027
+  { date: "2027-01-01", name: "신정", type: "PUBLIC" },
+  { date: "2027-02-05", name: "설날 연휴", type: "PUBLIC" },
+  { date: "2027-02-06", name: "설날", type: "PUBLIC" },
+  { date: "2027-02-07", name: "설날 연휴", type: "PUBLIC" },
+  { date: "2027-02-08", name: "대체공휴일(설날)", type: "SUBSTITUTE" },
+  { date: "2027-03-01", name: "삼일절", type: "PUBLIC" },
+  { date: "2027-05-05", name: "어린이날", type: "PUBLIC" },
+  { date: "2027-05-13", name: "부처님오신날", type: "PUBLIC" },
+  { date: "2027-06-06", name: "현충일", type: "PUBLIC" },
+  { date: "2027-08-15", name: "광복절", type: "PUBLIC" },
+  { date: "2027-08-16", name: "대체공휴일(광복절)", type: "SUBSTITUTE" },
+  { date: "2027-09-14", name: "추석 연휴", type: "PUBLIC" },
+  { date: "2027-09-15", name: "추석", type: "PUBLIC" },
+  { date: "2027-09-16", name: "추석 연휴", type: "PUBLIC" },
+  { date: "2027-10-03", name: "개천절", type: "PUBLIC" },
+  { date: "2027-10-04", name: "대체공휴일(개천절)", type: "SUBSTITUTE" },
+  { date: "2027-10-09", name: "한글날", type: "PUBLIC" },
+  { date: "2027-10-11", name: "대체공휴일(한글날)", type: "SUBSTITUTE" },
+  { date: "2027-12-25", name: "성탄절", type: "PUBLIC" },
+  { date: "2027-12-27", name: "대체공휴일(성탄절)", type: "SUBSTITUTE" },
+];
@@ -8,6 +8,9 @@ import path from "path";
 import { connectDatabase } from "./config/database";
 import routes from "./routes";
 import { errorHandler } from "./middlewares/errorHandler";
+import { startTrashPurgeJob } from "./jobs/trashPurgeJob";
+import { startAccountExportJob } from "./jobs/accountExportJob";
+import { startAccountPurgeJob } from "./jobs/accountPurgeJob";
 
 // 환경 변수 로드
 dotenv.config();
@@ -85,6 +88,11 @@ async function startServer(): Promise<void> {
     // 데이터베이스 연결
     await connectDatabase();
 
+    // 백그라운드 작업 시작
+    startTrashPurgeJob();
+    startAccountExportJob();
+    startAccountPurgeJob();
+
     app.listen(port, () => {
       console.log(`🚀 서버가 포트 ${port}에서 실행 중입니다.`);
       console.log(`📍 API: http://localhost:${port}/api/v1`);
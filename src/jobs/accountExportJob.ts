@@ -0,0 +1,33 @@
+import {
+  processPendingAccountExports,
+  purgeExpiredAccountExports,
+} from "../services/accountExportService";
+
+// 내보내기 작업 확인 주기 (10분)
+const EXPORT_JOB_INTERVAL_MS = 10 * 60 * 1000;
+
+/**
+ * 계정 데이터 내보내기 작업 시작
+ * - 요청 시 바로 처리하지 못한 작업(서버 재시작 등)을 이어서 처리
+ * - 보관 기간이 지난 내보내기 파일 삭제
+ */
+export function startAccountExportJob(): NodeJS.Timeout {
+  const run = async (): Promise<void> => {
+    try {
+      const processed = await processPendingAccountExports();
+      const purged = await purgeExpiredAccountExports();
+      if (processed > 0 || purged > 0) {
+        console.log(
+          `📦 데이터 내보내기: ${processed}건 생성, 만료 파일 ${purged}건 삭제`
+        );
+      }
+    } catch (error) {
+      console.error("Account export job error:", error);
+    }
+  };
+
+  void run();
+  const timer = setInterval(run, EXPORT_JOB_INTERVAL_MS);
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,26 @@
+import { purgeWithdrawnAccounts } from "../services/accountService";
+
+// 탈퇴 계정 정리 주기 (6시간)
+const PURGE_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+/**
+ * 탈퇴 계정 정리 작업 시작
+ * - 유예 기간이 지난 탈퇴 계정의 데이터 삭제 및 익명화
+ */
+export function startAccountPurgeJob(): NodeJS.Timeout {
+  const run = async (): Promise<void> => {
+    try {
+      const purged = await purgeWithdrawnAccounts();
+      if (purged > 0) {
+        console.log(`👋 탈퇴 계정 정리: ${purged}명`);
+      }
+    } catch (error) {
+      console.error("Account purge job error:", error);
+    }
+  };
+
+  void run();
+  const timer = setInterval(run, PURGE_INTERVAL_MS);
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,28 @@
+import { purgeExpiredTrash } from "../services/trashService";
+
+// 휴지통 정리 주기 (6시간)
+const PURGE_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+/**
+ * 휴지통 정리 작업 시작
+ * - 서버 시작 시 한 번 실행하고 이후 주기적으로 실행
+ */
+export function startTrashPurgeJob(): NodeJS.Timeout {
+  const run = async (): Promise<void> => {
+    try {
+      const result = await purgeExpiredTrash();
+      if (result.work_shifts > 0 || result.events > 0) {
+        console.log(
+          `🗑️  휴지통 정리: 근무표 ${result.work_shifts}건, 일정 ${result.events}건 삭제`
+        );
+      }
+    } catch (error) {
+      console.error("Trash purge job error:", error);
+    }
+  };
+
+  void run();
+  const timer = setInterval(run, PURGE_INTERVAL_MS);
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,37 @@
+import crypto from "crypto";
+import { Request, Response, NextFunction } from "express";
+
+/**
+ * 관리자 API 인증 (X-Admin-Key 헤더와 ADMIN_API_KEY 환경 변수 비교)
+ * - ADMIN_API_KEY가 설정되지 않으면 관리자 API 비활성화
+ */
+export function adminAuthMiddleware(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  const admin_api_key = process.env.ADMIN_API_KEY;
+
+  if (!admin_api_key) {
+    res
+      .status(403)
+      .json({ success: false, message: "관리자 API가 비활성화되어 있습니다." });
+    return;
+  }
+
+  const provided_key = req.header("X-Admin-Key") || "";
+  const expected = Buffer.from(admin_api_key);
+  const provided = Buffer.from(provided_key);
+
+  if (
+    provided.length !== expected.length ||
+    !crypto.timingSafeEqual(provided, expected)
+  ) {
+    res
+      .status(401)
+      .json({ success: false, message: "유효하지 않은 관리자 키입니다." });
+    return;
+  }
+
+  next();
+}
@@ -1,15 +1,18 @@
 import { Request, Response, NextFunction } from "express";
 import jwt from "jsonwebtoken";
 import { User } from "../models";
+import { touchSession } from "../services/authService";
 
 interface JwtPayload {
   user_id: string; // UUID
   email: string;
+  session_id?: string; // UUID
 }
 
-// Express Request에 user 속성 추가 타입
+// Express Request에 user, session_id 속성 추가 타입
 interface AuthenticatedRequest extends Request {
   user?: User;
+  session_id?: string;
 }
 
 export async function authMiddleware(
@@ -41,7 +44,24 @@ export async function authMiddleware(
       return;
     }
 
+    // 탈퇴한 사용자 (유예 기간 중에는 소셜 로그인으로 복구 후 새 토큰 발급)
+    if (user.withdrawn_at) {
+      res
+        .status(401)
+        .json({ success: false, message: "탈퇴한 사용자입니다." });
+      return;
+    }
+
+    // 로그아웃된 기기의 access_token 거부
+    if (decoded.session_id && !(await touchSession(decoded.session_id))) {
+      res
+        .status(401)
+        .json({ success: false, message: "로그아웃된 세션입니다." });
+      return;
+    }
+
     (req as AuthenticatedRequest).user = user;
+    (req as AuthenticatedRequest).session_id = decoded.session_id;
     next();
   } catch (error) {
     if (error instanceof jwt.TokenExpiredError) {
@@ -0,0 +1,146 @@
+import { DataTypes, Model, Optional } from "sequelize";
+import { sequelize } from "../config/database";
+import User from "./User";
+
+// 데이터 내보내기 상태
+// - PENDING: 대기 중, PROCESSING: 생성 중, COMPLETED: 다운로드 가능
+// - FAILED: 생성 실패, EXPIRED: 보관 기간이 지나 파일 삭제됨
+export type AccountExportStatus =
+  | "PENDING"
+  | "PROCESSING"
+  | "COMPLETED"
+  | "FAILED"
+  | "EXPIRED";
+
+interface AccountExportAttributes {
+  export_id: string; // UUID
+  user_id: string; // UUID
+  status: AccountExportStatus;
+  file_name?: string | null;
+  file_size?: number | null; // bytes
+  archive?: Buffer | null; // ZIP 파일 (보관 기간이 지나면 삭제)
+  error_message?: string | null;
+  started_at?: Date | null;
+  completed_at?: Date | null;
+  expires_at?: Date | null; // 다운로드 가능 기한
+  created_at?: Date;
+}
+
+interface AccountExportCreationAttributes
+  extends Optional<
+    AccountExportAttributes,
+    | "export_id"
+    | "status"
+    | "file_name"
+    | "file_size"
+    | "archive"
+    | "error_message"
+    | "started_at"
+    | "completed_at"
+    | "expires_at"
+    | "created_at"
+  > {}
+
+class AccountExport
+  extends Model<AccountExportAttributes, AccountExportCreationAttributes>
+  implements AccountExportAttributes
+{
+  declare export_id: string;
+  declare user_id: string;
+  declare status: AccountExportStatus;
+  declare file_name: string | null | undefined;
+  declare file_size: number | null | undefined;
+  declare archive: Buffer | null | undefined;
+  declare error_message: string | null | undefined;
+  declare started_at: Date | null | undefined;
+  declare completed_at: Date | null | undefined;
+  declare expires_at: Date | null | undefined;
+  declare created_at: Date | undefined;
+
+  // 연관 관계 타입
+  declare user?: User;
+}
+
+AccountExport.init(
+  {
+    export_id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    user_id: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: "users",
+        key: "user_id",
+      },
+      onDelete: "CASCADE",
+    },
+    status: {
+      type: DataTypes.TEXT,
+      allowNull: false,
+      defaultValue: "PENDING",
+      validate: {
+        isIn: [["PENDING", "PROCESSING", "COMPLETED", "FAILED", "EXPIRED"]],
+      },
+    },
+    file_name: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    file_size: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+    },
+    archive: {
+      type: DataTypes.BLOB,
+      allowNull: true,
+    },
+    error_message: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    started_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    completed_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    expires_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    tableName: "account_exports",
+    modelName: "AccountExport",
+    timestamps: false,
+    indexes: [
+      {
+        name: "idx_account_exports_user",
+        fields: ["user_id", "created_at"],
+      },
+      {
+        name: "idx_account_exports_status",
+        fields: ["status"],
+      },
+    ],
+  }
+);
+
+// 연관 관계 설정
+AccountExport.belongsTo(User, {
+  foreignKey: "user_id",
+  as: "user",
+});
+
+export default AccountExport;
@@ -0,0 +1,130 @@
+import { DataTypes, Model, Optional } from "sequelize";
+import { sequelize } from "../config/database";
+import User from "./User";
+
+// 구독 피드 범위 (근무표만 / 근무표 + 일정)
+export type CalendarFeedScope = "SHIFTS_ONLY" | "SHIFTS_AND_EVENTS";
+
+interface CalendarFeedAttributes {
+  feed_id: string; // UUID
+  user_id: string; // UUID
+  token_hash: string; // 피드 토큰 SHA-256 해시
+  scope: CalendarFeedScope;
+  max_visibility_level: number; // 피드에 포함할 일정의 최대 공개 레벨
+  last_accessed_at?: Date | null;
+  revoked_at?: Date | null;
+  created_at?: Date;
+}
+
+interface CalendarFeedCreationAttributes
+  extends Optional<
+    CalendarFeedAttributes,
+    | "feed_id"
+    | "scope"
+    | "max_visibility_level"
+    | "last_accessed_at"
+    | "revoked_at"
+    | "created_at"
+  > {}
+
+class CalendarFeed
+  extends Model<CalendarFeedAttributes, CalendarFeedCreationAttributes>
+  implements CalendarFeedAttributes
+{
+  declare feed_id: string;
+  declare user_id: string;
+  declare token_hash: string;
+  declare scope: CalendarFeedScope;
+  declare max_visibility_level: number;
+  declare last_accessed_at: Date | null | undefined;
+  declare revoked_at: Date | null | undefined;
+  declare created_at: Date | undefined;
+
+  // 연관 관계 타입
+  declare user?: User;
+}
+
+CalendarFeed.init(
+  {
+    feed_id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    user_id: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: "users",
+        key: "user_id",
+      },
+      onDelete: "CASCADE",
+    },
+    token_hash: {
+      type: DataTypes.TEXT,
+      allowNull: false,
+    },
+    scope: {
+      type: DataTypes.TEXT,
+      allowNull: false,
+      defaultValue: "SHIFTS_ONLY",
+      validate: {
+        isIn: [["SHIFTS_ONLY", "SHIFTS_AND_EVENTS"]],
+      },
+    },
+    max_visibility_level: {
+      type: DataTypes.SMALLINT,
+      allowNull: false,
+      defaultValue: 0,
+      validate: {
+        min: 0,
+        max: 5,
+      },
+    },
+    last_accessed_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    revoked_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    tableName: "calendar_feeds",
+    modelName: "CalendarFeed",
+    timestamps: false,
+    indexes: [
+      {
+        name: "idx_calendar_feeds_token_hash",
+        unique: true,
+        fields: ["token_hash"],
+        where: { revoked_at: null },
+      },
+      {
+        name: "idx_calendar_feeds_user",
+        fields: ["user_id"],
+        where: { revoked_at: null },
+      },
+    ],
+  }
+);
+
+// 연관 관계 설정
+CalendarFeed.belongsTo(User, {
+  foreignKey: "user_id",
+  as: "user",
+});
+
+User.hasMany(CalendarFeed, {
+  foreignKey: "user_id",
+  as: "calendar_feeds",
+});
+
+export default CalendarFeed;
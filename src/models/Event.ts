@@ -13,6 +13,9 @@ interface EventAttributes {
   start_at: Date; // timestamptz
   end_at: Date; // timestamptz
   visibility_level: number; // 0 이상
+  rrule?: string | null; // RFC 5545 RRULE (예: FREQ=WEEKLY;BYDAY=MO,WE)
+  exdates: string[]; // 반복 제외 날짜 목록 (YYYY-MM-DD)
+  recurrence_end_at?: Date | null; // 마지막 반복 종료 시각 (null이면 무기한)
   created_at?: Date;
   updated_at?: Date;
   deleted_at?: Date | null;
@@ -27,6 +30,9 @@ interface EventCreationAttributes
     | "place"
     | "all_day"
     | "visibility_level"
+    | "rrule"
+    | "exdates"
+    | "recurrence_end_at"
     | "created_at"
     | "updated_at"
     | "deleted_at"
@@ -47,6 +53,9 @@ class Event
   declare start_at: Date;
   declare end_at: Date;
   declare visibility_level: number;
+  declare rrule: string | null | undefined;
+  declare exdates: string[];
+  declare recurrence_end_at: Date | null | undefined;
   declare created_at: Date | undefined;
   declare updated_at: Date | undefined;
   declare deleted_at: Date | null | undefined;
@@ -109,6 +118,19 @@ Event.init(
         min: 0,
       },
     },
+    rrule: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    exdates: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+      defaultValue: [],
+    },
+    recurrence_end_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
     created_at: {
       type: DataTypes.DATE,
       allowNull: false,
@@ -0,0 +1,138 @@
+import { DataTypes, Model, Optional } from "sequelize";
+import { sequelize } from "../config/database";
+import Event from "./Event";
+
+interface EventOccurrenceOverrideAttributes {
+  override_id: string; // UUID
+  event_id: string; // UUID (반복 일정)
+  occurrence_date: string; // 원래 발생 날짜 (YYYY-MM-DD, 사용자 타임존 기준)
+  title?: string | null;
+  memo?: string | null;
+  place?: string | null;
+  start_at?: Date | null; // timestamptz
+  end_at?: Date | null; // timestamptz
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+interface EventOccurrenceOverrideCreationAttributes
+  extends Optional<
+    EventOccurrenceOverrideAttributes,
+    | "override_id"
+    | "title"
+    | "memo"
+    | "place"
+    | "start_at"
+    | "end_at"
+    | "created_at"
+    | "updated_at"
+  > {}
+
+class EventOccurrenceOverride
+  extends Model<
+    EventOccurrenceOverrideAttributes,
+    EventOccurrenceOverrideCreationAttributes
+  >
+  implements EventOccurrenceOverrideAttributes
+{
+  declare override_id: string;
+  declare event_id: string;
+  declare occurrence_date: string;
+  declare title: string | null | undefined;
+  declare memo: string | null | undefined;
+  declare place: string | null | undefined;
+  declare start_at: Date | null | undefined;
+  declare end_at: Date | null | undefined;
+  declare created_at: Date | undefined;
+  declare updated_at: Date | undefined;
+}
+
+EventOccurrenceOverride.init(
+  {
+    override_id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    event_id: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: "events",
+        key: "event_id",
+      },
+      onDelete: "CASCADE",
+    },
+    occurrence_date: {
+      type: DataTypes.DATEONLY,
+      allowNull: false,
+    },
+    title: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    memo: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    place: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    start_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    end_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    tableName: "event_occurrence_overrides",
+    modelName: "EventOccurrenceOverride",
+    timestamps: true,
+    underscored: true,
+    indexes: [
+      {
+        unique: true,
+        fields: ["event_id", "occurrence_date"],
+      },
+    ],
+    validate: {
+      timeConsistency(this: EventOccurrenceOverrideAttributes) {
+        const has_start = this.start_at !== null && this.start_at !== undefined;
+        const has_end = this.end_at !== null && this.end_at !== undefined;
+        if (has_start !== has_end) {
+          throw new Error("start_at과 end_at은 둘 다 있거나 둘 다 없어야 합니다.");
+        }
+        if (has_start && has_end && this.start_at! >= this.end_at!) {
+          throw new Error("start_at은 end_at보다 이전이어야 합니다.");
+        }
+      },
+    },
+  }
+);
+
+// 관계 설정
+EventOccurrenceOverride.belongsTo(Event, {
+  foreignKey: "event_id",
+  as: "event",
+});
+Event.hasMany(EventOccurrenceOverride, {
+  foreignKey: "event_id",
+  as: "occurrence_overrides",
+});
+
+export default EventOccurrenceOverride;
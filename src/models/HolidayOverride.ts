@@ -0,0 +1,77 @@
+import { DataTypes, Model, Optional } from "sequelize";
+import { sequelize } from "../config/database";
+
+/**
+ * 공휴일 재정의 (관리자 등록)
+ * - is_holiday=true: 내장 데이터에 없는 공휴일 추가 또는 이름 변경
+ * - is_holiday=false: 내장 데이터의 공휴일 제외
+ */
+interface HolidayOverrideAttributes {
+  holiday_override_id: string; // UUID
+  date: string; // YYYY-MM-DD
+  name?: string | null;
+  is_holiday: boolean;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+interface HolidayOverrideCreationAttributes
+  extends Optional<
+    HolidayOverrideAttributes,
+    "holiday_override_id" | "name" | "is_holiday" | "created_at" | "updated_at"
+  > {}
+
+class HolidayOverride
+  extends Model<HolidayOverrideAttributes, HolidayOverrideCreationAttributes>
+  implements HolidayOverrideAttributes
+{
+  declare holiday_override_id: string;
+  declare date: string;
+  declare name: string | null | undefined;
+  declare is_holiday: boolean;
+  declare created_at: Date | undefined;
+  declare updated_at: Date | undefined;
+}
+
+HolidayOverride.init(
+  {
+    holiday_override_id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    date: {
+      type: DataTypes.DATEONLY,
+      allowNull: false,
+      unique: true,
+    },
+    name: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    is_holiday: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: true,
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    tableName: "holiday_overrides",
+    modelName: "HolidayOverride",
+    timestamps: true,
+    underscored: true,
+  }
+);
+
+export default HolidayOverride;
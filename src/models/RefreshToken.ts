@@ -5,17 +5,26 @@ import User from "./User";
 interface RefreshTokenAttributes {
   token_id: string;
   user_id: string;
+  session_id: string; // 로그인 세션 = 토큰 패밀리 (토큰 갱신 시 유지)
   token_hash: string;
   device_info?: string | null;
   expires_at: Date;
   revoked_at?: Date | null;
-  created_at?: Date;
+  replaced_by_token_id?: string | null; // 토큰 갱신으로 무효화된 경우 새 토큰
+  last_used_at?: Date | null;
+  created_at?: Date; // 세션 시작 시각 (토큰 갱신 시 유지)
 }
 
 interface RefreshTokenCreationAttributes
   extends Optional<
     RefreshTokenAttributes,
-    "token_id" | "device_info" | "revoked_at" | "created_at"
+    | "token_id"
+    | "session_id"
+    | "device_info"
+    | "revoked_at"
+    | "replaced_by_token_id"
+    | "last_used_at"
+    | "created_at"
   > {}
 
 class RefreshToken
@@ -24,10 +33,13 @@ class RefreshToken
 {
   declare token_id: string;
   declare user_id: string;
+  declare session_id: string;
   declare token_hash: string;
   declare device_info: string | null | undefined;
   declare expires_at: Date;
   declare revoked_at: Date | null | undefined;
+  declare replaced_by_token_id: string | null | undefined;
+  declare last_used_at: Date | null | undefined;
   declare created_at: Date | undefined;
 
   // 토큰이 유효한지 확인
@@ -60,6 +72,11 @@ RefreshToken.init(
       },
       onDelete: "CASCADE",
     },
+    session_id: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      defaultValue: DataTypes.UUIDV4,
+    },
     token_hash: {
       type: DataTypes.TEXT,
       allowNull: false,
@@ -76,6 +93,14 @@ RefreshToken.init(
       type: DataTypes.DATE,
       allowNull: true,
     },
+    replaced_by_token_id: {
+      type: DataTypes.UUID,
+      allowNull: true,
+    },
+    last_used_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
     created_at: {
       type: DataTypes.DATE,
       allowNull: false,
@@ -93,6 +118,11 @@ RefreshToken.init(
         fields: ["user_id"],
         where: { revoked_at: null },
       },
+      {
+        name: "idx_refresh_tokens_session",
+        fields: ["session_id"],
+        where: { revoked_at: null },
+      },
       {
         name: "idx_refresh_tokens_hash",
         unique: true,
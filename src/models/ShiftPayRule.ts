@@ -0,0 +1,144 @@
+import { DataTypes, Model, Optional } from "sequelize";
+import { sequelize } from "../config/database";
+import ShiftTemplate from "./ShiftTemplate";
+
+/**
+ * 근무 템플릿별 급여 계산 규칙 (템플릿당 1개)
+ * - 야간/휴일 가산은 중복 적용 (예: 휴일 야간 = 기본 + 야간 가산 + 휴일 가산)
+ */
+interface ShiftPayRuleAttributes {
+  pay_rule_id: string; // UUID
+  template_id: string; // UUID
+  base_hourly_wage: number; // 기본 시급 (원)
+  night_start_time: string; // 야간 시작 (HH:mm:ss)
+  night_end_time: string; // 야간 종료 (HH:mm:ss, 시작보다 이르면 다음 날)
+  night_multiplier: number; // 야간 배율 (예: 1.5)
+  holiday_multiplier: number; // 휴일 배율 (예: 1.5)
+  holiday_weekdays: number[]; // 휴일로 계산할 요일 (0: 일요일 ~ 6: 토요일)
+  shift_allowances: Record<string, number>; // 근무 타입 코드별 1회 수당 (원)
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+interface ShiftPayRuleCreationAttributes
+  extends Optional<
+    ShiftPayRuleAttributes,
+    | "pay_rule_id"
+    | "night_start_time"
+    | "night_end_time"
+    | "night_multiplier"
+    | "holiday_multiplier"
+    | "holiday_weekdays"
+    | "shift_allowances"
+    | "created_at"
+    | "updated_at"
+  > {}
+
+class ShiftPayRule
+  extends Model<ShiftPayRuleAttributes, ShiftPayRuleCreationAttributes>
+  implements ShiftPayRuleAttributes
+{
+  declare pay_rule_id: string;
+  declare template_id: string;
+  declare base_hourly_wage: number;
+  declare night_start_time: string;
+  declare night_end_time: string;
+  declare night_multiplier: number;
+  declare holiday_multiplier: number;
+  declare holiday_weekdays: number[];
+  declare shift_allowances: Record<string, number>;
+  declare created_at: Date | undefined;
+  declare updated_at: Date | undefined;
+}
+
+ShiftPayRule.init(
+  {
+    pay_rule_id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    template_id: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      unique: true,
+      references: {
+        model: "shift_templates",
+        key: "template_id",
+      },
+      onDelete: "CASCADE",
+    },
+    base_hourly_wage: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      validate: {
+        min: 0,
+      },
+    },
+    night_start_time: {
+      type: DataTypes.TIME,
+      allowNull: false,
+      defaultValue: "22:00:00",
+    },
+    night_end_time: {
+      type: DataTypes.TIME,
+      allowNull: false,
+      defaultValue: "06:00:00",
+    },
+    night_multiplier: {
+      type: DataTypes.FLOAT,
+      allowNull: false,
+      defaultValue: 1.5,
+      validate: {
+        min: 1,
+      },
+    },
+    holiday_multiplier: {
+      type: DataTypes.FLOAT,
+      allowNull: false,
+      defaultValue: 1.5,
+      validate: {
+        min: 1,
+      },
+    },
+    holiday_weekdays: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+      defaultValue: [0],
+    },
+    shift_allowances: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+      defaultValue: {},
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    tableName: "shift_pay_rules",
+    modelName: "ShiftPayRule",
+    timestamps: true,
+    underscored: true,
+  }
+);
+
+// 관계 설정
+ShiftPayRule.belongsTo(ShiftTemplate, {
+  foreignKey: "template_id",
+  as: "template",
+});
+ShiftTemplate.hasOne(ShiftPayRule, {
+  foreignKey: "template_id",
+  as: "pay_rule",
+});
+
+export default ShiftPayRule;
@@ -0,0 +1,112 @@
+import { DataTypes, Model, Optional } from "sequelize";
+import { sequelize } from "../config/database";
+import ShiftTemplate from "./ShiftTemplate";
+
+interface ShiftRotationPatternAttributes {
+  pattern_id: string; // UUID
+  template_id: string; // UUID
+  owner_user_id: string; // UUID
+  name: string;
+  shift_type_ids: string[]; // 순환 순서대로의 근무 타입 ID (코드 변경에도 유지)
+  created_at?: Date;
+  updated_at?: Date;
+  deleted_at?: Date | null;
+}
+
+interface ShiftRotationPatternCreationAttributes
+  extends Optional<
+    ShiftRotationPatternAttributes,
+    "pattern_id" | "created_at" | "updated_at" | "deleted_at"
+  > {}
+
+class ShiftRotationPattern
+  extends Model<
+    ShiftRotationPatternAttributes,
+    ShiftRotationPatternCreationAttributes
+  >
+  implements ShiftRotationPatternAttributes
+{
+  declare pattern_id: string;
+  declare template_id: string;
+  declare owner_user_id: string;
+  declare name: string;
+  declare shift_type_ids: string[];
+  declare created_at: Date | undefined;
+  declare updated_at: Date | undefined;
+  declare deleted_at: Date | null | undefined;
+}
+
+ShiftRotationPattern.init(
+  {
+    pattern_id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    template_id: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: "shift_templates",
+        key: "template_id",
+      },
+      onDelete: "CASCADE",
+    },
+    owner_user_id: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: "users",
+        key: "user_id",
+      },
+    },
+    name: {
+      type: DataTypes.TEXT,
+      allowNull: false,
+    },
+    shift_type_ids: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    deleted_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: "shift_rotation_patterns",
+    modelName: "ShiftRotationPattern",
+    timestamps: true,
+    underscored: true,
+    indexes: [
+      {
+        unique: true,
+        fields: ["template_id", "name"],
+        where: { deleted_at: null },
+      },
+    ],
+  }
+);
+
+// 관계 설정
+ShiftRotationPattern.belongsTo(ShiftTemplate, {
+  foreignKey: "template_id",
+  as: "template",
+});
+ShiftTemplate.hasMany(ShiftRotationPattern, {
+  foreignKey: "template_id",
+  as: "rotation_patterns",
+});
+
+export default ShiftRotationPattern;
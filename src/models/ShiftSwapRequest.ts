@@ -0,0 +1,166 @@
+import { DataTypes, Model, Optional } from "sequelize";
+import { sequelize } from "../config/database";
+import User from "./User";
+
+// 근무 교환 요청 상태
+export type ShiftSwapStatus = "PENDING" | "ACCEPTED" | "REJECTED" | "CANCELED";
+
+// 교환 후 날짜별 근무 (null이면 근무 없음)
+export interface ShiftSwapExpectedChange {
+  work_date: string;
+  requester_shift_type_code: string | null;
+  addressee_shift_type_code: string | null;
+}
+
+interface ShiftSwapRequestAttributes {
+  swap_request_id: string; // UUID
+  requester_user_id: string; // 요청 보낸 사용자
+  addressee_user_id: string; // 요청 받은 사용자
+  requester_date: string; // 요청자가 넘겨주는 근무 날짜 (YYYY-MM-DD)
+  requester_shift_type_code: string; // 요청 시점의 요청자 근무 코드
+  addressee_date?: string | null; // 받아오는 친구 근무 날짜 (null이면 넘겨주기만)
+  addressee_shift_type_code?: string | null; // 요청 시점의 친구 근무 코드
+  expected_changes?: ShiftSwapExpectedChange[] | null; // 요청 시점의 교환 결과 (수락 시 비교)
+  status: ShiftSwapStatus;
+  message?: string | null;
+  created_at?: Date;
+  responded_at?: Date | null;
+}
+
+interface ShiftSwapRequestCreationAttributes
+  extends Optional<
+    ShiftSwapRequestAttributes,
+    | "swap_request_id"
+    | "addressee_date"
+    | "addressee_shift_type_code"
+    | "expected_changes"
+    | "status"
+    | "message"
+    | "created_at"
+    | "responded_at"
+  > {}
+
+class ShiftSwapRequest
+  extends Model<ShiftSwapRequestAttributes, ShiftSwapRequestCreationAttributes>
+  implements ShiftSwapRequestAttributes
+{
+  declare swap_request_id: string;
+  declare requester_user_id: string;
+  declare addressee_user_id: string;
+  declare requester_date: string;
+  declare requester_shift_type_code: string;
+  declare addressee_date: string | null | undefined;
+  declare addressee_shift_type_code: string | null | undefined;
+  declare expected_changes: ShiftSwapExpectedChange[] | null | undefined;
+  declare status: ShiftSwapStatus;
+  declare message: string | null | undefined;
+  declare created_at: Date | undefined;
+  declare responded_at: Date | null | undefined;
+
+  // 연관 관계 타입
+  declare requester?: User;
+  declare addressee?: User;
+}
+
+ShiftSwapRequest.init(
+  {
+    swap_request_id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    requester_user_id: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: "users",
+        key: "user_id",
+      },
+    },
+    addressee_user_id: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: "users",
+        key: "user_id",
+      },
+    },
+    requester_date: {
+      type: DataTypes.DATEONLY,
+      allowNull: false,
+    },
+    requester_shift_type_code: {
+      type: DataTypes.TEXT,
+      allowNull: false,
+    },
+    addressee_date: {
+      type: DataTypes.DATEONLY,
+      allowNull: true,
+    },
+    addressee_shift_type_code: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    expected_changes: {
+      type: DataTypes.JSONB,
+      allowNull: true,
+    },
+    status: {
+      type: DataTypes.TEXT,
+      allowNull: false,
+      defaultValue: "PENDING",
+      validate: {
+        isIn: [["PENDING", "ACCEPTED", "REJECTED", "CANCELED"]],
+      },
+    },
+    message: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    responded_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: "shift_swap_requests",
+    modelName: "ShiftSwapRequest",
+    timestamps: false,
+    indexes: [
+      {
+        fields: ["addressee_user_id", "status", "created_at"],
+        name: "idx_shift_swap_requests_addressee_status",
+      },
+      {
+        fields: ["requester_user_id", "status", "created_at"],
+        name: "idx_shift_swap_requests_requester_status",
+      },
+    ],
+    validate: {
+      notSelf(this: ShiftSwapRequest) {
+        if (this.requester_user_id === this.addressee_user_id) {
+          throw new Error("자기 자신에게 근무 교환을 요청할 수 없습니다.");
+        }
+      },
+    },
+  }
+);
+
+// 연관 관계 설정
+ShiftSwapRequest.belongsTo(User, {
+  foreignKey: "requester_user_id",
+  as: "requester",
+});
+
+ShiftSwapRequest.belongsTo(User, {
+  foreignKey: "addressee_user_id",
+  as: "addressee",
+});
+
+export default ShiftSwapRequest;
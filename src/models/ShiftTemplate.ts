@@ -7,13 +7,14 @@ interface ShiftTemplateAttributes {
   owner_user_id: string; // UUID
   name: string;
   created_at?: Date;
+  archived_at?: Date | null; // 보관된 템플릿은 새로 활성화할 수 없음
   deleted_at?: Date | null;
 }
 
 interface ShiftTemplateCreationAttributes
   extends Optional<
     ShiftTemplateAttributes,
-    "template_id" | "created_at" | "deleted_at"
+    "template_id" | "created_at" | "archived_at" | "deleted_at"
   > {}
 
 class ShiftTemplate
@@ -24,6 +25,7 @@ class ShiftTemplate
   declare owner_user_id: string;
   declare name: string;
   declare created_at: Date | undefined;
+  declare archived_at: Date | null | undefined;
   declare deleted_at: Date | null | undefined;
 }
 
@@ -51,6 +53,10 @@ ShiftTemplate.init(
       allowNull: false,
       defaultValue: DataTypes.NOW,
     },
+    archived_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
     deleted_at: {
       type: DataTypes.DATE,
       allowNull: true,
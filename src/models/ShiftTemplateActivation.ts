@@ -0,0 +1,104 @@
+import { DataTypes, Model, Optional } from "sequelize";
+import { sequelize } from "../config/database";
+import ShiftTemplate from "./ShiftTemplate";
+import User from "./User";
+
+/**
+ * 사용자별 활성 템플릿 타임라인
+ * - effective_from부터 다음 활성화 전날까지 해당 템플릿 적용
+ */
+interface ShiftTemplateActivationAttributes {
+  activation_id: string; // UUID
+  owner_user_id: string; // UUID
+  template_id: string; // UUID
+  effective_from: string; // YYYY-MM-DD
+  created_at?: Date;
+}
+
+interface ShiftTemplateActivationCreationAttributes
+  extends Optional<
+    ShiftTemplateActivationAttributes,
+    "activation_id" | "created_at"
+  > {}
+
+class ShiftTemplateActivation
+  extends Model<
+    ShiftTemplateActivationAttributes,
+    ShiftTemplateActivationCreationAttributes
+  >
+  implements ShiftTemplateActivationAttributes
+{
+  declare activation_id: string;
+  declare owner_user_id: string;
+  declare template_id: string;
+  declare effective_from: string;
+  declare created_at: Date | undefined;
+}
+
+ShiftTemplateActivation.init(
+  {
+    activation_id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    owner_user_id: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: "users",
+        key: "user_id",
+      },
+      onDelete: "CASCADE",
+    },
+    template_id: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: "shift_templates",
+        key: "template_id",
+      },
+      onDelete: "CASCADE",
+    },
+    effective_from: {
+      type: DataTypes.DATEONLY,
+      allowNull: false,
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    tableName: "shift_template_activations",
+    modelName: "ShiftTemplateActivation",
+    timestamps: false,
+    indexes: [
+      {
+        unique: true,
+        fields: ["owner_user_id", "effective_from"],
+      },
+      {
+        fields: ["template_id"],
+      },
+    ],
+  }
+);
+
+// 관계 설정
+ShiftTemplateActivation.belongsTo(User, {
+  foreignKey: "owner_user_id",
+  as: "owner",
+});
+ShiftTemplateActivation.belongsTo(ShiftTemplate, {
+  foreignKey: "template_id",
+  as: "template",
+});
+ShiftTemplate.hasMany(ShiftTemplateActivation, {
+  foreignKey: "template_id",
+  as: "activations",
+});
+
+export default ShiftTemplateActivation;
@@ -0,0 +1,161 @@
+import { DataTypes, Model, Optional } from "sequelize";
+import { sequelize } from "../config/database";
+import ShiftTemplate from "./ShiftTemplate";
+import User from "./User";
+
+// 공유 시점의 근무 타입 정의 (시간표 포함)
+export interface SharedShiftTypeDefinition {
+  code: string;
+  name: string;
+  color: number | null;
+  sort_order: number | null;
+  start_time: string | null; // HH:mm:ss
+  end_time: string | null; // HH:mm:ss
+}
+
+interface ShiftTemplateShareAttributes {
+  share_id: string; // UUID
+  share_code: string; // 공유 코드 (대문자/숫자)
+  owner_user_id: string; // 공유한 사용자
+  template_id: string; // 원본 템플릿
+  recipient_user_id?: string | null; // 친구에게 보낸 경우 받는 사용자 (null이면 코드를 아는 누구나)
+  template_name: string; // 공유 시점의 템플릿 이름
+  shift_types: SharedShiftTypeDefinition[]; // 공유 시점의 근무 타입 스냅샷
+  import_count: number;
+  expires_at: Date;
+  revoked_at?: Date | null;
+  created_at?: Date;
+}
+
+interface ShiftTemplateShareCreationAttributes
+  extends Optional<
+    ShiftTemplateShareAttributes,
+    | "share_id"
+    | "recipient_user_id"
+    | "import_count"
+    | "revoked_at"
+    | "created_at"
+  > {}
+
+class ShiftTemplateShare
+  extends Model<
+    ShiftTemplateShareAttributes,
+    ShiftTemplateShareCreationAttributes
+  >
+  implements ShiftTemplateShareAttributes
+{
+  declare share_id: string;
+  declare share_code: string;
+  declare owner_user_id: string;
+  declare template_id: string;
+  declare recipient_user_id: string | null | undefined;
+  declare template_name: string;
+  declare shift_types: SharedShiftTypeDefinition[];
+  declare import_count: number;
+  declare expires_at: Date;
+  declare revoked_at: Date | null | undefined;
+  declare created_at: Date | undefined;
+
+  // 연관 관계 타입
+  declare owner?: User;
+  declare recipient?: User;
+}
+
+ShiftTemplateShare.init(
+  {
+    share_id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    share_code: {
+      type: DataTypes.TEXT,
+      allowNull: false,
+      unique: true,
+    },
+    owner_user_id: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: "users",
+        key: "user_id",
+      },
+      onDelete: "CASCADE",
+    },
+    template_id: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: "shift_templates",
+        key: "template_id",
+      },
+      onDelete: "CASCADE",
+    },
+    recipient_user_id: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: "users",
+        key: "user_id",
+      },
+      onDelete: "CASCADE",
+    },
+    template_name: {
+      type: DataTypes.TEXT,
+      allowNull: false,
+    },
+    shift_types: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+      defaultValue: [],
+    },
+    import_count: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    expires_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+    revoked_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    tableName: "shift_template_shares",
+    modelName: "ShiftTemplateShare",
+    timestamps: false,
+    indexes: [
+      {
+        fields: ["owner_user_id", "created_at"],
+      },
+      {
+        fields: ["recipient_user_id", "created_at"],
+      },
+    ],
+  }
+);
+
+// 연관 관계 설정
+ShiftTemplateShare.belongsTo(User, {
+  foreignKey: "owner_user_id",
+  as: "owner",
+});
+ShiftTemplateShare.belongsTo(User, {
+  foreignKey: "recipient_user_id",
+  as: "recipient",
+});
+ShiftTemplateShare.belongsTo(ShiftTemplate, {
+  foreignKey: "template_id",
+  as: "template",
+});
+
+export default ShiftTemplateShare;
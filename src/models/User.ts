@@ -13,6 +13,8 @@ interface UserAttributes {
   naver_id?: string | null;
   password?: string | null;
   phone?: string | null; // 전화번호 (E.164 형식 권장)
+  withdrawn_at?: Date | null; // 탈퇴 요청 시각 (유예 기간 중 다시 로그인하면 복구)
+  purged_at?: Date | null; // 유예 기간이 지나 데이터 삭제 및 익명화된 시각
   created_at?: Date;
 }
 
@@ -27,6 +29,8 @@ interface UserCreationAttributes
     | "naver_id"
     | "password"
     | "phone"
+    | "withdrawn_at"
+    | "purged_at"
     | "created_at"
   > {}
 
@@ -44,6 +48,8 @@ class User
   declare naver_id: string | null | undefined;
   declare password: string | null | undefined;
   declare phone: string | null | undefined;
+  declare withdrawn_at: Date | null | undefined;
+  declare purged_at: Date | null | undefined;
   declare created_at: Date | undefined;
 
   // 비밀번호 검증 메서드 (패스워드 인증 추가 시 사용)
@@ -111,6 +117,14 @@ User.init(
       allowNull: true,
       unique: true,
     },
+    withdrawn_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    purged_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
     created_at: {
       type: DataTypes.DATE,
       allowNull: false,
@@ -120,12 +120,12 @@ WorkShift.init(
     timestamps: true,
     underscored: true,
     indexes: [
+      // 날짜별 활성 근무는 하나 (휴지통의 삭제된 근무는 같은 날짜에 여러 개일 수 있음)
+      // 기존 데이터베이스는 시작 시 config/database.ts의 스키마 변경으로 교체
       {
+        name: "work_shifts_active_owner_date",
         unique: true,
         fields: ["owner_user_id", "work_date"],
-      },
-      {
-        fields: ["owner_user_id", "work_date"],
         where: { deleted_at: null },
       },
     ],
@@ -0,0 +1,178 @@
+import { DataTypes, Model, Optional } from "sequelize";
+import { sequelize } from "../config/database";
+import User from "./User";
+import WorkShift from "./WorkShift";
+
+// 근무표 변경 종류
+export type WorkShiftHistoryAction = "CREATE" | "UPDATE" | "DELETE";
+
+/**
+ * 근무표 변경 이력 (수정/삭제하지 않는 불변 기록)
+ * - old_*: 변경 전 상태 (CREATE면 null)
+ * - new_*: 변경 후 상태 (DELETE면 null)
+ */
+interface WorkShiftHistoryAttributes {
+  history_id: string; // UUID
+  work_shift_id: string; // UUID
+  owner_user_id: string; // UUID
+  work_date: string; // YYYY-MM-DD
+  action: WorkShiftHistoryAction;
+  old_schedule_id?: string | null;
+  old_shift_type_code?: string | null;
+  old_note?: string | null;
+  new_schedule_id?: string | null;
+  new_shift_type_code?: string | null;
+  new_note?: string | null;
+  changed_by_user_id: string; // UUID
+  reverted_history_id?: string | null; // 되돌리기로 생성된 경우 대상 이력
+  created_at?: Date;
+}
+
+interface WorkShiftHistoryCreationAttributes
+  extends Optional<
+    WorkShiftHistoryAttributes,
+    | "history_id"
+    | "old_schedule_id"
+    | "old_shift_type_code"
+    | "old_note"
+    | "new_schedule_id"
+    | "new_shift_type_code"
+    | "new_note"
+    | "reverted_history_id"
+    | "created_at"
+  > {}
+
+class WorkShiftHistory
+  extends Model<WorkShiftHistoryAttributes, WorkShiftHistoryCreationAttributes>
+  implements WorkShiftHistoryAttributes
+{
+  declare history_id: string;
+  declare work_shift_id: string;
+  declare owner_user_id: string;
+  declare work_date: string;
+  declare action: WorkShiftHistoryAction;
+  declare old_schedule_id: string | null | undefined;
+  declare old_shift_type_code: string | null | undefined;
+  declare old_note: string | null | undefined;
+  declare new_schedule_id: string | null | undefined;
+  declare new_shift_type_code: string | null | undefined;
+  declare new_note: string | null | undefined;
+  declare changed_by_user_id: string;
+  declare reverted_history_id: string | null | undefined;
+  declare created_at: Date | undefined;
+
+  // 연관 관계 타입
+  declare changed_by?: User;
+}
+
+WorkShiftHistory.init(
+  {
+    history_id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    work_shift_id: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: "work_shifts",
+        key: "work_shift_id",
+      },
+      onDelete: "CASCADE",
+    },
+    owner_user_id: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: "users",
+        key: "user_id",
+      },
+    },
+    work_date: {
+      type: DataTypes.DATEONLY,
+      allowNull: false,
+    },
+    action: {
+      type: DataTypes.TEXT,
+      allowNull: false,
+      validate: {
+        isIn: [["CREATE", "UPDATE", "DELETE"]],
+      },
+    },
+    old_schedule_id: {
+      type: DataTypes.UUID,
+      allowNull: true,
+    },
+    old_shift_type_code: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    old_note: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    new_schedule_id: {
+      type: DataTypes.UUID,
+      allowNull: true,
+    },
+    new_shift_type_code: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    new_note: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    changed_by_user_id: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: "users",
+        key: "user_id",
+      },
+    },
+    reverted_history_id: {
+      type: DataTypes.UUID,
+      allowNull: true,
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    tableName: "work_shift_histories",
+    modelName: "WorkShiftHistory",
+    timestamps: false,
+    indexes: [
+      {
+        fields: ["work_shift_id", "created_at"],
+        name: "idx_work_shift_histories_work_shift",
+      },
+      {
+        fields: ["owner_user_id", "work_date"],
+        name: "idx_work_shift_histories_owner_date",
+      },
+    ],
+  }
+);
+
+// 연관 관계 설정
+WorkShiftHistory.belongsTo(WorkShift, {
+  foreignKey: "work_shift_id",
+  as: "work_shift",
+});
+WorkShift.hasMany(WorkShiftHistory, {
+  foreignKey: "work_shift_id",
+  as: "histories",
+});
+
+WorkShiftHistory.belongsTo(User, {
+  foreignKey: "changed_by_user_id",
+  as: "changed_by",
+});
+
+export default WorkShiftHistory;
@@ -9,20 +9,44 @@ export { default as SharedSchedule, SharePermission } from "./SharedSchedule";
 // 새로운 근무 템플릿 시스템
 export { default as ShiftTemplate } from "./ShiftTemplate";
 export { default as ShiftTemplateVersion } from "./ShiftTemplateVersion";
+export { default as ShiftTemplateActivation } from "./ShiftTemplateActivation";
 export { default as ShiftType } from "./ShiftType";
 export { default as ShiftTypeSchedule } from "./ShiftTypeSchedule";
+export { default as ShiftRotationPattern } from "./ShiftRotationPattern";
+export { default as ShiftPayRule } from "./ShiftPayRule";
+export {
+  default as ShiftTemplateShare,
+  SharedShiftTypeDefinition,
+} from "./ShiftTemplateShare";
 
 // 근무표 및 일정
 export { default as WorkShift } from "./WorkShift";
+export {
+  default as WorkShiftHistory,
+  WorkShiftHistoryAction,
+} from "./WorkShiftHistory";
 export { default as Event } from "./Event";
+export { default as EventOccurrenceOverride } from "./EventOccurrenceOverride";
+export { default as CalendarFeed, CalendarFeedScope } from "./CalendarFeed";
+export { default as HolidayOverride } from "./HolidayOverride";
 
 // 인증 관련
 export { default as RefreshToken } from "./RefreshToken";
 
+// 계정 데이터 내보내기
+export {
+  default as AccountExport,
+  AccountExportStatus,
+} from "./AccountExport";
+
 // 친구 관련
 export { default as FriendRequest, FriendRequestStatus } from "./FriendRequest";
 export { default as Friendship } from "./Friendship";
 export { default as FriendLevelSetting } from "./FriendLevelSetting";
+export {
+  default as ShiftSwapRequest,
+  ShiftSwapStatus,
+} from "./ShiftSwapRequest";
 
 // 알림 관련
 export {
@@ -0,0 +1,126 @@
+import { Router } from "express";
+import { body, param } from "express-validator";
+import { authMiddleware } from "../middlewares/auth";
+import * as accountController from "../controllers/accountController";
+import { SOCIAL_PROVIDERS } from "../services/accountLinkService";
+
+const router = Router();
+
+// 모든 라우트에 인증 필요
+router.use(authMiddleware);
+
+const exportIdValidator = param("export_id")
+  .isUUID()
+  .withMessage("유효한 내보내기 ID를 입력하세요.");
+
+// ============================================================
+// 회원 탈퇴 엔드포인트
+// ============================================================
+
+/**
+ * DELETE /api/v1/account
+ * 회원 탈퇴 (친구 관계/세션은 즉시 정리, 나머지 데이터는 유예 기간 후 삭제)
+ */
+router.delete("/account", accountController.withdrawAccount);
+
+// ============================================================
+// 소셜 계정 연결 / 계정 통합 엔드포인트
+// ============================================================
+
+const providerParamValidator = param("provider")
+  .isIn(SOCIAL_PROVIDERS)
+  .withMessage("provider는 kakao, naver, apple 중 하나여야 합니다.");
+
+// 제공자별 로그인 API와 같은 인증 정보 (필요한 조합은 서비스에서 확인)
+const providerCredentialValidators = [
+  "access_token",
+  "code",
+  "state",
+  "redirect_uri",
+  "identity_token",
+  "nonce",
+].map((field) =>
+  body(field)
+    .optional()
+    .isString()
+    .withMessage(`${field}는 문자열이어야 합니다.`)
+);
+
+/**
+ * GET /api/v1/account/providers
+ * 로그인 수단 연결 상태 조회 (kakao, naver, apple, password)
+ */
+router.get("/account/providers", accountController.getLinkedProviders);
+
+/**
+ * POST /api/v1/account/providers/:provider
+ * 현재 계정에 소셜 계정 추가 연결
+ */
+router.post(
+  "/account/providers/:provider",
+  [providerParamValidator, ...providerCredentialValidators],
+  accountController.linkProvider
+);
+
+/**
+ * DELETE /api/v1/account/providers/:provider
+ * 소셜 계정 연결 해제 (다른 로그인 수단이 하나 이상 남아 있어야 함)
+ */
+router.delete(
+  "/account/providers/:provider",
+  [providerParamValidator],
+  accountController.unlinkProvider
+);
+
+/**
+ * POST /api/v1/account/merge
+ * 소셜 계정 인증으로 확인한 다른 계정의 데이터를 현재 계정으로 통합
+ */
+router.post(
+  "/account/merge",
+  [
+    body("provider")
+      .isIn(SOCIAL_PROVIDERS)
+      .withMessage("provider는 kakao, naver, apple 중 하나여야 합니다."),
+    ...providerCredentialValidators,
+  ],
+  accountController.mergeAccount
+);
+
+// ============================================================
+// 계정 데이터 내보내기 엔드포인트
+// ============================================================
+
+/**
+ * POST /api/v1/account/exports
+ * 계정 데이터 내보내기 요청 (ZIP 파일은 백그라운드에서 생성)
+ */
+router.post("/account/exports", accountController.requestAccountExport);
+
+/**
+ * GET /api/v1/account/exports
+ * 계정 데이터 내보내기 요청 목록
+ */
+router.get("/account/exports", accountController.getAccountExports);
+
+/**
+ * GET /api/v1/account/exports/:export_id
+ * 계정 데이터 내보내기 상태 조회
+ */
+router.get(
+  "/account/exports/:export_id",
+  [exportIdValidator],
+  accountController.getAccountExport
+);
+
+/**
+ * GET /api/v1/account/exports/:export_id/download
+ * 계정 데이터 내보내기 파일 다운로드 (profile, 템플릿, 근무표 CSV, 캘린더 ICS 등)
+ */
+router.get(
+  "/account/exports/:export_id/download",
+  [exportIdValidator],
+  accountController.downloadAccountExport
+);
+
+export default router;
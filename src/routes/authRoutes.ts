@@ -1,5 +1,5 @@
 import { Router } from "express";
-import { body } from "express-validator";
+import { body, param } from "express-validator";
 import {
   register,
   login,
@@ -7,10 +7,13 @@ import {
   logout,
   logoutAll,
   getProfile,
+  getSessions,
+  deleteSession,
   kakaoLogin,
   kakaoLoginWithToken,
   naverLogin,
   naverLoginWithToken,
+  appleLogin,
 } from "../controllers/authController";
 import { authMiddleware } from "../middlewares/auth";
 
@@ -50,6 +53,29 @@ router.post(
   naverLoginWithToken
 );
 
+// Apple 로그인 (identity token 직접 전송, name은 최초 로그인 시에만 전달됨)
+router.post(
+  "/apple",
+  [
+    body("identity_token")
+      .notEmpty()
+      .withMessage("identity_token이 필요합니다.")
+      .isString()
+      .withMessage("identity_token은 문자열이어야 합니다."),
+    body("nonce")
+      .optional()
+      .isString()
+      .withMessage("nonce는 문자열이어야 합니다."),
+    body("name")
+      .optional({ values: "null" })
+      .isString()
+      .withMessage("name은 문자열이어야 합니다.")
+      .isLength({ max: 100 })
+      .withMessage("name은 100자 이하여야 합니다."),
+  ],
+  appleLogin
+);
+
 // ===== 패스워드 인증 (추후 활성화) =====
 
 // 회원가입
@@ -90,6 +116,17 @@ router.post(
 // 로그아웃 (모든 기기) - 인증 필요
 router.post("/logout-all", authMiddleware, logoutAll);
 
+// 로그인 세션(기기) 목록 조회 (현재 세션 표시)
+router.get("/sessions", authMiddleware, getSessions);
+
+// 특정 기기 로그아웃
+router.delete(
+  "/sessions/:token_id",
+  authMiddleware,
+  [param("token_id").isUUID().withMessage("유효한 세션 ID를 입력하세요.")],
+  deleteSession
+);
+
 // 내 정보 조회
 router.get("/profile", authMiddleware, getProfile);
 
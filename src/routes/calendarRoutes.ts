@@ -1,23 +1,58 @@
-import { Router } from "express";
-import { body, query } from "express-validator";
+import express, { Router } from "express";
+import { body, param, query } from "express-validator";
 import {
   getShiftTypes,
   getWorkShifts,
   getDaySchedule,
   getEvents,
+  createEvent,
+  updateEvent,
   deleteEvent,
+  upsertEventOccurrence,
+  cancelEventOccurrence,
   getCalendarRange,
+  exportCalendarIcs,
+  previewCalendarImport,
+  importCalendarIcs,
   upsertWorkShift,
   updateWorkShift,
   deleteWorkShift,
   batchUpsertWorkShifts,
+  getWorkShiftHistory,
+  getWorkShiftHistoryFeed,
+  revertWorkShiftChange,
+  getWorkShiftStatistics,
+  getTrash,
+  restoreWorkShift,
+  restoreEvent,
   getCurrentTemplate,
   updateCurrentTemplate,
+  getTemplates,
+  createTemplate,
+  updateTemplate,
+  activateTemplate,
+  archiveTemplate,
+  unarchiveTemplate,
+  exportTemplateDocument,
+  importTemplateDocument,
+  getTemplateVersions,
+  createTemplateVersion,
+  updateTemplateVersionSchedule,
+  getPayRule,
+  savePayRule,
+  deletePayRule,
+  getPayEstimate,
   createShiftType,
   updateShiftType,
   deleteShiftType,
+  getShiftPatterns,
+  createShiftPattern,
+  updateShiftPattern,
+  deleteShiftPattern,
+  applyShiftPattern,
 } from "../controllers/calendarController";
 import { authMiddleware } from "../middlewares/auth";
+import { TRASH_RETENTION_DAYS } from "../services/trashService";
 
 const router = Router();
 
@@ -38,8 +73,255 @@ router.put(
   updateCurrentTemplate
 );
 
-// 근무 타입 정보 조회
-router.get("/shift-types", getShiftTypes);
+// 템플릿 관리 (사용자별 여러 템플릿, 날짜별 활성 템플릿)
+router.get(
+  "/shift-templates",
+  [
+    query("include_archived")
+      .optional()
+      .isBoolean()
+      .withMessage("include_archived는 true 또는 false여야 합니다."),
+  ],
+  getTemplates
+);
+router.post(
+  "/shift-templates",
+  [
+    body("name")
+      .notEmpty()
+      .withMessage("템플릿 이름을 입력하세요.")
+      .isString()
+      .withMessage("템플릿 이름은 문자열이어야 합니다."),
+    body("source_template_id")
+      .optional({ nullable: true })
+      .isUUID()
+      .withMessage("유효한 템플릿 ID를 입력하세요."),
+  ],
+  createTemplate
+);
+router.put(
+  "/shift-templates/:template_id",
+  [
+    param("template_id").isUUID().withMessage("유효한 템플릿 ID를 입력하세요."),
+    body("name")
+      .notEmpty()
+      .withMessage("템플릿 이름을 입력하세요.")
+      .isString()
+      .withMessage("템플릿 이름은 문자열이어야 합니다."),
+  ],
+  updateTemplate
+);
+router.post(
+  "/shift-templates/:template_id/activate",
+  [
+    param("template_id").isUUID().withMessage("유효한 템플릿 ID를 입력하세요."),
+    body("effective_from")
+      .optional({ nullable: true })
+      .isISO8601()
+      .withMessage("유효한 활성화 시작일을 입력하세요. (YYYY-MM-DD)"),
+  ],
+  activateTemplate
+);
+router.post(
+  "/shift-templates/:template_id/archive",
+  [param("template_id").isUUID().withMessage("유효한 템플릿 ID를 입력하세요.")],
+  archiveTemplate
+);
+router.post(
+  "/shift-templates/:template_id/unarchive",
+  [param("template_id").isUUID().withMessage("유효한 템플릿 ID를 입력하세요.")],
+  unarchiveTemplate
+);
+
+// 템플릿 JSON 내보내기/가져오기 (모든 버전, 근무 타입, 시간표 포함)
+const TIME_PATTERN = /^([0-1][0-9]|2[0-3]):[0-5][0-9]:[0-5][0-9]$/;
+router.get(
+  "/shift-templates/:template_id/export",
+  [param("template_id").isUUID().withMessage("유효한 템플릿 ID를 입력하세요.")],
+  exportTemplateDocument
+);
+router.post(
+  "/shift-templates/import",
+  [
+    body("mode")
+      .isIn(["new", "merge"])
+      .withMessage("mode는 'new' 또는 'merge'여야 합니다."),
+    body("name")
+      .optional({ nullable: true })
+      .notEmpty()
+      .withMessage("템플릿 이름을 입력하세요.")
+      .isString()
+      .withMessage("템플릿 이름은 문자열이어야 합니다."),
+    body("template_id")
+      .optional({ nullable: true })
+      .isUUID()
+      .withMessage("유효한 템플릿 ID를 입력하세요."),
+    body("conflict_resolution")
+      .optional()
+      .isIn(["skip", "overwrite", "rename"])
+      .withMessage(
+        "conflict_resolution은 'skip', 'overwrite', 'rename' 중 하나여야 합니다."
+      ),
+    body("document.format")
+      .equals("shift-template")
+      .withMessage("지원하지 않는 템플릿 문서 형식입니다."),
+    body("document.format_version")
+      .isInt({ min: 1, max: 1 })
+      .withMessage("지원하지 않는 템플릿 문서 버전입니다."),
+    body("document.template.name")
+      .notEmpty()
+      .withMessage("템플릿 이름을 입력하세요.")
+      .isString()
+      .withMessage("템플릿 이름은 문자열이어야 합니다."),
+    body("document.template.shift_types")
+      .isArray({ min: 1 })
+      .withMessage("근무 타입 목록이 필요합니다."),
+    body("document.template.shift_types.*.code")
+      .notEmpty()
+      .withMessage("근무 타입 코드를 입력하세요.")
+      .isString()
+      .withMessage("근무 타입 코드는 문자열이어야 합니다."),
+    body("document.template.shift_types.*.name")
+      .notEmpty()
+      .withMessage("근무 타입 이름을 입력하세요.")
+      .isString()
+      .withMessage("근무 타입 이름은 문자열이어야 합니다."),
+    body("document.template.shift_types.*.color")
+      .optional({ nullable: true })
+      .isInt()
+      .withMessage("색상은 정수여야 합니다."),
+    body("document.template.shift_types.*.sort_order")
+      .optional({ nullable: true })
+      .isInt()
+      .withMessage("정렬 순서는 정수여야 합니다."),
+    body("document.template.versions")
+      .isArray({ min: 1 })
+      .withMessage("템플릿 버전 목록이 필요합니다."),
+    body("document.template.versions.*.effective_from")
+      .isISO8601()
+      .withMessage("유효한 적용 시작일을 입력하세요. (YYYY-MM-DD)"),
+    body("document.template.versions.*.schedules")
+      .isArray()
+      .withMessage("버전별 시간표 목록이 필요합니다."),
+    body("document.template.versions.*.schedules.*.code")
+      .notEmpty()
+      .withMessage("근무 타입 코드를 입력하세요.")
+      .isString()
+      .withMessage("근무 타입 코드는 문자열이어야 합니다."),
+    body("document.template.versions.*.schedules.*.start_time")
+      .optional({ nullable: true })
+      .matches(TIME_PATTERN)
+      .withMessage("시작 시간은 HH:mm:ss 형식이거나 null이어야 합니다."),
+    body("document.template.versions.*.schedules.*.end_time")
+      .optional({ nullable: true })
+      .matches(TIME_PATTERN)
+      .withMessage("종료 시간은 HH:mm:ss 형식이거나 null이어야 합니다."),
+    body("document.template.versions.*.schedules.*")
+      .custom(
+        (schedule) =>
+          Boolean(schedule?.start_time) === Boolean(schedule?.end_time)
+      )
+      .withMessage("start_time과 end_time은 둘 다 있거나 둘 다 없어야 합니다."),
+  ],
+  importTemplateDocument
+);
+
+// 템플릿 버전 타임라인
+router.get("/shift-templates/current/versions", getTemplateVersions);
+router.post(
+  "/shift-templates/current/versions",
+  [
+    body("effective_from")
+      .isISO8601()
+      .withMessage("유효한 적용 시작일을 입력하세요. (YYYY-MM-DD)"),
+    body("source_version_id")
+      .optional({ nullable: true })
+      .isUUID()
+      .withMessage("유효한 버전 ID를 입력하세요."),
+  ],
+  createTemplateVersion
+);
+router.put(
+  "/shift-templates/current/versions/:template_version_id/schedules/:shift_type_id",
+  [
+    param("template_version_id")
+      .isUUID()
+      .withMessage("유효한 버전 ID를 입력하세요."),
+    param("shift_type_id")
+      .isUUID()
+      .withMessage("유효한 근무 타입 ID를 입력하세요."),
+    body("start_time")
+      .optional({ nullable: true })
+      .matches(/^([0-1][0-9]|2[0-3]):[0-5][0-9]:[0-5][0-9]$/)
+      .withMessage("시작 시간은 HH:mm:ss 형식이거나 null이어야 합니다."),
+    body("end_time")
+      .optional({ nullable: true })
+      .matches(/^([0-1][0-9]|2[0-3]):[0-5][0-9]:[0-5][0-9]$/)
+      .withMessage("종료 시간은 HH:mm:ss 형식이거나 null이어야 합니다."),
+    body("start_time")
+      .custom(
+        (start_time, { req }) =>
+          Boolean(start_time) === Boolean(req.body.end_time)
+      )
+      .withMessage("start_time과 end_time은 둘 다 있거나 둘 다 없어야 합니다."),
+  ],
+  updateTemplateVersionSchedule
+);
+
+// 급여 규칙 관리
+router.get("/shift-templates/current/pay-rule", getPayRule);
+router.put(
+  "/shift-templates/current/pay-rule",
+  [
+    body("base_hourly_wage")
+      .isInt({ min: 0 })
+      .withMessage("기본 시급은 0 이상의 정수여야 합니다."),
+    body("night_start_time")
+      .optional()
+      .matches(/^([01]\d|2[0-3]):[0-5]\d$/)
+      .withMessage("야간 시작 시각은 HH:mm 형식이어야 합니다."),
+    body("night_end_time")
+      .optional()
+      .matches(/^([01]\d|2[0-3]):[0-5]\d$/)
+      .withMessage("야간 종료 시각은 HH:mm 형식이어야 합니다."),
+    body("night_multiplier")
+      .optional()
+      .isFloat({ min: 1, max: 5 })
+      .withMessage("야간 배율은 1~5 사이여야 합니다."),
+    body("holiday_multiplier")
+      .optional()
+      .isFloat({ min: 1, max: 5 })
+      .withMessage("휴일 배율은 1~5 사이여야 합니다."),
+    body("holiday_weekdays")
+      .optional()
+      .isArray({ max: 7 })
+      .withMessage("holiday_weekdays는 배열이어야 합니다."),
+    body("holiday_weekdays.*")
+      .isInt({ min: 0, max: 6 })
+      .withMessage("요일은 0(일요일)~6(토요일) 사이여야 합니다."),
+    body("shift_allowances")
+      .optional()
+      .isObject()
+      .withMessage("shift_allowances는 객체여야 합니다."),
+    body("shift_allowances.*")
+      .isInt({ min: 0 })
+      .withMessage("근무 수당은 0 이상의 정수여야 합니다."),
+  ],
+  savePayRule
+);
+router.delete("/shift-templates/current/pay-rule", deletePayRule);
+
+// 근무 타입 정보 조회 (template_id가 없으면 현재 활성 템플릿)
+router.get(
+  "/shift-types",
+  [
+    query("template_id")
+      .optional()
+      .isUUID()
+      .withMessage("유효한 템플릿 ID를 입력하세요."),
+  ],
+  getShiftTypes
+);
 
 // 기간별 근무표 조회
 router.get(
@@ -80,8 +362,140 @@ router.get(
   getEvents
 );
 
+// 일정 생성
+router.post(
+  "/events",
+  [
+    body("title")
+      .notEmpty()
+      .withMessage("일정 제목을 입력하세요.")
+      .isString()
+      .withMessage("일정 제목은 문자열이어야 합니다."),
+    body("memo").optional({ nullable: true }).isString(),
+    body("place").optional({ nullable: true }).isString(),
+    body("all_day")
+      .optional()
+      .isBoolean()
+      .withMessage("all_day는 boolean이어야 합니다.")
+      .toBoolean(),
+    body("start_at")
+      .isISO8601()
+      .withMessage("유효한 시작 일시를 입력하세요. (ISO 8601)"),
+    body("end_at")
+      .isISO8601()
+      .withMessage("유효한 종료 일시를 입력하세요. (ISO 8601)"),
+    body("visibility_level")
+      .optional()
+      .isInt({ min: 0, max: 5 })
+      .withMessage("공개 레벨은 0~5 사이여야 합니다.")
+      .toInt(),
+    body("rrule")
+      .optional({ nullable: true })
+      .isString()
+      .withMessage("반복 규칙은 문자열이어야 합니다."),
+    body("exdates")
+      .optional()
+      .isArray()
+      .withMessage("exdates는 배열이어야 합니다."),
+    body("exdates.*")
+      .matches(/^\d{4}-\d{2}-\d{2}$/)
+      .withMessage("제외 날짜는 YYYY-MM-DD 형식이어야 합니다."),
+  ],
+  createEvent
+);
+
+// 일정 수정
+router.put(
+  "/events/:event_id",
+  [
+    param("event_id").isUUID().withMessage("유효한 일정 ID를 입력하세요."),
+    body("title")
+      .optional()
+      .notEmpty()
+      .withMessage("일정 제목을 입력하세요.")
+      .isString()
+      .withMessage("일정 제목은 문자열이어야 합니다."),
+    body("memo").optional({ nullable: true }).isString(),
+    body("place").optional({ nullable: true }).isString(),
+    body("all_day")
+      .optional()
+      .isBoolean()
+      .withMessage("all_day는 boolean이어야 합니다.")
+      .toBoolean(),
+    body("start_at")
+      .optional()
+      .isISO8601()
+      .withMessage("유효한 시작 일시를 입력하세요. (ISO 8601)"),
+    body("end_at")
+      .optional()
+      .isISO8601()
+      .withMessage("유효한 종료 일시를 입력하세요. (ISO 8601)"),
+    body("visibility_level")
+      .optional()
+      .isInt({ min: 0, max: 5 })
+      .withMessage("공개 레벨은 0~5 사이여야 합니다.")
+      .toInt(),
+    body("rrule")
+      .optional({ nullable: true })
+      .isString()
+      .withMessage("반복 규칙은 문자열이어야 합니다."),
+    body("exdates")
+      .optional()
+      .isArray()
+      .withMessage("exdates는 배열이어야 합니다."),
+    body("exdates.*")
+      .matches(/^\d{4}-\d{2}-\d{2}$/)
+      .withMessage("제외 날짜는 YYYY-MM-DD 형식이어야 합니다."),
+  ],
+  updateEvent
+);
+
 // 일정 삭제
-router.delete("/events/:event_id", deleteEvent);
+router.delete(
+  "/events/:event_id",
+  [param("event_id").isUUID().withMessage("유효한 일정 ID를 입력하세요.")],
+  deleteEvent
+);
+
+// 반복 일정의 특정 발생 수정
+router.put(
+  "/events/:event_id/occurrences/:occurrence_date",
+  [
+    param("event_id").isUUID().withMessage("유효한 일정 ID를 입력하세요."),
+    param("occurrence_date")
+      .matches(/^\d{4}-\d{2}-\d{2}$/)
+      .withMessage("유효한 발생 날짜를 입력하세요. (YYYY-MM-DD)"),
+    body("title")
+      .optional()
+      .notEmpty()
+      .withMessage("일정 제목을 입력하세요.")
+      .isString()
+      .withMessage("일정 제목은 문자열이어야 합니다."),
+    body("memo").optional({ nullable: true }).isString(),
+    body("place").optional({ nullable: true }).isString(),
+    body("start_at")
+      .optional()
+      .isISO8601()
+      .withMessage("유효한 시작 일시를 입력하세요. (ISO 8601)"),
+    body("end_at")
+      .optional()
+      .isISO8601()
+      .withMessage("유효한 종료 일시를 입력하세요. (ISO 8601)"),
+  ],
+  upsertEventOccurrence
+);
+
+// 반복 일정의 특정 발생 삭제
+router.delete(
+  "/events/:event_id/occurrences/:occurrence_date",
+  [
+    param("event_id").isUUID().withMessage("유효한 일정 ID를 입력하세요."),
+    param("occurrence_date")
+      .matches(/^\d{4}-\d{2}-\d{2}$/)
+      .withMessage("유효한 발생 날짜를 입력하세요. (YYYY-MM-DD)"),
+  ],
+  cancelEventOccurrence
+);
 
 // 기간별 캘린더 데이터 조회 (근무표 + 일정)
 router.get(
@@ -97,6 +511,56 @@ router.get(
   getCalendarRange
 );
 
+// 기간별 근무표 + 일정 iCalendar(.ics) 내보내기
+router.get(
+  "/calendar/export.ics",
+  [
+    query("start_date")
+      .isISO8601()
+      .withMessage("유효한 시작 날짜를 입력하세요. (YYYY-MM-DD)"),
+    query("end_date")
+      .isISO8601()
+      .withMessage("유효한 종료 날짜를 입력하세요. (YYYY-MM-DD)"),
+    query("include_events")
+      .optional()
+      .isBoolean()
+      .withMessage("include_events는 boolean이어야 합니다."),
+  ],
+  exportCalendarIcs
+);
+
+// iCalendar(.ics) 가져오기 (text/calendar 원문 또는 JSON { ics })
+const icsBodyParser = express.text({
+  type: ["text/calendar", "text/plain"],
+  limit: "2mb",
+});
+const icsImportValidators = [
+  query("map_shifts")
+    .optional()
+    .isBoolean()
+    .withMessage("map_shifts는 boolean이어야 합니다."),
+  query("visibility_level")
+    .optional()
+    .isInt({ min: 0, max: 5 })
+    .withMessage("공개 레벨은 0~5 사이여야 합니다."),
+];
+
+// 가져오기 미리보기 (저장하지 않고 변경 내역만 반환)
+router.post(
+  "/calendar/import/preview",
+  icsBodyParser,
+  icsImportValidators,
+  previewCalendarImport
+);
+
+// 가져오기 실행
+router.post(
+  "/calendar/import",
+  icsBodyParser,
+  icsImportValidators,
+  importCalendarIcs
+);
+
 // 근무표 생성/수정 (UPSERT)
 router.post(
   "/work-shifts",
@@ -143,10 +607,117 @@ router.post(
   batchUpsertWorkShifts
 );
 
+// 기간별 근무표 변경 이력 조회
+router.get(
+  "/work-shifts/history",
+  [
+    query("start_date")
+      .isISO8601()
+      .withMessage("유효한 시작 날짜를 입력하세요. (YYYY-MM-DD)"),
+    query("end_date")
+      .isISO8601()
+      .withMessage("유효한 종료 날짜를 입력하세요. (YYYY-MM-DD)"),
+    query("page")
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage("페이지 번호는 1 이상이어야 합니다."),
+    query("limit")
+      .optional()
+      .isInt({ min: 1, max: 100 })
+      .withMessage("페이지당 항목 수는 1~100 사이여야 합니다."),
+  ],
+  getWorkShiftHistoryFeed
+);
+
+// 근무 변경 되돌리기
+router.post(
+  "/work-shifts/history/:history_id/revert",
+  [param("history_id").isUUID().withMessage("유효한 이력 ID를 입력하세요.")],
+  revertWorkShiftChange
+);
+
+// 근무 한 건의 변경 이력 조회
+router.get(
+  "/work-shifts/:work_shift_id/history",
+  [
+    param("work_shift_id")
+      .isUUID()
+      .withMessage("유효한 근무표 ID를 입력하세요."),
+  ],
+  getWorkShiftHistory
+);
+
+// 기간별 근무 통계 (월/주 단위)
+router.get(
+  "/work-shifts/statistics",
+  [
+    query("start_date")
+      .isISO8601()
+      .withMessage("유효한 시작 날짜를 입력하세요. (YYYY-MM-DD)"),
+    query("end_date")
+      .isISO8601()
+      .withMessage("유효한 종료 날짜를 입력하세요. (YYYY-MM-DD)"),
+    query("group_by")
+      .optional()
+      .isIn(["month", "week"])
+      .withMessage("group_by는 'month' 또는 'week'여야 합니다."),
+  ],
+  getWorkShiftStatistics
+);
+
+// 월 예상 급여 조회
+router.get(
+  "/work-shifts/pay-estimate",
+  [
+    query("month")
+      .matches(/^\d{4}-(0[1-9]|1[0-2])$/)
+      .withMessage("유효한 월을 입력하세요. (YYYY-MM)"),
+  ],
+  getPayEstimate
+);
+
+// 휴지통 조회
+router.get(
+  "/trash",
+  [
+    query("days")
+      .optional()
+      .isInt({ min: 1, max: TRASH_RETENTION_DAYS })
+      .withMessage(`days는 1~${TRASH_RETENTION_DAYS} 사이여야 합니다.`),
+  ],
+  getTrash
+);
+
+// 삭제된 근무표 복원
+router.post(
+  "/trash/work-shifts/:work_shift_id/restore",
+  [
+    param("work_shift_id")
+      .isUUID()
+      .withMessage("유효한 근무표 ID를 입력하세요."),
+    body("overwrite")
+      .optional()
+      .isBoolean()
+      .withMessage("overwrite는 boolean이어야 합니다."),
+  ],
+  restoreWorkShift
+);
+
+// 삭제된 일정 복원
+router.post(
+  "/trash/events/:event_id/restore",
+  [param("event_id").isUUID().withMessage("유효한 일정 ID를 입력하세요.")],
+  restoreEvent
+);
+
 // 근무 타입 관리
 router.post(
   "/shift-types",
   [
+    body("template_id")
+      .optional({ nullable: true })
+      .isUUID()
+      .withMessage("유효한 템플릿 ID를 입력하세요."),
     body("code")
       .notEmpty()
       .withMessage("근무 타입 코드를 입력하세요.")
@@ -228,4 +799,86 @@ router.put(
 
 router.delete("/shift-types/:shift_type_id", deleteShiftType);
 
+// 근무 패턴 (근무 타입 코드 순환 주기)
+router.get("/shift-patterns", getShiftPatterns);
+
+router.post(
+  "/shift-patterns",
+  [
+    body("name")
+      .notEmpty()
+      .withMessage("패턴 이름을 입력하세요.")
+      .isString()
+      .withMessage("패턴 이름은 문자열이어야 합니다."),
+    body("shift_type_codes")
+      .isArray({ min: 1, max: 62 })
+      .withMessage("shift_type_codes는 1개 이상 62개 이하의 배열이어야 합니다."),
+    body("shift_type_codes.*")
+      .isString()
+      .notEmpty()
+      .withMessage("근무 타입 코드를 입력하세요."),
+  ],
+  createShiftPattern
+);
+
+router.put(
+  "/shift-patterns/:pattern_id",
+  [
+    param("pattern_id").isUUID().withMessage("유효한 패턴 ID를 입력하세요."),
+    body("name")
+      .optional()
+      .notEmpty()
+      .withMessage("패턴 이름을 입력하세요.")
+      .isString()
+      .withMessage("패턴 이름은 문자열이어야 합니다."),
+    body("shift_type_codes")
+      .optional()
+      .isArray({ min: 1, max: 62 })
+      .withMessage("shift_type_codes는 1개 이상 62개 이하의 배열이어야 합니다."),
+    body("shift_type_codes.*")
+      .isString()
+      .notEmpty()
+      .withMessage("근무 타입 코드를 입력하세요."),
+  ],
+  updateShiftPattern
+);
+
+router.delete(
+  "/shift-patterns/:pattern_id",
+  [param("pattern_id").isUUID().withMessage("유효한 패턴 ID를 입력하세요.")],
+  deleteShiftPattern
+);
+
+// 근무 패턴 적용 (dry_run이면 미리보기만)
+router.post(
+  "/shift-patterns/:pattern_id/apply",
+  [
+    param("pattern_id").isUUID().withMessage("유효한 패턴 ID를 입력하세요."),
+    body("start_date")
+      .matches(/^\d{4}-\d{2}-\d{2}$/)
+      .withMessage("유효한 시작 날짜를 입력하세요. (YYYY-MM-DD)"),
+    body("end_date")
+      .optional()
+      .matches(/^\d{4}-\d{2}-\d{2}$/)
+      .withMessage("유효한 종료 날짜를 입력하세요. (YYYY-MM-DD)"),
+    body("days")
+      .optional()
+      .isInt({ min: 1, max: 366 })
+      .withMessage("적용 일수는 1~366 사이여야 합니다."),
+    body("start_index")
+      .optional()
+      .isInt({ min: 0 })
+      .withMessage("시작 위치는 0 이상의 정수여야 합니다."),
+    body("on_existing")
+      .optional()
+      .isIn(["SKIP", "OVERWRITE"])
+      .withMessage("on_existing은 SKIP 또는 OVERWRITE여야 합니다."),
+    body("dry_run")
+      .optional()
+      .isBoolean()
+      .withMessage("dry_run은 boolean이어야 합니다."),
+  ],
+  applyShiftPattern
+);
+
 export default router;
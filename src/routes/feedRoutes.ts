@@ -0,0 +1,68 @@
+import { Router } from "express";
+import { body } from "express-validator";
+import { authMiddleware } from "../middlewares/auth";
+import * as feedController from "../controllers/feedController";
+
+const router = Router();
+
+const feedSettingsValidators = [
+  body("scope")
+    .optional()
+    .isIn(["SHIFTS_ONLY", "SHIFTS_AND_EVENTS"])
+    .withMessage("피드 범위는 SHIFTS_ONLY 또는 SHIFTS_AND_EVENTS여야 합니다."),
+  body("max_visibility_level")
+    .optional()
+    .isInt({ min: 0, max: 5 })
+    .withMessage("공개 레벨은 0~5 사이여야 합니다.")
+    .toInt(),
+];
+
+// ============================================================
+// 구독 피드 관리 (인증 필요)
+// ============================================================
+
+/**
+ * GET /api/v1/feeds/me
+ * 구독 피드 설정 조회
+ */
+router.get("/me", authMiddleware, feedController.getFeed);
+
+/**
+ * POST /api/v1/feeds/me
+ * 구독 피드 토큰 발급 (기존 토큰은 폐기)
+ */
+router.post(
+  "/me",
+  authMiddleware,
+  feedSettingsValidators,
+  feedController.issueFeedToken
+);
+
+/**
+ * PUT /api/v1/feeds/me
+ * 구독 피드 설정 변경 (URL 유지)
+ */
+router.put(
+  "/me",
+  authMiddleware,
+  feedSettingsValidators,
+  feedController.updateFeedSettings
+);
+
+/**
+ * DELETE /api/v1/feeds/me
+ * 구독 피드 폐기
+ */
+router.delete("/me", authMiddleware, feedController.revokeFeed);
+
+// ============================================================
+// 구독 피드 제공 (캘린더 앱 구독용, 인증 없음)
+// ============================================================
+
+/**
+ * GET /api/v1/feeds/:token.ics
+ * iCalendar 구독 피드
+ */
+router.get("/:token.ics", feedController.getFeedIcs);
+
+export default router;
@@ -2,6 +2,10 @@ import { Router } from "express";
 import { body, query, param } from "express-validator";
 import { authMiddleware } from "../middlewares/auth";
 import * as friendController from "../controllers/friendController";
+import { diffDays } from "../utils/dateUtils";
+
+// 친구 캘린더 기간 조회/겹쳐보기/빈 시간 찾기 최대 기간 (일)
+const MAX_FRIEND_CALENDAR_RANGE_DAYS = 62;
 
 const router = Router();
 
@@ -53,6 +57,119 @@ router.put(
   friendController.updateFriendSettings
 );
 
+/**
+ * GET /api/v1/friends/calendar/overlay
+ * 나와 친구들의 날짜별 근무 겹쳐보기 (모두 쉬는 날, 공통 빈 시간)
+ * - friend_user_ids: 쉼표로 구분한 친구 ID 목록 (최대 10명)
+ * - 기간은 최대 62일
+ */
+router.get(
+  "/friends/calendar/overlay",
+  [
+    query("friend_user_ids")
+      .customSanitizer((value) =>
+        String(value ?? "")
+          .split(",")
+          .map((id) => id.trim())
+          .filter((id) => id !== "")
+      )
+      .isArray({ min: 1, max: 10 })
+      .withMessage("친구 ID는 1~10개까지 입력할 수 있습니다."),
+    query("friend_user_ids.*")
+      .isUUID()
+      .withMessage("유효한 사용자 ID를 입력하세요."),
+    query("start_date")
+      .matches(/^\d{4}-\d{2}-\d{2}$/)
+      .withMessage("유효한 시작 날짜를 입력하세요. (YYYY-MM-DD)"),
+    query("end_date")
+      .matches(/^\d{4}-\d{2}-\d{2}$/)
+      .withMessage("유효한 종료 날짜를 입력하세요. (YYYY-MM-DD)")
+      .custom(
+        (end_date, { req }) =>
+          diffDays(req.query!.start_date, end_date) < MAX_FRIEND_CALENDAR_RANGE_DAYS
+      )
+      .withMessage(`조회 기간은 최대 ${MAX_FRIEND_CALENDAR_RANGE_DAYS}일입니다.`),
+  ],
+  friendController.getCalendarOverlay
+);
+
+/**
+ * GET /api/v1/friends/calendar/free-time
+ * 나와 친구들이 모두 비어 있는 시간 찾기 (긴 구간 우선)
+ * - 기간 기본값: 오늘부터 30일, 최대 62일
+ * - day_start/day_end: 하루 중 탐색 시간대 (기본 08:00 ~ 22:00)
+ */
+router.get(
+  "/friends/calendar/free-time",
+  [
+    query("friend_user_ids")
+      .customSanitizer((value) =>
+        String(value ?? "")
+          .split(",")
+          .map((id) => id.trim())
+          .filter((id) => id !== "")
+      )
+      .isArray({ min: 1, max: 10 })
+      .withMessage("친구 ID는 1~10개까지 입력할 수 있습니다."),
+    query("friend_user_ids.*")
+      .isUUID()
+      .withMessage("유효한 사용자 ID를 입력하세요."),
+    query("start_date")
+      .optional()
+      .matches(/^\d{4}-\d{2}-\d{2}$/)
+      .withMessage("유효한 시작 날짜를 입력하세요. (YYYY-MM-DD)"),
+    query("end_date")
+      .optional()
+      .matches(/^\d{4}-\d{2}-\d{2}$/)
+      .withMessage("유효한 종료 날짜를 입력하세요. (YYYY-MM-DD)")
+      .custom(
+        (end_date, { req }) =>
+          !req.query!.start_date ||
+          diffDays(req.query!.start_date, end_date) < MAX_FRIEND_CALENDAR_RANGE_DAYS
+      )
+      .withMessage(`조회 기간은 최대 ${MAX_FRIEND_CALENDAR_RANGE_DAYS}일입니다.`),
+    query("min_duration_minutes")
+      .optional()
+      .isInt({ min: 15, max: 1440 })
+      .withMessage("최소 시간은 15~1440분 사이여야 합니다."),
+    query(["day_start", "day_end"])
+      .optional()
+      .matches(/^(([01]\d|2[0-3]):[0-5]\d|24:00)$/)
+      .withMessage("시간은 HH:mm 형식이어야 합니다."),
+    query("limit")
+      .optional()
+      .isInt({ min: 1, max: 50 })
+      .withMessage("결과 개수는 1~50 사이여야 합니다."),
+  ],
+  friendController.findCommonFreeTime
+);
+
+/**
+ * GET /api/v1/friends/:friend_user_id/calendar/range
+ * 친구 캘린더 기간 조회 (친구가 부여한 레벨 이하의 항목만)
+ * - 기간은 최대 62일
+ */
+router.get(
+  "/friends/:friend_user_id/calendar/range",
+  [
+    param("friend_user_id")
+      .isUUID()
+      .withMessage("유효한 사용자 ID를 입력하세요."),
+    query("start_date")
+      .matches(/^\d{4}-\d{2}-\d{2}$/)
+      .withMessage("유효한 시작 날짜를 입력하세요. (YYYY-MM-DD)"),
+    query("end_date")
+      .matches(/^\d{4}-\d{2}-\d{2}$/)
+      .withMessage("유효한 종료 날짜를 입력하세요. (YYYY-MM-DD)")
+      .custom(
+        (end_date, { req }) =>
+          diffDays(req.query!.start_date, end_date) < MAX_FRIEND_CALENDAR_RANGE_DAYS
+      )
+      .withMessage(`조회 기간은 최대 ${MAX_FRIEND_CALENDAR_RANGE_DAYS}일입니다.`),
+  ],
+  friendController.getFriendCalendarRange
+);
+
 /**
  * DELETE /api/v1/friends/:friend_user_id
  * 친구 삭제
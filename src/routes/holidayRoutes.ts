@@ -0,0 +1,93 @@
+import { Router } from "express";
+import { body, param, query } from "express-validator";
+import { authMiddleware } from "../middlewares/auth";
+import { adminAuthMiddleware } from "../middlewares/adminAuth";
+import * as holidayController from "../controllers/holidayController";
+
+const router = Router();
+
+// ============================================================
+// 공휴일 조회 (인증 필요)
+// ============================================================
+
+/**
+ * GET /api/v1/holidays?start_date=&end_date=
+ * 기간 내 공휴일 목록 (내장 데이터 + 관리자 재정의)
+ */
+router.get(
+  "/",
+  authMiddleware,
+  [
+    query("start_date")
+      .matches(/^\d{4}-\d{2}-\d{2}$/)
+      .withMessage("유효한 시작 날짜를 입력하세요. (YYYY-MM-DD)"),
+    query("end_date")
+      .matches(/^\d{4}-\d{2}-\d{2}$/)
+      .withMessage("유효한 종료 날짜를 입력하세요. (YYYY-MM-DD)"),
+  ],
+  holidayController.getHolidays
+);
+
+// ============================================================
+// 공휴일 재정의 관리 (관리자 키 필요)
+// ============================================================
+
+/**
+ * GET /api/v1/holidays/overrides?year=
+ * 공휴일 재정의 목록
+ */
+router.get(
+  "/overrides",
+  adminAuthMiddleware,
+  [
+    query("year")
+      .optional()
+      .isInt({ min: 1900, max: 2999 })
+      .withMessage("유효한 연도를 입력하세요."),
+  ],
+  holidayController.getHolidayOverrides
+);
+
+/**
+ * PUT /api/v1/holidays/overrides
+ * 공휴일 재정의 일괄 등록 (임시공휴일 추가, 내장 공휴일 제외 등)
+ */
+router.put(
+  "/overrides",
+  adminAuthMiddleware,
+  [
+    body("overrides")
+      .isArray({ min: 1, max: 366 })
+      .withMessage("overrides는 1개 이상 366개 이하의 배열이어야 합니다."),
+    body("overrides.*.date")
+      .matches(/^\d{4}-\d{2}-\d{2}$/)
+      .withMessage("유효한 날짜를 입력하세요. (YYYY-MM-DD)"),
+    body("overrides.*.name")
+      .optional({ values: "null" })
+      .isString()
+      .isLength({ max: 100 })
+      .withMessage("공휴일 이름은 100자 이내여야 합니다."),
+    body("overrides.*.is_holiday")
+      .optional()
+      .isBoolean()
+      .withMessage("is_holiday는 boolean이어야 합니다."),
+  ],
+  holidayController.saveHolidayOverrides
+);
+
+/**
+ * DELETE /api/v1/holidays/overrides/:date
+ * 공휴일 재정의 삭제 (내장 데이터 기준으로 되돌림)
+ */
+router.delete(
+  "/overrides/:date",
+  adminAuthMiddleware,
+  [
+    param("date")
+      .matches(/^\d{4}-\d{2}-\d{2}$/)
+      .withMessage("유효한 날짜를 입력하세요. (YYYY-MM-DD)"),
+  ],
+  holidayController.deleteHolidayOverride
+);
+
+export default router;
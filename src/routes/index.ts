@@ -3,6 +3,11 @@ import authRoutes from "./authRoutes";
 import scheduleRoutes from "./scheduleRoutes";
 import calendarRoutes from "./calendarRoutes";
 import friendRoutes from "./friendRoutes";
+import feedRoutes from "./feedRoutes";
+import shiftSwapRoutes from "./shiftSwapRoutes";
+import holidayRoutes from "./holidayRoutes";
+import templateShareRoutes from "./templateShareRoutes";
+import accountRoutes from "./accountRoutes";
 
 const router = Router();
 
@@ -11,8 +16,15 @@ const v1_router = Router();
 
 v1_router.use("/auth", authRoutes);
 v1_router.use("/schedules", scheduleRoutes);
+// 구독 피드는 토큰으로 접근하므로 인증 미들웨어가 있는 라우터보다 먼저 등록
+v1_router.use("/feeds", feedRoutes);
+// 공휴일 재정의는 관리자 키로 접근하므로 함께 먼저 등록
+v1_router.use("/holidays", holidayRoutes);
 v1_router.use("/", calendarRoutes);
 v1_router.use("/", friendRoutes); // 친구 관련 라우트
+v1_router.use("/", shiftSwapRoutes); // 근무 교환 라우트
+v1_router.use("/", templateShareRoutes); // 근무 템플릿 공유 라우트
+v1_router.use("/", accountRoutes); // 계정 데이터 관리 라우트
 
 // 헬스 체크
 v1_router.get("/health", (req, res) => {
@@ -0,0 +1,107 @@
+import { Router } from "express";
+import { body, query, param } from "express-validator";
+import { authMiddleware } from "../middlewares/auth";
+import * as shiftSwapController from "../controllers/shiftSwapController";
+
+const router = Router();
+
+// 모든 라우트에 인증 필요
+router.use(authMiddleware);
+
+const listValidators = [
+  query("status")
+    .optional()
+    .isIn(["PENDING", "ACCEPTED", "REJECTED", "CANCELED"])
+    .withMessage("유효한 상태를 입력하세요."),
+  query("page")
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage("페이지 번호는 1 이상이어야 합니다."),
+  query("limit")
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage("페이지당 항목 수는 1~100 사이여야 합니다."),
+];
+
+// ============================================================
+// 근무 교환 엔드포인트
+// ============================================================
+
+/**
+ * POST /api/v1/shift-swaps
+ * 근무 교환 요청 보내기 (addressee_date가 없으면 근무 넘겨주기)
+ */
+router.post(
+  "/shift-swaps",
+  [
+    body("addressee_user_id")
+      .isUUID()
+      .withMessage("유효한 사용자 ID를 입력하세요."),
+    body("requester_date")
+      .isISO8601()
+      .withMessage("유효한 날짜를 입력하세요. (YYYY-MM-DD)"),
+    body("addressee_date")
+      .optional({ values: "null" })
+      .isISO8601()
+      .withMessage("유효한 날짜를 입력하세요. (YYYY-MM-DD)"),
+    body("message")
+      .optional({ values: "null" })
+      .isString()
+      .isLength({ max: 200 })
+      .withMessage("메시지는 200자 이내여야 합니다."),
+  ],
+  shiftSwapController.sendSwapRequest
+);
+
+/**
+ * GET /api/v1/shift-swaps/received
+ * 받은 근무 교환 요청 목록 조회
+ */
+router.get(
+  "/shift-swaps/received",
+  listValidators,
+  shiftSwapController.getReceivedSwapRequests
+);
+
+/**
+ * GET /api/v1/shift-swaps/sent
+ * 보낸 근무 교환 요청 목록 조회
+ */
+router.get(
+  "/shift-swaps/sent",
+  listValidators,
+  shiftSwapController.getSentSwapRequests
+);
+
+/**
+ * PUT /api/v1/shift-swaps/:swap_request_id/respond
+ * 근무 교환 요청 응답 (수락 시 두 사람의 근무표가 함께 변경됨)
+ */
+router.put(
+  "/shift-swaps/:swap_request_id/respond",
+  [
+    param("swap_request_id")
+      .isUUID()
+      .withMessage("유효한 요청 ID를 입력하세요."),
+    body("action")
+      .isIn(["accept", "reject"])
+      .withMessage("action은 'accept' 또는 'reject'여야 합니다."),
+  ],
+  shiftSwapController.respondToSwapRequest
+);
+
+/**
+ * PUT /api/v1/shift-swaps/:swap_request_id/cancel
+ * 근무 교환 요청 취소
+ */
+router.put(
+  "/shift-swaps/:swap_request_id/cancel",
+  [
+    param("swap_request_id")
+      .isUUID()
+      .withMessage("유효한 요청 ID를 입력하세요."),
+  ],
+  shiftSwapController.cancelSwapRequest
+);
+
+export default router;
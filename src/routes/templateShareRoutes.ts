@@ -0,0 +1,125 @@
+import { Router } from "express";
+import { body, query, param } from "express-validator";
+import { authMiddleware } from "../middlewares/auth";
+import * as templateShareController from "../controllers/templateShareController";
+
+const router = Router();
+
+// 모든 라우트에 인증 필요
+router.use(authMiddleware);
+
+const CONFLICT_RESOLUTIONS = ["skip", "overwrite", "rename"];
+
+const shareCodeValidator = param("share_code")
+  .matches(/^[A-Za-z0-9]{8}$/)
+  .withMessage("유효한 공유 코드를 입력하세요.");
+
+// ============================================================
+// 근무 템플릿 공유 엔드포인트
+// ============================================================
+
+/**
+ * POST /api/v1/shift-templates/:template_id/shares
+ * 템플릿 공유 코드 발급 (recipient_user_id가 있으면 해당 친구에게 보내기)
+ */
+router.post(
+  "/shift-templates/:template_id/shares",
+  [
+    param("template_id")
+      .isUUID()
+      .withMessage("유효한 템플릿 ID를 입력하세요."),
+    body("recipient_user_id")
+      .optional({ values: "null" })
+      .isUUID()
+      .withMessage("유효한 사용자 ID를 입력하세요."),
+  ],
+  templateShareController.createTemplateShare
+);
+
+/**
+ * GET /api/v1/shift-template-shares?type=received|sent
+ * 템플릿 공유 목록 조회 (기본값: received)
+ */
+router.get(
+  "/shift-template-shares",
+  [
+    query("type")
+      .optional()
+      .isIn(["received", "sent"])
+      .withMessage("type은 'received' 또는 'sent'여야 합니다."),
+    query("page")
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage("페이지 번호는 1 이상이어야 합니다."),
+    query("limit")
+      .optional()
+      .isInt({ min: 1, max: 100 })
+      .withMessage("페이지당 항목 수는 1~100 사이여야 합니다."),
+  ],
+  templateShareController.getTemplateShares
+);
+
+/**
+ * GET /api/v1/shift-template-shares/:share_code
+ * 공유된 템플릿 미리보기 (현재 템플릿과 겹치는 코드 포함)
+ */
+router.get(
+  "/shift-template-shares/:share_code",
+  [shareCodeValidator],
+  templateShareController.getTemplateShare
+);
+
+/**
+ * POST /api/v1/shift-template-shares/:share_code/import
+ * 공유된 템플릿 가져오기
+ * - mode=new: 새 템플릿으로 생성
+ * - mode=merge: 기존 템플릿(template_id, 없으면 현재 템플릿)에 병합
+ */
+router.post(
+  "/shift-template-shares/:share_code/import",
+  [
+    shareCodeValidator,
+    body("mode")
+      .isIn(["new", "merge"])
+      .withMessage("mode는 'new' 또는 'merge'여야 합니다."),
+    body("name")
+      .optional({ values: "null" })
+      .notEmpty()
+      .withMessage("템플릿 이름을 입력하세요.")
+      .isString()
+      .withMessage("템플릿 이름은 문자열이어야 합니다."),
+    body("template_id")
+      .optional({ values: "null" })
+      .isUUID()
+      .withMessage("유효한 템플릿 ID를 입력하세요."),
+    body("conflict_resolution")
+      .optional()
+      .isIn(CONFLICT_RESOLUTIONS)
+      .withMessage(
+        "conflict_resolution은 'skip', 'overwrite', 'rename' 중 하나여야 합니다."
+      ),
+    body("resolutions")
+      .optional()
+      .isObject()
+      .withMessage("resolutions는 코드별 처리 방식 객체여야 합니다."),
+    body("resolutions.*")
+      .optional()
+      .isIn(CONFLICT_RESOLUTIONS)
+      .withMessage(
+        "처리 방식은 'skip', 'overwrite', 'rename' 중 하나여야 합니다."
+      ),
+  ],
+  templateShareController.importTemplateShare
+);
+
+/**
+ * DELETE /api/v1/shift-template-shares/:share_code
+ * 템플릿 공유 취소
+ */
+router.delete(
+  "/shift-template-shares/:share_code",
+  [shareCodeValidator],
+  templateShareController.revokeTemplateShare
+);
+
+export default router;
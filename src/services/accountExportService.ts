@@ -0,0 +1,512 @@
+import { Op } from "sequelize";
+import {
+  AccountExport,
+  AccountExportStatus,
+  Event,
+  EventOccurrenceOverride,
+  FriendLevelSetting,
+  FriendRequest,
+  Friendship,
+  Notification,
+  User,
+  WorkShift,
+  WorkShiftHistory,
+} from "../models";
+import { getWorkShifts } from "./calendarService";
+import { buildCalendarIcs } from "./icalService";
+import { getTemplates } from "./shiftTemplateService";
+import { exportTemplateDocument } from "./templateDocumentService";
+import {
+  addDays,
+  formatDateInTimezone,
+  getPurgeAt,
+  resolveTimezone,
+} from "../utils/dateUtils";
+import { ZipEntry, createZipArchive } from "../utils/zip";
+
+// ============================================================
+// 에러 코드 상수
+// ============================================================
+export const AccountExportErrorCodes = {
+  EXPORT_NOT_FOUND: "EXPORT_NOT_FOUND",
+  EXPORT_NOT_READY: "EXPORT_NOT_READY",
+  EXPORT_EXPIRED: "EXPORT_EXPIRED",
+} as const;
+
+// 내보내기 파일 보관 기간 (일), 지나면 백그라운드 작업에서 파일 삭제
+export const EXPORT_RETENTION_DAYS = parseInt(
+  process.env.ACCOUNT_EXPORT_RETENTION_DAYS || "7",
+  10
+);
+
+// 생성 중 서버가 재시작된 작업을 다시 시도하기까지의 시간
+const STALE_PROCESSING_MS = 60 * 60 * 1000;
+// iCalendar 파일에 포함할 미래 기간 (일)
+const ICS_FUTURE_DAYS = 365;
+
+// ============================================================
+// 타입 정의
+// ============================================================
+export interface AccountExportInfo {
+  export_id: string;
+  status: AccountExportStatus;
+  file_name: string | null;
+  file_size: number | null;
+  error_message: string | null;
+  created_at: Date;
+  completed_at: Date | null;
+  expires_at: Date | null;
+}
+
+// ============================================================
+// 헬퍼 함수
+// ============================================================
+
+function formatExport(account_export: AccountExport): AccountExportInfo {
+  return {
+    export_id: account_export.export_id,
+    status: account_export.status,
+    file_name: account_export.file_name ?? null,
+    file_size: account_export.file_size ?? null,
+    error_message: account_export.error_message ?? null,
+    created_at: account_export.created_at!,
+    completed_at: account_export.completed_at ?? null,
+    expires_at: account_export.expires_at ?? null,
+  };
+}
+
+function toJsonFile(data: unknown): string {
+  return JSON.stringify(data, null, 2);
+}
+
+/**
+ * CSV 문자열 생성 (엑셀에서 한글이 깨지지 않도록 BOM 포함)
+ */
+function toCsv(header: string[], rows: Array<Array<unknown>>): string {
+  const escape = (value: unknown): string => {
+    if (value === null || value === undefined) {
+      return "";
+    }
+    const text = value instanceof Date ? value.toISOString() : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  const lines = [header, ...rows].map((row) => row.map(escape).join(","));
+  return `\uFEFF${lines.join("\r\n")}\r\n`;
+}
+
+/**
+ * 근무표 CSV (삭제되지 않은 전체 근무)
+ */
+async function buildWorkShiftsCsv(
+  user_id: string
+): Promise<{ csv: string; first_date: string | null }> {
+  const where = { owner_user_id: user_id, deleted_at: null };
+  const [first_date, last_date] = await Promise.all([
+    WorkShift.min<string, WorkShift>("work_date", { where }),
+    WorkShift.max<string, WorkShift>("work_date", { where }),
+  ]);
+
+  const work_shifts =
+    first_date && last_date
+      ? await getWorkShifts(user_id, String(first_date), String(last_date))
+      : [];
+
+  const csv = toCsv(
+    [
+      "work_date",
+      "shift_type_code",
+      "shift_type_name",
+      "start_time",
+      "end_time",
+      "note",
+      "created_at",
+      "updated_at",
+    ],
+    work_shifts.map((ws) => [
+      ws.work_date,
+      ws.shift_type_code,
+      ws.shift_type_name,
+      ws.start_time,
+      ws.end_time,
+      ws.note,
+      ws.created_at,
+      ws.updated_at,
+    ])
+  );
+
+  return { csv, first_date: first_date ? String(first_date) : null };
+}
+
+/**
+ * 템플릿 (버전, 근무 타입, 시간표 포함) 및 날짜별 활성화 기록
+ */
+async function buildTemplatesJson(
+  user_id: string,
+  timezone: string
+): Promise<unknown> {
+  const { templates, activations } = await getTemplates(
+    user_id,
+    true,
+    timezone
+  );
+
+  return {
+    activations,
+    templates: await Promise.all(
+      templates.map(async (template) => ({
+        ...template,
+        document: await exportTemplateDocument(user_id, template.template_id),
+      }))
+    ),
+  };
+}
+
+/**
+ * 친구 목록 (내가 설정한 공개 범위 포함)
+ */
+async function buildFriendsJson(user_id: string): Promise<unknown> {
+  const [friendships, settings] = await Promise.all([
+    Friendship.findAll({
+      where: {
+        [Op.or]: [{ user_id_a: user_id }, { user_id_b: user_id }],
+      },
+      include: [
+        {
+          model: User,
+          as: "user_a",
+          attributes: ["user_id", "name", "email"],
+        },
+        {
+          model: User,
+          as: "user_b",
+          attributes: ["user_id", "name", "email"],
+        },
+      ],
+      order: [["created_at", "ASC"]],
+    }),
+    FriendLevelSetting.findAll({ where: { owner_user_id: user_id } }),
+  ]);
+  const settings_by_friend = new Map(
+    settings.map((setting) => [setting.friend_user_id, setting])
+  );
+
+  return friendships.map((friendship) => {
+    const friend = (
+      friendship.user_id_a === user_id
+        ? (friendship as any).user_a
+        : (friendship as any).user_b
+    ) as User | undefined;
+    const friend_user_id =
+      friendship.user_id_a === user_id
+        ? friendship.user_id_b
+        : friendship.user_id_a;
+    const setting = settings_by_friend.get(friend_user_id);
+
+    return {
+      user_id: friend_user_id,
+      name: friend?.name ?? null,
+      email: friend?.email ?? null,
+      friends_since: friendship.created_at,
+      can_view: setting?.can_view ?? false,
+      friend_level: setting?.friend_level ?? 0,
+    };
+  });
+}
+
+/**
+ * 계정 데이터 아카이브 파일 목록 생성
+ */
+async function buildArchiveEntries(user: User): Promise<ZipEntry[]> {
+  const user_id = user.user_id;
+  const timezone = resolveTimezone(user.timezone);
+  const today = formatDateInTimezone(new Date(), timezone);
+
+  const [
+    templates,
+    work_shifts,
+    work_shift_history,
+    events,
+    friends,
+    friend_requests,
+    notifications,
+  ] = await Promise.all([
+    buildTemplatesJson(user_id, timezone),
+    buildWorkShiftsCsv(user_id),
+    WorkShiftHistory.findAll({
+      where: { owner_user_id: user_id },
+      order: [["created_at", "ASC"]],
+    }),
+    Event.findAll({
+      where: { owner_user_id: user_id },
+      include: [
+        {
+          model: EventOccurrenceOverride,
+          as: "occurrence_overrides",
+          required: false,
+        },
+      ],
+      order: [["start_at", "ASC"]],
+    }),
+    buildFriendsJson(user_id),
+    FriendRequest.findAll({
+      where: {
+        [Op.or]: [
+          { requester_user_id: user_id },
+          { addressee_user_id: user_id },
+        ],
+      },
+      order: [["created_at", "ASC"]],
+    }),
+    Notification.findAll({
+      where: { user_id },
+      order: [["created_at", "ASC"]],
+    }),
+  ]);
+
+  // iCalendar는 첫 근무/일정부터 1년 뒤까지 (반복 일정은 해당 기간만 펼침)
+  const first_event_date = events.length
+    ? formatDateInTimezone(events[0].start_at, timezone)
+    : null;
+  const ics_start_date =
+    [work_shifts.first_date, first_event_date, today]
+      .filter((date): date is string => Boolean(date))
+      .sort()[0] ?? today;
+  const ics = await buildCalendarIcs(user_id, {
+    start_date: ics_start_date,
+    end_date: addDays(today, ICS_FUTURE_DAYS),
+    timezone,
+    include_events: true,
+  });
+
+  const files: Array<[string, string]> = [
+    ["profile.json", toJsonFile(user.toJSON())],
+    ["templates.json", toJsonFile(templates)],
+    ["work_shifts.csv", work_shifts.csv],
+    ["work_shift_history.json", toJsonFile(work_shift_history)],
+    ["events.json", toJsonFile(events)],
+    ["calendar.ics", ics],
+    ["friends.json", toJsonFile(friends)],
+    [
+      "friend_requests.json",
+      toJsonFile({
+        sent: friend_requests.filter((r) => r.requester_user_id === user_id),
+        received: friend_requests.filter(
+          (r) => r.addressee_user_id === user_id
+        ),
+      }),
+    ],
+    ["notifications.json", toJsonFile(notifications)],
+  ];
+
+  const manifest = {
+    format: "shift-calendar-account-export",
+    format_version: 1,
+    user_id,
+    exported_at: new Date().toISOString(),
+    timezone,
+    files: files.map(([name]) => name),
+  };
+
+  return [
+    { name: "manifest.json", content: toJsonFile(manifest) },
+    ...files.map(([name, content]) => ({ name, content })),
+  ];
+}
+
+/**
+ * 내보내기 파일 생성
+ * - PENDING 상태인 작업만 PROCESSING으로 가져가 처리 (중복 처리 방지)
+ */
+export async function processAccountExport(export_id: string): Promise<void> {
+  const [claimed] = await AccountExport.update(
+    { status: "PROCESSING", started_at: new Date() },
+    { where: { export_id, status: "PENDING" } }
+  );
+  if (claimed === 0) {
+    return;
+  }
+
+  try {
+    const account_export = await AccountExport.findByPk(export_id);
+    const user = await User.findByPk(account_export!.user_id);
+    if (!user) {
+      throw new Error("USER_NOT_FOUND");
+    }
+
+    const archive = createZipArchive(await buildArchiveEntries(user));
+    const completed_at = new Date();
+    const file_date = formatDateInTimezone(
+      completed_at,
+      resolveTimezone(user.timezone)
+    ).replace(/-/g, "");
+
+    await AccountExport.update(
+      {
+        status: "COMPLETED",
+        archive,
+        file_name: `shift-calendar-export-${file_date}.zip`,
+        file_size: archive.length,
+        completed_at,
+        expires_at: getPurgeAt(completed_at, EXPORT_RETENTION_DAYS),
+      },
+      { where: { export_id } }
+    );
+  } catch (error) {
+    console.error("Account export error:", error);
+    await AccountExport.update(
+      {
+        status: "FAILED",
+        error_message: error instanceof Error ? error.message : String(error),
+        completed_at: new Date(),
+      },
+      { where: { export_id } }
+    );
+  }
+}
+
+// ============================================================
+// 내보내기 요청 / 상태 조회 / 다운로드
+// ============================================================
+
+/**
+ * 계정 데이터 내보내기 요청
+ * - 파일은 백그라운드에서 생성되며 상태 조회 API로 완료 여부 확인
+ * - 이미 진행 중인 요청이 있으면 새로 만들지 않고 해당 요청 반환
+ */
+export async function requestAccountExport(
+  user_id: string
+): Promise<{ export: AccountExportInfo; created: boolean }> {
+  const in_progress = await AccountExport.findOne({
+    where: {
+      user_id,
+      status: { [Op.in]: ["PENDING", "PROCESSING"] },
+    },
+    attributes: { exclude: ["archive"] },
+    order: [["created_at", "DESC"]],
+  });
+  if (in_progress) {
+    return { export: formatExport(in_progress), created: false };
+  }
+
+  const account_export = await AccountExport.create({ user_id });
+
+  setImmediate(() => {
+    void processAccountExport(account_export.export_id);
+  });
+
+  return { export: formatExport(account_export), created: true };
+}
+
+/**
+ * 내보내기 요청 목록 (최근 순)
+ */
+export async function getAccountExports(
+  user_id: string
+): Promise<AccountExportInfo[]> {
+  const exports = await AccountExport.findAll({
+    where: { user_id },
+    attributes: { exclude: ["archive"] },
+    order: [["created_at", "DESC"]],
+    limit: 20,
+  });
+
+  return exports.map(formatExport);
+}
+
+/**
+ * 내보내기 상태 조회
+ */
+export async function getAccountExport(
+  user_id: string,
+  export_id: string
+): Promise<AccountExportInfo> {
+  const account_export = await AccountExport.findOne({
+    where: { export_id, user_id },
+    attributes: { exclude: ["archive"] },
+  });
+
+  if (!account_export) {
+    throw new Error(AccountExportErrorCodes.EXPORT_NOT_FOUND);
+  }
+
+  return formatExport(account_export);
+}
+
+/**
+ * 내보내기 파일 다운로드
+ */
+export async function downloadAccountExport(
+  user_id: string,
+  export_id: string
+): Promise<{ file_name: string; archive: Buffer }> {
+  const account_export = await AccountExport.findOne({
+    where: { export_id, user_id },
+  });
+
+  if (!account_export) {
+    throw new Error(AccountExportErrorCodes.EXPORT_NOT_FOUND);
+  }
+  if (
+    account_export.status === "EXPIRED" ||
+    (account_export.expires_at && account_export.expires_at <= new Date())
+  ) {
+    throw new Error(AccountExportErrorCodes.EXPORT_EXPIRED);
+  }
+  if (account_export.status !== "COMPLETED" || !account_export.archive) {
+    throw new Error(AccountExportErrorCodes.EXPORT_NOT_READY);
+  }
+
+  return {
+    file_name: account_export.file_name!,
+    archive: account_export.archive,
+  };
+}
+
+// ============================================================
+// 백그라운드 작업
+// ============================================================
+
+/**
+ * 대기 중인 내보내기 처리 (서버 재시작 등으로 멈춘 작업 포함)
+ */
+export async function processPendingAccountExports(): Promise<number> {
+  await AccountExport.update(
+    { status: "PENDING" },
+    {
+      where: {
+        status: "PROCESSING",
+        started_at: { [Op.lt]: new Date(Date.now() - STALE_PROCESSING_MS) },
+      },
+    }
+  );
+
+  const pending = await AccountExport.findAll({
+    where: { status: "PENDING" },
+    attributes: ["export_id"],
+    order: [["created_at", "ASC"]],
+  });
+
+  for (const account_export of pending) {
+    await processAccountExport(account_export.export_id);
+  }
+
+  return pending.length;
+}
+
+/**
+ * 보관 기간이 지난 내보내기 파일 삭제 (요청 기록은 EXPIRED 상태로 유지)
+ */
+export async function purgeExpiredAccountExports(): Promise<number> {
+  const [purged] = await AccountExport.update(
+    { status: "EXPIRED", archive: null },
+    {
+      where: {
+        status: "COMPLETED",
+        expires_at: { [Op.lte]: new Date() },
+      },
+    }
+  );
+
+  return purged;
+}
@@ -0,0 +1,679 @@
+import { Op, Transaction } from "sequelize";
+import { sequelize } from "../config/database";
+import {
+  AccountExport,
+  CalendarFeed,
+  Event,
+  FriendLevelSetting,
+  FriendRequest,
+  Friendship,
+  Notification,
+  RefreshToken,
+  Schedule,
+  SharedSchedule,
+  ShiftPattern,
+  ShiftSwapRequest,
+  ShiftTemplate,
+  ShiftTemplateActivation,
+  ShiftTemplateShare,
+  ShiftTemplateVersion,
+  User,
+  WorkShift,
+  WorkShiftHistory,
+} from "../models";
+import { getKakaoUserInfo, processKakaoLogin } from "./kakaoService";
+import { getNaverUserInfo, processNaverLogin } from "./naverService";
+import { verifyAppleIdentityToken } from "./appleService";
+
+// ============================================================
+// 에러 코드 상수
+// ============================================================
+export const AccountLinkErrorCodes = {
+  USER_NOT_FOUND: "USER_NOT_FOUND",
+  MISSING_PROVIDER_CREDENTIALS: "MISSING_PROVIDER_CREDENTIALS",
+  PROVIDER_AUTH_FAILED: "PROVIDER_AUTH_FAILED",
+  PROVIDER_ALREADY_LINKED: "PROVIDER_ALREADY_LINKED",
+  PROVIDER_LINKED_TO_OTHER_ACCOUNT: "PROVIDER_LINKED_TO_OTHER_ACCOUNT",
+  PROVIDER_NOT_LINKED: "PROVIDER_NOT_LINKED",
+  LAST_LOGIN_METHOD: "LAST_LOGIN_METHOD",
+  MERGE_SOURCE_NOT_FOUND: "MERGE_SOURCE_NOT_FOUND",
+  SAME_ACCOUNT: "SAME_ACCOUNT",
+  MERGE_PROVIDER_CONFLICT: "MERGE_PROVIDER_CONFLICT",
+} as const;
+
+export const SOCIAL_PROVIDERS = ["kakao", "naver", "apple"] as const;
+
+const MERGED_USER_NAME = "통합된 계정";
+
+// ============================================================
+// 타입 정의
+// ============================================================
+export type SocialProvider = (typeof SOCIAL_PROVIDERS)[number];
+
+// 소셜 계정 소유 확인용 인증 정보 (제공자별 로그인 API와 같은 형식)
+// - kakao: access_token 또는 code + redirect_uri
+// - naver: access_token 또는 code + redirect_uri (+ state)
+// - apple: identity_token (+ nonce)
+export interface ProviderCredentials {
+  access_token?: string;
+  code?: string;
+  state?: string;
+  redirect_uri?: string;
+  identity_token?: string;
+  nonce?: string;
+}
+
+export interface LinkedProviders {
+  kakao: boolean;
+  naver: boolean;
+  apple: boolean;
+  password: boolean;
+}
+
+export interface AccountMergeResult {
+  merged_user_id: string;
+  linked_providers: SocialProvider[];
+  templates: number;
+  renamed_templates: Array<{ from: string; to: string }>;
+  work_shifts: number;
+  skipped_work_shifts: number; // 같은 날짜에 현재 계정 근무가 있어 버린 근무
+  events: number;
+  friends: number;
+}
+
+const PROVIDER_ID_FIELDS = {
+  kakao: "kakao_id",
+  naver: "naver_id",
+  apple: "apple_id",
+} as const satisfies Record<SocialProvider, keyof User>;
+
+// ============================================================
+// 헬퍼 함수
+// ============================================================
+
+function toLinkedProviders(user: User): LinkedProviders {
+  return {
+    kakao: !!user.kakao_id,
+    naver: !!user.naver_id,
+    apple: !!user.apple_id,
+    password: !!user.password,
+  };
+}
+
+/**
+ * 제공자 인증 정보를 검증하고 해당 소셜 계정 ID를 반환
+ * - 제공자 API 오류는 로그만 남기고 PROVIDER_AUTH_FAILED로 변환
+ */
+async function resolveProviderId(
+  provider: SocialProvider,
+  credentials: ProviderCredentials
+): Promise<string> {
+  const { access_token, code, state, redirect_uri, identity_token, nonce } =
+    credentials;
+
+  if (
+    provider === "apple"
+      ? !identity_token
+      : !access_token && !(code && redirect_uri)
+  ) {
+    throw new Error(AccountLinkErrorCodes.MISSING_PROVIDER_CREDENTIALS);
+  }
+
+  try {
+    switch (provider) {
+      case "kakao": {
+        const info = access_token
+          ? await getKakaoUserInfo(access_token)
+          : await processKakaoLogin(code!, redirect_uri!);
+        return info.kakao_id;
+      }
+      case "naver": {
+        const info = access_token
+          ? await getNaverUserInfo(access_token)
+          : await processNaverLogin(code!, state, redirect_uri!);
+        return info.naver_id;
+      }
+      case "apple": {
+        const info = await verifyAppleIdentityToken(identity_token!, nonce);
+        return info.apple_id;
+      }
+    }
+  } catch (error) {
+    console.error(`${provider} provider verification error:`, error);
+    throw new Error(AccountLinkErrorCodes.PROVIDER_AUTH_FAILED);
+  }
+}
+
+/**
+ * 같은 이름의 템플릿이 있으면 "이름 (2)", "이름 (3)" ... 형태로 비어 있는 이름 반환
+ */
+function getAvailableTemplateName(name: string, used: Set<string>): string {
+  if (!used.has(name)) {
+    return name;
+  }
+  let suffix = 2;
+  while (used.has(`${name} (${suffix})`)) {
+    suffix++;
+  }
+  return `${name} (${suffix})`;
+}
+
+/**
+ * 근무표 삭제 (변경 이력 포함)
+ */
+async function destroyWorkShifts(
+  work_shift_ids: string[],
+  transaction: Transaction
+): Promise<void> {
+  if (work_shift_ids.length === 0) {
+    return;
+  }
+  await WorkShiftHistory.destroy({
+    where: { work_shift_id: { [Op.in]: work_shift_ids } },
+    transaction,
+  });
+  await WorkShift.destroy({
+    where: { work_shift_id: { [Op.in]: work_shift_ids } },
+    transaction,
+  });
+}
+
+/**
+ * 근무표 이관 (같은 날짜 충돌 시 현재 계정 우선)
+ * - 양쪽 모두 활성 근무가 있으면 현재 계정 근무 유지 (통합할 계정 근무는 삭제)
+ * - 휴지통의 삭제된 근무는 그대로 이관
+ * - 작성자/변경자 기록도 현재 계정으로 변경
+ */
+async function mergeWorkShifts(
+  source_id: string,
+  target_id: string,
+  transaction: Transaction
+): Promise<{ moved: number; skipped: number }> {
+  const [source_shifts, target_shifts] = await Promise.all([
+    WorkShift.findAll({ where: { owner_user_id: source_id }, transaction }),
+    WorkShift.findAll({
+      attributes: ["work_date"],
+      where: { owner_user_id: target_id, deleted_at: null },
+      transaction,
+    }),
+  ]);
+  const target_dates = new Set(
+    target_shifts.map((shift) => String(shift.work_date))
+  );
+
+  const skipped_ids = source_shifts
+    .filter(
+      (shift) => !shift.deleted_at && target_dates.has(String(shift.work_date))
+    )
+    .map((shift) => shift.work_shift_id);
+  const skipped = new Set(skipped_ids);
+  const move_ids = source_shifts
+    .map((shift) => shift.work_shift_id)
+    .filter((work_shift_id) => !skipped.has(work_shift_id));
+
+  await destroyWorkShifts(skipped_ids, transaction);
+
+  if (move_ids.length > 0) {
+    await WorkShift.update(
+      { owner_user_id: target_id },
+      { where: { work_shift_id: { [Op.in]: move_ids } }, transaction }
+    );
+    await WorkShiftHistory.update(
+      { owner_user_id: target_id },
+      { where: { work_shift_id: { [Op.in]: move_ids } }, transaction }
+    );
+  }
+
+  await WorkShift.update(
+    { created_by_user_id: target_id },
+    { where: { created_by_user_id: source_id }, transaction }
+  );
+  await WorkShift.update(
+    { deleted_by_user_id: target_id },
+    { where: { deleted_by_user_id: source_id }, transaction }
+  );
+  await WorkShiftHistory.update(
+    { changed_by_user_id: target_id },
+    { where: { changed_by_user_id: source_id }, transaction }
+  );
+
+  return {
+    moved: source_shifts.filter(
+      (shift) => !shift.deleted_at && !skipped.has(shift.work_shift_id)
+    ).length,
+    skipped: skipped_ids.length,
+  };
+}
+
+/**
+ * 근무 템플릿 이관 (이름이 겹치면 번호를 붙여 변경)
+ * - 적용 일정(활성화 기록)은 현재 계정 것을 유지하고 통합할 계정 것은 삭제
+ */
+async function mergeTemplates(
+  source_id: string,
+  target_id: string,
+  transaction: Transaction
+): Promise<{ moved: number; renamed: Array<{ from: string; to: string }> }> {
+  const [source_templates, target_templates] = await Promise.all([
+    ShiftTemplate.findAll({
+      where: { owner_user_id: source_id },
+      order: [["created_at", "ASC"]],
+      transaction,
+    }),
+    ShiftTemplate.findAll({
+      attributes: ["name"],
+      where: { owner_user_id: target_id, deleted_at: null },
+      transaction,
+    }),
+  ]);
+
+  const used_names = new Set(target_templates.map((t) => t.name));
+  const renamed: Array<{ from: string; to: string }> = [];
+
+  for (const template of source_templates) {
+    // 삭제된 템플릿은 이름 중복 제약 대상이 아님
+    const name = template.deleted_at
+      ? template.name
+      : getAvailableTemplateName(template.name, used_names);
+    if (!template.deleted_at) {
+      used_names.add(name);
+    }
+    if (name !== template.name) {
+      renamed.push({ from: template.name, to: name });
+    }
+    await template.update({ owner_user_id: target_id, name }, { transaction });
+  }
+
+  await ShiftTemplateActivation.destroy({
+    where: { owner_user_id: source_id },
+    transaction,
+  });
+  await ShiftTemplateVersion.update(
+    { created_by_user_id: target_id },
+    { where: { created_by_user_id: source_id }, transaction }
+  );
+  await ShiftTemplateShare.update(
+    { owner_user_id: target_id },
+    { where: { owner_user_id: source_id }, transaction }
+  );
+  await ShiftTemplateShare.update(
+    { recipient_user_id: target_id },
+    { where: { recipient_user_id: source_id }, transaction }
+  );
+
+  return {
+    moved: source_templates.filter((t) => !t.deleted_at).length,
+    renamed,
+  };
+}
+
+/**
+ * 친구 관계 및 공개 설정 이관
+ * - 두 계정이 서로 친구였다면 관계 삭제
+ * - 양쪽 모두 친구인 사용자는 현재 계정의 관계/공개 설정 유지
+ */
+async function mergeFriends(
+  source_id: string,
+  target_id: string,
+  transaction: Transaction
+): Promise<number> {
+  const friendships = await Friendship.findAll({
+    where: {
+      [Op.or]: [{ user_id_a: source_id }, { user_id_b: source_id }],
+    },
+    transaction,
+  });
+
+  let merged = 0;
+  for (const friendship of friendships) {
+    const friend_id =
+      friendship.user_id_a === source_id
+        ? friendship.user_id_b
+        : friendship.user_id_a;
+    await friendship.destroy({ transaction });
+
+    if (friend_id === target_id) {
+      continue;
+    }
+
+    const pair = Friendship.sortUserIds(target_id, friend_id);
+    const existing = await Friendship.findOne({ where: pair, transaction });
+    if (!existing) {
+      await Friendship.create(pair, { transaction });
+      merged++;
+    }
+  }
+
+  // 공개 설정: 내가 친구에게 준 설정 / 친구가 나에게 준 설정
+  const settings = await FriendLevelSetting.findAll({
+    where: {
+      [Op.or]: [{ owner_user_id: source_id }, { friend_user_id: source_id }],
+    },
+    transaction,
+  });
+
+  for (const setting of settings) {
+    const owner_user_id =
+      setting.owner_user_id === source_id ? target_id : setting.owner_user_id;
+    const friend_user_id =
+      setting.friend_user_id === source_id ? target_id : setting.friend_user_id;
+
+    const duplicate =
+      owner_user_id === friend_user_id ||
+      (await FriendLevelSetting.findOne({
+        where: { owner_user_id, friend_user_id },
+        transaction,
+      }));
+
+    if (duplicate) {
+      await setting.destroy({ transaction });
+    } else {
+      await setting.update({ owner_user_id, friend_user_id }, { transaction });
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * 이전 버전 일정/공유 이관 (같은 날짜/같은 공유 대상은 현재 계정 우선)
+ */
+async function mergeLegacySchedules(
+  source_id: string,
+  target_id: string,
+  transaction: Transaction
+): Promise<void> {
+  const target_schedules = await Schedule.findAll({
+    attributes: ["date"],
+    where: { user_id: target_id },
+    transaction,
+  });
+  const target_dates = target_schedules.map((s) => s.date);
+
+  await Schedule.destroy({
+    where: { user_id: source_id, date: { [Op.in]: target_dates } },
+    transaction,
+  });
+  await Schedule.update(
+    { user_id: target_id },
+    { where: { user_id: source_id }, transaction }
+  );
+  await ShiftPattern.update(
+    { user_id: target_id },
+    { where: { user_id: source_id }, transaction }
+  );
+
+  const shared = await SharedSchedule.findAll({
+    where: {
+      [Op.or]: [{ owner_id: source_id }, { shared_with_id: source_id }],
+    },
+    transaction,
+  });
+
+  for (const share of shared) {
+    const owner_id = share.owner_id === source_id ? target_id : share.owner_id;
+    const shared_with_id =
+      share.shared_with_id === source_id ? target_id : share.shared_with_id;
+
+    const duplicate =
+      owner_id === shared_with_id ||
+      (await SharedSchedule.findOne({
+        where: { owner_id, shared_with_id },
+        transaction,
+      }));
+
+    if (duplicate) {
+      await share.destroy({ transaction });
+    } else {
+      await share.update({ owner_id, shared_with_id }, { transaction });
+    }
+  }
+}
+
+// ============================================================
+// 소셜 계정 연결 관리
+// ============================================================
+
+/**
+ * 로그인 수단 연결 상태 조회
+ */
+export async function getLinkedProviders(
+  user_id: string
+): Promise<LinkedProviders> {
+  const user = await User.findByPk(user_id);
+  if (!user) {
+    throw new Error(AccountLinkErrorCodes.USER_NOT_FOUND);
+  }
+
+  return toLinkedProviders(user);
+}
+
+/**
+ * 현재 계정에 소셜 계정 추가 연결
+ * - 이미 같은 계정이 연결되어 있으면 그대로 성공
+ * - 다른 사용자에 연결된 소셜 계정이면 PROVIDER_LINKED_TO_OTHER_ACCOUNT (계정 통합 필요)
+ */
+export async function linkProvider(
+  user_id: string,
+  provider: SocialProvider,
+  credentials: ProviderCredentials
+): Promise<LinkedProviders> {
+  const user = await User.findByPk(user_id);
+  if (!user) {
+    throw new Error(AccountLinkErrorCodes.USER_NOT_FOUND);
+  }
+
+  const field = PROVIDER_ID_FIELDS[provider];
+  const provider_id = await resolveProviderId(provider, credentials);
+
+  if (user[field] === provider_id) {
+    return toLinkedProviders(user);
+  }
+  if (user[field]) {
+    throw new Error(AccountLinkErrorCodes.PROVIDER_ALREADY_LINKED);
+  }
+
+  const other_user = await User.findOne({
+    where: { [field]: provider_id },
+  });
+  if (other_user) {
+    throw new Error(AccountLinkErrorCodes.PROVIDER_LINKED_TO_OTHER_ACCOUNT);
+  }
+
+  await user.update({ [field]: provider_id });
+  return toLinkedProviders(user);
+}
+
+/**
+ * 소셜 계정 연결 해제 (다른 로그인 수단이 하나 이상 남아 있어야 함)
+ */
+export async function unlinkProvider(
+  user_id: string,
+  provider: SocialProvider
+): Promise<LinkedProviders> {
+  const user = await User.findByPk(user_id);
+  if (!user) {
+    throw new Error(AccountLinkErrorCodes.USER_NOT_FOUND);
+  }
+
+  const field = PROVIDER_ID_FIELDS[provider];
+  if (!user[field]) {
+    throw new Error(AccountLinkErrorCodes.PROVIDER_NOT_LINKED);
+  }
+
+  const remaining = Object.entries(toLinkedProviders(user)).filter(
+    ([method, linked]) => linked && method !== provider
+  );
+  if (remaining.length === 0) {
+    throw new Error(AccountLinkErrorCodes.LAST_LOGIN_METHOD);
+  }
+
+  await user.update({ [field]: null });
+  return toLinkedProviders(user);
+}
+
+// ============================================================
+// 계정 통합
+// ============================================================
+
+/**
+ * 다른 계정을 현재 계정으로 통합
+ * - 통합할 계정은 그 계정에 연결된 소셜 계정 인증으로 소유를 확인
+ * - 근무 템플릿/근무표/일정/친구/알림/구독 피드 등을 현재 계정으로 이관
+ *   (같은 날짜 근무, 같은 이름 템플릿, 공통 친구는 현재 계정 우선)
+ * - 통합할 계정의 소셜 계정은 현재 계정에 연결되고, 그 계정은 로그아웃 후 익명화
+ * - 대기 중인 친구/근무 교환 요청은 취소, 이메일과 비밀번호는 이관하지 않음
+ */
+export async function mergeAccount(
+  user_id: string,
+  provider: SocialProvider,
+  credentials: ProviderCredentials
+): Promise<AccountMergeResult> {
+  const field = PROVIDER_ID_FIELDS[provider];
+  const provider_id = await resolveProviderId(provider, credentials);
+
+  return sequelize.transaction(async (transaction) => {
+    const target = await User.findByPk(user_id, {
+      transaction,
+      lock: transaction.LOCK.UPDATE,
+    });
+    if (!target) {
+      throw new Error(AccountLinkErrorCodes.USER_NOT_FOUND);
+    }
+
+    const source = await User.findOne({
+      where: { [field]: provider_id },
+      transaction,
+      lock: transaction.LOCK.UPDATE,
+    });
+    if (!source) {
+      throw new Error(AccountLinkErrorCodes.MERGE_SOURCE_NOT_FOUND);
+    }
+    if (source.user_id === target.user_id) {
+      throw new Error(AccountLinkErrorCodes.SAME_ACCOUNT);
+    }
+
+    // 같은 제공자에 서로 다른 계정이 연결되어 있으면 한쪽 로그인이 사라지므로 거부
+    const linked_providers = SOCIAL_PROVIDERS.filter(
+      (p) => !!source[PROVIDER_ID_FIELDS[p]]
+    );
+    if (
+      linked_providers.some(
+        (p) =>
+          target[PROVIDER_ID_FIELDS[p]] &&
+          target[PROVIDER_ID_FIELDS[p]] !== source[PROVIDER_ID_FIELDS[p]]
+      )
+    ) {
+      throw new Error(AccountLinkErrorCodes.MERGE_PROVIDER_CONFLICT);
+    }
+
+    const source_id = source.user_id;
+    const target_id = target.user_id;
+    const now = new Date();
+
+    // 1. 근무 템플릿 및 근무표
+    const templates = await mergeTemplates(source_id, target_id, transaction);
+    const work_shifts = await mergeWorkShifts(
+      source_id,
+      target_id,
+      transaction
+    );
+
+    // 2. 일정
+    const [events] = await Event.update(
+      { owner_user_id: target_id },
+      { where: { owner_user_id: source_id }, transaction }
+    );
+    await Event.update(
+      { created_by_user_id: target_id },
+      { where: { created_by_user_id: source_id }, transaction }
+    );
+    await Event.update(
+      { deleted_by_user_id: target_id },
+      { where: { deleted_by_user_id: source_id }, transaction }
+    );
+    await mergeLegacySchedules(source_id, target_id, transaction);
+
+    // 3. 친구 관계 (대기 중인 요청은 취소)
+    const friends = await mergeFriends(source_id, target_id, transaction);
+    await FriendRequest.update(
+      { status: "CANCELED", responded_at: now },
+      {
+        where: {
+          [Op.or]: [
+            { requester_user_id: source_id },
+            { addressee_user_id: source_id },
+          ],
+          status: "PENDING",
+        },
+        transaction,
+      }
+    );
+    await ShiftSwapRequest.update(
+      { status: "CANCELED", responded_at: now },
+      {
+        where: {
+          [Op.or]: [
+            { requester_user_id: source_id },
+            { addressee_user_id: source_id },
+          ],
+          status: "PENDING",
+        },
+        transaction,
+      }
+    );
+
+    // 4. 알림, 구독 피드, 데이터 내보내기
+    await Notification.update(
+      { user_id: target_id },
+      { where: { user_id: source_id }, transaction }
+    );
+    await CalendarFeed.update(
+      { user_id: target_id },
+      { where: { user_id: source_id }, transaction }
+    );
+    await AccountExport.update(
+      { user_id: target_id },
+      { where: { user_id: source_id }, transaction }
+    );
+
+    // 5. 통합된 계정 로그아웃 및 익명화 후 소셜 계정을 현재 계정에 연결
+    await RefreshToken.update(
+      { revoked_at: now },
+      { where: { user_id: source_id, revoked_at: null }, transaction }
+    );
+    const provider_ids = Object.fromEntries(
+      linked_providers.map((p) => [
+        PROVIDER_ID_FIELDS[p],
+        source[PROVIDER_ID_FIELDS[p]],
+      ])
+    );
+    await source.update(
+      {
+        email: `merged-${source_id}@deleted.invalid`,
+        name: MERGED_USER_NAME,
+        profile_image_url: null,
+        kakao_id: null,
+        apple_id: null,
+        naver_id: null,
+        password: null,
+        phone: null,
+        withdrawn_at: source.withdrawn_at ?? now,
+        purged_at: now,
+      },
+      { transaction }
+    );
+    await target.update(provider_ids, { transaction });
+
+    return {
+      merged_user_id: source_id,
+      linked_providers,
+      templates: templates.moved,
+      renamed_templates: templates.renamed,
+      work_shifts: work_shifts.moved,
+      skipped_work_shifts: work_shifts.skipped,
+      events,
+      friends,
+    };
+  });
+}
@@ -0,0 +1,313 @@
+import { Op } from "sequelize";
+import { sequelize } from "../config/database";
+import {
+  AccountExport,
+  CalendarFeed,
+  Event,
+  EventOccurrenceOverride,
+  FriendLevelSetting,
+  FriendRequest,
+  Friendship,
+  Notification,
+  RefreshToken,
+  Schedule,
+  SharedSchedule,
+  ShiftPattern,
+  ShiftSwapRequest,
+  ShiftTemplate,
+  ShiftTemplateShare,
+  ShiftTemplateVersion,
+  ShiftType,
+  ShiftTypeSchedule,
+  User,
+  WorkShift,
+  WorkShiftHistory,
+} from "../models";
+import { DAY_MS, getPurgeAt } from "../utils/dateUtils";
+
+// ============================================================
+// 에러 코드 상수
+// ============================================================
+export const AccountErrorCodes = {
+  USER_NOT_FOUND: "USER_NOT_FOUND",
+  ALREADY_WITHDRAWN: "ALREADY_WITHDRAWN",
+} as const;
+
+// 탈퇴 유예 기간 (일), 지나면 백그라운드 작업에서 데이터 삭제 및 익명화
+export const ACCOUNT_DELETION_GRACE_DAYS = parseInt(
+  process.env.ACCOUNT_DELETION_GRACE_DAYS || "30",
+  10
+);
+
+const WITHDRAWN_USER_NAME = "탈퇴한 사용자";
+
+// ============================================================
+// 타입 정의
+// ============================================================
+export interface AccountWithdrawalInfo {
+  withdrawn_at: Date;
+  purge_at: Date; // 이 시각 이후 데이터 삭제 (그 전에 다시 로그인하면 복구)
+  revoked_sessions: number;
+  removed_friends: number;
+  canceled_requests: number;
+}
+
+// ============================================================
+// 헬퍼 함수
+// ============================================================
+
+/**
+ * 탈퇴한 사용자의 데이터 삭제 및 계정 익명화
+ * - 근무표/일정/템플릿 등 사용자 소유 데이터는 삭제
+ * - 다른 사용자의 근무표/이력에 남은 작성자 참조를 유지하기 위해 사용자 행은 익명화하여 남김
+ */
+async function purgeUserData(user: User): Promise<void> {
+  const user_id = user.user_id;
+
+  await sequelize.transaction(async (transaction) => {
+    // 1. 근무표 및 변경 이력
+    await WorkShiftHistory.destroy({
+      where: { owner_user_id: user_id },
+      transaction,
+    });
+    await WorkShift.destroy({
+      where: { owner_user_id: user_id },
+      transaction,
+    });
+
+    // 2. 일정
+    const events = await Event.findAll({
+      attributes: ["event_id"],
+      where: { owner_user_id: user_id },
+      transaction,
+    });
+    const event_ids = events.map((e) => e.event_id);
+    if (event_ids.length > 0) {
+      await EventOccurrenceOverride.destroy({
+        where: { event_id: { [Op.in]: event_ids } },
+        transaction,
+      });
+      await Event.destroy({
+        where: { event_id: { [Op.in]: event_ids } },
+        transaction,
+      });
+    }
+
+    // 3. 근무 템플릿 (버전, 근무 타입, 시간표)
+    // 활성화 기록, 급여 규칙, 순환 패턴, 공유는 템플릿 삭제 시 함께 삭제됨
+    const templates = await ShiftTemplate.findAll({
+      attributes: ["template_id"],
+      where: { owner_user_id: user_id },
+      transaction,
+    });
+    const template_ids = templates.map((t) => t.template_id);
+    if (template_ids.length > 0) {
+      const shift_types = await ShiftType.findAll({
+        attributes: ["shift_type_id"],
+        where: { template_id: { [Op.in]: template_ids } },
+        transaction,
+      });
+      await ShiftTypeSchedule.destroy({
+        where: {
+          shift_type_id: {
+            [Op.in]: shift_types.map((st) => st.shift_type_id),
+          },
+        },
+        transaction,
+      });
+      await ShiftType.destroy({
+        where: { template_id: { [Op.in]: template_ids } },
+        transaction,
+      });
+      await ShiftTemplateVersion.destroy({
+        where: { template_id: { [Op.in]: template_ids } },
+        transaction,
+      });
+      await ShiftTemplate.destroy({
+        where: { template_id: { [Op.in]: template_ids } },
+        transaction,
+      });
+    }
+
+    // 4. 이전 버전 일정/패턴 및 기타 사용자 데이터
+    await SharedSchedule.destroy({
+      where: {
+        [Op.or]: [{ owner_id: user_id }, { shared_with_id: user_id }],
+      },
+      transaction,
+    });
+    await Schedule.destroy({ where: { user_id }, transaction });
+    await ShiftPattern.destroy({ where: { user_id }, transaction });
+    await Notification.destroy({ where: { user_id }, transaction });
+    await AccountExport.destroy({ where: { user_id }, transaction });
+    await CalendarFeed.destroy({ where: { user_id }, transaction });
+    await ShiftTemplateShare.destroy({
+      where: { recipient_user_id: user_id },
+      transaction,
+    });
+    await FriendRequest.destroy({
+      where: {
+        [Op.or]: [
+          { requester_user_id: user_id },
+          { addressee_user_id: user_id },
+        ],
+      },
+      transaction,
+    });
+    await RefreshToken.destroy({ where: { user_id }, transaction });
+
+    // 5. 계정 익명화 (같은 이메일/소셜 계정으로 새로 가입할 수 있도록 식별 정보 제거)
+    await user.update(
+      {
+        email: `withdrawn-${user_id}@deleted.invalid`,
+        name: WITHDRAWN_USER_NAME,
+        profile_image_url: null,
+        kakao_id: null,
+        apple_id: null,
+        naver_id: null,
+        password: null,
+        phone: null,
+        purged_at: new Date(),
+      },
+      { transaction }
+    );
+  });
+}
+
+// ============================================================
+// 회원 탈퇴
+// ============================================================
+
+/**
+ * 회원 탈퇴
+ * - 모든 기기 로그아웃, 친구 관계/공개 설정 삭제(양쪽 모두), 대기 중인 친구/근무 교환 요청 취소
+ * - 구독 피드와 템플릿 공유는 즉시 비활성화
+ * - 근무표/일정/템플릿은 유예 기간 동안 보관 후 삭제 (유예 기간 중 카카오/네이버/Apple로 다시 로그인하면 복구)
+ */
+export async function withdrawAccount(
+  user_id: string
+): Promise<AccountWithdrawalInfo> {
+  const user = await User.findByPk(user_id);
+  if (!user) {
+    throw new Error(AccountErrorCodes.USER_NOT_FOUND);
+  }
+  if (user.withdrawn_at) {
+    throw new Error(AccountErrorCodes.ALREADY_WITHDRAWN);
+  }
+
+  const withdrawn_at = new Date();
+
+  return sequelize.transaction(async (transaction) => {
+    // 1. 모든 기기 로그아웃
+    const [revoked_sessions] = await RefreshToken.update(
+      { revoked_at: withdrawn_at },
+      { where: { user_id, revoked_at: null }, transaction }
+    );
+
+    // 2. 친구 관계 및 공개 설정 삭제 (양쪽 모두)
+    const removed_friends = await Friendship.destroy({
+      where: {
+        [Op.or]: [{ user_id_a: user_id }, { user_id_b: user_id }],
+      },
+      transaction,
+    });
+    await FriendLevelSetting.destroy({
+      where: {
+        [Op.or]: [{ owner_user_id: user_id }, { friend_user_id: user_id }],
+      },
+      transaction,
+    });
+
+    // 3. 대기 중인 친구 요청 / 근무 교환 요청 취소
+    const [canceled_friend_requests] = await FriendRequest.update(
+      { status: "CANCELED", responded_at: withdrawn_at },
+      {
+        where: {
+          [Op.or]: [
+            { requester_user_id: user_id },
+            { addressee_user_id: user_id },
+          ],
+          status: "PENDING",
+        },
+        transaction,
+      }
+    );
+    const [canceled_swap_requests] = await ShiftSwapRequest.update(
+      { status: "CANCELED", responded_at: withdrawn_at },
+      {
+        where: {
+          [Op.or]: [
+            { requester_user_id: user_id },
+            { addressee_user_id: user_id },
+          ],
+          status: "PENDING",
+        },
+        transaction,
+      }
+    );
+
+    // 4. 외부에 공개된 구독 피드 / 템플릿 공유 비활성화
+    await CalendarFeed.update(
+      { revoked_at: withdrawn_at },
+      { where: { user_id, revoked_at: null }, transaction }
+    );
+    await ShiftTemplateShare.update(
+      { revoked_at: withdrawn_at },
+      { where: { owner_user_id: user_id, revoked_at: null }, transaction }
+    );
+
+    // 5. 탈퇴 처리
+    await user.update({ withdrawn_at }, { transaction });
+
+    return {
+      withdrawn_at,
+      purge_at: getPurgeAt(withdrawn_at, ACCOUNT_DELETION_GRACE_DAYS),
+      revoked_sessions,
+      removed_friends,
+      canceled_requests: canceled_friend_requests + canceled_swap_requests,
+    };
+  });
+}
+
+/**
+ * 유예 기간 중인 탈퇴 계정 복구 (소셜 로그인 시 호출)
+ * - 복구했으면 true (삭제된 친구 관계와 취소된 요청은 복구되지 않음)
+ */
+export async function restoreWithdrawnAccount(user: User): Promise<boolean> {
+  if (!user.withdrawn_at || user.purged_at) {
+    return false;
+  }
+
+  // 유예 기간이 지났으면 삭제 작업이 아직 돌지 않았더라도 복구 불가
+  const purge_at = getPurgeAt(user.withdrawn_at, ACCOUNT_DELETION_GRACE_DAYS);
+  if (Date.now() >= purge_at.getTime()) {
+    return false;
+  }
+
+  await user.update({ withdrawn_at: null });
+  return true;
+}
+
+/**
+ * 유예 기간이 지난 탈퇴 계정 데이터 삭제 (백그라운드 작업용)
+ */
+export async function purgeWithdrawnAccounts(
+  now: Date = new Date()
+): Promise<number> {
+  const cutoff = new Date(
+    now.getTime() - ACCOUNT_DELETION_GRACE_DAYS * DAY_MS
+  );
+
+  const users = await User.findAll({
+    where: {
+      withdrawn_at: { [Op.lt]: cutoff },
+      purged_at: null,
+    },
+  });
+
+  for (const user of users) {
+    await purgeUserData(user);
+  }
+
+  return users.length;
+}
@@ -0,0 +1,175 @@
+import axios from "axios";
+import crypto from "crypto";
+import fs from "fs/promises";
+import jwt from "jsonwebtoken";
+
+const APPLE_ISSUER = "https://appleid.apple.com";
+const DEFAULT_APPLE_JWKS_URL = "https://appleid.apple.com/auth/keys";
+const JWKS_CACHE_TTL_MS = 60 * 60 * 1000; // 1시간
+// 알 수 없는 kid로 인한 강제 재조회 최소 간격 (임의 kid로 반복 조회 유도 방지)
+const JWKS_MIN_REFETCH_INTERVAL_MS = 60 * 1000;
+
+// Apple 비공개 이메일 릴레이 도메인 (앱마다 다른 주소가 발급됨)
+const PRIVATE_RELAY_DOMAIN = "privaterelay.appleid.com";
+
+// identity token 검증 실패 (클라이언트 오류로 응답)
+export const AppleAuthErrorCodes = {
+  INVALID_IDENTITY_TOKEN: "INVALID_IDENTITY_TOKEN",
+  IDENTITY_TOKEN_EXPIRED: "IDENTITY_TOKEN_EXPIRED",
+  UNKNOWN_SIGNING_KEY: "UNKNOWN_SIGNING_KEY",
+  NONCE_MISMATCH: "NONCE_MISMATCH",
+} as const;
+
+interface AppleJwk {
+  kty: string;
+  kid: string;
+  use?: string;
+  alg?: string;
+  n: string;
+  e: string;
+}
+
+interface AppleIdentityTokenPayload {
+  iss: string;
+  aud: string;
+  sub: string;
+  exp: number;
+  iat: number;
+  nonce?: string;
+  email?: string;
+  // Apple은 boolean 또는 "true"/"false" 문자열로 보냄
+  email_verified?: boolean | string;
+  is_private_email?: boolean | string;
+}
+
+export interface AppleUserInfo {
+  apple_id: string;
+  email: string | null; // 최초 로그인 이후에는 토큰에 없을 수 있음
+  email_verified: boolean;
+  is_private_email: boolean;
+}
+
+let jwks_cache: { keys: AppleJwk[]; fetched_at: number } | null = null;
+
+function isTrueClaim(value: boolean | string | undefined): boolean {
+  return value === true || value === "true";
+}
+
+/**
+ * Apple 공개키 목록(JWKS)을 불러옵니다.
+ * - APPLE_JWKS_URL이 http(s) 주소가 아니면 로컬 파일 경로로 간주 (테스트용 키 세트)
+ */
+async function loadAppleJwks(force_refresh = false): Promise<AppleJwk[]> {
+  if (
+    !force_refresh &&
+    jwks_cache &&
+    Date.now() - jwks_cache.fetched_at < JWKS_CACHE_TTL_MS
+  ) {
+    return jwks_cache.keys;
+  }
+
+  const jwks_url = process.env.APPLE_JWKS_URL || DEFAULT_APPLE_JWKS_URL;
+
+  let keys: AppleJwk[] | undefined;
+  if (/^https?:\/\//.test(jwks_url)) {
+    const response = await axios.get<{ keys: AppleJwk[] }>(jwks_url);
+    keys = response.data.keys;
+  } else {
+    const content = await fs.readFile(jwks_url, "utf8");
+    keys = (JSON.parse(content) as { keys: AppleJwk[] }).keys;
+  }
+
+  if (!Array.isArray(keys)) {
+    throw new Error("Apple 공개키 목록을 불러오지 못했습니다.");
+  }
+
+  jwks_cache = { keys, fetched_at: Date.now() };
+  return keys;
+}
+
+/**
+ * 토큰 헤더의 kid에 해당하는 공개키를 찾습니다.
+ * - Apple 키 교체에 대비해 캐시에 없으면 다시 불러옴 (최소 간격 이내면 생략)
+ * - 그래도 없으면 UNKNOWN_SIGNING_KEY
+ */
+async function getApplePublicKey(kid: string): Promise<crypto.KeyObject> {
+  let jwk = (await loadAppleJwks()).find((key) => key.kid === kid);
+  if (
+    !jwk &&
+    Date.now() - (jwks_cache?.fetched_at ?? 0) >= JWKS_MIN_REFETCH_INTERVAL_MS
+  ) {
+    jwk = (await loadAppleJwks(true)).find((key) => key.kid === kid);
+  }
+  if (!jwk) {
+    throw new Error(AppleAuthErrorCodes.UNKNOWN_SIGNING_KEY);
+  }
+
+  return crypto.createPublicKey({
+    key: jwk as unknown as crypto.JsonWebKey,
+    format: "jwk",
+  });
+}
+
+/**
+ * Apple identity token을 검증하고 사용자 정보를 반환합니다.
+ * - 서명(RS256), 발급자, 대상(APPLE_CLIENT_ID, 쉼표로 여러 개 지정 가능), 만료를 검증
+ * - nonce를 전달하면 토큰의 nonce와 원문 또는 SHA-256 해시값이 일치해야 함
+ * - 이름은 토큰에 포함되지 않음 (최초 로그인 시 클라이언트가 따로 전달)
+ * - 검증 실패는 AppleAuthErrorCodes, 설정 누락이나 공개키 조회 실패는 일반 에러
+ */
+export async function verifyAppleIdentityToken(
+  identity_token: string,
+  nonce?: string
+): Promise<AppleUserInfo> {
+  const apple_client_id = process.env.APPLE_CLIENT_ID;
+
+  if (!apple_client_id) {
+    throw new Error("APPLE_CLIENT_ID 환경변수가 설정되지 않았습니다.");
+  }
+
+  const decoded = jwt.decode(identity_token, { complete: true });
+  if (!decoded || typeof decoded.payload === "string" || !decoded.header.kid) {
+    throw new Error(AppleAuthErrorCodes.INVALID_IDENTITY_TOKEN);
+  }
+
+  const public_key = await getApplePublicKey(decoded.header.kid);
+  const audience = apple_client_id
+    .split(",")
+    .map((client_id) => client_id.trim())
+    .filter(Boolean);
+
+  let payload: AppleIdentityTokenPayload;
+  try {
+    payload = jwt.verify(identity_token, public_key, {
+      algorithms: ["RS256"],
+      issuer: APPLE_ISSUER,
+      audience: audience as [string, ...string[]],
+    }) as AppleIdentityTokenPayload;
+  } catch (error) {
+    if (error instanceof jwt.TokenExpiredError) {
+      throw new Error(AppleAuthErrorCodes.IDENTITY_TOKEN_EXPIRED);
+    }
+    throw new Error(AppleAuthErrorCodes.INVALID_IDENTITY_TOKEN);
+  }
+
+  if (nonce) {
+    const hashed_nonce = crypto
+      .createHash("sha256")
+      .update(nonce)
+      .digest("hex");
+    if (payload.nonce !== nonce && payload.nonce !== hashed_nonce) {
+      throw new Error(AppleAuthErrorCodes.NONCE_MISMATCH);
+    }
+  }
+
+  const email = payload.email?.toLowerCase() ?? null;
+
+  return {
+    apple_id: payload.sub,
+    email,
+    email_verified: isTrueClaim(payload.email_verified),
+    is_private_email:
+      isTrueClaim(payload.is_private_email) ||
+      (email?.endsWith(`@${PRIVATE_RELAY_DOMAIN}`) ?? false),
+  };
+}
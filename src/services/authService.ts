@@ -1,11 +1,18 @@
 import jwt, { SignOptions } from "jsonwebtoken";
 import crypto from "crypto";
-import { Op } from "sequelize";
-import { User, RefreshToken } from "../models";
+import { Op, Transaction } from "sequelize";
+import { sequelize } from "../config/database";
+import { User, RefreshToken, Notification } from "../models";
+import {
+  ParsedUserAgent,
+  parseUserAgent,
+  splitDeviceInfo,
+} from "../utils/userAgent";
 
 interface TokenPayload {
   user_id: string; // UUID
   email: string;
+  session_id?: string; // 로그인 세션 (이 값이 없는 이전 토큰은 세션 확인 생략)
 }
 
 interface AuthTokens {
@@ -16,33 +23,59 @@ interface AuthTokens {
 
 interface GenerateTokensOptions {
   device_info?: string;
+  // 토큰 갱신 시 기존 세션 유지 (없으면 새 세션 시작)
+  session?: { session_id: string; created_at?: Date };
 }
 
+// 기기별 로그인 세션 (유효한 refresh_token 기준)
+export interface SessionInfo {
+  token_id: string;
+  device: ParsedUserAgent;
+  user_agent: string | null;
+  ip: string | null;
+  created_at: Date | undefined; // 로그인 시각
+  last_used_at: Date | null; // 마지막 API 사용 또는 토큰 갱신 시각
+  expires_at: Date;
+  is_current: boolean;
+}
+
+// 세션 마지막 사용 시각 갱신 간격 (요청마다 DB 쓰기 방지)
+const SESSION_TOUCH_INTERVAL_MS = 5 * 60 * 1000;
+
+// 교체 직후 같은 토큰으로 다시 갱신 요청이 오는 경우 (응답 유실 후 재시도, 동시 요청)
+// 이 시간 안에는 탈취로 보지 않고 401만 반환
+const REFRESH_TOKEN_REUSE_GRACE_MS = 10 * 1000;
+
 // 토큰을 SHA-256으로 해싱
 function hashToken(token: string): string {
   return crypto.createHash("sha256").update(token).digest("hex");
 }
 
-// 토큰 생성 및 DB 저장
-export async function generateTokens(
+// 토큰 생성 및 DB 저장 (저장된 refresh_token ID 포함)
+async function createTokens(
   user: User,
-  options?: GenerateTokensOptions
-): Promise<AuthTokens> {
+  options?: GenerateTokensOptions,
+  transaction?: Transaction
+): Promise<{ tokens: AuthTokens; token_id: string }> {
   const jwt_secret = process.env.JWT_SECRET || "default_secret";
   const jwt_refresh_secret =
     process.env.JWT_REFRESH_SECRET || "default_refresh_secret";
 
+  const session_id = options?.session?.session_id ?? crypto.randomUUID();
   const payload: TokenPayload = {
     user_id: user.user_id,
     email: user.email,
+    session_id,
   };
 
   const access_token_options: SignOptions = {
     expiresIn: "7d",
   };
 
+  // jwtid: 같은 세션에서 1초 안에 갱신해도 토큰(해시)이 겹치지 않도록
   const refresh_token_options: SignOptions = {
     expiresIn: "30d",
+    jwtid: crypto.randomUUID(),
   };
 
   const access_token = jwt.sign(payload, jwt_secret, access_token_options);
@@ -58,24 +91,112 @@ export async function generateTokens(
 
   // refresh_token을 DB에 저장 (해시값으로)
   const token_hash = hashToken(refresh_token);
-  await RefreshToken.create({
-    user_id: user.user_id,
-    token_hash,
-    device_info: options?.device_info || null,
-    expires_at: refresh_expires_at,
-  });
+  const stored_token = await RefreshToken.create(
+    {
+      user_id: user.user_id,
+      session_id,
+      token_hash,
+      device_info: options?.device_info || null,
+      expires_at: refresh_expires_at,
+      last_used_at: new Date(),
+      created_at: options?.session?.created_at,
+    },
+    { transaction }
+  );
 
   // access_token 만료 시간 계산 (7일 후) - Unix timestamp (밀리초)로 반환
   const access_expires_at = new Date();
   access_expires_at.setDate(access_expires_at.getDate() + 7);
 
   return {
-    access_token,
-    refresh_token,
-    expires_at: access_expires_at.getTime(),
+    tokens: {
+      access_token,
+      refresh_token,
+      expires_at: access_expires_at.getTime(),
+    },
+    token_id: stored_token.token_id,
   };
 }
 
+// 토큰 생성 및 DB 저장
+export async function generateTokens(
+  user: User,
+  options?: GenerateTokensOptions
+): Promise<AuthTokens> {
+  const { tokens } = await createTokens(user, options);
+  return tokens;
+}
+
+// 갱신으로 이미 교체된 refresh_token이 다시 사용된 경우 탈취로 간주
+// 같은 패밀리(세션)의 토큰을 모두 무효화하고 보안 이벤트 기록 및 사용자 알림
+// (교체 직후 유예 시간 안의 재요청은 제외, 호출 측에서 토큰 행을 잠근 상태여야 함)
+async function handleRefreshTokenReuse(
+  reused_token: RefreshToken,
+  device_info: string | undefined,
+  transaction: Transaction
+): Promise<void> {
+  // 로그아웃 등으로 무효화된 토큰은 일반적인 만료로 처리
+  if (!reused_token.replaced_by_token_id || !reused_token.revoked_at) return;
+
+  if (
+    Date.now() - reused_token.revoked_at.getTime() <
+    REFRESH_TOKEN_REUSE_GRACE_MS
+  ) {
+    return;
+  }
+
+  const [revoked_count] = await RefreshToken.update(
+    { revoked_at: new Date() },
+    {
+      where: {
+        session_id: reused_token.session_id,
+        revoked_at: null,
+      },
+      transaction,
+    }
+  );
+
+  console.warn("[security] Refresh token reuse detected:", {
+    user_id: reused_token.user_id,
+    session_id: reused_token.session_id,
+    token_id: reused_token.token_id,
+    session_device_info: reused_token.device_info ?? null,
+    request_device_info: device_info ?? null,
+    revoked_count,
+  });
+
+  // 이미 패밀리 전체가 무효화된 뒤 재시도된 경우 중복 알림 생략
+  if (revoked_count === 0) return;
+
+  const { user_agent } = splitDeviceInfo(reused_token.device_info);
+  const device = parseUserAgent(user_agent);
+  const device_name =
+    [device.os, device.browser].filter(Boolean).join(" · ") ||
+    "알 수 없는 기기";
+
+  await Notification.create(
+    {
+      user_id: reused_token.user_id,
+      notification_type: "SESSION_REUSE_DETECTED",
+      title: "보안 경고",
+      body: `${device_name} 기기의 로그인 정보가 다른 곳에서 사용된 것으로 의심되어 해당 기기를 로그아웃했습니다. 본인이 아니라면 로그인 기기 목록을 확인하고 모든 기기에서 로그아웃해주세요.`,
+      payload: {
+        session_id: reused_token.session_id,
+        device,
+        request_ip: splitDeviceInfo(device_info).ip,
+      },
+      actions: [
+        {
+          type: "navigate",
+          label: "로그인 기기 확인",
+          route: "/auth/sessions",
+        },
+      ],
+    },
+    { transaction }
+  );
+}
+
 // refresh_token JWT 페이로드 검증 (서명만 확인)
 export function verifyRefreshTokenJwt(token: string): TokenPayload | null {
   try {
@@ -107,6 +228,7 @@ export async function findValidRefreshToken(
 }
 
 // refresh_token 검증 + 기존 토큰 무효화 + 새 토큰 발급 (Token Rotation)
+// 동시 갱신 요청이 같은 토큰으로 둘 다 성공하지 않도록 토큰 행을 잠그고 한 트랜잭션에서 처리
 export async function rotateRefreshToken(
   old_refresh_token: string,
   device_info?: string
@@ -115,21 +237,48 @@ export async function rotateRefreshToken(
   const payload = verifyRefreshTokenJwt(old_refresh_token);
   if (!payload) return null;
 
-  // 2. DB에서 토큰 유효성 확인
-  const stored_token = await findValidRefreshToken(old_refresh_token);
-  if (!stored_token) return null;
-
-  // 3. 사용자 조회
-  const user = await User.findByPk(payload.user_id);
-  if (!user) return null;
-
-  // 4. 기존 토큰 무효화 (Token Rotation)
-  await stored_token.revoke();
+  return sequelize.transaction(async (transaction) => {
+    // 2. DB에서 토큰 조회 (SELECT ... FOR UPDATE)
+    const stored_token = await RefreshToken.findOne({
+      where: { token_hash: hashToken(old_refresh_token) },
+      transaction,
+      lock: transaction.LOCK.UPDATE,
+    });
+    if (!stored_token) return null;
+
+    // 교체된 토큰 재사용이면 세션 전체 무효화
+    if (stored_token.revoked_at) {
+      await handleRefreshTokenReuse(stored_token, device_info, transaction);
+      return null;
+    }
+    if (!stored_token.isValid()) return null;
+
+    // 3. 사용자 조회 (탈퇴한 사용자는 갱신 불가, 인증 미들웨어와 동일)
+    const user = await User.findByPk(payload.user_id, { transaction });
+    if (!user || user.withdrawn_at || user.purged_at) return null;
+
+    // 4. 새 토큰 발급 (같은 세션 유지)
+    const { tokens, token_id } = await createTokens(
+      user,
+      {
+        device_info,
+        session: {
+          session_id: stored_token.session_id,
+          created_at: stored_token.created_at,
+        },
+      },
+      transaction
+    );
 
-  // 5. 새 토큰 발급
-  const tokens = await generateTokens(user, { device_info });
+    // 5. 기존 토큰 무효화 (Token Rotation)
+    // 교체 기록을 남겨 이후 재사용 시 탈취로 판단
+    await stored_token.update(
+      { revoked_at: new Date(), replaced_by_token_id: token_id },
+      { transaction }
+    );
 
-  return { tokens, user };
+    return { tokens, user };
+  });
 }
 
 // 단일 refresh_token 무효화 (로그아웃)
@@ -166,6 +315,83 @@ export async function revokeAllUserTokens(user_id: string): Promise<number> {
   return affected_count;
 }
 
+// 사용자의 로그인 세션 목록 (최근 사용 순)
+export async function getActiveSessions(
+  user_id: string,
+  current_session_id?: string
+): Promise<SessionInfo[]> {
+  const tokens = await RefreshToken.findAll({
+    where: {
+      user_id,
+      revoked_at: null,
+      expires_at: { [Op.gt]: new Date() },
+    },
+    order: [
+      ["last_used_at", "DESC NULLS LAST"],
+      ["created_at", "DESC"],
+    ],
+  });
+
+  return tokens.map((token) => {
+    const { user_agent, ip } = splitDeviceInfo(token.device_info);
+    return {
+      token_id: token.token_id,
+      device: parseUserAgent(user_agent),
+      user_agent,
+      ip,
+      created_at: token.created_at,
+      last_used_at: token.last_used_at ?? null,
+      expires_at: token.expires_at,
+      is_current: token.session_id === current_session_id,
+    };
+  });
+}
+
+// 특정 기기 세션 로그아웃 (없거나 이미 무효화된 경우 null)
+export async function revokeSession(
+  user_id: string,
+  token_id: string
+): Promise<RefreshToken | null> {
+  const stored_token = await RefreshToken.findOne({
+    where: {
+      token_id,
+      user_id,
+      revoked_at: null,
+    },
+  });
+
+  if (!stored_token) return null;
+
+  await stored_token.revoke();
+  return stored_token;
+}
+
+// access_token의 세션이 유효한지 확인 (로그아웃된 기기의 access_token 거부)
+// 유효하면 마지막 사용 시각 갱신
+export async function touchSession(session_id: string): Promise<boolean> {
+  const stored_token = await RefreshToken.findOne({
+    where: {
+      session_id,
+      revoked_at: null,
+      expires_at: { [Op.gt]: new Date() },
+    },
+  });
+
+  if (!stored_token) return false;
+
+  const now = new Date();
+  if (
+    !stored_token.last_used_at ||
+    now.getTime() - stored_token.last_used_at.getTime() >
+      SESSION_TOUCH_INTERVAL_MS
+  ) {
+    stored_token.last_used_at = now;
+    await stored_token.save();
+  }
+
+  return true;
+}
+
 // 만료된 토큰 정리 (배치 작업용)
 export async function cleanupExpiredTokens(): Promise<number> {
   const result = await RefreshToken.destroy({
@@ -1,18 +1,74 @@
 import { Op, Transaction } from "sequelize";
 import {
   ShiftTemplate,
-  ShiftTemplateVersion,
   ShiftType,
   ShiftTypeSchedule,
   WorkShift,
+  WorkShiftHistory,
   Event,
+  EventOccurrenceOverride,
 } from "../models";
 import { sequelize } from "../config/database";
+import {
+  addDays,
+  diffDays,
+  formatDateInTimezone,
+  formatTimeInTimezone,
+  resolveTimezone,
+  toDateString,
+  zonedTimeToUtc,
+} from "../utils/dateUtils";
+import {
+  ParsedRRule,
+  expandRRuleDates,
+  formatRRule,
+  getLastOccurrenceDate,
+  parseRRule,
+} from "../utils/rrule";
+import {
+  WorkShiftSnapshot,
+  WorkShiftState,
+  getWorkShiftSnapshots,
+  recordWorkShiftChange,
+  toWorkShiftSnapshot,
+} from "./workShiftHistoryService";
+import { HolidayItem, getHolidays } from "./holidayService";
+import {
+  findOrCreateSchedule,
+  findTemplateForDate,
+  findTemplateVersionForDate,
+  getActiveTemplate,
+  getTemplatesForDates,
+} from "./shiftTemplateService";
+
+// 일정 공개 레벨 범위 (친구 레벨과 동일하게 0~5)
+const MIN_VISIBILITY_LEVEL = 0;
+const MAX_VISIBILITY_LEVEL = 5;
+
+// 일정 응답 형식 (반복 일정은 발생 단위로 전개됨)
+export interface EventItem {
+  event_id: string;
+  title: string;
+  memo: string | null;
+  place: string | null;
+  all_day: boolean;
+  start_at: Date;
+  end_at: Date;
+  visibility_level: number;
+  rrule: string | null;
+  occurrence_date: string | null; // 반복 일정의 발생 날짜 (단일 일정은 null)
+}
 
 /**
  * 사용자의 활성 템플릿에 속한 근무 타입 목록과 시간표 정보 조회
+ * - template_id가 없으면 오늘(사용자 타임존 기준) 적용 중인 템플릿
+ * - 시간표는 오늘 적용 중인 버전 기준
  */
-export async function getShiftTypes(user_id: string): Promise<{
+export async function getShiftTypes(
+  user_id: string,
+  timezone?: string | null,
+  template_id?: string
+): Promise<{
   template_id: string;
   template_name: string;
   shift_types: Array<{
@@ -27,27 +83,28 @@ export async function getShiftTypes(user_id: string): Promise<{
     duration_minutes: number;
   }>;
 }> {
-  // 1. 사용자의 활성 템플릿 조회
-  const template = await ShiftTemplate.findOne({
-    where: {
-      owner_user_id: user_id,
-      deleted_at: null,
-    },
-  });
+  // 1. 대상 템플릿 조회
+  const template = template_id
+    ? await ShiftTemplate.findOne({
+        where: {
+          template_id,
+          owner_user_id: user_id,
+          deleted_at: null,
+        },
+      })
+    : await getActiveTemplate(user_id, timezone);
 
   if (!template) {
     throw new Error("TEMPLATE_NOT_FOUND");
   }
 
-  // 2. 최신 버전 조회
-  const latest_version = await ShiftTemplateVersion.findOne({
-    where: {
-      template_id: template.template_id,
-    },
-    order: [["effective_from", "DESC"]],
-  });
+  // 2. 오늘 적용 중인 버전 조회
+  const current_version = await findTemplateVersionForDate(
+    template.template_id,
+    formatDateInTimezone(new Date(), resolveTimezone(timezone))
+  );
 
-  if (!latest_version) {
+  if (!current_version) {
     throw new Error("TEMPLATE_NOT_FOUND");
   }
 
@@ -62,7 +119,7 @@ export async function getShiftTypes(user_id: string): Promise<{
         model: ShiftTypeSchedule,
         as: "schedules",
         where: {
-          template_version_id: latest_version.template_version_id,
+          template_version_id: current_version.template_version_id,
         },
         required: false, // LEFT JOIN
       },
@@ -145,13 +202,7 @@ export async function getWorkShifts(
       | undefined;
     const shift_type = schedule?.shift_type;
 
-    // work_date가 Date 객체인지 확인하고, 아니면 문자열로 처리
-    const work_date_str =
-      ws.work_date instanceof Date
-        ? ws.work_date.toISOString().split("T")[0]
-        : typeof ws.work_date === "string"
-        ? ws.work_date
-        : String(ws.work_date);
+    const work_date_str = toDateString(ws.work_date);
 
     return {
       work_shift_id: ws.work_shift_id,
@@ -168,66 +219,178 @@ export async function getWorkShifts(
   });
 }
 
+// 근무 시간 계산용 근무표 항목 (시간표의 자정 넘김/근무 시간 포함)
+export interface WorkShiftTimeItem {
+  work_shift_id: string;
+  work_date: string; // YYYY-MM-DD
+  shift_type_code: string;
+  shift_type_name: string;
+  shift_type_color: number | null;
+  start_time: string | null;
+  end_time: string | null;
+  crosses_midnight: boolean;
+  duration_minutes: number;
+  note: string | null;
+  visibility_level: number;
+}
+
 /**
- * 기간별 일정 조회
+ * 기간별 근무표 조회 (시간표 상세 포함)
+ * - 내보내기, 통계, 빈 시간 계산 등 근무 시간이 필요한 기능에서 사용
  */
-export async function getEvents(
+export async function getWorkShiftTimes(
   user_id: string,
   start_date: string,
-  end_date: string
-): Promise<
-  Array<{
-    event_id: string;
-    title: string;
-    memo: string | null;
-    place: string | null;
-    all_day: boolean;
-    start_at: Date;
-    end_at: Date;
-    visibility_level: number;
-  }>
-> {
-  // 날짜를 Date 객체로 변환 (로컬 타임존 기준)
-  // start_date의 시작 시각 (00:00:00)
-  const start_date_utc = new Date(start_date);
-  start_date_utc.setHours(0, 0, 0, 0);
+  end_date: string,
+  transaction?: Transaction
+): Promise<WorkShiftTimeItem[]> {
+  const work_shifts = await WorkShift.findAll({
+    where: {
+      owner_user_id: user_id,
+      work_date: {
+        [Op.between]: [start_date, end_date],
+      },
+      deleted_at: null,
+    },
+    include: [
+      {
+        model: ShiftTypeSchedule,
+        as: "schedule",
+        required: true,
+        include: [
+          {
+            model: ShiftType,
+            as: "shift_type",
+            required: true,
+          },
+        ],
+      },
+    ],
+    order: [["work_date", "ASC"]],
+    transaction,
+  });
 
-  // end_date의 종료 시각 (23:59:59.999)
-  const end_date_utc = new Date(end_date);
-  end_date_utc.setHours(23, 59, 59, 999);
+  return work_shifts.map((ws) => {
+    const schedule = (ws as any).schedule as
+      | (ShiftTypeSchedule & { shift_type?: ShiftType })
+      | undefined;
+    const shift_type = schedule?.shift_type;
+
+    const work_date_str = toDateString(ws.work_date);
+
+    return {
+      work_shift_id: ws.work_shift_id,
+      work_date: work_date_str,
+      shift_type_code: shift_type?.code || "",
+      shift_type_name: shift_type?.name || "",
+      shift_type_color: shift_type?.color ?? null,
+      start_time: schedule?.start_time || null,
+      end_time: schedule?.end_time || null,
+      crosses_midnight: schedule?.crosses_midnight || false,
+      duration_minutes: schedule?.duration_minutes || 0,
+      note: ws.note || null,
+      visibility_level: ws.visibility_level,
+    };
+  });
+}
 
-  // 기간 겹침 조건: start_at <= end_date AND end_at >= start_date
+/**
+ * 기간 내 일정 조회 (반복 일정은 발생 단위로 전개)
+ * - 기간 겹침 조건: start_at <= window_end AND end_at >= window_start
+ */
+async function findEventsInWindow(
+  user_id: string,
+  window_start: Date,
+  window_end: Date,
+  timezone: string
+): Promise<EventItem[]> {
   const events = await Event.findAll({
     where: {
       owner_user_id: user_id,
       deleted_at: null,
-      [Op.and]: [
-        { start_at: { [Op.lte]: end_date_utc } },
-        { end_at: { [Op.gte]: start_date_utc } },
+      [Op.or]: [
+        // 단일 일정
+        {
+          rrule: null,
+          start_at: { [Op.lte]: window_end },
+          end_at: { [Op.gte]: window_start },
+        },
+        // 반복 일정: 첫 발생이 기간 종료 이전이고 반복이 기간 시작 이후까지 이어지는 경우
+        {
+          rrule: { [Op.ne]: null },
+          start_at: { [Op.lte]: window_end },
+          [Op.or]: [
+            { recurrence_end_at: null },
+            { recurrence_end_at: { [Op.gte]: window_start } },
+          ],
+        },
       ],
     },
     order: [["start_at", "ASC"]],
   });
 
-  return events.map((e) => ({
-    event_id: e.event_id,
-    title: e.title,
-    memo: e.memo || null,
-    place: e.place || null,
-    all_day: e.all_day,
-    start_at: e.start_at,
-    end_at: e.end_at,
-    visibility_level: e.visibility_level,
-  }));
+  const recurring_event_ids = events
+    .filter((e) => e.rrule)
+    .map((e) => e.event_id);
+
+  const overrides =
+    recurring_event_ids.length > 0
+      ? await EventOccurrenceOverride.findAll({
+          where: {
+            event_id: {
+              [Op.in]: recurring_event_ids,
+            },
+          },
+        })
+      : [];
+
+  const result: EventItem[] = [];
+  for (const event of events) {
+    const event_overrides = overrides.filter(
+      (o) => o.event_id === event.event_id
+    );
+    result.push(
+      ...expandEvent(event, event_overrides, window_start, window_end, timezone)
+    );
+  }
+
+  return result.sort((a, b) => a.start_at.getTime() - b.start_at.getTime());
+}
+
+/**
+ * 기간별 일정 조회
+ */
+export async function getEvents(
+  user_id: string,
+  start_date: string,
+  end_date: string,
+  timezone?: string | null
+): Promise<EventItem[]> {
+  // 날짜를 Date 객체로 변환 (로컬 타임존 기준)
+  // start_date의 시작 시각 (00:00:00)
+  const start_date_utc = new Date(start_date);
+  start_date_utc.setHours(0, 0, 0, 0);
+
+  // end_date의 종료 시각 (23:59:59.999)
+  const end_date_utc = new Date(end_date);
+  end_date_utc.setHours(23, 59, 59, 999);
+
+  return findEventsInWindow(
+    user_id,
+    start_date_utc,
+    end_date_utc,
+    resolveTimezone(timezone)
+  );
 }
 
 /**
- * 기간별 캘린더 데이터 조회 (근무표 + 일정)
+ * 기간별 캘린더 데이터 조회 (근무표 + 일정 + 공휴일)
  */
 export async function getCalendarRange(
   user_id: string,
   start_date: string,
-  end_date: string
+  end_date: string,
+  timezone?: string | null
 ): Promise<{
   work_shifts: Array<{
     work_shift_id: string;
@@ -241,35 +404,58 @@ export async function getCalendarRange(
     created_at: Date;
     updated_at: Date;
   }>;
-  events: Array<{
-    event_id: string;
-    title: string;
-    memo: string | null;
-    place: string | null;
-    all_day: boolean;
-    start_at: Date;
-    end_at: Date;
-    visibility_level: number;
-  }>;
+  events: EventItem[];
+  holidays: HolidayItem[];
 }> {
   // 병렬 쿼리 실행
-  const [work_shifts, events] = await Promise.all([
+  const [work_shifts, events, holidays] = await Promise.all([
     getWorkShifts(user_id, start_date, end_date),
-    getEvents(user_id, start_date, end_date),
+    getEvents(user_id, start_date, end_date, timezone),
+    getHolidays(start_date, end_date),
   ]);
 
   return {
     work_shifts,
     events,
+    holidays,
+  };
+}
+
+/**
+ * 공개 레벨 기준 기간별 캘린더 데이터 조회 (친구 캘린더 열람용)
+ * - max_visibility_level 이하의 근무표와 일정만 포함
+ * - 반복 일정은 캘린더 소유자의 타임존 기준으로 전개
+ */
+export async function getSharedCalendarRange(
+  owner_user_id: string,
+  start_date: string,
+  end_date: string,
+  max_visibility_level: number,
+  timezone?: string | null
+): Promise<{
+  work_shifts: WorkShiftTimeItem[];
+  events: EventItem[];
+}> {
+  const [work_shifts, events] = await Promise.all([
+    getWorkShiftTimes(owner_user_id, start_date, end_date),
+    getEvents(owner_user_id, start_date, end_date, timezone),
+  ]);
+
+  return {
+    work_shifts: work_shifts.filter(
+      (ws) => ws.visibility_level <= max_visibility_level
+    ),
+    events: events.filter((e) => e.visibility_level <= max_visibility_level),
   };
 }
 
 /**
- * 특정 날짜의 일정 조회 (근무표 + 개인 일정)
+ * 특정 날짜의 일정 조회 (근무표 + 개인 일정 + 공휴일)
  */
 export async function getDaySchedule(
   user_id: string,
-  date: string
+  date: string,
+  timezone?: string | null
 ): Promise<{
   date: string;
   work_shifts: Array<{
@@ -281,16 +467,8 @@ export async function getDaySchedule(
     end_time: string | null;
     note: string | null;
   }>;
-  events: Array<{
-    event_id: string;
-    title: string;
-    memo: string | null;
-    place: string | null;
-    all_day: boolean;
-    start_at: Date;
-    end_at: Date;
-    visibility_level: number;
-  }>;
+  events: EventItem[];
+  holiday: HolidayItem | null;
 }> {
   // 근무표 조회
   const work_shift = await WorkShift.findOne({
@@ -315,22 +493,18 @@ export async function getDaySchedule(
     ],
   });
 
-  // 개인 일정 조회 (해당 날짜에 시작하는 일정)
+  // 개인 일정 조회 (해당 날짜에 시작하는 일정, 반복 일정 포함)
   const start_of_day = new Date(date);
   start_of_day.setHours(0, 0, 0, 0);
   const end_of_day = new Date(date);
   end_of_day.setHours(23, 59, 59, 999);
 
-  const events = await Event.findAll({
-    where: {
-      owner_user_id: user_id,
-      start_at: {
-        [Op.between]: [start_of_day, end_of_day],
-      },
-      deleted_at: null,
-    },
-    order: [["start_at", "ASC"]],
-  });
+  const events = await findEventsInWindow(
+    user_id,
+    start_of_day,
+    end_of_day,
+    resolveTimezone(timezone)
+  );
 
   const work_shifts_result = work_shift
     ? (() => {
@@ -352,24 +526,60 @@ export async function getDaySchedule(
       })()
     : [];
 
-  const events_result = events.map((e) => ({
-    event_id: e.event_id,
-    title: e.title,
-    memo: e.memo || null,
-    place: e.place || null,
-    all_day: e.all_day,
-    start_at: e.start_at,
-    end_at: e.end_at,
-    visibility_level: e.visibility_level,
-  }));
+  const events_result = events.filter(
+    (e) => e.start_at >= start_of_day && e.start_at <= end_of_day
+  );
+
+  const [holiday] = await getHolidays(date, date);
 
   return {
     date,
     work_shifts: work_shifts_result,
     events: events_result,
+    holiday: holiday ?? null,
   };
 }
 
+/**
+ * 날짜별 근무 저장 (활성 근무가 있으면 수정, 없으면 새로 생성)
+ * - 휴지통의 삭제된 근무는 되살리지 않고 그대로 두어 따로 복원할 수 있게 함
+ */
+async function saveWorkShift(
+  values: {
+    owner_user_id: string;
+    work_date: string;
+    schedule_id: string;
+    note: string | null;
+    created_by_user_id: string;
+  },
+  snapshot: WorkShiftSnapshot | undefined,
+  transaction: Transaction
+): Promise<WorkShift> {
+  const existing = snapshot?.state
+    ? await WorkShift.findByPk(snapshot.work_shift_id, { transaction })
+    : null;
+
+  if (existing) {
+    return existing.update(
+      {
+        schedule_id: values.schedule_id,
+        note: values.note,
+        created_by_user_id: values.created_by_user_id,
+      },
+      { transaction }
+    );
+  }
+
+  return WorkShift.create(
+    {
+      ...values,
+      work_date: new Date(values.work_date),
+      visibility_level: 0,
+    },
+    { transaction }
+  );
+}
+
 /**
  * 근무표 생성/수정 (UPSERT)
  */
@@ -379,88 +589,80 @@ export async function upsertWorkShift(
   shift_type_code: string,
   note?: string | null
 ): Promise<WorkShift> {
-  // 1. shift_type_code로 shift_type_id 조회
+  // 1. 해당 날짜에 적용되는 템플릿에서 shift_type_code로 shift_type_id 조회
+  const template = await findTemplateForDate(user_id, work_date);
+
+  if (!template) {
+    throw new Error("TEMPLATE_NOT_FOUND");
+  }
+
   const shift_type = await ShiftType.findOne({
     where: {
       code: shift_type_code,
+      template_id: template.template_id,
       deleted_at: null,
     },
-    include: [
-      {
-        model: ShiftTemplate,
-        as: "template",
-        where: {
-          owner_user_id: user_id,
-          deleted_at: null,
-        },
-        required: true,
-      },
-    ],
   });
 
   if (!shift_type) {
     throw new Error("SHIFT_TYPE_NOT_FOUND");
   }
 
-  // 2. 현재 활성 템플릿 버전의 schedule_id 조회
-  const template = await ShiftTemplate.findOne({
-    where: {
-      owner_user_id: user_id,
-      deleted_at: null,
-    },
-  });
+  // 2. 해당 날짜에 유효한 템플릿 버전의 schedule_id 조회
+  const valid_version = await findTemplateVersionForDate(
+    shift_type.template_id,
+    work_date
+  );
 
-  if (!template) {
+  if (!valid_version) {
     throw new Error("TEMPLATE_NOT_FOUND");
   }
 
-  const latest_version = await ShiftTemplateVersion.findOne({
-    where: {
-      template_id: template.template_id,
-    },
-    order: [["effective_from", "DESC"]],
-  });
+  const schedule = await findOrCreateSchedule(
+    shift_type.shift_type_id,
+    valid_version.template_version_id
+  );
 
-  if (!latest_version) {
-    throw new Error("TEMPLATE_NOT_FOUND");
-  }
+  // 3. UPSERT (삭제된 근무가 있는 날짜면 새 근무 생성, 변경 이력 함께 기록)
+  const schedule_id = schedule.schedule_id;
 
-  let schedule = await ShiftTypeSchedule.findOne({
-    where: {
-      shift_type_id: shift_type.shift_type_id,
-      template_version_id: latest_version.template_version_id,
-    },
-  });
+  return sequelize.transaction(async (transaction) => {
+    const snapshots = await getWorkShiftSnapshots(
+      user_id,
+      [work_date],
+      transaction
+    );
 
-  // 스케줄이 없으면 기본 스케줄 생성 (시간 정보 없이 생성된 shift_type 대응)
-  if (!schedule) {
-    schedule = await ShiftTypeSchedule.create({
-      shift_type_id: shift_type.shift_type_id,
-      template_version_id: latest_version.template_version_id,
-      start_time: null,
-      end_time: null,
-      crosses_midnight: false,
-      duration_minutes: 0,
-    });
-  }
+    const work_shift = await saveWorkShift(
+      {
+        owner_user_id: user_id,
+        work_date,
+        schedule_id,
+        note: note || null,
+        created_by_user_id: user_id,
+      },
+      snapshots.get(work_date),
+      transaction
+    );
 
-  // 3. UPSERT
-  const [work_shift] = await WorkShift.upsert(
-    {
-      owner_user_id: user_id,
-      work_date: new Date(work_date),
-      schedule_id: schedule.schedule_id,
-      note: note || null,
-      visibility_level: 0,
-      created_by_user_id: user_id,
-    },
-    {
-      returning: true,
-      conflictFields: ["owner_user_id", "work_date"],
-    }
-  );
+    await recordWorkShiftChange(
+      {
+        work_shift_id: work_shift.work_shift_id,
+        owner_user_id: user_id,
+        work_date,
+        before: snapshots.get(work_date)?.state ?? null,
+        after: {
+          schedule_id,
+          shift_type_code: shift_type.code,
+          note: note || null,
+        },
+        changed_by_user_id: user_id,
+      },
+      transaction
+    );
 
-  return work_shift;
+    return work_shift;
+  });
 }
 
 /**
@@ -478,87 +680,94 @@ export async function updateWorkShift(
       owner_user_id: user_id,
       deleted_at: null,
     },
+    include: [
+      {
+        model: ShiftTypeSchedule,
+        as: "schedule",
+        required: true,
+        include: [
+          {
+            model: ShiftType,
+            as: "shift_type",
+            required: true,
+          },
+        ],
+      },
+    ],
   });
 
   if (!work_shift) {
     throw new Error("WORK_SHIFT_NOT_FOUND");
   }
 
+  const before = toWorkShiftSnapshot(work_shift).state!;
+  let new_shift_type_code = before.shift_type_code;
   const update_data: Partial<WorkShift> = {};
 
   if (shift_type_code) {
-    // shift_type_code로 schedule_id 찾기
+    // 근무 날짜에 적용되는 템플릿에서 shift_type_code로 schedule_id 찾기
+    const template = await findTemplateForDate(
+      user_id,
+      String(work_shift.work_date)
+    );
+
+    if (!template) {
+      throw new Error("TEMPLATE_NOT_FOUND");
+    }
+
     const shift_type = await ShiftType.findOne({
       where: {
         code: shift_type_code,
+        template_id: template.template_id,
         deleted_at: null,
       },
-      include: [
-        {
-          model: ShiftTemplate,
-          as: "template",
-          where: {
-            owner_user_id: user_id,
-            deleted_at: null,
-          },
-          required: true,
-        },
-      ],
     });
 
     if (!shift_type) {
       throw new Error("SHIFT_TYPE_NOT_FOUND");
     }
 
-    const template = await ShiftTemplate.findOne({
-      where: {
-        owner_user_id: user_id,
-        deleted_at: null,
-      },
-    });
-
-    if (!template) {
-      throw new Error("TEMPLATE_NOT_FOUND");
-    }
-
-    const latest_version = await ShiftTemplateVersion.findOne({
-      where: {
-        template_id: template.template_id,
-      },
-      order: [["effective_from", "DESC"]],
-    });
+    // 근무 날짜에 유효한 템플릿 버전 기준
+    const valid_version = await findTemplateVersionForDate(
+      shift_type.template_id,
+      String(work_shift.work_date)
+    );
 
-    if (!latest_version) {
+    if (!valid_version) {
       throw new Error("TEMPLATE_NOT_FOUND");
     }
 
-    let schedule = await ShiftTypeSchedule.findOne({
-      where: {
-        shift_type_id: shift_type.shift_type_id,
-        template_version_id: latest_version.template_version_id,
-      },
-    });
-
-    // 스케줄이 없으면 기본 스케줄 생성 (시간 정보 없이 생성된 shift_type 대응)
-    if (!schedule) {
-      schedule = await ShiftTypeSchedule.create({
-        shift_type_id: shift_type.shift_type_id,
-        template_version_id: latest_version.template_version_id,
-        start_time: null,
-        end_time: null,
-        crosses_midnight: false,
-        duration_minutes: 0,
-      });
-    }
+    const schedule = await findOrCreateSchedule(
+      shift_type.shift_type_id,
+      valid_version.template_version_id
+    );
 
     update_data.schedule_id = schedule.schedule_id;
+    new_shift_type_code = shift_type.code;
   }
 
   if (note !== undefined) {
     update_data.note = note;
   }
 
-  await work_shift.update(update_data);
+  await sequelize.transaction(async (transaction) => {
+    await work_shift.update(update_data, { transaction });
+    await recordWorkShiftChange(
+      {
+        work_shift_id: work_shift.work_shift_id,
+        owner_user_id: user_id,
+        work_date: work_shift.work_date,
+        before,
+        after: {
+          schedule_id: work_shift.schedule_id,
+          shift_type_code: new_shift_type_code,
+          note: work_shift.note || null,
+        },
+        changed_by_user_id: user_id,
+      },
+      transaction
+    );
+  });
 
   return work_shift;
 }
@@ -576,18 +785,859 @@ export async function deleteWorkShift(
       owner_user_id: user_id,
       deleted_at: null,
     },
+    include: [
+      {
+        model: ShiftTypeSchedule,
+        as: "schedule",
+        required: true,
+        include: [
+          {
+            model: ShiftType,
+            as: "shift_type",
+            required: true,
+          },
+        ],
+      },
+    ],
   });
 
   if (!work_shift) {
     throw new Error("WORK_SHIFT_NOT_FOUND");
   }
 
-  await work_shift.update({
-    deleted_at: new Date(),
-    deleted_by_user_id: user_id,
+  const before = toWorkShiftSnapshot(work_shift).state;
+
+  await sequelize.transaction(async (transaction) => {
+    await work_shift.update(
+      {
+        deleted_at: new Date(),
+        deleted_by_user_id: user_id,
+      },
+      { transaction }
+    );
+    await recordWorkShiftChange(
+      {
+        work_shift_id: work_shift.work_shift_id,
+        owner_user_id: user_id,
+        work_date: work_shift.work_date,
+        before,
+        after: null,
+        changed_by_user_id: user_id,
+      },
+      transaction
+    );
   });
 }
 
+/**
+ * 근무 변경 되돌리기
+ * - 이력의 변경 전 상태로 해당 날짜 근무를 복원 (변경 전에 근무가 없었으면 삭제)
+ * - 되돌리기도 새 이력으로 기록되므로 다시 되돌릴 수 있음
+ */
+export async function revertWorkShiftChange(
+  user_id: string,
+  history_id: string
+): Promise<{
+  work_date: string;
+  work_shift: Awaited<ReturnType<typeof getWorkShifts>>[number] | null;
+}> {
+  const history = await WorkShiftHistory.findOne({
+    where: {
+      history_id,
+      owner_user_id: user_id,
+    },
+  });
+
+  if (!history) {
+    throw new Error("HISTORY_NOT_FOUND");
+  }
+
+  const work_date = String(history.work_date);
+
+  // 1. 복원할 상태 확인 (근무 타입이 삭제되었으면 복원 불가)
+  let target: WorkShiftState | null = null;
+  if (history.old_schedule_id) {
+    const schedule = await ShiftTypeSchedule.findByPk(
+      history.old_schedule_id,
+      {
+        include: [
+          {
+            model: ShiftType,
+            as: "shift_type",
+            required: true,
+            where: { deleted_at: null },
+          },
+        ],
+      }
+    );
+    const shift_type = (schedule as any)?.shift_type as ShiftType | undefined;
+
+    if (!schedule || !shift_type) {
+      throw new Error("SHIFT_TYPE_NOT_FOUND");
+    }
+
+    // 이력 이후 버전이 나뉘었을 수 있으므로 해당 날짜에 유효한 버전의 스케줄로 복원
+    const valid_version = await findTemplateVersionForDate(
+      shift_type.template_id,
+      work_date
+    );
+    const valid_schedule = valid_version
+      ? await findOrCreateSchedule(
+          shift_type.shift_type_id,
+          valid_version.template_version_id
+        )
+      : schedule;
+
+    target = {
+      schedule_id: valid_schedule.schedule_id,
+      shift_type_code: shift_type.code,
+      note: history.old_note ?? null,
+    };
+  }
+
+  // 2. 현재 상태를 이력으로 남기고 복원
+  await sequelize.transaction(async (transaction) => {
+    const snapshots = await getWorkShiftSnapshots(
+      user_id,
+      [work_date],
+      transaction
+    );
+    const snapshot = snapshots.get(work_date);
+
+    if (!snapshot) {
+      throw new Error("WORK_SHIFT_NOT_FOUND");
+    }
+
+    if (target) {
+      await WorkShift.update(
+        {
+          schedule_id: target.schedule_id,
+          note: target.note,
+          created_by_user_id: user_id,
+          deleted_at: null,
+          deleted_by_user_id: null,
+        },
+        {
+          where: { work_shift_id: snapshot.work_shift_id },
+          transaction,
+        }
+      );
+    } else if (snapshot.state) {
+      await WorkShift.update(
+        {
+          deleted_at: new Date(),
+          deleted_by_user_id: user_id,
+        },
+        {
+          where: { work_shift_id: snapshot.work_shift_id },
+          transaction,
+        }
+      );
+    }
+
+    await recordWorkShiftChange(
+      {
+        work_shift_id: snapshot.work_shift_id,
+        owner_user_id: user_id,
+        work_date,
+        before: snapshot.state,
+        after: target,
+        changed_by_user_id: user_id,
+        reverted_history_id: history.history_id,
+      },
+      transaction
+    );
+  });
+
+  const [work_shift] = await getWorkShifts(user_id, work_date, work_date);
+
+  return {
+    work_date,
+    work_shift: work_shift ?? null,
+  };
+}
+
+/**
+ * 일정 응답 형식 변환
+ */
+function formatEvent(e: Event): EventItem {
+  return {
+    event_id: e.event_id,
+    title: e.title,
+    memo: e.memo || null,
+    place: e.place || null,
+    all_day: e.all_day,
+    start_at: e.start_at,
+    end_at: e.end_at,
+    visibility_level: e.visibility_level,
+    rrule: e.rrule || null,
+    occurrence_date: null,
+  };
+}
+
+/**
+ * 반복 일정 원본 응답 형식 변환 (제외 날짜 포함)
+ */
+function formatEventWithRecurrence(
+  e: Event
+): EventItem & { exdates: string[] } {
+  return {
+    ...formatEvent(e),
+    exdates: e.exdates || [],
+  };
+}
+
+/**
+ * 반복 일정 전개에 필요한 기준 정보 (사용자 타임존 기준)
+ */
+function getRecurrenceBase(
+  event: Event,
+  timezone: string
+): {
+  dtstart_date: string;
+  dtstart_time: string;
+  duration_ms: number;
+  span_days: number;
+} {
+  return {
+    dtstart_date: formatDateInTimezone(event.start_at, timezone),
+    dtstart_time: formatTimeInTimezone(event.start_at, timezone),
+    duration_ms: event.end_at.getTime() - event.start_at.getTime(),
+    span_days: diffDays(
+      formatDateInTimezone(event.start_at, timezone),
+      formatDateInTimezone(event.end_at, timezone)
+    ),
+  };
+}
+
+/**
+ * 특정 발생 날짜의 시작/종료 시각 계산 (예외 수정 미적용)
+ */
+function getOccurrenceTimes(
+  event: Event,
+  occurrence_date: string,
+  base: ReturnType<typeof getRecurrenceBase>,
+  timezone: string
+): { start_at: Date; end_at: Date } {
+  if (event.all_day) {
+    const end_at = zonedTimeToUtc(
+      addDays(occurrence_date, base.span_days),
+      "23:59:59",
+      timezone
+    );
+    end_at.setMilliseconds(999);
+    return {
+      start_at: zonedTimeToUtc(occurrence_date, "00:00:00", timezone),
+      end_at,
+    };
+  }
+
+  const start_at = zonedTimeToUtc(occurrence_date, base.dtstart_time, timezone);
+  return {
+    start_at,
+    end_at: new Date(start_at.getTime() + base.duration_ms),
+  };
+}
+
+/**
+ * 발생 단위 일정 생성 (예외 수정이 있으면 적용)
+ */
+function buildOccurrence(
+  event: Event,
+  occurrence_date: string,
+  override: EventOccurrenceOverride | undefined,
+  base: ReturnType<typeof getRecurrenceBase>,
+  timezone: string
+): EventItem {
+  const times = getOccurrenceTimes(event, occurrence_date, base, timezone);
+
+  return {
+    ...formatEvent(event),
+    title: override?.title ?? event.title,
+    memo: (override?.memo ?? event.memo) || null,
+    place: (override?.place ?? event.place) || null,
+    start_at: override?.start_at ?? times.start_at,
+    end_at: override?.end_at ?? times.end_at,
+    occurrence_date,
+  };
+}
+
+/**
+ * 일정을 기간 내 발생 목록으로 전개
+ * - 단일 일정은 그대로 반환
+ * - 반복 일정은 RRULE에 따라 전개하고 제외 날짜/예외 수정을 적용
+ */
+function expandEvent(
+  event: Event,
+  overrides: EventOccurrenceOverride[],
+  window_start: Date,
+  window_end: Date,
+  timezone: string
+): EventItem[] {
+  if (!event.rrule) {
+    return [formatEvent(event)];
+  }
+
+  let rule: ParsedRRule;
+  try {
+    rule = parseRRule(event.rrule);
+  } catch {
+    // 저장된 규칙이 잘못된 경우 첫 발생만 표시
+    return [formatEvent(event)];
+  }
+
+  const base = getRecurrenceBase(event, timezone);
+  const override_map = new Map(overrides.map((o) => [o.occurrence_date, o]));
+
+  // 예외 수정으로 기간 안으로 옮겨진 발생도 포함하도록 전개 범위 확장
+  let horizon_date = formatDateInTimezone(window_end, timezone);
+  for (const override of overrides) {
+    if (
+      override.occurrence_date > horizon_date &&
+      override.start_at &&
+      override.start_at <= window_end
+    ) {
+      horizon_date = override.occurrence_date;
+    }
+  }
+
+  const exdates = new Set(event.exdates || []);
+  const dates = expandRRuleDates(
+    rule,
+    base.dtstart_date,
+    base.dtstart_time,
+    timezone,
+    horizon_date
+  );
+
+  const occurrences: EventItem[] = [];
+  for (const date of dates) {
+    if (exdates.has(date)) {
+      continue;
+    }
+    const occurrence = buildOccurrence(
+      event,
+      date,
+      override_map.get(date),
+      base,
+      timezone
+    );
+    if (occurrence.start_at <= window_end && occurrence.end_at >= window_start) {
+      occurrences.push(occurrence);
+    }
+  }
+
+  return occurrences;
+}
+
+/**
+ * 반복 일정에 실제로 존재하는 발생 날짜인지 확인 (제외 날짜 제외)
+ */
+function isOccurrenceDate(
+  event: Event,
+  occurrence_date: string,
+  timezone: string
+): boolean {
+  if (!event.rrule) {
+    return false;
+  }
+  if ((event.exdates || []).includes(occurrence_date)) {
+    return false;
+  }
+
+  const base = getRecurrenceBase(event, timezone);
+  const dates = expandRRuleDates(
+    parseRRule(event.rrule),
+    base.dtstart_date,
+    base.dtstart_time,
+    timezone,
+    occurrence_date
+  );
+  return dates[dates.length - 1] === occurrence_date;
+}
+
+/**
+ * 반복 규칙 정규화 및 마지막 발생 종료 시각 계산
+ */
+function buildRecurrence(
+  rrule: string | null,
+  start_at: Date,
+  end_at: Date,
+  all_day: boolean,
+  timezone: string
+): { rrule: string | null; recurrence_end_at: Date | null } {
+  if (!rrule) {
+    return { rrule: null, recurrence_end_at: null };
+  }
+
+  const rule = parseRRule(rrule);
+  const dtstart_date = formatDateInTimezone(start_at, timezone);
+  const dtstart_time = formatTimeInTimezone(start_at, timezone);
+  const last_date = getLastOccurrenceDate(
+    rule,
+    dtstart_date,
+    dtstart_time,
+    timezone
+  );
+
+  if (!last_date) {
+    return { rrule: formatRRule(rule), recurrence_end_at: null };
+  }
+
+  let recurrence_end_at: Date;
+  if (all_day) {
+    const span_days = diffDays(
+      dtstart_date,
+      formatDateInTimezone(end_at, timezone)
+    );
+    recurrence_end_at = zonedTimeToUtc(
+      addDays(last_date, span_days),
+      "23:59:59",
+      timezone
+    );
+    recurrence_end_at.setMilliseconds(999);
+  } else {
+    recurrence_end_at = new Date(
+      zonedTimeToUtc(last_date, dtstart_time, timezone).getTime() +
+        (end_at.getTime() - start_at.getTime())
+    );
+  }
+
+  return { rrule: formatRRule(rule), recurrence_end_at };
+}
+
+/**
+ * 제외 날짜 목록 검증 및 정규화 (중복 제거, 정렬)
+ */
+function normalizeExdates(exdates: string[]): string[] {
+  const date_regex = /^\d{4}-\d{2}-\d{2}$/;
+  for (const date of exdates) {
+    if (typeof date !== "string" || !date_regex.test(date)) {
+      throw new Error("INVALID_DATE_FORMAT");
+    }
+  }
+  return [...new Set(exdates)].sort();
+}
+
+/**
+ * 입력값을 타임존 기준 날짜 문자열(YYYY-MM-DD)로 변환
+ * - "YYYY-MM-DD" 형식은 그대로 사용
+ * - 그 외 ISO 8601 일시는 사용자 타임존 기준 날짜로 변환
+ */
+function toLocalDateString(value: string | Date, timezone: string): string {
+  if (typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return value;
+  }
+  const date = value instanceof Date ? value : new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error("INVALID_DATE_FORMAT");
+  }
+  return formatDateInTimezone(date, timezone);
+}
+
+/**
+ * 일정 시작/종료 시각 정규화
+ * - 종일 일정: 사용자 타임존 기준 시작일 00:00:00 ~ 종료일 23:59:59.999
+ * - 일반 일정: 입력 시각 그대로 사용
+ */
+function normalizeEventTimes(
+  all_day: boolean,
+  start_at: string | Date,
+  end_at: string | Date,
+  timezone: string
+): { start_at: Date; end_at: Date } {
+  if (all_day) {
+    const start_date = toLocalDateString(start_at, timezone);
+    const end_date = toLocalDateString(end_at, timezone);
+
+    if (start_date > end_date) {
+      throw new Error("INVALID_DATE_RANGE");
+    }
+
+    const normalized_end = zonedTimeToUtc(end_date, "23:59:59", timezone);
+    normalized_end.setMilliseconds(999);
+
+    return {
+      start_at: zonedTimeToUtc(start_date, "00:00:00", timezone),
+      end_at: normalized_end,
+    };
+  }
+
+  const start = start_at instanceof Date ? start_at : new Date(start_at);
+  const end = end_at instanceof Date ? end_at : new Date(end_at);
+
+  if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+    throw new Error("INVALID_DATE_FORMAT");
+  }
+
+  if (start >= end) {
+    throw new Error("INVALID_DATE_RANGE");
+  }
+
+  return { start_at: start, end_at: end };
+}
+
+/**
+ * 공개 레벨 범위 검증
+ */
+function assertVisibilityLevel(visibility_level: number): void {
+  if (
+    !Number.isInteger(visibility_level) ||
+    visibility_level < MIN_VISIBILITY_LEVEL ||
+    visibility_level > MAX_VISIBILITY_LEVEL
+  ) {
+    throw new Error("INVALID_VISIBILITY_LEVEL");
+  }
+}
+
+// 일정 생성 입력값
+interface EventCreateInput {
+  title: string;
+  memo?: string | null;
+  place?: string | null;
+  all_day?: boolean;
+  start_at: string | Date;
+  end_at: string | Date;
+  visibility_level?: number;
+  rrule?: string | null;
+  exdates?: string[];
+}
+
+/**
+ * 일정 생성 입력값 검증 및 저장할 속성 계산
+ */
+function buildEventAttributes(
+  user_id: string,
+  data: EventCreateInput,
+  timezone: string
+) {
+  const all_day = data.all_day ?? false;
+  const visibility_level = data.visibility_level ?? 0;
+  assertVisibilityLevel(visibility_level);
+
+  const { start_at, end_at } = normalizeEventTimes(
+    all_day,
+    data.start_at,
+    data.end_at,
+    timezone
+  );
+
+  const recurrence = buildRecurrence(
+    data.rrule ?? null,
+    start_at,
+    end_at,
+    all_day,
+    timezone
+  );
+
+  return {
+    owner_user_id: user_id,
+    created_by_user_id: user_id,
+    title: data.title,
+    memo: data.memo ?? null,
+    place: data.place ?? null,
+    all_day,
+    start_at,
+    end_at,
+    visibility_level,
+    rrule: recurrence.rrule,
+    exdates: recurrence.rrule ? normalizeExdates(data.exdates ?? []) : [],
+    recurrence_end_at: recurrence.recurrence_end_at,
+  };
+}
+
+/**
+ * 일정 생성
+ */
+export async function createEvent(
+  user_id: string,
+  data: EventCreateInput,
+  timezone?: string | null
+): Promise<EventItem & { exdates: string[] }> {
+  const event = await Event.create(
+    buildEventAttributes(user_id, data, resolveTimezone(timezone))
+  );
+
+  return formatEventWithRecurrence(event);
+}
+
+/**
+ * 일정 일괄 생성 (가져오기 등)
+ * - 모든 항목을 먼저 검증한 뒤 한 번에 저장 (일부 실패 시 전체 미저장)
+ */
+export async function bulkCreateEvents(
+  user_id: string,
+  events: EventCreateInput[],
+  timezone?: string | null,
+  transaction?: Transaction
+): Promise<Array<EventItem & { exdates: string[] }>> {
+  const resolved_timezone = resolveTimezone(timezone);
+  const rows = events.map((data) =>
+    buildEventAttributes(user_id, data, resolved_timezone)
+  );
+
+  const created = await Event.bulkCreate(rows, {
+    returning: true,
+    transaction,
+  });
+
+  return created.map(formatEventWithRecurrence);
+}
+
+/**
+ * 일정 수정
+ * - 전달된 필드만 변경
+ * - 종일 여부나 시각이 바뀌면 시작/종료 시각을 다시 정규화
+ * - 반복 규칙이나 시각이 바뀌면 반복 종료 시각을 다시 계산
+ */
+export async function updateEvent(
+  user_id: string,
+  event_id: string,
+  data: {
+    title?: string;
+    memo?: string | null;
+    place?: string | null;
+    all_day?: boolean;
+    start_at?: string;
+    end_at?: string;
+    visibility_level?: number;
+    rrule?: string | null;
+    exdates?: string[];
+  },
+  timezone?: string | null
+): Promise<EventItem & { exdates: string[] }> {
+  const resolved_timezone = resolveTimezone(timezone);
+  const event = await Event.findOne({
+    where: {
+      event_id,
+      owner_user_id: user_id,
+      deleted_at: null,
+    },
+  });
+
+  if (!event) {
+    throw new Error("EVENT_NOT_FOUND");
+  }
+
+  const update_data: Partial<Event> = {};
+
+  if (data.title !== undefined) {
+    update_data.title = data.title;
+  }
+  if (data.memo !== undefined) {
+    update_data.memo = data.memo;
+  }
+  if (data.place !== undefined) {
+    update_data.place = data.place;
+  }
+  if (data.visibility_level !== undefined) {
+    assertVisibilityLevel(data.visibility_level);
+    update_data.visibility_level = data.visibility_level;
+  }
+
+  const times_changed =
+    data.all_day !== undefined ||
+    data.start_at !== undefined ||
+    data.end_at !== undefined;
+
+  let start_at = event.start_at;
+  let end_at = event.end_at;
+  const all_day = data.all_day ?? event.all_day;
+
+  if (times_changed) {
+    const normalized = normalizeEventTimes(
+      all_day,
+      data.start_at ?? event.start_at,
+      data.end_at ?? event.end_at,
+      resolved_timezone
+    );
+    start_at = normalized.start_at;
+    end_at = normalized.end_at;
+    update_data.all_day = all_day;
+    update_data.start_at = start_at;
+    update_data.end_at = end_at;
+  }
+
+  const rrule = data.rrule !== undefined ? data.rrule : event.rrule ?? null;
+  if (data.rrule !== undefined || (times_changed && rrule)) {
+    const recurrence = buildRecurrence(
+      rrule,
+      start_at,
+      end_at,
+      all_day,
+      resolved_timezone
+    );
+    update_data.rrule = recurrence.rrule;
+    update_data.recurrence_end_at = recurrence.recurrence_end_at;
+  }
+
+  if (data.exdates !== undefined) {
+    update_data.exdates = normalizeExdates(data.exdates);
+  }
+
+  // 반복 해제 시 제외 날짜와 예외 수정도 함께 정리
+  const recurrence_removed = data.rrule === null && !!event.rrule;
+  if (recurrence_removed) {
+    update_data.exdates = [];
+  }
+
+  await sequelize.transaction(async (transaction) => {
+    await event.update(update_data, { transaction });
+    if (recurrence_removed) {
+      await EventOccurrenceOverride.destroy({
+        where: { event_id: event.event_id },
+        transaction,
+      });
+    }
+  });
+
+  return formatEventWithRecurrence(event);
+}
+
+/**
+ * 반복 일정의 특정 발생 수정 (예외 수정)
+ * PUT /events/:event_id/occurrences/:occurrence_date
+ */
+export async function upsertEventOccurrence(
+  user_id: string,
+  event_id: string,
+  occurrence_date: string,
+  data: {
+    title?: string;
+    memo?: string | null;
+    place?: string | null;
+    start_at?: string;
+    end_at?: string;
+  },
+  timezone?: string | null
+): Promise<EventItem> {
+  const resolved_timezone = resolveTimezone(timezone);
+  const event = await Event.findOne({
+    where: {
+      event_id,
+      owner_user_id: user_id,
+      deleted_at: null,
+    },
+  });
+
+  if (!event) {
+    throw new Error("EVENT_NOT_FOUND");
+  }
+
+  if (!event.rrule) {
+    throw new Error("NOT_RECURRING_EVENT");
+  }
+
+  if (!isOccurrenceDate(event, occurrence_date, resolved_timezone)) {
+    throw new Error("OCCURRENCE_NOT_FOUND");
+  }
+
+  const base = getRecurrenceBase(event, resolved_timezone);
+
+  return sequelize.transaction(async (transaction) => {
+    let override = await EventOccurrenceOverride.findOne({
+      where: { event_id, occurrence_date },
+      transaction,
+    });
+
+    if (!override) {
+      override = EventOccurrenceOverride.build({ event_id, occurrence_date });
+    }
+
+    if (data.title !== undefined) {
+      override.title = data.title;
+    }
+    if (data.memo !== undefined) {
+      override.memo = data.memo;
+    }
+    if (data.place !== undefined) {
+      override.place = data.place;
+    }
+
+    if (data.start_at !== undefined || data.end_at !== undefined) {
+      const original = getOccurrenceTimes(
+        event,
+        occurrence_date,
+        base,
+        resolved_timezone
+      );
+      const { start_at, end_at } = normalizeEventTimes(
+        event.all_day,
+        data.start_at ?? override.start_at ?? original.start_at,
+        data.end_at ?? override.end_at ?? original.end_at,
+        resolved_timezone
+      );
+      override.start_at = start_at;
+      override.end_at = end_at;
+    }
+
+    await override.save({ transaction });
+
+    // 예외 수정으로 마지막 발생이 늦춰진 경우 반복 종료 시각 보정
+    if (
+      event.recurrence_end_at &&
+      override.end_at &&
+      override.end_at > event.recurrence_end_at
+    ) {
+      await event.update(
+        { recurrence_end_at: override.end_at },
+        { transaction }
+      );
+    }
+
+    return buildOccurrence(
+      event,
+      occurrence_date,
+      override,
+      base,
+      resolved_timezone
+    );
+  });
+}
+
+/**
+ * 반복 일정의 특정 발생 삭제 (제외 날짜로 등록)
+ * DELETE /events/:event_id/occurrences/:occurrence_date
+ */
+export async function cancelEventOccurrence(
+  user_id: string,
+  event_id: string,
+  occurrence_date: string,
+  timezone?: string | null
+): Promise<{ event_id: string; exdates: string[] }> {
+  const event = await Event.findOne({
+    where: {
+      event_id,
+      owner_user_id: user_id,
+      deleted_at: null,
+    },
+  });
+
+  if (!event) {
+    throw new Error("EVENT_NOT_FOUND");
+  }
+
+  if (!event.rrule) {
+    throw new Error("NOT_RECURRING_EVENT");
+  }
+
+  if (!isOccurrenceDate(event, occurrence_date, resolveTimezone(timezone))) {
+    throw new Error("OCCURRENCE_NOT_FOUND");
+  }
+
+  const exdates = normalizeExdates([...(event.exdates || []), occurrence_date]);
+
+  await sequelize.transaction(async (transaction) => {
+    await event.update({ exdates }, { transaction });
+    await EventOccurrenceOverride.destroy({
+      where: { event_id, occurrence_date },
+      transaction,
+    });
+  });
+
+  return { event_id, exdates };
+}
+
 /**
  * 일정 삭제 (soft delete)
  */
@@ -616,6 +1666,9 @@ export async function deleteEvent(
 /**
  * 근무표 배치 생성/수정 (UPSERT)
  * 트랜잭션으로 처리하여 일부 실패 시 전체 롤백
+ * - 삭제된 근무만 있는 날짜에 저장하면 새 근무 생성 (삭제된 근무는 휴지통에 유지)
+ * @param external_transaction 외부 트랜잭션 (선택, 있으면 커밋/롤백은 호출 측에서 처리)
+ * @param created_by_user_id 변경한 사용자 (기본값: 근무표 소유자)
  */
 export async function batchUpsertWorkShifts(
   user_id: string,
@@ -623,7 +1676,9 @@ export async function batchUpsertWorkShifts(
     work_date: string;
     shift_type_code: string;
     note?: string | null;
-  }>
+  }>,
+  external_transaction?: Transaction,
+  created_by_user_id: string = user_id
 ): Promise<
   Array<{
     work_shift_id: string;
@@ -650,38 +1705,43 @@ export async function batchUpsertWorkShifts(
     throw error;
   }
 
-  // 2. 사용자의 활성 템플릿 조회
-  const template = await ShiftTemplate.findOne({
-    where: {
-      owner_user_id: user_id,
-      deleted_at: null,
-    },
-  });
+  // 2. 날짜별로 적용되는 템플릿 조회
+  const templates_by_date = await getTemplatesForDates(
+    user_id,
+    dates,
+    external_transaction
+  );
 
-  if (!template) {
+  if (templates_by_date.size === 0) {
     throw new Error("TEMPLATE_NOT_FOUND");
   }
 
-  // 3. 트랜잭션 시작
-  const transaction = await sequelize.transaction();
+  // 3. 트랜잭션 시작 (외부 트랜잭션이 있으면 사용)
+  const transaction = external_transaction ?? (await sequelize.transaction());
   let is_committed = false;
 
   try {
     const saved_work_shifts: WorkShift[] = [];
 
+    // 변경 이력 기록을 위한 기존 근무 스냅샷
+    const snapshots = await getWorkShiftSnapshots(user_id, dates, transaction);
+
     // 4. 각 근무 일정 처리
     for (const ws of work_shifts) {
       const { work_date, shift_type_code, note } = ws;
 
-      // 4-1. shift_type_code로 shift_type_id 조회
-      const shift_type = await ShiftType.findOne({
-        where: {
-          code: shift_type_code,
-          template_id: template.template_id,
-          deleted_at: null,
-        },
-        transaction,
-      });
+      // 4-1. 해당 날짜 템플릿에서 shift_type_code로 shift_type_id 조회
+      const template = templates_by_date.get(work_date);
+      const shift_type = template
+        ? await ShiftType.findOne({
+            where: {
+              code: shift_type_code,
+              template_id: template.template_id,
+              deleted_at: null,
+            },
+            transaction,
+          })
+        : null;
 
       if (!shift_type) {
         const error = new Error("INVALID_SHIFT_TYPE") as any;
@@ -691,88 +1751,64 @@ export async function batchUpsertWorkShifts(
       }
 
       // 4-2. 해당 날짜에 유효한 템플릿 버전의 schedule_id 조회
-      // effective_from <= work_date 조건으로 해당 날짜에 유효한 버전 찾기
-      // 없으면 가장 최신 버전을 사용 (fallback)
-      const work_date_obj = new Date(work_date);
-      work_date_obj.setHours(0, 0, 0, 0);
-
-      // 먼저 해당 날짜에 유효한 버전 찾기
-      let valid_version = await ShiftTemplateVersion.findOne({
-        where: {
-          template_id: template.template_id,
-          effective_from: {
-            [Op.lte]: work_date_obj,
-          },
-        },
-        order: [["effective_from", "DESC"]],
-        transaction,
-      });
+      // effective_from <= work_date 중 가장 최근 버전 (첫 버전 이전 날짜는 첫 버전)
+      const valid_version = await findTemplateVersionForDate(
+        shift_type.template_id,
+        work_date,
+        transaction
+      );
 
-      // 유효한 버전이 없으면 가장 최신 버전을 사용 (fallback)
       if (!valid_version) {
-        valid_version = await ShiftTemplateVersion.findOne({
-          where: {
-            template_id: template.template_id,
-          },
-          order: [["effective_from", "DESC"]],
-          transaction,
-        });
-
-        if (!valid_version) {
-          const error = new Error("TEMPLATE_VERSION_NOT_FOUND") as any;
-          error.work_date = work_date;
-          throw error;
-        }
+        const error = new Error("TEMPLATE_VERSION_NOT_FOUND") as any;
+        error.work_date = work_date;
+        throw error;
       }
 
-      let schedule = await ShiftTypeSchedule.findOne({
-        where: {
-          shift_type_id: shift_type.shift_type_id,
-          template_version_id: valid_version.template_version_id,
-        },
-        transaction,
-      });
-
-      // 스케줄이 없으면 기본 스케줄 생성 (시간 정보 없이 생성된 shift_type 대응)
-      if (!schedule) {
-        schedule = await ShiftTypeSchedule.create(
-          {
-            shift_type_id: shift_type.shift_type_id,
-            template_version_id: valid_version.template_version_id,
-            start_time: null,
-            end_time: null,
-            crosses_midnight: false,
-            duration_minutes: 0,
-          },
-          { transaction }
-        );
-      }
+      const schedule = await findOrCreateSchedule(
+        shift_type.shift_type_id,
+        valid_version.template_version_id,
+        transaction
+      );
 
-      // 4-3. UPSERT
-      const [work_shift] = await WorkShift.upsert(
+      // 4-3. UPSERT (삭제된 근무가 있는 날짜면 새 근무 생성)
+      const work_shift = await saveWorkShift(
         {
           owner_user_id: user_id,
-          work_date: new Date(work_date),
+          work_date,
           schedule_id: schedule.schedule_id,
           note: note || null,
-          visibility_level: 0,
-          created_by_user_id: user_id,
+          created_by_user_id,
         },
+        snapshots.get(work_date),
+        transaction
+      );
+
+      await recordWorkShiftChange(
         {
-          returning: true,
-          conflictFields: ["owner_user_id", "work_date"],
-          transaction,
-        }
+          work_shift_id: work_shift.work_shift_id,
+          owner_user_id: user_id,
+          work_date,
+          before: snapshots.get(work_date)?.state ?? null,
+          after: {
+            schedule_id: schedule.schedule_id,
+            shift_type_code: shift_type.code,
+            note: note || null,
+          },
+          changed_by_user_id: created_by_user_id,
+        },
+        transaction
       );
 
       saved_work_shifts.push(work_shift);
     }
 
-    // 5. 트랜잭션 커밋
-    await transaction.commit();
-    is_committed = true;
+    // 5. 트랜잭션 커밋 (외부 트랜잭션은 호출 측에서 커밋)
+    if (!external_transaction) {
+      await transaction.commit();
+      is_committed = true;
+    }
 
-    // 6. 저장된 근무 일정 상세 정보 조회 (트랜잭션 밖에서 수행)
+    // 6. 저장된 근무 일정 상세 정보 조회 (외부 트랜잭션이 없으면 트랜잭션 밖에서 수행)
     const work_shift_ids = saved_work_shifts.map((ws) => ws.work_shift_id);
     const work_shifts_with_details = await WorkShift.findAll({
       where: {
@@ -794,6 +1830,7 @@ export async function batchUpsertWorkShifts(
           ],
         },
       ],
+      transaction: external_transaction,
     });
 
     // 7. 응답 형식으로 변환
@@ -803,13 +1840,7 @@ export async function batchUpsertWorkShifts(
         | undefined;
       const shift_type = schedule?.shift_type;
 
-      // work_date가 Date 객체인지 확인하고, 아니면 문자열로 처리
-      const work_date_str =
-        ws.work_date instanceof Date
-          ? ws.work_date.toISOString().split("T")[0]
-          : typeof ws.work_date === "string"
-          ? ws.work_date
-          : String(ws.work_date);
+      const work_date_str = toDateString(ws.work_date);
 
       return {
         work_shift_id: ws.work_shift_id,
@@ -825,8 +1856,8 @@ export async function batchUpsertWorkShifts(
       };
     });
   } catch (error: any) {
-    // 트랜잭션 롤백 (커밋되지 않은 경우에만)
-    if (!is_committed) {
+    // 트랜잭션 롤백 (직접 시작했고 커밋되지 않은 경우에만)
+    if (!external_transaction && !is_committed) {
       await transaction.rollback();
     }
     throw error;
@@ -0,0 +1,209 @@
+import crypto from "crypto";
+import { sequelize } from "../config/database";
+import { CalendarFeed, CalendarFeedScope, User } from "../models";
+import { buildCalendarIcs } from "./icalService";
+import {
+  addDays,
+  formatDateInTimezone,
+  resolveTimezone,
+} from "../utils/dateUtils";
+
+// ============================================================
+// 에러 코드 정의
+// ============================================================
+export const FeedErrorCodes = {
+  FEED_NOT_FOUND: "FEED_NOT_FOUND",
+  INVALID_SCOPE: "INVALID_SCOPE",
+  INVALID_VISIBILITY_LEVEL: "INVALID_VISIBILITY_LEVEL",
+} as const;
+
+export const FEED_SCOPES: CalendarFeedScope[] = [
+  "SHIFTS_ONLY",
+  "SHIFTS_AND_EVENTS",
+];
+
+// 피드에 포함되는 기간 (오늘 기준 과거/미래 일수)
+const FEED_PAST_DAYS = 90;
+const FEED_FUTURE_DAYS = 365;
+
+const FEED_TOKEN_BYTES = 32;
+
+// ============================================================
+// 타입 정의
+// ============================================================
+export interface FeedSettingsItem {
+  feed_id: string;
+  scope: CalendarFeedScope;
+  max_visibility_level: number;
+  last_accessed_at: Date | null;
+  created_at: Date;
+}
+
+export interface FeedTokenResult extends FeedSettingsItem {
+  token: string; // 원본 토큰 (발급 시 1회만 반환)
+}
+
+// ============================================================
+// 헬퍼 함수
+// ============================================================
+
+function hashFeedToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+function formatFeed(feed: CalendarFeed): FeedSettingsItem {
+  return {
+    feed_id: feed.feed_id,
+    scope: feed.scope,
+    max_visibility_level: feed.max_visibility_level,
+    last_accessed_at: feed.last_accessed_at ?? null,
+    created_at: feed.created_at!,
+  };
+}
+
+function assertFeedOptions(scope: string, max_visibility_level: number): void {
+  if (!FEED_SCOPES.includes(scope as CalendarFeedScope)) {
+    throw new Error(FeedErrorCodes.INVALID_SCOPE);
+  }
+  if (
+    !Number.isInteger(max_visibility_level) ||
+    max_visibility_level < 0 ||
+    max_visibility_level > 5
+  ) {
+    throw new Error(FeedErrorCodes.INVALID_VISIBILITY_LEVEL);
+  }
+}
+
+async function findActiveFeed(user_id: string): Promise<CalendarFeed | null> {
+  return CalendarFeed.findOne({
+    where: { user_id, revoked_at: null },
+    order: [["created_at", "DESC"]],
+  });
+}
+
+// ============================================================
+// 구독 피드 관리
+// ============================================================
+
+/**
+ * 현재 구독 피드 설정 조회 (토큰 원본은 저장하지 않으므로 반환하지 않음)
+ */
+export async function getFeed(
+  user_id: string
+): Promise<FeedSettingsItem | null> {
+  const feed = await findActiveFeed(user_id);
+  return feed ? formatFeed(feed) : null;
+}
+
+/**
+ * 구독 피드 토큰 발급 (재발급)
+ * - 기존 토큰은 폐기되어 이전 URL로는 더 이상 구독할 수 없음
+ * - 옵션을 생략하면 기존 설정을 유지
+ */
+export async function issueFeedToken(
+  user_id: string,
+  options: { scope?: CalendarFeedScope; max_visibility_level?: number }
+): Promise<FeedTokenResult> {
+  const existing = await findActiveFeed(user_id);
+
+  const scope = options.scope ?? existing?.scope ?? "SHIFTS_ONLY";
+  const max_visibility_level =
+    options.max_visibility_level ?? existing?.max_visibility_level ?? 0;
+  assertFeedOptions(scope, max_visibility_level);
+
+  const token = crypto.randomBytes(FEED_TOKEN_BYTES).toString("base64url");
+
+  const feed = await sequelize.transaction(async (transaction) => {
+    await CalendarFeed.update(
+      { revoked_at: new Date() },
+      { where: { user_id, revoked_at: null }, transaction }
+    );
+
+    return CalendarFeed.create(
+      {
+        user_id,
+        token_hash: hashFeedToken(token),
+        scope,
+        max_visibility_level,
+      },
+      { transaction }
+    );
+  });
+
+  return { ...formatFeed(feed), token };
+}
+
+/**
+ * 구독 피드 설정 변경 (URL은 유지)
+ */
+export async function updateFeedSettings(
+  user_id: string,
+  options: { scope?: CalendarFeedScope; max_visibility_level?: number }
+): Promise<FeedSettingsItem> {
+  const feed = await findActiveFeed(user_id);
+  if (!feed) {
+    throw new Error(FeedErrorCodes.FEED_NOT_FOUND);
+  }
+
+  const scope = options.scope ?? feed.scope;
+  const max_visibility_level =
+    options.max_visibility_level ?? feed.max_visibility_level;
+  assertFeedOptions(scope, max_visibility_level);
+
+  await feed.update({ scope, max_visibility_level });
+
+  return formatFeed(feed);
+}
+
+/**
+ * 구독 피드 폐기
+ */
+export async function revokeFeed(user_id: string): Promise<void> {
+  const [affected] = await CalendarFeed.update(
+    { revoked_at: new Date() },
+    { where: { user_id, revoked_at: null } }
+  );
+
+  if (affected === 0) {
+    throw new Error(FeedErrorCodes.FEED_NOT_FOUND);
+  }
+}
+
+// ============================================================
+// 구독 피드 제공 (인증 없이 토큰으로 접근)
+// ============================================================
+
+/**
+ * 토큰으로 iCalendar 피드 생성
+ * - 폐기되었거나 존재하지 않는 토큰이면 FEED_NOT_FOUND
+ * - 일정은 피드 설정의 최대 공개 레벨 이하만 포함 (비공개 일정 노출 방지)
+ */
+export async function renderFeed(token: string): Promise<string> {
+  const feed = await CalendarFeed.findOne({
+    where: { token_hash: hashFeedToken(token), revoked_at: null },
+    include: [{ model: User, as: "user" }],
+  });
+
+  if (!feed || !feed.user) {
+    throw new Error(FeedErrorCodes.FEED_NOT_FOUND);
+  }
+
+  const timezone = resolveTimezone(feed.user.timezone);
+  const today = formatDateInTimezone(new Date(), timezone);
+
+  const ics = await buildCalendarIcs(feed.user_id, {
+    start_date: addDays(today, -FEED_PAST_DAYS),
+    end_date: addDays(today, FEED_FUTURE_DAYS),
+    timezone,
+    include_events: feed.scope === "SHIFTS_AND_EVENTS",
+    max_visibility_level: feed.max_visibility_level,
+    calendar_name: `${feed.user.name} 근무표`,
+  });
+
+  // 마지막 접근 시각 기록 (실패해도 피드 응답에는 영향 없음)
+  feed.update({ last_accessed_at: new Date() }).catch((error) => {
+    console.error("Calendar feed access update error:", error);
+  });
+
+  return ics;
+}
@@ -0,0 +1,493 @@
+import { User } from "../models";
+import {
+  WorkShiftTimeItem,
+  getEvents,
+  getWorkShiftTimes,
+} from "./calendarService";
+import { FriendErrorCodes, getFriendCalendarAccess } from "./friendService";
+import {
+  addDays,
+  diffDays,
+  formatDateInTimezone,
+  formatTimeInTimezone,
+  minutesToTime,
+  resolveTimezone,
+  timeToMinutes,
+  zonedTimeToUtc,
+} from "../utils/dateUtils";
+import {
+  TimeInterval,
+  mergeIntervals,
+  subtractIntervals,
+} from "../utils/timeIntervals";
+
+const MINUTES_PER_DAY = 1440;
+
+// 빈 시간 찾기 기본값
+const DEFAULT_FREE_TIME_DAYS = 30;
+const DEFAULT_MIN_FREE_MINUTES = 60;
+const DEFAULT_DAY_START = "08:00";
+const DEFAULT_DAY_END = "22:00";
+const DEFAULT_FREE_SLOT_LIMIT = 10;
+const MAX_FREE_TIME_RANGE_DAYS = 62;
+
+// 자기 자신의 캘린더는 모든 공개 레벨을 포함
+const OWNER_VISIBILITY_LEVEL = 5;
+
+// ============================================================
+// 타입 정의
+// ============================================================
+
+// 캘린더를 함께 볼 구성원 (나 + 열람 가능한 친구)
+interface CalendarMember {
+  user_id: string;
+  name: string;
+  is_me: boolean;
+  max_visibility_level: number;
+  timezone: string | null | undefined;
+}
+
+export interface UnavailableFriend {
+  user_id: string;
+  reason: string; // NOT_FRIENDS, CALENDAR_NOT_SHARED, USER_NOT_FOUND
+}
+
+export interface OverlayMemberShift {
+  user_id: string;
+  shift_type_code: string | null; // 근무가 없으면 null
+  shift_type_name: string | null;
+  shift_type_color: number | null;
+  start_time: string | null;
+  end_time: string | null;
+  crosses_midnight: boolean;
+  is_off: boolean; // 근무가 없거나 시간 정보가 없는 근무(OFF 등)
+}
+
+export interface OverlayDay {
+  date: string;
+  members: OverlayMemberShift[];
+  everyone_off: boolean;
+  common_free_time: Array<{ start_time: string; end_time: string }>; // HH:mm, 종료는 최대 24:00
+}
+
+export interface CalendarOverlay {
+  members: Array<{ user_id: string; name: string; is_me: boolean }>;
+  unavailable_friends: UnavailableFriend[];
+  days: OverlayDay[];
+}
+
+export interface FreeTimeSlot {
+  start_at: Date;
+  end_at: Date;
+  duration_minutes: number;
+  date: string; // 내 타임존 기준 시작 날짜
+  start_time: string; // 내 타임존 기준 HH:mm
+  end_time: string;
+}
+
+export interface FreeTimeSearchResult {
+  members: Array<{ user_id: string; name: string; is_me: boolean }>;
+  unavailable_friends: UnavailableFriend[];
+  start_date: string;
+  end_date: string;
+  min_duration_minutes: number;
+  slots: FreeTimeSlot[];
+}
+
+// ============================================================
+// 헬퍼 함수
+// ============================================================
+
+/**
+ * 나와 친구들의 캘린더 열람 권한 확인
+ * - 열람할 수 없는 친구(친구 아님, 열람 비허용)는 제외하고 사유와 함께 반환
+ */
+async function resolveCalendarMembers(
+  user_id: string,
+  friend_user_ids: string[]
+): Promise<{
+  members: CalendarMember[];
+  unavailable_friends: UnavailableFriend[];
+}> {
+  const user = await User.findByPk(user_id);
+  if (!user) {
+    throw new Error(FriendErrorCodes.USER_NOT_FOUND);
+  }
+
+  const members: CalendarMember[] = [
+    {
+      user_id: user.user_id,
+      name: user.name,
+      is_me: true,
+      max_visibility_level: OWNER_VISIBILITY_LEVEL,
+      timezone: user.timezone,
+    },
+  ];
+  const unavailable_friends: UnavailableFriend[] = [];
+
+  const unique_ids = [...new Set(friend_user_ids)].filter(
+    (id) => id !== user.user_id
+  );
+
+  for (const friend_user_id of unique_ids) {
+    try {
+      const { friend, friend_level } = await getFriendCalendarAccess(
+        user.user_id,
+        friend_user_id
+      );
+      members.push({
+        user_id: friend.user_id,
+        name: friend.name,
+        is_me: false,
+        max_visibility_level: friend_level,
+        timezone: friend.timezone,
+      });
+    } catch (error) {
+      const code = error instanceof Error ? error.message : "";
+      if (
+        code === FriendErrorCodes.NOT_FRIENDS ||
+        code === FriendErrorCodes.CALENDAR_NOT_SHARED ||
+        code === FriendErrorCodes.USER_NOT_FOUND
+      ) {
+        unavailable_friends.push({ user_id: friend_user_id, reason: code });
+        continue;
+      }
+      throw error;
+    }
+  }
+
+  return { members, unavailable_friends };
+}
+
+/**
+ * 구성원의 근무표 조회 (공개 레벨 적용, 날짜별 맵)
+ * - 전날 나이트 근무를 반영하기 위해 시작일 하루 전부터 조회
+ */
+async function getMemberShiftsByDate(
+  member: CalendarMember,
+  start_date: string,
+  end_date: string
+): Promise<Map<string, WorkShiftTimeItem>> {
+  const work_shifts = await getWorkShiftTimes(
+    member.user_id,
+    addDays(start_date, -1),
+    end_date
+  );
+
+  return new Map(
+    work_shifts
+      .filter((ws) => ws.visibility_level <= member.max_visibility_level)
+      .map((ws) => [ws.work_date, ws])
+  );
+}
+
+function isTimedShift(
+  work_shift: WorkShiftTimeItem | undefined
+): work_shift is WorkShiftTimeItem & { start_time: string; end_time: string } {
+  return Boolean(work_shift?.start_time && work_shift?.end_time);
+}
+
+/**
+ * 특정 날짜의 근무 시간 구간 (자정 기준 분)
+ * - 당일 근무: 시작 ~ 종료 (자정을 넘기면 24:00까지)
+ * - 전날 나이트 근무: 00:00 ~ 종료
+ */
+function getShiftBusyMinutes(
+  shifts_by_date: Map<string, WorkShiftTimeItem>,
+  date: string
+): TimeInterval[] {
+  const busy: TimeInterval[] = [];
+
+  const today = shifts_by_date.get(date);
+  if (isTimedShift(today)) {
+    busy.push({
+      start: timeToMinutes(today.start_time),
+      end: today.crosses_midnight
+        ? MINUTES_PER_DAY
+        : timeToMinutes(today.end_time),
+    });
+  }
+
+  const yesterday = shifts_by_date.get(addDays(date, -1));
+  if (isTimedShift(yesterday) && yesterday.crosses_midnight) {
+    busy.push({ start: 0, end: timeToMinutes(yesterday.end_time) });
+  }
+
+  return mergeIntervals(busy);
+}
+
+// ============================================================
+// 친구 캘린더 겹쳐보기
+// ============================================================
+
+/**
+ * 나와 친구들의 날짜별 근무 겹쳐보기
+ * - everyone_off: 모든 구성원이 당일 근무가 없거나 OFF인 날
+ * - common_free_time: 근무 시간(전날 나이트 포함)을 제외한 공통 빈 시간
+ */
+export async function getCalendarOverlay(
+  user_id: string,
+  friend_user_ids: string[],
+  start_date: string,
+  end_date: string
+): Promise<CalendarOverlay> {
+  const { members, unavailable_friends } = await resolveCalendarMembers(
+    user_id,
+    friend_user_ids
+  );
+
+  const member_shifts = await Promise.all(
+    members.map((member) => getMemberShiftsByDate(member, start_date, end_date))
+  );
+
+  const days: OverlayDay[] = [];
+  const day_count = diffDays(start_date, end_date) + 1;
+
+  for (let i = 0; i < day_count; i++) {
+    const date = addDays(start_date, i);
+
+    const day_members = members.map((member, index) => {
+      const work_shift = member_shifts[index].get(date);
+      return {
+        user_id: member.user_id,
+        shift_type_code: work_shift?.shift_type_code ?? null,
+        shift_type_name: work_shift?.shift_type_name ?? null,
+        shift_type_color: work_shift?.shift_type_color ?? null,
+        start_time: work_shift?.start_time ?? null,
+        end_time: work_shift?.end_time ?? null,
+        crosses_midnight: work_shift?.crosses_midnight ?? false,
+        is_off: !isTimedShift(work_shift),
+      };
+    });
+
+    const busy = member_shifts.flatMap((shifts) =>
+      getShiftBusyMinutes(shifts, date)
+    );
+    const free = subtractIntervals({ start: 0, end: MINUTES_PER_DAY }, busy);
+
+    days.push({
+      date,
+      members: day_members,
+      everyone_off: day_members.every((m) => m.is_off),
+      common_free_time: free.map((interval) => ({
+        start_time: minutesToTime(interval.start),
+        end_time: minutesToTime(interval.end),
+      })),
+    });
+  }
+
+  return {
+    members: members.map(({ user_id, name, is_me }) => ({
+      user_id,
+      name,
+      is_me,
+    })),
+    unavailable_friends,
+    days,
+  };
+}
+
+// ============================================================
+// 공통 빈 시간 찾기
+// ============================================================
+
+/**
+ * 구성원의 바쁜 시간 구간 (epoch ms)
+ * - 근무: 근무일 시작 시각 ~ 종료 시각 (자정을 넘기면 다음 날 종료 시각)
+ * - 일정: 공개 레벨 이하의 일정 (종일 일정 포함)
+ */
+async function getMemberBusyIntervals(
+  member: CalendarMember,
+  start_date: string,
+  end_date: string
+): Promise<TimeInterval[]> {
+  const timezone = resolveTimezone(member.timezone);
+  const [work_shifts, events] = await Promise.all([
+    getWorkShiftTimes(member.user_id, addDays(start_date, -1), end_date),
+    getEvents(
+      member.user_id,
+      addDays(start_date, -1),
+      addDays(end_date, 1),
+      timezone
+    ),
+  ]);
+
+  const busy: TimeInterval[] = [];
+
+  for (const ws of work_shifts) {
+    if (
+      ws.visibility_level > member.max_visibility_level ||
+      !isTimedShift(ws)
+    ) {
+      continue;
+    }
+    const end_date_of_shift = ws.crosses_midnight
+      ? addDays(ws.work_date, 1)
+      : ws.work_date;
+    busy.push({
+      start: zonedTimeToUtc(ws.work_date, ws.start_time, timezone).getTime(),
+      end: zonedTimeToUtc(end_date_of_shift, ws.end_time, timezone).getTime(),
+    });
+  }
+
+  for (const event of events) {
+    if (event.visibility_level > member.max_visibility_level) {
+      continue;
+    }
+    busy.push({
+      start: event.start_at.getTime(),
+      end: event.end_at.getTime(),
+    });
+  }
+
+  return busy;
+}
+
+/**
+ * 하루 중 탐색 시간대 밖의 구간 (예: 22:00 ~ 다음 날 08:00)을 바쁜 구간으로 취급
+ */
+function getOutsideDayWindowIntervals(
+  start_date: string,
+  end_date: string,
+  day_start_minutes: number,
+  day_end_minutes: number,
+  timezone: string
+): TimeInterval[] {
+  const intervals: TimeInterval[] = [];
+  const day_count = diffDays(start_date, end_date) + 1;
+
+  for (let i = 0; i < day_count; i++) {
+    const date = addDays(start_date, i);
+    const day_begin = zonedTimeToUtc(date, "00:00:00", timezone).getTime();
+    const next_day_begin = zonedTimeToUtc(
+      addDays(date, 1),
+      "00:00:00",
+      timezone
+    ).getTime();
+
+    if (day_start_minutes > 0) {
+      intervals.push({
+        start: day_begin,
+        end: zonedTimeToUtc(
+          date,
+          minutesToTime(day_start_minutes),
+          timezone
+        ).getTime(),
+      });
+    }
+    if (day_end_minutes < MINUTES_PER_DAY) {
+      intervals.push({
+        start: zonedTimeToUtc(
+          date,
+          minutesToTime(day_end_minutes),
+          timezone
+        ).getTime(),
+        end: next_day_begin,
+      });
+    }
+  }
+
+  return intervals;
+}
+
+/**
+ * 나와 친구들이 모두 비어 있는 시간 찾기
+ * - 근무(전날 나이트 근무 포함)와 열람 가능한 일정을 모두 바쁜 시간으로 계산
+ * - 하루 탐색 시간대(기본 08:00 ~ 22:00) 안에서 최소 시간 이상인 구간만 반환
+ * - 긴 구간 우선, 같은 길이면 이른 시각 우선으로 정렬
+ */
+export async function findCommonFreeTime(
+  user_id: string,
+  friend_user_ids: string[],
+  options: {
+    start_date?: string;
+    end_date?: string;
+    min_duration_minutes?: number;
+    day_start?: string; // HH:mm
+    day_end?: string; // HH:mm (24:00 허용)
+    limit?: number;
+  } = {}
+): Promise<FreeTimeSearchResult> {
+  const { members, unavailable_friends } = await resolveCalendarMembers(
+    user_id,
+    friend_user_ids
+  );
+  const timezone = resolveTimezone(members[0].timezone);
+
+  const start_date =
+    options.start_date ?? formatDateInTimezone(new Date(), timezone);
+  const end_date =
+    options.end_date ?? addDays(start_date, DEFAULT_FREE_TIME_DAYS - 1);
+  const min_duration_minutes =
+    options.min_duration_minutes ?? DEFAULT_MIN_FREE_MINUTES;
+  const day_start_minutes = timeToMinutes(
+    options.day_start ?? DEFAULT_DAY_START
+  );
+  const day_end_minutes = timeToMinutes(options.day_end ?? DEFAULT_DAY_END);
+  const limit = options.limit ?? DEFAULT_FREE_SLOT_LIMIT;
+
+  if (
+    start_date > end_date ||
+    diffDays(start_date, end_date) >= MAX_FREE_TIME_RANGE_DAYS ||
+    day_start_minutes >= day_end_minutes
+  ) {
+    throw new Error(FriendErrorCodes.INVALID_TIME_RANGE);
+  }
+
+  const member_busy = await Promise.all(
+    members.map((member) =>
+      getMemberBusyIntervals(member, start_date, end_date)
+    )
+  );
+
+  const search_range: TimeInterval = {
+    start: zonedTimeToUtc(start_date, "00:00:00", timezone).getTime(),
+    end: zonedTimeToUtc(addDays(end_date, 1), "00:00:00", timezone).getTime(),
+  };
+  const busy = [
+    ...member_busy.flat(),
+    ...getOutsideDayWindowIntervals(
+      start_date,
+      end_date,
+      day_start_minutes,
+      day_end_minutes,
+      timezone
+    ),
+  ];
+
+  const slots = subtractIntervals(search_range, busy)
+    .map((interval) => ({
+      ...interval,
+      duration_minutes: Math.floor((interval.end - interval.start) / 60000),
+    }))
+    .filter((interval) => interval.duration_minutes >= min_duration_minutes)
+    .sort(
+      (a, b) => b.duration_minutes - a.duration_minutes || a.start - b.start
+    )
+    .slice(0, limit)
+    .map((interval) => {
+      const start_at = new Date(interval.start);
+      const end_at = new Date(interval.end);
+      return {
+        start_at,
+        end_at,
+        duration_minutes: interval.duration_minutes,
+        date: formatDateInTimezone(start_at, timezone),
+        start_time: formatTimeInTimezone(start_at, timezone).slice(0, 5),
+        end_time: formatTimeInTimezone(end_at, timezone).slice(0, 5),
+      };
+    });
+
+  return {
+    members: members.map(({ user_id, name, is_me }) => ({
+      user_id,
+      name,
+      is_me,
+    })),
+    unavailable_friends,
+    start_date,
+    end_date,
+    min_duration_minutes,
+    slots,
+  };
+}
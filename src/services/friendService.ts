@@ -1,4 +1,4 @@
-import { Op, QueryTypes } from "sequelize";
+import { Op, QueryTypes, Transaction } from "sequelize";
 import { sequelize } from "../config/database";
 import {
   User,
@@ -8,6 +8,11 @@ import {
   Notification,
 } from "../models";
 import { NotificationType } from "../models/Notification";
+import {
+  EventItem,
+  WorkShiftTimeItem,
+  getSharedCalendarRange,
+} from "./calendarService";
 
 // ============================================================
 // 에러 코드 상수
@@ -25,6 +30,8 @@ export const FriendErrorCodes = {
   NOT_FRIENDS: "NOT_FRIENDS",
   INVALID_LEVEL: "INVALID_LEVEL",
   INVALID_QUERY: "INVALID_QUERY",
+  CALENDAR_NOT_SHARED: "CALENDAR_NOT_SHARED",
+  INVALID_TIME_RANGE: "INVALID_TIME_RANGE",
 } as const;
 
 // ============================================================
@@ -58,6 +65,19 @@ export interface SearchedUser {
   pending_request_direction: "sent" | "received" | null;
 }
 
+export interface FriendCalendarAccess {
+  friend: User;
+  friend_level: number; // 친구가 나에게 부여한 레벨
+}
+
+export interface FriendCalendarRange {
+  friend_user_id: string;
+  friend_name: string;
+  friend_level: number;
+  work_shifts: WorkShiftTimeItem[];
+  events: EventItem[];
+}
+
 export interface FriendRequestInfo {
   request_id: string;
   requester_user_id: string;
@@ -68,6 +88,34 @@ export interface FriendRequestInfo {
   responded_at: Date | null;
 }
 
+// ============================================================
+// 친구 관계 확인
+// ============================================================
+
+/**
+ * 두 사용자가 친구인지 확인 (아니면 NOT_FRIENDS)
+ * - 트랜잭션 안에서는 친구 관계 행을 공유 잠금해 처리 중 친구 삭제를 막음
+ */
+export async function assertFriends(
+  user_id: string,
+  friend_user_id: string,
+  transaction?: Transaction
+): Promise<void> {
+  const { user_id_a, user_id_b } = Friendship.sortUserIds(
+    user_id,
+    friend_user_id
+  );
+  const friendship = await Friendship.findOne({
+    where: { user_id_a, user_id_b },
+    transaction,
+    lock: transaction?.LOCK.SHARE,
+  });
+
+  if (!friendship) {
+    throw new Error(FriendErrorCodes.NOT_FRIENDS);
+  }
+}
+
 // ============================================================
 // 친구 목록 조회
 // ============================================================
@@ -139,7 +187,7 @@ export async function searchUser(
   const search_condition = is_email ? { email: query } : { phone: query };
 
   const user = await User.findOne({
-    where: search_condition,
+    where: { ...search_condition, withdrawn_at: null },
     attributes: ["user_id", "name", "email", "profile_image_url"],
   });
 
@@ -204,7 +252,7 @@ export async function sendFriendRequest(
 
   // 2. 대상 사용자 존재 체크
   const addressee = await User.findByPk(addressee_user_id);
-  if (!addressee) {
+  if (!addressee || addressee.withdrawn_at) {
     throw new Error(FriendErrorCodes.USER_NOT_FOUND);
   }
 
@@ -571,17 +619,7 @@ export async function updateFriendSettings(
   updated_at: Date;
 }> {
   // 1. 친구 관계 확인
-  const { user_id_a, user_id_b } = Friendship.sortUserIds(
-    user_id,
-    friend_user_id
-  );
-  const friendship = await Friendship.findOne({
-    where: { user_id_a, user_id_b },
-  });
-
-  if (!friendship) {
-    throw new Error(FriendErrorCodes.NOT_FRIENDS);
-  }
+  await assertFriends(user_id, friend_user_id);
 
   // 2. 레벨 유효성 검사
   if (
@@ -614,6 +652,74 @@ export async function updateFriendSettings(
   };
 }
 
+// ============================================================
+// 친구 캘린더 열람
+// ============================================================
+
+/**
+ * 친구 캘린더 열람 권한 확인
+ * - 친구가 나에게 설정한 FriendLevelSetting 기준 (owner = 친구, friend = 나)
+ * - 설정이 없으면 기본값(열람 허용, 레벨 0) 적용
+ */
+export async function getFriendCalendarAccess(
+  user_id: string,
+  friend_user_id: string
+): Promise<FriendCalendarAccess> {
+  await assertFriends(user_id, friend_user_id);
+
+  const [friend, setting] = await Promise.all([
+    User.findByPk(friend_user_id),
+    FriendLevelSetting.findOne({
+      where: { owner_user_id: friend_user_id, friend_user_id: user_id },
+    }),
+  ]);
+
+  if (!friend) {
+    throw new Error(FriendErrorCodes.USER_NOT_FOUND);
+  }
+
+  if (setting && !setting.can_view) {
+    throw new Error(FriendErrorCodes.CALENDAR_NOT_SHARED);
+  }
+
+  return {
+    friend,
+    friend_level: setting?.friend_level ?? 0,
+  };
+}
+
+/**
+ * 친구의 기간별 캘린더 조회
+ * - 친구가 부여한 레벨 이하의 공개 레벨을 가진 근무표/일정만 반환
+ */
+export async function getFriendCalendarRange(
+  user_id: string,
+  friend_user_id: string,
+  start_date: string,
+  end_date: string
+): Promise<FriendCalendarRange> {
+  const { friend, friend_level } = await getFriendCalendarAccess(
+    user_id,
+    friend_user_id
+  );
+
+  const { work_shifts, events } = await getSharedCalendarRange(
+    friend_user_id,
+    start_date,
+    end_date,
+    friend_level,
+    friend.timezone
+  );
+
+  return {
+    friend_user_id,
+    friend_name: friend.name,
+    friend_level,
+    work_shifts,
+    events,
+  };
+}
+
 // ============================================================
 // 친구 삭제
 // ============================================================
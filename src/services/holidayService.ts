@@ -0,0 +1,179 @@
+import { Op } from "sequelize";
+import { sequelize } from "../config/database";
+import { HolidayOverride } from "../models";
+import {
+  KOREAN_HOLIDAYS,
+  KOREAN_HOLIDAYS_FIRST_YEAR,
+  KOREAN_HOLIDAYS_LAST_YEAR,
+  KoreanHolidayType,
+} from "../data/koreanHolidays";
+import { diffDays } from "../utils/dateUtils";
+
+// ============================================================
+// 에러 코드 정의
+// ============================================================
+export const HolidayErrorCodes = {
+  DUPLICATE_DATE: "DUPLICATE_DATE",
+  HOLIDAY_OVERRIDE_NOT_FOUND: "HOLIDAY_OVERRIDE_NOT_FOUND",
+  INVALID_DATE_RANGE: "INVALID_DATE_RANGE",
+} as const;
+
+// 공휴일 조회 최대 기간 (일)
+const MAX_HOLIDAY_RANGE_DAYS = 366 * 2;
+
+// ============================================================
+// 타입 정의
+// ============================================================
+export interface HolidayItem {
+  date: string; // YYYY-MM-DD
+  name: string;
+  type: KoreanHolidayType | "CUSTOM"; // CUSTOM: 관리자가 추가한 공휴일
+}
+
+export interface HolidayOverrideItem {
+  date: string;
+  name: string | null;
+  is_holiday: boolean;
+  updated_at: Date;
+}
+
+// ============================================================
+// 공휴일 조회
+// ============================================================
+
+/**
+ * 기간 내 공휴일 목록 (내장 데이터 + 관리자 재정의, 날짜순)
+ */
+export async function getHolidays(
+  start_date: string,
+  end_date: string
+): Promise<HolidayItem[]> {
+  const holidays = new Map<string, HolidayItem>(
+    KOREAN_HOLIDAYS.filter(
+      (h) => h.date >= start_date && h.date <= end_date
+    ).map((h) => [h.date, { date: h.date, name: h.name, type: h.type }])
+  );
+
+  const overrides = await HolidayOverride.findAll({
+    where: {
+      date: { [Op.between]: [start_date, end_date] },
+    },
+  });
+
+  for (const override of overrides) {
+    const date = String(override.date);
+    if (!override.is_holiday) {
+      holidays.delete(date);
+      continue;
+    }
+
+    const existing = holidays.get(date);
+    holidays.set(date, {
+      date,
+      name: override.name || existing?.name || "공휴일",
+      type: existing?.type ?? "CUSTOM",
+    });
+  }
+
+  return [...holidays.values()].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * 공휴일 목록 API용 조회 (기간 검증 포함)
+ */
+export async function listHolidays(
+  start_date: string,
+  end_date: string
+): Promise<{
+  holidays: HolidayItem[];
+  bundled_years: { from: number; to: number };
+}> {
+  if (
+    start_date > end_date ||
+    diffDays(start_date, end_date) >= MAX_HOLIDAY_RANGE_DAYS
+  ) {
+    throw new Error(HolidayErrorCodes.INVALID_DATE_RANGE);
+  }
+
+  return {
+    holidays: await getHolidays(start_date, end_date),
+    bundled_years: {
+      from: KOREAN_HOLIDAYS_FIRST_YEAR,
+      to: KOREAN_HOLIDAYS_LAST_YEAR,
+    },
+  };
+}
+
+// ============================================================
+// 관리자 공휴일 재정의
+// ============================================================
+
+function formatOverride(override: HolidayOverride): HolidayOverrideItem {
+  return {
+    date: String(override.date),
+    name: override.name ?? null,
+    is_holiday: override.is_holiday,
+    updated_at: override.updated_at!,
+  };
+}
+
+/**
+ * 공휴일 재정의 목록 조회 (연도 지정 시 해당 연도만)
+ */
+export async function getHolidayOverrides(
+  year?: number
+): Promise<HolidayOverrideItem[]> {
+  const overrides = await HolidayOverride.findAll({
+    where: year
+      ? { date: { [Op.between]: [`${year}-01-01`, `${year}-12-31`] } }
+      : {},
+    order: [["date", "ASC"]],
+  });
+
+  return overrides.map(formatOverride);
+}
+
+/**
+ * 공휴일 재정의 일괄 등록 (같은 날짜가 있으면 덮어씀)
+ */
+export async function saveHolidayOverrides(
+  items: Array<{ date: string; name?: string | null; is_holiday?: boolean }>
+): Promise<HolidayOverrideItem[]> {
+  const dates = items.map((item) => item.date);
+  if (new Set(dates).size !== dates.length) {
+    throw new Error(HolidayErrorCodes.DUPLICATE_DATE);
+  }
+
+  const saved = await sequelize.transaction(async (transaction) => {
+    const results: HolidayOverride[] = [];
+    for (const item of items) {
+      const [override] = await HolidayOverride.upsert(
+        {
+          date: item.date,
+          name: item.name ?? null,
+          is_holiday: item.is_holiday ?? true,
+        },
+        {
+          returning: true,
+          conflictFields: ["date"],
+          transaction,
+        }
+      );
+      results.push(override);
+    }
+    return results;
+  });
+
+  return saved.map(formatOverride);
+}
+
+/**
+ * 공휴일 재정의 삭제 (내장 데이터 기준으로 되돌림)
+ */
+export async function deleteHolidayOverride(date: string): Promise<void> {
+  const deleted = await HolidayOverride.destroy({ where: { date } });
+
+  if (deleted === 0) {
+    throw new Error(HolidayErrorCodes.HOLIDAY_OVERRIDE_NOT_FOUND);
+  }
+}
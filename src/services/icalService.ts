@@ -0,0 +1,646 @@
+import { Op, Transaction } from "sequelize";
+import { sequelize } from "../config/database";
+import { Event, ShiftType } from "../models";
+import {
+  EventItem,
+  WorkShiftTimeItem,
+  batchUpsertWorkShifts,
+  bulkCreateEvents,
+  getEvents,
+  getWorkShiftTimes,
+} from "./calendarService";
+import { getTemplatesForDates } from "./shiftTemplateService";
+import {
+  addDays,
+  diffDays,
+  formatDateInTimezone,
+  resolveTimezone,
+  zonedTimeToUtc,
+} from "../utils/dateUtils";
+import {
+  IcsDateValue,
+  IcsEvent,
+  ParsedIcsEvent,
+  buildIcsCalendar,
+  parseIcsEvents,
+} from "../utils/ical";
+import { parseRRule } from "../utils/rrule";
+
+const UID_DOMAIN = "shift-calendar.co.kr";
+const DEFAULT_CALENDAR_NAME = "근무표";
+
+// 가져오기 1회당 최대 VEVENT 수
+const MAX_IMPORT_EVENTS = 1000;
+
+/**
+ * 근무표 항목을 VEVENT로 변환
+ * - 시간 정보가 없는 근무(OFF 등)는 종일 일정
+ * - 자정을 넘기는 근무(나이트)는 다음 날 종료 시각까지
+ */
+export function workShiftToIcsEvent(
+  work_shift: WorkShiftTimeItem,
+  timezone: string
+): IcsEvent {
+  const summary = work_shift.shift_type_name
+    ? `${work_shift.shift_type_name} (${work_shift.shift_type_code})`
+    : work_shift.shift_type_code;
+
+  const base = {
+    uid: `work-shift-${work_shift.work_shift_id}@${UID_DOMAIN}`,
+    summary,
+    description: work_shift.note,
+    categories: ["근무"],
+  };
+
+  if (!work_shift.start_time || !work_shift.end_time) {
+    return {
+      ...base,
+      start: { date: work_shift.work_date },
+      end: { date: addDays(work_shift.work_date, 1) },
+      transparent: true,
+    };
+  }
+
+  const end_date = work_shift.crosses_midnight
+    ? addDays(work_shift.work_date, 1)
+    : work_shift.work_date;
+
+  return {
+    ...base,
+    start: {
+      date_time: zonedTimeToUtc(
+        work_shift.work_date,
+        work_shift.start_time,
+        timezone
+      ),
+    },
+    end: {
+      date_time: zonedTimeToUtc(end_date, work_shift.end_time, timezone),
+    },
+  };
+}
+
+/**
+ * 일정(반복 일정은 발생 단위)을 VEVENT로 변환
+ * - 종일 일정은 DATE 값, 종료일은 다음 날(비포함)로 표시
+ */
+export function eventToIcsEvent(event: EventItem, timezone: string): IcsEvent {
+  const uid = event.occurrence_date
+    ? `event-${event.event_id}-${event.occurrence_date}@${UID_DOMAIN}`
+    : `event-${event.event_id}@${UID_DOMAIN}`;
+
+  const base = {
+    uid,
+    summary: event.title,
+    description: event.memo,
+    location: event.place,
+  };
+
+  if (event.all_day) {
+    return {
+      ...base,
+      start: { date: formatDateInTimezone(event.start_at, timezone) },
+      end: {
+        date: addDays(formatDateInTimezone(event.end_at, timezone), 1),
+      },
+    };
+  }
+
+  return {
+    ...base,
+    start: { date_time: event.start_at },
+    end: { date_time: event.end_at },
+  };
+}
+
+/**
+ * 기간별 근무표 + 일정을 iCalendar 문서로 생성
+ * @param options.include_events 일정 포함 여부 (false면 근무표만)
+ * @param options.max_visibility_level 포함할 일정의 최대 공개 레벨 (없으면 전체)
+ */
+export async function buildCalendarIcs(
+  user_id: string,
+  options: {
+    start_date: string;
+    end_date: string;
+    timezone?: string | null;
+    include_events?: boolean;
+    max_visibility_level?: number | null;
+    calendar_name?: string;
+  }
+): Promise<string> {
+  const timezone = resolveTimezone(options.timezone);
+  const include_events = options.include_events ?? true;
+
+  const [work_shifts, events] = await Promise.all([
+    getWorkShiftTimes(user_id, options.start_date, options.end_date),
+    include_events
+      ? getEvents(user_id, options.start_date, options.end_date, timezone)
+      : Promise.resolve([] as EventItem[]),
+  ]);
+
+  const max_visibility_level = options.max_visibility_level;
+  const visible_events =
+    max_visibility_level === undefined || max_visibility_level === null
+      ? events
+      : events.filter((e) => e.visibility_level <= max_visibility_level);
+
+  const ics_events: IcsEvent[] = [
+    ...work_shifts.map((ws) => workShiftToIcsEvent(ws, timezone)),
+    ...visible_events.map((e) => eventToIcsEvent(e, timezone)),
+  ];
+
+  return buildIcsCalendar(ics_events, {
+    name: options.calendar_name || DEFAULT_CALENDAR_NAME,
+    timezone,
+  });
+}
+
+// ============================================================
+// iCalendar 가져오기
+// ============================================================
+
+export type IcsImportSkipReason =
+  | "CANCELLED"
+  | "RECURRENCE_OVERRIDE"
+  | "MISSING_TITLE"
+  | "MISSING_START"
+  | "INVALID_DATE_RANGE"
+  | "UNSUPPORTED_RRULE"
+  | "DUPLICATE_SHIFT_DATE"
+  | "SHIFT_TYPE_NOT_IN_TEMPLATE"; // 여러 날 근무 중 그 날짜 템플릿에 없는 근무 타입
+
+export interface IcsImportPreview {
+  events: Array<{
+    uid: string | null;
+    title: string;
+    all_day: boolean;
+    start_at: Date;
+    end_at: Date;
+    rrule: string | null;
+    action: "CREATE" | "DUPLICATE"; // DUPLICATE: 같은 제목/시작 시각의 일정이 이미 있음
+  }>;
+  work_shifts: Array<{
+    uid: string | null;
+    work_date: string;
+    shift_type_code: string;
+    previous_shift_type_code: string | null;
+    action: "CREATE" | "UPDATE" | "UNCHANGED";
+  }>;
+  skipped: Array<{
+    uid: string | null;
+    summary: string;
+    reason: IcsImportSkipReason;
+  }>;
+  summary: {
+    events_to_create: number;
+    duplicate_events: number;
+    work_shifts_to_create: number;
+    work_shifts_to_update: number;
+    work_shifts_unchanged: number;
+    skipped: number;
+  };
+}
+
+export interface IcsImportOptions {
+  map_shifts?: boolean; // 제목이 근무 타입 코드/이름과 일치하면 근무표로 가져오기
+  visibility_level?: number; // 가져온 일정의 공개 레벨
+}
+
+interface IcsImportPlan {
+  preview: IcsImportPreview;
+  event_inputs: Array<{
+    title: string;
+    memo: string | null;
+    place: string | null;
+    all_day: boolean;
+    start_at: Date | string;
+    end_at: Date | string;
+    visibility_level: number;
+    rrule: string | null;
+    exdates: string[];
+  }>;
+  work_shift_inputs: Array<{
+    work_date: string;
+    shift_type_code: string;
+    note: string | null;
+  }>;
+}
+
+function toLocalDate(value: IcsDateValue, timezone: string): string {
+  return "date" in value
+    ? value.date
+    : formatDateInTimezone(value.date_time, timezone);
+}
+
+/**
+ * 근무 타입 매칭 함수 생성 (근무 날짜, 제목 → 근무 타입 코드)
+ * - 날짜마다 그 날짜에 적용되는 템플릿의 근무 타입으로 매칭
+ * - 코드, 이름, 내보내기 형식("이름 (코드)") 모두 인식
+ * - 이름과 코드가 겹치면 코드 일치를 우선
+ */
+async function buildShiftTypeMatcher(
+  user_id: string,
+  dates: string[],
+  transaction?: Transaction
+): Promise<(work_date: string, title: string) => string | undefined> {
+  const templates = await getTemplatesForDates(user_id, dates, transaction);
+  const template_ids = [
+    ...new Set([...templates.values()].map((t) => t.template_id)),
+  ];
+  const shift_types =
+    template_ids.length > 0
+      ? await ShiftType.findAll({
+          where: {
+            template_id: { [Op.in]: template_ids },
+            deleted_at: null,
+          },
+          transaction,
+        })
+      : [];
+
+  // 템플릿별 소문자 제목 → 근무 타입 코드
+  const matchers = new Map<string, Map<string, string>>(
+    template_ids.map((template_id) => [template_id, new Map()])
+  );
+  for (const st of shift_types) {
+    const matcher = matchers.get(st.template_id)!;
+    matcher.set(`${st.name} (${st.code})`.toLowerCase(), st.code);
+    matcher.set(st.name.toLowerCase(), st.code);
+  }
+  for (const st of shift_types) {
+    matchers.get(st.template_id)!.set(st.code.toLowerCase(), st.code);
+  }
+
+  return (work_date, title) => {
+    const template = templates.get(work_date);
+    return template
+      ? matchers.get(template.template_id)?.get(title.trim().toLowerCase())
+      : undefined;
+  };
+}
+
+/**
+ * 근무표로 가져올 날짜 목록 (종일 일정이 여러 날이면 날짜마다 근무)
+ */
+function getShiftDates(
+  event: ParsedIcsEvent & { start: IcsDateValue },
+  timezone: string
+): string[] {
+  const start_date = toLocalDate(event.start, timezone);
+  if (!("date" in event.start) || !event.end || !("date" in event.end)) {
+    return [start_date];
+  }
+
+  const days = Math.max(diffDays(start_date, event.end.date), 1);
+  return Array.from({ length: days }, (_, i) => addDays(start_date, i));
+}
+
+/**
+ * VEVENT를 일정 생성 입력값으로 변환 (변환할 수 없으면 건너뛸 사유 반환)
+ * - 종일 일정의 DTEND는 비포함 날짜이므로 하루 전 날짜까지로 변환
+ */
+function toEventInput(
+  event: ParsedIcsEvent & { start: IcsDateValue },
+  timezone: string,
+  visibility_level: number
+): IcsImportPlan["event_inputs"][number] | IcsImportSkipReason {
+  if (event.rrule) {
+    try {
+      parseRRule(event.rrule);
+    } catch {
+      return "UNSUPPORTED_RRULE";
+    }
+  }
+
+  const exdates = event.exdates.map((d) => toLocalDate(d, timezone));
+  const base = {
+    title: event.summary,
+    memo: event.description,
+    place: event.location,
+    visibility_level,
+    rrule: event.rrule,
+    exdates: event.rrule ? exdates : [],
+  };
+
+  if ("date" in event.start) {
+    const end_date = event.end
+      ? addDays(toLocalDate(event.end, timezone), -1)
+      : event.start.date;
+    if (end_date < event.start.date) {
+      return "INVALID_DATE_RANGE";
+    }
+    return {
+      ...base,
+      all_day: true,
+      start_at: event.start.date,
+      end_at: end_date,
+    };
+  }
+
+  const end_at = event.end
+    ? "date" in event.end
+      ? zonedTimeToUtc(event.end.date, "00:00:00", timezone)
+      : event.end.date_time
+    : null;
+  if (!end_at || end_at <= event.start.date_time) {
+    return "INVALID_DATE_RANGE";
+  }
+
+  return {
+    ...base,
+    all_day: false,
+    start_at: event.start.date_time,
+    end_at,
+  };
+}
+
+/**
+ * 가져오기 계획 수립 (미리보기와 실제 저장에서 공통 사용)
+ */
+async function buildImportPlan(
+  user_id: string,
+  ics_text: string,
+  options: IcsImportOptions,
+  timezone: string,
+  transaction?: Transaction
+): Promise<IcsImportPlan> {
+  const parsed_events = parseIcsEvents(ics_text, timezone);
+  if (parsed_events.length > MAX_IMPORT_EVENTS) {
+    throw new Error("IMPORT_TOO_LARGE");
+  }
+
+  const visibility_level = options.visibility_level ?? 0;
+
+  const plan: IcsImportPlan = {
+    preview: {
+      events: [],
+      work_shifts: [],
+      skipped: [],
+      summary: {
+        events_to_create: 0,
+        duplicate_events: 0,
+        work_shifts_to_create: 0,
+        work_shifts_to_update: 0,
+        work_shifts_unchanged: 0,
+        skipped: 0,
+      },
+    },
+    event_inputs: [],
+    work_shift_inputs: [],
+  };
+  const { preview } = plan;
+
+  const skip = (event: ParsedIcsEvent, reason: IcsImportSkipReason) => {
+    preview.skipped.push({ uid: event.uid, summary: event.summary, reason });
+  };
+
+  const event_candidates: Array<{
+    uid: string | null;
+    input: IcsImportPlan["event_inputs"][number];
+  }> = [];
+  const shift_candidates = new Map<
+    string,
+    { uid: string | null; shift_type_code: string; note: string | null }
+  >();
+
+  const dated_events: Array<ParsedIcsEvent & { start: IcsDateValue }> = [];
+  for (const event of parsed_events) {
+    if (event.status === "CANCELLED") {
+      skip(event, "CANCELLED");
+      continue;
+    }
+    // 반복 일정의 개별 발생 수정본은 지원하지 않음
+    if (event.is_recurrence_override) {
+      skip(event, "RECURRENCE_OVERRIDE");
+      continue;
+    }
+    if (!event.summary) {
+      skip(event, "MISSING_TITLE");
+      continue;
+    }
+    if (!event.start) {
+      skip(event, "MISSING_START");
+      continue;
+    }
+    dated_events.push({ ...event, start: event.start });
+  }
+
+  // 반복 일정이 아닌 경우에만 근무표로 매핑
+  const shift_dates_by_event = new Map(
+    options.map_shifts
+      ? dated_events
+          .filter((event) => !event.rrule)
+          .map((event) => [event, getShiftDates(event, timezone)])
+      : []
+  );
+  const match_shift_type =
+    shift_dates_by_event.size > 0
+      ? await buildShiftTypeMatcher(
+          user_id,
+          [...new Set([...shift_dates_by_event.values()].flat())],
+          transaction
+        )
+      : null;
+
+  for (const event of dated_events) {
+    const shift_dates = shift_dates_by_event.get(event) ?? [];
+    const shift_type_codes = shift_dates.map((work_date) =>
+      match_shift_type?.(work_date, event.summary)
+    );
+    if (shift_type_codes.some(Boolean)) {
+      shift_dates.forEach((work_date, index) => {
+        const shift_type_code = shift_type_codes[index];
+        if (!shift_type_code) {
+          skip(event, "SHIFT_TYPE_NOT_IN_TEMPLATE");
+          return;
+        }
+        if (shift_candidates.has(work_date)) {
+          skip(event, "DUPLICATE_SHIFT_DATE");
+          return;
+        }
+        shift_candidates.set(work_date, {
+          uid: event.uid,
+          shift_type_code,
+          note: event.description,
+        });
+      });
+      continue;
+    }
+
+    const input = toEventInput(event, timezone, visibility_level);
+    if (typeof input === "string") {
+      skip(event, input);
+      continue;
+    }
+    event_candidates.push({ uid: event.uid, input });
+  }
+
+  // 근무표 변경 내역 (기존 근무와 비교)
+  if (shift_candidates.size > 0) {
+    const work_dates = [...shift_candidates.keys()].sort();
+    const existing = await getWorkShiftTimes(
+      user_id,
+      work_dates[0],
+      work_dates[work_dates.length - 1],
+      transaction
+    );
+    const existing_codes = new Map(
+      existing.map((ws) => [ws.work_date, ws.shift_type_code])
+    );
+
+    for (const work_date of work_dates) {
+      const candidate = shift_candidates.get(work_date)!;
+      const previous = existing_codes.get(work_date) ?? null;
+      const action =
+        previous === null
+          ? "CREATE"
+          : previous === candidate.shift_type_code
+          ? "UNCHANGED"
+          : "UPDATE";
+
+      preview.work_shifts.push({
+        uid: candidate.uid,
+        work_date,
+        shift_type_code: candidate.shift_type_code,
+        previous_shift_type_code: previous,
+        action,
+      });
+
+      if (action === "CREATE") {
+        preview.summary.work_shifts_to_create++;
+      } else if (action === "UPDATE") {
+        preview.summary.work_shifts_to_update++;
+      } else {
+        preview.summary.work_shifts_unchanged++;
+        continue;
+      }
+      plan.work_shift_inputs.push({
+        work_date,
+        shift_type_code: candidate.shift_type_code,
+        note: candidate.note,
+      });
+    }
+  }
+
+  // 일정 중복 확인 (같은 제목 + 같은 시작 시각)
+  const start_times = event_candidates.map(({ input }) =>
+    input.all_day
+      ? zonedTimeToUtc(input.start_at as string, "00:00:00", timezone)
+      : (input.start_at as Date)
+  );
+  const existing_events =
+    start_times.length > 0
+      ? await Event.findAll({
+          attributes: ["title", "start_at"],
+          where: {
+            owner_user_id: user_id,
+            deleted_at: null,
+            start_at: { [Op.in]: start_times },
+          },
+          transaction,
+        })
+      : [];
+  const existing_keys = new Set(
+    existing_events.map((e) => `${e.title}|${e.start_at.getTime()}`)
+  );
+
+  event_candidates.forEach(({ uid, input }, index) => {
+    const start_at = start_times[index];
+    const end_at = input.all_day
+      ? zonedTimeToUtc(input.end_at as string, "23:59:59", timezone)
+      : (input.end_at as Date);
+    const key = `${input.title}|${start_at.getTime()}`;
+    const action = existing_keys.has(key) ? "DUPLICATE" : "CREATE";
+
+    preview.events.push({
+      uid,
+      title: input.title,
+      all_day: input.all_day,
+      start_at,
+      end_at,
+      rrule: input.rrule,
+      action,
+    });
+
+    if (action === "DUPLICATE") {
+      preview.summary.duplicate_events++;
+    } else {
+      preview.summary.events_to_create++;
+      plan.event_inputs.push(input);
+      // 같은 파일 안의 중복도 한 번만 생성
+      existing_keys.add(key);
+    }
+  });
+
+  preview.summary.skipped = preview.skipped.length;
+  return plan;
+}
+
+/**
+ * iCalendar 가져오기 미리보기 (저장하지 않음)
+ */
+export async function previewIcsImport(
+  user_id: string,
+  ics_text: string,
+  options: IcsImportOptions = {},
+  timezone?: string | null
+): Promise<IcsImportPreview> {
+  const plan = await buildImportPlan(
+    user_id,
+    ics_text,
+    options,
+    resolveTimezone(timezone)
+  );
+  return plan.preview;
+}
+
+/**
+ * iCalendar 가져오기 실행
+ * - 근무표는 batchUpsertWorkShifts와 같은 경로로 저장 (날짜별 유효 버전 적용)
+ * - 중복 일정과 변경 없는 근무는 건너뜀
+ * - 근무표와 일정을 한 트랜잭션으로 저장 (일부 실패 시 전체 미저장)
+ */
+export async function importIcs(
+  user_id: string,
+  ics_text: string,
+  options: IcsImportOptions = {},
+  timezone?: string | null
+): Promise<{
+  preview: IcsImportPreview;
+  events: Awaited<ReturnType<typeof bulkCreateEvents>>;
+  work_shifts: Awaited<ReturnType<typeof batchUpsertWorkShifts>>;
+}> {
+  const resolved_timezone = resolveTimezone(timezone);
+
+  return sequelize.transaction(async (transaction) => {
+    const plan = await buildImportPlan(
+      user_id,
+      ics_text,
+      options,
+      resolved_timezone,
+      transaction
+    );
+
+    const work_shifts =
+      plan.work_shift_inputs.length > 0
+        ? await batchUpsertWorkShifts(
+            user_id,
+            plan.work_shift_inputs,
+            transaction
+          )
+        : [];
+
+    const events =
+      plan.event_inputs.length > 0
+        ? await bulkCreateEvents(
+            user_id,
+            plan.event_inputs,
+            resolved_timezone,
+            transaction
+          )
+        : [];
+
+    return { preview: plan.preview, events, work_shifts };
+  });
+}
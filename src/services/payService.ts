@@ -0,0 +1,505 @@
+import { Op } from "sequelize";
+import { ShiftPayRule, ShiftType } from "../models";
+import { WorkShiftTimeItem, getWorkShiftTimes } from "./calendarService";
+import { getHolidays } from "./holidayService";
+import {
+  getActiveTemplate,
+  getTemplatesForDates,
+} from "./shiftTemplateService";
+import {
+  addDays,
+  getDayOfWeek,
+  getDaysInMonth,
+  timeToMinutes,
+} from "../utils/dateUtils";
+
+const MINUTES_PER_DAY = 1440;
+
+// ============================================================
+// 타입 정의
+// ============================================================
+export interface PayRuleItem {
+  pay_rule_id: string;
+  template_id: string;
+  base_hourly_wage: number;
+  night_start_time: string; // HH:mm
+  night_end_time: string; // HH:mm
+  night_multiplier: number;
+  holiday_multiplier: number;
+  holiday_weekdays: number[];
+  shift_allowances: Record<string, number>;
+  updated_at: Date;
+}
+
+export interface PayRuleInput {
+  base_hourly_wage: number;
+  night_start_time?: string;
+  night_end_time?: string;
+  night_multiplier?: number;
+  holiday_multiplier?: number;
+  holiday_weekdays?: number[];
+  shift_allowances?: Record<string, number>;
+}
+
+// 가산 구간별 근무 시간 (분)
+export interface PayMinutes {
+  regular: number;
+  night: number;
+  holiday: number;
+  holiday_night: number;
+}
+
+export interface PayEstimateDay {
+  work_date: string;
+  template_id: string;
+  shift_type_code: string;
+  is_holiday: boolean;
+  minutes: PayMinutes;
+  allowance: number;
+  amount: number; // 수당 포함
+}
+
+// 급여 규칙이 없는 템플릿의 근무 (계산에서 제외)
+export interface PayEstimateSkippedDay {
+  work_date: string;
+  template_id: string | null;
+  shift_type_code: string;
+}
+
+export interface PayEstimate {
+  month: string; // YYYY-MM
+  rules: PayRuleItem[]; // 해당 월에 적용된 템플릿별 급여 규칙
+  minutes: PayMinutes & { total: number };
+  amounts: {
+    base: number; // 전체 근무 시간 × 기본 시급
+    night_premium: number;
+    holiday_premium: number;
+    allowances: number;
+    total: number;
+  };
+  by_shift_type: Array<{
+    shift_type_code: string;
+    count: number;
+    minutes: number;
+    amount: number;
+  }>;
+  days: PayEstimateDay[];
+  skipped_days: PayEstimateSkippedDay[];
+}
+
+// 급여 규칙별 계산 기준 (월 예상 급여 계산용)
+interface PayRuleContext {
+  rule: PayRuleItem;
+  night_windows: Array<{ start: number; end: number }>;
+  is_holiday: (date: string) => boolean;
+  minute_wage: number;
+  night_premium_rate: number;
+  holiday_premium_rate: number;
+}
+
+// ============================================================
+// 헬퍼 함수
+// ============================================================
+
+function formatPayRule(rule: ShiftPayRule): PayRuleItem {
+  return {
+    pay_rule_id: rule.pay_rule_id,
+    template_id: rule.template_id,
+    base_hourly_wage: rule.base_hourly_wage,
+    night_start_time: rule.night_start_time.slice(0, 5),
+    night_end_time: rule.night_end_time.slice(0, 5),
+    night_multiplier: rule.night_multiplier,
+    holiday_multiplier: rule.holiday_multiplier,
+    holiday_weekdays: rule.holiday_weekdays || [],
+    shift_allowances: rule.shift_allowances || {},
+    updated_at: rule.updated_at!,
+  };
+}
+
+async function findPayRule(user_id: string): Promise<ShiftPayRule> {
+  const template = await getActiveTemplate(user_id);
+  const rule = await ShiftPayRule.findOne({
+    where: { template_id: template.template_id },
+  });
+
+  if (!rule) {
+    throw new Error("PAY_RULE_NOT_FOUND");
+  }
+
+  return rule;
+}
+
+/**
+ * 근무일 자정 기준 야간 구간 목록 (분, 전날 밤 ~ 다음 날 밤까지)
+ */
+function getNightWindows(
+  night_start_time: string,
+  night_end_time: string
+): Array<{ start: number; end: number }> {
+  const night_start = timeToMinutes(night_start_time);
+  const night_end = timeToMinutes(night_end_time);
+  const windows: Array<{ start: number; end: number }> = [];
+
+  for (let day = -1; day <= 1; day++) {
+    const offset = day * MINUTES_PER_DAY;
+    windows.push(
+      night_start < night_end
+        ? { start: offset + night_start, end: offset + night_end }
+        : {
+            start: offset + night_start,
+            end: offset + MINUTES_PER_DAY + night_end,
+          }
+    );
+  }
+
+  return windows;
+}
+
+/**
+ * 근무 한 건의 시간을 가산 구간별로 분할
+ * - 자정을 넘기는 근무는 다음 날 부분을 다음 날의 휴일 여부로 계산
+ * - 시간표의 duration_minutes가 실제 근무 구간과 다르면 (휴게 시간 등) 비율로 환산
+ */
+function splitShiftMinutes(
+  work_shift: WorkShiftTimeItem & { start_time: string; end_time: string },
+  night_windows: Array<{ start: number; end: number }>,
+  is_holiday: (date: string) => boolean
+): PayMinutes {
+  const start = timeToMinutes(work_shift.start_time);
+  let end = timeToMinutes(work_shift.end_time);
+  if (work_shift.crosses_midnight || end <= start) {
+    end += MINUTES_PER_DAY;
+  }
+
+  // 구간 경계 (근무 시작/종료, 자정, 야간 시작/종료)
+  const boundaries = new Set<number>([start, end, MINUTES_PER_DAY]);
+  for (const window of night_windows) {
+    boundaries.add(window.start);
+    boundaries.add(window.end);
+  }
+  const points = [...boundaries]
+    .filter((point) => point >= start && point <= end)
+    .sort((a, b) => a - b);
+
+  const minutes = emptyMinutes();
+  const holiday_by_day = [
+    is_holiday(work_shift.work_date),
+    is_holiday(addDays(work_shift.work_date, 1)),
+  ];
+
+  for (let i = 0; i < points.length - 1; i++) {
+    const length = points[i + 1] - points[i];
+    const middle = points[i] + length / 2;
+    const night = night_windows.some(
+      (window) => middle > window.start && middle < window.end
+    );
+    const holiday = holiday_by_day[middle < MINUTES_PER_DAY ? 0 : 1];
+
+    if (night && holiday) {
+      minutes.holiday_night += length;
+    } else if (night) {
+      minutes.night += length;
+    } else if (holiday) {
+      minutes.holiday += length;
+    } else {
+      minutes.regular += length;
+    }
+  }
+
+  const span = end - start;
+  if (
+    work_shift.duration_minutes > 0 &&
+    work_shift.duration_minutes !== span
+  ) {
+    const ratio = work_shift.duration_minutes / span;
+    minutes.regular *= ratio;
+    minutes.night *= ratio;
+    minutes.holiday *= ratio;
+    minutes.holiday_night *= ratio;
+  }
+
+  return minutes;
+}
+
+function buildPayRuleContext(
+  rule: PayRuleItem,
+  holiday_dates: Set<string>
+): PayRuleContext {
+  const minute_wage = rule.base_hourly_wage / 60;
+
+  return {
+    rule,
+    night_windows: getNightWindows(rule.night_start_time, rule.night_end_time),
+    is_holiday: (date: string) =>
+      holiday_dates.has(date) ||
+      rule.holiday_weekdays.includes(getDayOfWeek(date)),
+    minute_wage,
+    night_premium_rate: minute_wage * (rule.night_multiplier - 1),
+    holiday_premium_rate: minute_wage * (rule.holiday_multiplier - 1),
+  };
+}
+
+function emptyMinutes(): PayMinutes {
+  return { regular: 0, night: 0, holiday: 0, holiday_night: 0 };
+}
+
+function roundMinutes(minutes: PayMinutes): PayMinutes {
+  return {
+    regular: Math.round(minutes.regular),
+    night: Math.round(minutes.night),
+    holiday: Math.round(minutes.holiday),
+    holiday_night: Math.round(minutes.holiday_night),
+  };
+}
+
+// ============================================================
+// 급여 규칙 관리
+// ============================================================
+
+/**
+ * 활성 템플릿의 급여 규칙 조회
+ */
+export async function getPayRule(user_id: string): Promise<PayRuleItem> {
+  return formatPayRule(await findPayRule(user_id));
+}
+
+/**
+ * 활성 템플릿의 급여 규칙 저장 (없으면 생성, 있으면 전체 교체)
+ * - 야간 시작/종료가 같으면 INVALID_NIGHT_WINDOW
+ * - 수당의 근무 타입 코드가 템플릿에 없으면 INVALID_SHIFT_TYPE (invalid_codes 포함)
+ */
+export async function savePayRule(
+  user_id: string,
+  data: PayRuleInput
+): Promise<PayRuleItem> {
+  const template = await getActiveTemplate(user_id);
+
+  const night_start_time = data.night_start_time ?? "22:00";
+  const night_end_time = data.night_end_time ?? "06:00";
+  if (timeToMinutes(night_start_time) === timeToMinutes(night_end_time)) {
+    throw new Error("INVALID_NIGHT_WINDOW");
+  }
+
+  const shift_allowances = data.shift_allowances ?? {};
+  const allowance_codes = Object.keys(shift_allowances);
+  if (allowance_codes.length > 0) {
+    const shift_types = await ShiftType.findAll({
+      where: {
+        template_id: template.template_id,
+        deleted_at: null,
+      },
+    });
+    const codes = new Set(shift_types.map((st) => st.code));
+    const invalid_codes = allowance_codes.filter((code) => !codes.has(code));
+
+    if (invalid_codes.length > 0) {
+      const error = new Error("INVALID_SHIFT_TYPE") as any;
+      error.invalid_codes = invalid_codes;
+      throw error;
+    }
+  }
+
+  const [rule] = await ShiftPayRule.upsert(
+    {
+      template_id: template.template_id,
+      base_hourly_wage: data.base_hourly_wage,
+      night_start_time,
+      night_end_time,
+      night_multiplier: data.night_multiplier ?? 1.5,
+      holiday_multiplier: data.holiday_multiplier ?? 1.5,
+      holiday_weekdays: [...new Set(data.holiday_weekdays ?? [0])].sort(),
+      shift_allowances,
+    },
+    {
+      returning: true,
+      conflictFields: ["template_id"],
+    }
+  );
+
+  return formatPayRule(rule);
+}
+
+/**
+ * 활성 템플릿의 급여 규칙 삭제
+ */
+export async function deletePayRule(user_id: string): Promise<void> {
+  const template = await getActiveTemplate(user_id);
+  const deleted = await ShiftPayRule.destroy({
+    where: { template_id: template.template_id },
+  });
+
+  if (deleted === 0) {
+    throw new Error("PAY_RULE_NOT_FOUND");
+  }
+}
+
+// ============================================================
+// 월 예상 급여 계산
+// ============================================================
+
+/**
+ * 월 예상 급여 계산
+ * - 근무 날짜에 적용되는 템플릿의 급여 규칙으로 근무마다 따로 계산
+ * - 급여 규칙이 없는 템플릿의 근무는 skipped_days로 반환하고 합계에서 제외
+ * - 해당 월에 적용되는 템플릿 중 급여 규칙이 있는 것이 없으면 PAY_RULE_NOT_FOUND
+ * - 시간 정보가 있는 근무만 근무 시간으로 계산, 수당은 근무 타입 코드별 1회씩
+ * - 분당 금액 = 기본 시급 / 60 × 배율 (휴일 야간은 야간·휴일 가산을 모두 적용)
+ * - 휴일: 규칙의 휴일 요일 또는 공휴일
+ */
+export async function getPayEstimate(
+  user_id: string,
+  month: string
+): Promise<PayEstimate> {
+  const [year, month_number] = month.split("-").map(Number);
+  const days_in_month = getDaysInMonth(year, month_number);
+  const start_date = `${month}-01`;
+  const end_date = addDays(start_date, days_in_month - 1);
+
+  const month_dates = Array.from({ length: days_in_month }, (_, i) =>
+    addDays(start_date, i)
+  );
+  const templates = await getTemplatesForDates(user_id, month_dates);
+  const template_ids = [
+    ...new Set([...templates.values()].map((t) => t.template_id)),
+  ];
+
+  const pay_rules = await ShiftPayRule.findAll({
+    where: { template_id: { [Op.in]: template_ids } },
+  });
+  if (pay_rules.length === 0) {
+    throw new Error("PAY_RULE_NOT_FOUND");
+  }
+
+  // 말일에 시작해 자정을 넘기는 근무를 위해 다음 날 공휴일까지 조회
+  const [work_shifts, holidays] = await Promise.all([
+    getWorkShiftTimes(user_id, start_date, end_date),
+    getHolidays(start_date, addDays(end_date, 1)),
+  ]);
+  const holiday_dates = new Set(holidays.map((h) => h.date));
+
+  const context_by_template = new Map(
+    pay_rules.map((pay_rule) => [
+      pay_rule.template_id,
+      buildPayRuleContext(formatPayRule(pay_rule), holiday_dates),
+    ])
+  );
+
+  const totals = emptyMinutes();
+  const amounts = {
+    base: 0,
+    night_premium: 0,
+    holiday_premium: 0,
+    allowances: 0,
+    total: 0,
+  };
+  const by_shift_type = new Map<
+    string,
+    { shift_type_code: string; count: number; minutes: number; amount: number }
+  >();
+  const days: PayEstimateDay[] = [];
+  const skipped_days: PayEstimateSkippedDay[] = [];
+
+  for (const work_shift of work_shifts) {
+    const template_id =
+      templates.get(work_shift.work_date)?.template_id ?? null;
+    const context = template_id
+      ? context_by_template.get(template_id)
+      : undefined;
+    if (!template_id || !context) {
+      skipped_days.push({
+        work_date: work_shift.work_date,
+        template_id,
+        shift_type_code: work_shift.shift_type_code,
+      });
+      continue;
+    }
+
+    const { rule, night_windows, is_holiday } = context;
+    const minutes: PayMinutes =
+      work_shift.start_time && work_shift.end_time
+        ? splitShiftMinutes(
+            work_shift as WorkShiftTimeItem & {
+              start_time: string;
+              end_time: string;
+            },
+            night_windows,
+            is_holiday
+          )
+        : emptyMinutes();
+
+    const worked =
+      minutes.regular + minutes.night + minutes.holiday + minutes.holiday_night;
+    const base = worked * context.minute_wage;
+    const night_premium =
+      (minutes.night + minutes.holiday_night) * context.night_premium_rate;
+    const holiday_premium =
+      (minutes.holiday + minutes.holiday_night) *
+      context.holiday_premium_rate;
+    const allowance = rule.shift_allowances[work_shift.shift_type_code] ?? 0;
+    const amount = base + night_premium + holiday_premium + allowance;
+
+    totals.regular += minutes.regular;
+    totals.night += minutes.night;
+    totals.holiday += minutes.holiday;
+    totals.holiday_night += minutes.holiday_night;
+    amounts.base += base;
+    amounts.night_premium += night_premium;
+    amounts.holiday_premium += holiday_premium;
+    amounts.allowances += allowance;
+
+    const stats = by_shift_type.get(work_shift.shift_type_code) ?? {
+      shift_type_code: work_shift.shift_type_code,
+      count: 0,
+      minutes: 0,
+      amount: 0,
+    };
+    stats.count += 1;
+    stats.minutes += worked;
+    stats.amount += amount;
+    by_shift_type.set(work_shift.shift_type_code, stats);
+
+    days.push({
+      work_date: work_shift.work_date,
+      template_id,
+      shift_type_code: work_shift.shift_type_code,
+      is_holiday: is_holiday(work_shift.work_date),
+      minutes: roundMinutes(minutes),
+      allowance,
+      amount: Math.round(amount),
+    });
+  }
+
+  const rounded_totals = roundMinutes(totals);
+  const base = Math.round(amounts.base);
+  const night_premium = Math.round(amounts.night_premium);
+  const holiday_premium = Math.round(amounts.holiday_premium);
+
+  return {
+    month,
+    rules: [...context_by_template.values()].map((context) => context.rule),
+    minutes: {
+      ...rounded_totals,
+      total:
+        rounded_totals.regular +
+        rounded_totals.night +
+        rounded_totals.holiday +
+        rounded_totals.holiday_night,
+    },
+    amounts: {
+      base,
+      night_premium,
+      holiday_premium,
+      allowances: amounts.allowances,
+      total: base + night_premium + holiday_premium + amounts.allowances,
+    },
+    by_shift_type: [...by_shift_type.values()]
+      .map((stats) => ({
+        ...stats,
+        minutes: Math.round(stats.minutes),
+        amount: Math.round(stats.amount),
+      }))
+      .sort((a, b) => a.shift_type_code.localeCompare(b.shift_type_code)),
+    days,
+    skipped_days,
+  };
+}
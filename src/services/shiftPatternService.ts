@@ -0,0 +1,371 @@
+import { Op } from "sequelize";
+import { ShiftRotationPattern, ShiftTemplate, ShiftType } from "../models";
+import { batchUpsertWorkShifts, getWorkShiftTimes } from "./calendarService";
+import { getActiveTemplate } from "./shiftTemplateService";
+import { addDays, diffDays } from "../utils/dateUtils";
+
+// 패턴 최대 길이 (순환 주기 일수)
+const MAX_PATTERN_LENGTH = 62;
+// 한 번에 적용할 수 있는 최대 일수
+const MAX_APPLY_DAYS = 366;
+
+// ============================================================
+// 타입 정의
+// ============================================================
+export interface ShiftPatternItem {
+  pattern_id: string;
+  name: string;
+  shift_type_codes: Array<string | null>; // 삭제된 근무 타입은 null
+  cycle_length: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export type PatternExistingMode = "SKIP" | "OVERWRITE";
+
+export interface PatternApplyPreview {
+  pattern_id: string;
+  start_date: string;
+  end_date: string;
+  on_existing: PatternExistingMode;
+  days: Array<{
+    work_date: string;
+    shift_type_code: string;
+    previous_shift_type_code: string | null;
+    action: "CREATE" | "UPDATE" | "SKIP" | "UNCHANGED";
+  }>;
+  summary: {
+    create: number;
+    update: number;
+    skip: number;
+    unchanged: number;
+  };
+}
+
+// ============================================================
+// 헬퍼 함수
+// ============================================================
+
+/**
+ * 템플릿의 근무 타입 조회 (ID → 근무 타입)
+ */
+async function getShiftTypeMap(
+  template_id: string
+): Promise<Map<string, ShiftType>> {
+  const shift_types = await ShiftType.findAll({
+    where: {
+      template_id,
+      deleted_at: null,
+    },
+  });
+  return new Map(shift_types.map((st) => [st.shift_type_id, st]));
+}
+
+/**
+ * 근무 타입 코드 목록을 ID 목록으로 변환
+ * - 템플릿에 없는 코드가 있으면 INVALID_SHIFT_TYPE 에러 (invalid_codes 포함)
+ */
+async function resolveShiftTypeIds(
+  template_id: string,
+  shift_type_codes: string[]
+): Promise<string[]> {
+  if (
+    shift_type_codes.length === 0 ||
+    shift_type_codes.length > MAX_PATTERN_LENGTH
+  ) {
+    throw new Error("INVALID_PATTERN_LENGTH");
+  }
+
+  const shift_types = await getShiftTypeMap(template_id);
+  const id_by_code = new Map(
+    [...shift_types.values()].map((st) => [st.code, st.shift_type_id])
+  );
+
+  const invalid_codes = shift_type_codes.filter(
+    (code) => !id_by_code.has(code)
+  );
+  if (invalid_codes.length > 0) {
+    const error = new Error("INVALID_SHIFT_TYPE") as any;
+    error.invalid_codes = [...new Set(invalid_codes)];
+    throw error;
+  }
+
+  return shift_type_codes.map((code) => id_by_code.get(code)!);
+}
+
+/**
+ * 패턴의 근무 타입 ID를 현재 코드로 변환
+ * - 삭제된 근무 타입이 포함되어 있으면 PATTERN_SHIFT_TYPE_DELETED 에러
+ */
+function toShiftTypeCodes(
+  pattern: ShiftRotationPattern,
+  shift_types: Map<string, ShiftType>
+): string[] {
+  return pattern.shift_type_ids.map((id) => {
+    const shift_type = shift_types.get(id);
+    if (!shift_type) {
+      throw new Error("PATTERN_SHIFT_TYPE_DELETED");
+    }
+    return shift_type.code;
+  });
+}
+
+function formatPattern(
+  pattern: ShiftRotationPattern,
+  shift_types: Map<string, ShiftType>
+): ShiftPatternItem {
+  return {
+    pattern_id: pattern.pattern_id,
+    name: pattern.name,
+    shift_type_codes: pattern.shift_type_ids.map(
+      (id) => shift_types.get(id)?.code ?? null
+    ),
+    cycle_length: pattern.shift_type_ids.length,
+    created_at: pattern.created_at!,
+    updated_at: pattern.updated_at!,
+  };
+}
+
+async function findPattern(
+  user_id: string,
+  pattern_id: string
+): Promise<{ template: ShiftTemplate; pattern: ShiftRotationPattern }> {
+  const template = await getActiveTemplate(user_id);
+  const pattern = await ShiftRotationPattern.findOne({
+    where: {
+      pattern_id,
+      template_id: template.template_id,
+      deleted_at: null,
+    },
+  });
+
+  if (!pattern) {
+    throw new Error("PATTERN_NOT_FOUND");
+  }
+
+  return { template, pattern };
+}
+
+async function assertUniqueName(
+  template_id: string,
+  name: string,
+  exclude_pattern_id?: string
+): Promise<void> {
+  const existing = await ShiftRotationPattern.findOne({
+    where: {
+      template_id,
+      name,
+      deleted_at: null,
+      ...(exclude_pattern_id && {
+        pattern_id: { [Op.ne]: exclude_pattern_id },
+      }),
+    },
+  });
+
+  if (existing) {
+    throw new Error("DUPLICATE_NAME");
+  }
+}
+
+// ============================================================
+// 패턴 관리
+// ============================================================
+
+/**
+ * 활성 템플릿의 근무 패턴 목록 조회
+ */
+export async function getPatterns(
+  user_id: string
+): Promise<ShiftPatternItem[]> {
+  const template = await getActiveTemplate(user_id);
+  const [patterns, shift_types] = await Promise.all([
+    ShiftRotationPattern.findAll({
+      where: {
+        template_id: template.template_id,
+        deleted_at: null,
+      },
+      order: [["created_at", "ASC"]],
+    }),
+    getShiftTypeMap(template.template_id),
+  ]);
+
+  return patterns.map((pattern) => formatPattern(pattern, shift_types));
+}
+
+/**
+ * 근무 패턴 생성
+ */
+export async function createPattern(
+  user_id: string,
+  data: { name: string; shift_type_codes: string[] }
+): Promise<ShiftPatternItem> {
+  const template = await getActiveTemplate(user_id);
+  await assertUniqueName(template.template_id, data.name);
+
+  const shift_type_ids = await resolveShiftTypeIds(
+    template.template_id,
+    data.shift_type_codes
+  );
+
+  const pattern = await ShiftRotationPattern.create({
+    template_id: template.template_id,
+    owner_user_id: user_id,
+    name: data.name,
+    shift_type_ids,
+  });
+
+  return formatPattern(pattern, await getShiftTypeMap(template.template_id));
+}
+
+/**
+ * 근무 패턴 수정 (전달된 필드만 변경)
+ */
+export async function updatePattern(
+  user_id: string,
+  pattern_id: string,
+  data: { name?: string; shift_type_codes?: string[] }
+): Promise<ShiftPatternItem> {
+  const { template, pattern } = await findPattern(user_id, pattern_id);
+
+  if (data.name !== undefined && data.name !== pattern.name) {
+    await assertUniqueName(template.template_id, data.name, pattern_id);
+    pattern.name = data.name;
+  }
+
+  if (data.shift_type_codes !== undefined) {
+    pattern.shift_type_ids = await resolveShiftTypeIds(
+      template.template_id,
+      data.shift_type_codes
+    );
+  }
+
+  await pattern.save();
+
+  return formatPattern(pattern, await getShiftTypeMap(template.template_id));
+}
+
+/**
+ * 근무 패턴 삭제 (Soft Delete)
+ */
+export async function deletePattern(
+  user_id: string,
+  pattern_id: string
+): Promise<void> {
+  const { pattern } = await findPattern(user_id, pattern_id);
+  await pattern.update({ deleted_at: new Date() });
+}
+
+// ============================================================
+// 패턴 적용
+// ============================================================
+
+/**
+ * 근무 패턴을 기간에 적용
+ * - start_date부터 days일 또는 end_date까지 순환 배치 (start_index: 시작할 패턴 위치)
+ * - on_existing: SKIP이면 이미 근무가 있는 날은 유지, OVERWRITE면 덮어씀
+ * - dry_run이면 저장하지 않고 변경 내역만 반환
+ * - 저장은 batchUpsertWorkShifts 경로 사용 (날짜별 유효 템플릿 버전 적용)
+ */
+export async function applyPattern(
+  user_id: string,
+  pattern_id: string,
+  options: {
+    start_date: string;
+    end_date?: string;
+    days?: number;
+    start_index?: number;
+    on_existing?: PatternExistingMode;
+    dry_run?: boolean;
+  }
+): Promise<{
+  preview: PatternApplyPreview;
+  work_shifts: Awaited<ReturnType<typeof batchUpsertWorkShifts>>;
+}> {
+  const { template, pattern } = await findPattern(user_id, pattern_id);
+  const codes = toShiftTypeCodes(
+    pattern,
+    await getShiftTypeMap(template.template_id)
+  );
+
+  const start_date = options.start_date;
+  const end_date =
+    options.end_date ??
+    (options.days !== undefined
+      ? addDays(start_date, options.days - 1)
+      : null);
+  if (!end_date) {
+    throw new Error("INVALID_DATE_RANGE");
+  }
+
+  const day_count = diffDays(start_date, end_date) + 1;
+  if (day_count < 1) {
+    throw new Error("INVALID_DATE_RANGE");
+  }
+  if (day_count > MAX_APPLY_DAYS) {
+    throw new Error("DATE_RANGE_TOO_LARGE");
+  }
+
+  const start_index = options.start_index ?? 0;
+  if (
+    !Number.isInteger(start_index) ||
+    start_index < 0 ||
+    start_index >= codes.length
+  ) {
+    throw new Error("INVALID_START_INDEX");
+  }
+
+  const on_existing = options.on_existing ?? "SKIP";
+  const existing = await getWorkShiftTimes(user_id, start_date, end_date);
+  const existing_codes = new Map(
+    existing.map((ws) => [ws.work_date, ws.shift_type_code])
+  );
+
+  const preview: PatternApplyPreview = {
+    pattern_id,
+    start_date,
+    end_date,
+    on_existing,
+    days: [],
+    summary: { create: 0, update: 0, skip: 0, unchanged: 0 },
+  };
+  const to_save: Array<{ work_date: string; shift_type_code: string }> = [];
+
+  for (let i = 0; i < day_count; i++) {
+    const work_date = addDays(start_date, i);
+    const shift_type_code = codes[(start_index + i) % codes.length];
+    const previous = existing_codes.get(work_date) ?? null;
+
+    let action: PatternApplyPreview["days"][number]["action"];
+    if (previous === null) {
+      action = "CREATE";
+    } else if (previous === shift_type_code) {
+      action = "UNCHANGED";
+    } else if (on_existing === "SKIP") {
+      action = "SKIP";
+    } else {
+      action = "UPDATE";
+    }
+
+    preview.days.push({
+      work_date,
+      shift_type_code,
+      previous_shift_type_code: previous,
+      action,
+    });
+    preview.summary[
+      action.toLowerCase() as keyof PatternApplyPreview["summary"]
+    ]++;
+
+    if (action === "CREATE" || action === "UPDATE") {
+      to_save.push({ work_date, shift_type_code });
+    }
+  }
+
+  if (options.dry_run || to_save.length === 0) {
+    return { preview, work_shifts: [] };
+  }
+
+  const work_shifts = await batchUpsertWorkShifts(user_id, to_save);
+
+  return { preview, work_shifts };
+}
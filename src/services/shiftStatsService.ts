@@ -0,0 +1,224 @@
+import { WorkShiftTimeItem, getWorkShiftTimes } from "./calendarService";
+import { HolidayItem, getHolidays } from "./holidayService";
+import { addDays, diffDays, getDayOfWeek } from "../utils/dateUtils";
+
+// 통계 조회 최대 기간 (일)
+export const MAX_STATS_RANGE_DAYS = 366;
+
+// ============================================================
+// 타입 정의
+// ============================================================
+export type StatsGroupBy = "month" | "week";
+
+export interface ShiftTypeStats {
+  shift_type_code: string;
+  shift_type_name: string;
+  count: number;
+  total_minutes: number;
+}
+
+export interface WorkStreak {
+  start_date: string;
+  end_date: string;
+  days: number;
+}
+
+export interface ShiftStatsBucket {
+  start_date: string;
+  end_date: string;
+  total_days: number;
+  work_days: number; // 시간 정보가 있는 근무가 있는 날
+  off_days: number; // 근무가 없거나 시간 정보가 없는 근무(OFF 등)인 날
+  total_minutes: number;
+  night_shift_count: number; // 자정을 넘기는 근무 수
+  holiday_days: number; // 공휴일 수
+  holiday_work_days: number; // 공휴일에 근무한 날
+  longest_work_streak: number;
+  by_shift_type: ShiftTypeStats[];
+}
+
+export interface ShiftStatsPeriod extends ShiftStatsBucket {
+  period: string; // 월: YYYY-MM, 주: 해당 주 월요일 (YYYY-MM-DD)
+}
+
+export interface ShiftStatistics {
+  group_by: StatsGroupBy;
+  summary: ShiftStatsBucket & { work_streaks: WorkStreak[] };
+  periods: ShiftStatsPeriod[];
+  holidays: HolidayItem[];
+}
+
+// ============================================================
+// 헬퍼 함수
+// ============================================================
+
+function isWorkDay(work_shift: WorkShiftTimeItem | undefined): boolean {
+  return Boolean(work_shift?.start_time && work_shift?.end_time);
+}
+
+/**
+ * 날짜가 속한 기간 키 (월: YYYY-MM, 주: 해당 주 월요일)
+ */
+function getPeriodKey(date: string, group_by: StatsGroupBy): string {
+  if (group_by === "month") {
+    return date.slice(0, 7);
+  }
+  return addDays(date, -((getDayOfWeek(date) + 6) % 7));
+}
+
+/**
+ * 연속 근무 구간 (2일 이상)
+ */
+function getWorkStreaks(
+  dates: string[],
+  shifts_by_date: Map<string, WorkShiftTimeItem>
+): WorkStreak[] {
+  const streaks: WorkStreak[] = [];
+  let streak_start: string | null = null;
+  let prev_date: string | null = null;
+
+  const close = () => {
+    if (streak_start && prev_date) {
+      const days = diffDays(streak_start, prev_date) + 1;
+      if (days >= 2) {
+        streaks.push({ start_date: streak_start, end_date: prev_date, days });
+      }
+    }
+    streak_start = null;
+  };
+
+  for (const date of dates) {
+    if (isWorkDay(shifts_by_date.get(date))) {
+      streak_start = streak_start ?? date;
+    } else {
+      close();
+    }
+    prev_date = date;
+  }
+  close();
+
+  return streaks;
+}
+
+/**
+ * 날짜 목록에 대한 통계 집계
+ */
+function aggregate(
+  dates: string[],
+  shifts_by_date: Map<string, WorkShiftTimeItem>,
+  holiday_dates: Set<string>
+): ShiftStatsBucket {
+  const by_shift_type = new Map<string, ShiftTypeStats>();
+  let work_days = 0;
+  let total_minutes = 0;
+  let night_shift_count = 0;
+  let holiday_days = 0;
+  let holiday_work_days = 0;
+  let longest_work_streak = 0;
+  let current_streak = 0;
+
+  for (const date of dates) {
+    const work_shift = shifts_by_date.get(date);
+
+    if (work_shift) {
+      const stats = by_shift_type.get(work_shift.shift_type_code) ?? {
+        shift_type_code: work_shift.shift_type_code,
+        shift_type_name: work_shift.shift_type_name,
+        count: 0,
+        total_minutes: 0,
+      };
+      stats.count += 1;
+      stats.total_minutes += work_shift.duration_minutes;
+      by_shift_type.set(work_shift.shift_type_code, stats);
+
+      total_minutes += work_shift.duration_minutes;
+      if (work_shift.crosses_midnight) {
+        night_shift_count += 1;
+      }
+    }
+
+    const is_holiday = holiday_dates.has(date);
+    if (is_holiday) {
+      holiday_days += 1;
+    }
+
+    if (isWorkDay(work_shift)) {
+      work_days += 1;
+      if (is_holiday) {
+        holiday_work_days += 1;
+      }
+      current_streak += 1;
+      longest_work_streak = Math.max(longest_work_streak, current_streak);
+    } else {
+      current_streak = 0;
+    }
+  }
+
+  return {
+    start_date: dates[0],
+    end_date: dates[dates.length - 1],
+    total_days: dates.length,
+    work_days,
+    off_days: dates.length - work_days,
+    total_minutes,
+    night_shift_count,
+    holiday_days,
+    holiday_work_days,
+    longest_work_streak,
+    by_shift_type: [...by_shift_type.values()].sort((a, b) =>
+      a.shift_type_code.localeCompare(b.shift_type_code)
+    ),
+  };
+}
+
+// ============================================================
+// 근무 통계 조회
+// ============================================================
+
+/**
+ * 기간별 근무 통계 (월/주 단위)
+ * - 기간은 조회 범위에 맞게 잘라서 집계 (첫/마지막 기간은 일부만 포함될 수 있음)
+ * - 근무 시간은 근무 날짜의 시간표 duration_minutes 기준
+ */
+export async function getShiftStatistics(
+  user_id: string,
+  start_date: string,
+  end_date: string,
+  group_by: StatsGroupBy = "month"
+): Promise<ShiftStatistics> {
+  const [work_shifts, holidays] = await Promise.all([
+    getWorkShiftTimes(user_id, start_date, end_date),
+    getHolidays(start_date, end_date),
+  ]);
+  const shifts_by_date = new Map(work_shifts.map((ws) => [ws.work_date, ws]));
+  const holiday_dates = new Set(holidays.map((h) => h.date));
+
+  const dates: string[] = [];
+  for (let date = start_date; date <= end_date; date = addDays(date, 1)) {
+    dates.push(date);
+  }
+
+  // 기간별로 날짜 묶기
+  const period_dates = new Map<string, string[]>();
+  for (const date of dates) {
+    const period = getPeriodKey(date, group_by);
+    const list = period_dates.get(period) ?? [];
+    list.push(date);
+    period_dates.set(period, list);
+  }
+
+  const periods = [...period_dates.entries()].map(([period, list]) => ({
+    period,
+    ...aggregate(list, shifts_by_date, holiday_dates),
+  }));
+
+  return {
+    group_by,
+    summary: {
+      ...aggregate(dates, shifts_by_date, holiday_dates),
+      work_streaks: getWorkStreaks(dates, shifts_by_date),
+    },
+    periods,
+    holidays,
+  };
+}
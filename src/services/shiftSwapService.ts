@@ -0,0 +1,705 @@
+import { Op, Transaction } from "sequelize";
+import { sequelize } from "../config/database";
+import {
+  User,
+  Notification,
+  ShiftSwapRequest,
+  ShiftType,
+  ShiftTypeSchedule,
+  WorkShift,
+} from "../models";
+import { ShiftSwapExpectedChange } from "../models/ShiftSwapRequest";
+import { batchUpsertWorkShifts } from "./calendarService";
+import { getTemplatesForDates } from "./shiftTemplateService";
+import {
+  getWorkShiftSnapshots,
+  recordWorkShiftChange,
+} from "./workShiftHistoryService";
+import { PaginationInfo, assertFriends } from "./friendService";
+
+// ============================================================
+// 에러 코드 상수
+// ============================================================
+export const ShiftSwapErrorCodes = {
+  SELF_REQUEST: "SELF_REQUEST",
+  NOT_FRIENDS: "NOT_FRIENDS",
+  USER_NOT_FOUND: "USER_NOT_FOUND",
+  SHIFT_NOT_FOUND: "SHIFT_NOT_FOUND",
+  SHIFT_TYPE_NOT_IN_TEMPLATE: "SHIFT_TYPE_NOT_IN_TEMPLATE",
+  SHIFT_CHANGED: "SHIFT_CHANGED",
+  PENDING_REQUEST_EXISTS: "PENDING_REQUEST_EXISTS",
+  REQUEST_NOT_FOUND: "REQUEST_NOT_FOUND",
+  NOT_ADDRESSEE: "NOT_ADDRESSEE",
+  NOT_REQUESTER: "NOT_REQUESTER",
+  NOT_PENDING: "NOT_PENDING",
+  INVALID_ACTION: "INVALID_ACTION",
+} as const;
+
+// ============================================================
+// 타입 정의
+// ============================================================
+export interface ShiftSwapRequestInfo {
+  swap_request_id: string;
+  requester_user_id: string;
+  addressee_user_id: string;
+  requester_date: string;
+  requester_shift_type_code: string;
+  addressee_date: string | null;
+  addressee_shift_type_code: string | null;
+  status: string;
+  message: string | null;
+  created_at: Date;
+  responded_at: Date | null;
+}
+
+// 교환 후 날짜별 근무 (null이면 근무 없음)
+export type ShiftSwapChange = ShiftSwapExpectedChange;
+
+// ============================================================
+// 헬퍼 함수
+// ============================================================
+
+function formatSwapRequest(request: ShiftSwapRequest): ShiftSwapRequestInfo {
+  return {
+    swap_request_id: request.swap_request_id,
+    requester_user_id: request.requester_user_id,
+    addressee_user_id: request.addressee_user_id,
+    requester_date: request.requester_date,
+    requester_shift_type_code: request.requester_shift_type_code,
+    addressee_date: request.addressee_date ?? null,
+    addressee_shift_type_code: request.addressee_shift_type_code ?? null,
+    status: request.status,
+    message: request.message ?? null,
+    created_at: request.created_at!,
+    responded_at: request.responded_at ?? null,
+  };
+}
+
+/**
+ * 날짜별 근무 타입 코드 조회 (삭제되지 않은 근무만)
+ */
+async function getShiftCodesByDate(
+  user_id: string,
+  dates: string[],
+  transaction?: Transaction
+): Promise<Map<string, string>> {
+  const work_shifts = await WorkShift.findAll({
+    where: {
+      owner_user_id: user_id,
+      work_date: { [Op.in]: dates },
+      deleted_at: null,
+    },
+    include: [
+      {
+        model: ShiftTypeSchedule,
+        as: "schedule",
+        required: true,
+        include: [
+          {
+            model: ShiftType,
+            as: "shift_type",
+            required: true,
+          },
+        ],
+      },
+    ],
+    transaction,
+  });
+
+  return new Map(
+    work_shifts.map((ws) => {
+      const schedule = (ws as any).schedule as ShiftTypeSchedule & {
+        shift_type?: ShiftType;
+      };
+      return [String(ws.work_date), schedule.shift_type!.code];
+    })
+  );
+}
+
+/**
+ * 날짜별로 적용되는 사용자 템플릿의 근무 타입 코드 목록 (날짜 → 코드 목록)
+ */
+async function getTemplateCodesByDate(
+  user_id: string,
+  dates: string[],
+  transaction?: Transaction
+): Promise<Map<string, Set<string>>> {
+  const templates = await getTemplatesForDates(user_id, dates, transaction);
+  const template_ids = [
+    ...new Set([...templates.values()].map((t) => t.template_id)),
+  ];
+
+  const shift_types = await ShiftType.findAll({
+    where: { template_id: { [Op.in]: template_ids }, deleted_at: null },
+    transaction,
+  });
+
+  return new Map(
+    dates.map((date) => {
+      const template_id = templates.get(date)?.template_id;
+      return [
+        date,
+        new Set(
+          shift_types
+            .filter((st) => st.template_id === template_id)
+            .map((st) => st.code)
+        ),
+      ];
+    })
+  );
+}
+
+function getSwapDates(request: {
+  requester_date: string;
+  addressee_date?: string | null;
+}): string[] {
+  return [
+    ...new Set(
+      [request.requester_date, request.addressee_date].filter(
+        (date): date is string => Boolean(date)
+      )
+    ),
+  ].sort();
+}
+
+/**
+ * 교환 결과 계산
+ * - 교환 대상 날짜마다 두 사람의 근무를 서로 맞바꿈
+ *   (넘겨준 근무 날짜에 상대방 근무가 있었다면 그 근무를 받아옴)
+ * - 받게 되는 근무 타입 코드가 각자의 템플릿에 없으면 SHIFT_TYPE_NOT_IN_TEMPLATE
+ */
+async function buildSwapChanges(
+  request: {
+    requester_user_id: string;
+    addressee_user_id: string;
+    requester_date: string;
+    addressee_date?: string | null;
+  },
+  transaction?: Transaction
+): Promise<{
+  changes: ShiftSwapChange[];
+  requester_codes: Map<string, string>;
+  addressee_codes: Map<string, string>;
+}> {
+  const dates = getSwapDates(request);
+  const [
+    requester_codes,
+    addressee_codes,
+    requester_template,
+    addressee_template,
+  ] = await Promise.all([
+    getShiftCodesByDate(request.requester_user_id, dates, transaction),
+    getShiftCodesByDate(request.addressee_user_id, dates, transaction),
+    getTemplateCodesByDate(request.requester_user_id, dates, transaction),
+    getTemplateCodesByDate(request.addressee_user_id, dates, transaction),
+  ]);
+
+  const changes = dates.map((work_date) => ({
+    work_date,
+    requester_shift_type_code: addressee_codes.get(work_date) ?? null,
+    addressee_shift_type_code: requester_codes.get(work_date) ?? null,
+  }));
+
+  for (const change of changes) {
+    if (
+      (change.requester_shift_type_code &&
+        !requester_template
+          .get(change.work_date)
+          ?.has(change.requester_shift_type_code)) ||
+      (change.addressee_shift_type_code &&
+        !addressee_template
+          .get(change.work_date)
+          ?.has(change.addressee_shift_type_code))
+    ) {
+      throw new Error(ShiftSwapErrorCodes.SHIFT_TYPE_NOT_IN_TEMPLATE);
+    }
+  }
+
+  return { changes, requester_codes, addressee_codes };
+}
+
+/**
+ * 요청 시점과 수락 시점의 교환 결과가 같은지 (모든 날짜의 양쪽 근무 비교)
+ */
+function isSameSwapChanges(
+  expected: ShiftSwapChange[],
+  actual: ShiftSwapChange[]
+): boolean {
+  return (
+    expected.length === actual.length &&
+    expected.every(
+      (change, index) =>
+        change.work_date === actual[index].work_date &&
+        change.requester_shift_type_code ===
+          actual[index].requester_shift_type_code &&
+        change.addressee_shift_type_code ===
+          actual[index].addressee_shift_type_code
+    )
+  );
+}
+
+/**
+ * 교환 결과를 한 사용자의 근무표에 반영
+ * - 받은 근무는 batchUpsertWorkShifts 경로로 저장, 넘겨주고 받은 근무가 없는 날은 삭제
+ * - 삭제도 변경 이력에 기록
+ */
+async function applySwapChanges(
+  owner_user_id: string,
+  changes: Array<{ work_date: string; shift_type_code: string | null }>,
+  changed_by_user_id: string,
+  transaction: Transaction
+): Promise<void> {
+  const upserts = changes
+    .filter((c) => c.shift_type_code !== null)
+    .map((c) => ({
+      work_date: c.work_date,
+      shift_type_code: c.shift_type_code!,
+    }));
+  const removed_dates = changes
+    .filter((c) => c.shift_type_code === null)
+    .map((c) => c.work_date);
+
+  if (upserts.length > 0) {
+    await batchUpsertWorkShifts(
+      owner_user_id,
+      upserts,
+      transaction,
+      changed_by_user_id
+    );
+  }
+
+  if (removed_dates.length > 0) {
+    const snapshots = await getWorkShiftSnapshots(
+      owner_user_id,
+      removed_dates,
+      transaction
+    );
+
+    for (const [work_date, snapshot] of snapshots) {
+      if (!snapshot.state) {
+        continue;
+      }
+
+      await WorkShift.update(
+        {
+          deleted_at: new Date(),
+          deleted_by_user_id: changed_by_user_id,
+        },
+        {
+          where: { work_shift_id: snapshot.work_shift_id },
+          transaction,
+        }
+      );
+      await recordWorkShiftChange(
+        {
+          work_shift_id: snapshot.work_shift_id,
+          owner_user_id,
+          work_date,
+          before: snapshot.state,
+          after: null,
+          changed_by_user_id,
+        },
+        transaction
+      );
+    }
+  }
+}
+
+// ============================================================
+// 근무 교환 요청 보내기
+// ============================================================
+
+/**
+ * 근무 교환 요청
+ * - requester_date: 내가 넘겨줄 근무 날짜 (근무가 있어야 함)
+ * - addressee_date: 받아올 친구 근무 날짜 (없으면 넘겨주기만, 친구 근무가 있어야 함)
+ */
+export async function sendSwapRequest(
+  requester_user_id: string,
+  data: {
+    addressee_user_id: string;
+    requester_date: string;
+    addressee_date?: string | null;
+    message?: string | null;
+  }
+): Promise<{ request: ShiftSwapRequestInfo; changes: ShiftSwapChange[] }> {
+  const { addressee_user_id, requester_date } = data;
+  const addressee_date = data.addressee_date ?? null;
+
+  // 1. 자기 자신 체크
+  if (requester_user_id === addressee_user_id) {
+    throw new Error(ShiftSwapErrorCodes.SELF_REQUEST);
+  }
+
+  // 2. 대상 사용자 및 친구 관계 확인
+  const addressee = await User.findByPk(addressee_user_id);
+  if (!addressee) {
+    throw new Error(ShiftSwapErrorCodes.USER_NOT_FOUND);
+  }
+  await assertFriends(requester_user_id, addressee_user_id);
+
+  // 3. 교환할 근무 확인 및 결과 계산
+  const { changes, requester_codes, addressee_codes } = await buildSwapChanges({
+    requester_user_id,
+    addressee_user_id,
+    requester_date,
+    addressee_date,
+  });
+
+  const requester_shift_type_code = requester_codes.get(requester_date);
+  const addressee_shift_type_code = addressee_date
+    ? addressee_codes.get(addressee_date)
+    : null;
+  if (
+    !requester_shift_type_code ||
+    (addressee_date && !addressee_shift_type_code)
+  ) {
+    throw new Error(ShiftSwapErrorCodes.SHIFT_NOT_FOUND);
+  }
+
+  // 4. 같은 날짜에 대기 중인 요청이 있는지 확인
+  const pending_request = await ShiftSwapRequest.findOne({
+    where: {
+      requester_user_id,
+      addressee_user_id,
+      requester_date,
+      status: "PENDING",
+    },
+  });
+  if (pending_request) {
+    throw new Error(ShiftSwapErrorCodes.PENDING_REQUEST_EXISTS);
+  }
+
+  // 5. 요청 생성
+  const request = await ShiftSwapRequest.create({
+    requester_user_id,
+    addressee_user_id,
+    requester_date,
+    requester_shift_type_code,
+    addressee_date,
+    addressee_shift_type_code: addressee_shift_type_code ?? null,
+    expected_changes: changes,
+    message: data.message ?? null,
+  });
+
+  // 6. 알림 생성 (요청 받은 사람에게)
+  const requester = await User.findByPk(requester_user_id);
+  await createSwapRequestNotification(addressee_user_id, request, requester!);
+
+  return { request: formatSwapRequest(request), changes };
+}
+
+// ============================================================
+// 근무 교환 요청 목록 조회
+// ============================================================
+export async function getSwapRequests(
+  user_id: string,
+  direction: "received" | "sent",
+  status?: string,
+  page: number = 1,
+  limit: number = 20
+): Promise<{
+  requests: Array<
+    ShiftSwapRequestInfo & {
+      counterpart: {
+        user_id: string;
+        name: string;
+        profile_image_url: string | null;
+      };
+    }
+  >;
+  pagination: PaginationInfo;
+}> {
+  const offset = (page - 1) * limit;
+  const counterpart_alias = direction === "received" ? "requester" : "addressee";
+  const where_condition: Record<string, unknown> =
+    direction === "received"
+      ? { addressee_user_id: user_id }
+      : { requester_user_id: user_id };
+
+  if (status) {
+    where_condition.status = status;
+  }
+
+  const { count, rows } = await ShiftSwapRequest.findAndCountAll({
+    where: where_condition,
+    include: [
+      {
+        model: User,
+        as: counterpart_alias,
+        attributes: ["user_id", "name", "profile_image_url"],
+      },
+    ],
+    order: [["created_at", "DESC"]],
+    limit,
+    offset,
+  });
+
+  const requests = rows.map((row) => {
+    const counterpart = row[counterpart_alias]!;
+    return {
+      ...formatSwapRequest(row),
+      counterpart: {
+        user_id: counterpart.user_id,
+        name: counterpart.name,
+        profile_image_url: counterpart.profile_image_url ?? null,
+      },
+    };
+  });
+
+  return {
+    requests,
+    pagination: {
+      page,
+      limit,
+      total: count,
+      total_pages: Math.ceil(count / limit),
+    },
+  };
+}
+
+// ============================================================
+// 근무 교환 요청 응답 (수락/거절)
+// ============================================================
+
+/**
+ * 근무 교환 요청 응답
+ * - 수락 시 두 사람의 근무표를 하나의 트랜잭션에서 변경
+ *   (변경된 근무의 created_by_user_id는 수락한 사용자)
+ * - 요청 이후 두 사람의 교환 대상 날짜 근무 중 하나라도 바뀌었으면 SHIFT_CHANGED
+ * - 수락 시점에 친구가 아니면 NOT_FRIENDS
+ */
+export async function respondToSwapRequest(
+  user_id: string,
+  swap_request_id: string,
+  action: "accept" | "reject"
+): Promise<{ request: ShiftSwapRequestInfo; changes: ShiftSwapChange[] }> {
+  // 1. 액션 유효성 검사
+  if (action !== "accept" && action !== "reject") {
+    throw new Error(ShiftSwapErrorCodes.INVALID_ACTION);
+  }
+
+  let changes: ShiftSwapChange[] = [];
+
+  const request = await sequelize.transaction(async (transaction) => {
+    // 2. 요청 조회 (동시 응답 방지를 위해 잠금)
+    const request = await ShiftSwapRequest.findByPk(swap_request_id, {
+      transaction,
+      lock: transaction.LOCK.UPDATE,
+    });
+
+    if (!request) {
+      throw new Error(ShiftSwapErrorCodes.REQUEST_NOT_FOUND);
+    }
+    if (request.addressee_user_id !== user_id) {
+      throw new Error(ShiftSwapErrorCodes.NOT_ADDRESSEE);
+    }
+    if (request.status !== "PENDING") {
+      throw new Error(ShiftSwapErrorCodes.NOT_PENDING);
+    }
+
+    if (action === "accept") {
+      // 3. 요청 이후 친구 관계가 끊기거나 근무가 바뀌지 않았는지 확인
+      await assertFriends(
+        request.requester_user_id,
+        request.addressee_user_id,
+        transaction
+      );
+
+      const swap = await buildSwapChanges(request, transaction);
+      const addressee_date = request.addressee_date ?? null;
+      if (
+        swap.requester_codes.get(request.requester_date) !==
+          request.requester_shift_type_code ||
+        (addressee_date &&
+          swap.addressee_codes.get(addressee_date) !==
+            request.addressee_shift_type_code) ||
+        // 맞바뀌는 상대방 근무까지 비교 (교환 결과가 저장되지 않은 이전 요청은 생략)
+        (request.expected_changes &&
+          !isSameSwapChanges(request.expected_changes, swap.changes))
+      ) {
+        throw new Error(ShiftSwapErrorCodes.SHIFT_CHANGED);
+      }
+      changes = swap.changes;
+
+      // 4. 두 사람의 근무표 변경
+      await applySwapChanges(
+        request.requester_user_id,
+        changes.map((c) => ({
+          work_date: c.work_date,
+          shift_type_code: c.requester_shift_type_code,
+        })),
+        user_id,
+        transaction
+      );
+      await applySwapChanges(
+        request.addressee_user_id,
+        changes.map((c) => ({
+          work_date: c.work_date,
+          shift_type_code: c.addressee_shift_type_code,
+        })),
+        user_id,
+        transaction
+      );
+    }
+
+    // 5. 상태 업데이트
+    await request.update(
+      {
+        status: action === "accept" ? "ACCEPTED" : "REJECTED",
+        responded_at: new Date(),
+      },
+      { transaction }
+    );
+
+    return request;
+  });
+
+  // 6. 알림 생성 (수락 시 양쪽, 거절 시 요청자에게)
+  const [requester, addressee] = await Promise.all([
+    User.findByPk(request.requester_user_id),
+    User.findByPk(request.addressee_user_id),
+  ]);
+  if (action === "accept") {
+    await createSwapAcceptedNotifications(request, requester!, addressee!);
+  } else {
+    await createSwapRejectedNotification(request, addressee!);
+  }
+
+  return { request: formatSwapRequest(request), changes };
+}
+
+// ============================================================
+// 근무 교환 요청 취소
+// ============================================================
+export async function cancelSwapRequest(
+  user_id: string,
+  swap_request_id: string
+): Promise<ShiftSwapRequestInfo> {
+  const request = await ShiftSwapRequest.findByPk(swap_request_id);
+
+  if (!request) {
+    throw new Error(ShiftSwapErrorCodes.REQUEST_NOT_FOUND);
+  }
+  if (request.requester_user_id !== user_id) {
+    throw new Error(ShiftSwapErrorCodes.NOT_REQUESTER);
+  }
+  if (request.status !== "PENDING") {
+    throw new Error(ShiftSwapErrorCodes.NOT_PENDING);
+  }
+
+  await request.update({
+    status: "CANCELED",
+    responded_at: new Date(),
+  });
+
+  return formatSwapRequest(request);
+}
+
+// ============================================================
+// 알림 생성 헬퍼
+// ============================================================
+
+function describeSwap(request: ShiftSwapRequest): string {
+  const given = `${request.requester_date} ${request.requester_shift_type_code}`;
+  return request.addressee_date
+    ? `${given} ↔ ${request.addressee_date} ${request.addressee_shift_type_code}`
+    : given;
+}
+
+/**
+ * 근무 교환 요청 알림 생성
+ */
+async function createSwapRequestNotification(
+  user_id: string,
+  request: ShiftSwapRequest,
+  requester: User
+): Promise<void> {
+  await Notification.create({
+    user_id,
+    notification_type: "SHIFT_SWAP_REQUEST",
+    title: "근무 교환 요청",
+    body: `${requester.name}님이 근무 교환을 요청했습니다. (${describeSwap(
+      request
+    )})`,
+    payload: {
+      related_user_id: requester.user_id,
+      swap_request_id: request.swap_request_id,
+      user_name: requester.name,
+      profile_image_url: requester.profile_image_url ?? null,
+    },
+    actions: [
+      { type: "accept", label: "수락" },
+      { type: "reject", label: "거절" },
+    ],
+  });
+}
+
+/**
+ * 근무 교환 수락 알림 생성 (요청자, 수락자 모두)
+ */
+async function createSwapAcceptedNotifications(
+  request: ShiftSwapRequest,
+  requester: User,
+  addressee: User
+): Promise<void> {
+  const description = describeSwap(request);
+  const payload = {
+    swap_request_id: request.swap_request_id,
+    requester_date: request.requester_date,
+    addressee_date: request.addressee_date ?? null,
+  };
+
+  await Notification.bulkCreate([
+    {
+      user_id: requester.user_id,
+      notification_type: "SHIFT_SWAP_ACCEPTED",
+      title: "근무 교환 완료",
+      body: `${addressee.name}님이 근무 교환을 수락했습니다. (${description})`,
+      payload: {
+        ...payload,
+        related_user_id: addressee.user_id,
+        user_name: addressee.name,
+        profile_image_url: addressee.profile_image_url ?? null,
+      },
+      actions: [{ type: "navigate", label: "근무표 보기", route: "/calendar" }],
+    },
+    {
+      user_id: addressee.user_id,
+      notification_type: "SHIFT_SWAP_ACCEPTED",
+      title: "근무 교환 완료",
+      body: `${requester.name}님과의 근무 교환이 반영되었습니다. (${description})`,
+      payload: {
+        ...payload,
+        related_user_id: requester.user_id,
+        user_name: requester.name,
+        profile_image_url: requester.profile_image_url ?? null,
+      },
+      actions: [{ type: "navigate", label: "근무표 보기", route: "/calendar" }],
+    },
+  ]);
+}
+
+/**
+ * 근무 교환 거절 알림 생성
+ */
+async function createSwapRejectedNotification(
+  request: ShiftSwapRequest,
+  addressee: User
+): Promise<void> {
+  await Notification.create({
+    user_id: request.requester_user_id,
+    notification_type: "SHIFT_SWAP_REJECTED",
+    title: "근무 교환 거절됨",
+    body: `${addressee.name}님이 근무 교환을 거절했습니다. (${describeSwap(
+      request
+    )})`,
+    payload: {
+      related_user_id: addressee.user_id,
+      swap_request_id: request.swap_request_id,
+      user_name: addressee.name,
+      profile_image_url: addressee.profile_image_url ?? null,
+    },
+    actions: [{ type: "dismiss", label: "확인" }],
+  });
+}
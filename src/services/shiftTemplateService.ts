@@ -1,12 +1,20 @@
 import { Op, Transaction } from "sequelize";
 import { sequelize } from "../config/database";
 import {
+  SharedShiftTypeDefinition,
   ShiftTemplate,
+  ShiftTemplateActivation,
   ShiftTemplateVersion,
   ShiftType,
   ShiftTypeSchedule,
+  User,
   WorkShift,
 } from "../models";
+import {
+  addDays,
+  formatDateInTimezone,
+  resolveTimezone,
+} from "../utils/dateUtils";
 
 // 기본 근무 타입 정의
 interface DefaultShiftTypeInfo {
@@ -65,16 +73,19 @@ const DEFAULT_SHIFT_TYPES: DefaultShiftTypeInfo[] = [
 ];
 
 const DEFAULT_TEMPLATE_NAME = "기본 3교대";
-const MAX_SHIFT_TYPES_PER_TEMPLATE = 10;
+export const MAX_SHIFT_TYPES_PER_TEMPLATE = 10;
 
 /**
- * 새 사용자를 위한 기본 근무 템플릿 생성
+ * 기본 근무 타입으로 구성된 근무 템플릿 생성
+ * - 사용자의 첫 템플릿이면 오늘부터 활성 템플릿으로 지정
  * @param user_id 사용자 UUID
  * @param external_transaction 외부 트랜잭션 (선택)
+ * @param name 템플릿 이름 (기본: 기본 3교대)
  */
 export async function createDefaultShiftTemplate(
   user_id: string,
-  external_transaction?: Transaction
+  external_transaction?: Transaction,
+  name: string = DEFAULT_TEMPLATE_NAME
 ): Promise<{
   template: ShiftTemplate;
   version: ShiftTemplateVersion;
@@ -82,15 +93,34 @@ export async function createDefaultShiftTemplate(
   schedules: ShiftTypeSchedule[];
 }> {
   const executeInTransaction = async (transaction: Transaction) => {
+    const has_template = await ShiftTemplate.findOne({
+      where: {
+        owner_user_id: user_id,
+        deleted_at: null,
+      },
+      transaction,
+    });
+
     // 1. 기본 템플릿 생성
     const template = await ShiftTemplate.create(
       {
         owner_user_id: user_id,
-        name: DEFAULT_TEMPLATE_NAME,
+        name,
       },
       { transaction }
     );
 
+    if (!has_template) {
+      await ShiftTemplateActivation.create(
+        {
+          owner_user_id: user_id,
+          template_id: template.template_id,
+          effective_from: getToday(),
+        },
+        { transaction }
+      );
+    }
+
     // 2. 템플릿 버전 생성 (버전 1)
     const version = await ShiftTemplateVersion.create(
       {
@@ -216,8 +246,12 @@ function calculateTimeInfo(
 
 /**
  * 현재 사용자의 활성 템플릿 조회
+ * - current_version: 오늘(사용자 타임존 기준) 적용 중인 버전
  */
-export async function getCurrentTemplate(user_id: string): Promise<{
+export async function getCurrentTemplate(
+  user_id: string,
+  timezone?: string | null
+): Promise<{
   template_id: string;
   template_name: string;
   owner_user_id: string;
@@ -229,36 +263,25 @@ export async function getCurrentTemplate(user_id: string): Promise<{
     created_at: Date;
   } | null;
 }> {
-  const template = await ShiftTemplate.findOne({
-    where: {
-      owner_user_id: user_id,
-      deleted_at: null,
-    },
-  });
+  const template = await getActiveTemplate(user_id, timezone);
 
-  if (!template) {
-    throw new Error("TEMPLATE_NOT_FOUND");
-  }
-
-  // 최신 버전 조회
-  const latest_version = await ShiftTemplateVersion.findOne({
-    where: {
-      template_id: template.template_id,
-    },
-    order: [["effective_from", "DESC"]],
-  });
+  // 오늘 적용 중인 버전 조회
+  const current_version = await findTemplateVersionForDate(
+    template.template_id,
+    getToday(timezone)
+  );
 
   return {
     template_id: template.template_id,
     template_name: template.name,
     owner_user_id: template.owner_user_id,
     created_at: template.created_at!,
-    current_version: latest_version
+    current_version: current_version
       ? {
-          template_version_id: latest_version.template_version_id,
-          version_no: latest_version.version_no,
-          effective_from: latest_version.effective_from,
-          created_at: latest_version.created_at!,
+          template_version_id: current_version.template_version_id,
+          version_no: current_version.version_no,
+          effective_from: current_version.effective_from,
+          created_at: current_version.created_at!,
         }
       : null,
   };
@@ -266,21 +289,16 @@ export async function getCurrentTemplate(user_id: string): Promise<{
 
 /**
  * 템플릿 이름 변경
+ * - template_id가 없으면 현재 활성 템플릿
  */
 export async function updateTemplateName(
   user_id: string,
-  name: string
+  name: string,
+  template_id?: string
 ): Promise<ShiftTemplate> {
-  const template = await ShiftTemplate.findOne({
-    where: {
-      owner_user_id: user_id,
-      deleted_at: null,
-    },
-  });
-
-  if (!template) {
-    throw new Error("TEMPLATE_NOT_FOUND");
-  }
+  const template = template_id
+    ? await findOwnedTemplate(user_id, template_id)
+    : await getActiveTemplate(user_id);
 
   // 이름 중복 체크 (같은 사용자의 다른 템플릿과)
   const existing = await ShiftTemplate.findOne({
@@ -303,17 +321,206 @@ export async function updateTemplateName(
 }
 
 /**
- * 현재 활성 버전 조회
+ * 사용자 타임존 기준 오늘 날짜 (YYYY-MM-DD)
  */
-async function getCurrentVersion(
-  template_id: string
-): Promise<ShiftTemplateVersion> {
+function getToday(timezone?: string | null): string {
+  return formatDateInTimezone(new Date(), resolveTimezone(timezone));
+}
+
+/**
+ * 날짜별로 적용되는 사용자 템플릿 조회 (날짜 → 템플릿)
+ * - 활성화 기록 중 effective_from <= date 인 가장 최근 기록의 템플릿
+ * - 첫 활성화 이전 날짜는 첫 활성화 템플릿
+ * - 활성화 기록이 없는 사용자(여러 템플릿 지원 이전 가입)는 가장 먼저 만든 템플릿
+ */
+export async function getTemplatesForDates(
+  user_id: string,
+  dates: string[],
+  transaction?: Transaction
+): Promise<Map<string, ShiftTemplate>> {
+  const activations = await ShiftTemplateActivation.findAll({
+    where: { owner_user_id: user_id },
+    order: [["effective_from", "ASC"]],
+    transaction,
+  });
+
+  const result = new Map<string, ShiftTemplate>();
+
+  if (activations.length === 0) {
+    const template = await ShiftTemplate.findOne({
+      where: {
+        owner_user_id: user_id,
+        deleted_at: null,
+      },
+      order: [["created_at", "ASC"]],
+      transaction,
+    });
+    if (template) {
+      dates.forEach((date) => result.set(date, template));
+    }
+    return result;
+  }
+
+  const templates = await ShiftTemplate.findAll({
+    where: {
+      template_id: {
+        [Op.in]: [...new Set(activations.map((a) => a.template_id))],
+      },
+      deleted_at: null,
+    },
+    transaction,
+  });
+  const template_by_id = new Map(templates.map((t) => [t.template_id, t]));
+
+  for (const date of dates) {
+    const activation =
+      activations.filter((a) => String(a.effective_from) <= date).pop() ??
+      activations[0];
+    const template = template_by_id.get(activation.template_id);
+    if (template) {
+      result.set(date, template);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * 특정 날짜에 적용되는 사용자 템플릿 조회
+ */
+export async function findTemplateForDate(
+  user_id: string,
+  date: string,
+  transaction?: Transaction
+): Promise<ShiftTemplate | null> {
+  const templates = await getTemplatesForDates(user_id, [date], transaction);
+  return templates.get(date) ?? null;
+}
+
+/**
+ * 오늘(사용자 타임존 기준) 적용 중인 템플릿 조회 (없으면 TEMPLATE_NOT_FOUND)
+ * - timezone을 넘기지 않으면 사용자 정보의 타임존 사용
+ */
+export async function getActiveTemplate(
+  user_id: string,
+  timezone?: string | null,
+  transaction?: Transaction
+): Promise<ShiftTemplate> {
+  if (timezone === undefined) {
+    const user = await User.findByPk(user_id, {
+      attributes: ["timezone"],
+      transaction,
+    });
+    timezone = user?.timezone;
+  }
+
+  const template = await findTemplateForDate(
+    user_id,
+    getToday(timezone),
+    transaction
+  );
+
+  if (!template) {
+    throw new Error("TEMPLATE_NOT_FOUND");
+  }
+
+  return template;
+}
+
+/**
+ * 사용자가 소유한 템플릿 조회 (없으면 TEMPLATE_NOT_FOUND)
+ */
+export async function findOwnedTemplate(
+  user_id: string,
+  template_id: string,
+  transaction?: Transaction
+): Promise<ShiftTemplate> {
+  const template = await ShiftTemplate.findOne({
+    where: {
+      template_id,
+      owner_user_id: user_id,
+      deleted_at: null,
+    },
+    transaction,
+  });
+
+  if (!template) {
+    throw new Error("TEMPLATE_NOT_FOUND");
+  }
+
+  return template;
+}
+
+/**
+ * 특정 날짜에 유효한 템플릿 버전 조회
+ * - effective_from <= date 중 가장 최근 버전
+ * - 첫 버전 이전 날짜는 첫 버전을 사용 (가입 전 근무 입력 대응)
+ */
+export async function findTemplateVersionForDate(
+  template_id: string,
+  date: string,
+  transaction?: Transaction
+): Promise<ShiftTemplateVersion | null> {
   const version = await ShiftTemplateVersion.findOne({
     where: {
-      template_id: template_id,
+      template_id,
+      effective_from: { [Op.lte]: date },
     },
     order: [["effective_from", "DESC"]],
+    transaction,
+  });
+
+  if (version) {
+    return version;
+  }
+
+  return ShiftTemplateVersion.findOne({
+    where: { template_id },
+    order: [["effective_from", "ASC"]],
+    transaction,
+  });
+}
+
+/**
+ * 버전별 근무 타입 시간표 조회 (없으면 시간 정보 없이 생성)
+ * - 시간 정보 없이 생성된 shift_type이나 이후에 추가된 버전 대응
+ */
+export async function findOrCreateSchedule(
+  shift_type_id: string,
+  template_version_id: string,
+  transaction?: Transaction
+): Promise<ShiftTypeSchedule> {
+  const [schedule] = await ShiftTypeSchedule.findOrCreate({
+    where: {
+      shift_type_id,
+      template_version_id,
+    },
+    defaults: {
+      shift_type_id,
+      template_version_id,
+      start_time: null,
+      end_time: null,
+      crosses_midnight: false,
+      duration_minutes: 0,
+    },
+    transaction,
   });
+  return schedule;
+}
+
+/**
+ * 현재 활성 버전 조회 (오늘 적용 중인 버전)
+ */
+async function getCurrentVersion(
+  template_id: string,
+  timezone?: string | null,
+  transaction?: Transaction
+): Promise<ShiftTemplateVersion> {
+  const version = await findTemplateVersionForDate(
+    template_id,
+    getToday(timezone),
+    transaction
+  );
 
   if (!version) {
     throw new Error("TEMPLATE_NOT_FOUND");
@@ -328,6 +535,7 @@ async function getCurrentVersion(
 export async function createShiftType(
   user_id: string,
   data: {
+    template_id?: string | null;
     code: string;
     name: string;
     color?: number | null;
@@ -348,18 +556,10 @@ export async function createShiftType(
   created_at: Date;
 }> {
   return sequelize.transaction(async (transaction) => {
-    // 1. 현재 사용자의 활성 템플릿 조회
-    const template = await ShiftTemplate.findOne({
-      where: {
-        owner_user_id: user_id,
-        deleted_at: null,
-      },
-      transaction,
-    });
-
-    if (!template) {
-      throw new Error("TEMPLATE_NOT_FOUND");
-    }
+    // 1. 대상 템플릿 조회 (지정하지 않으면 현재 활성 템플릿)
+    const template = data.template_id
+      ? await findOwnedTemplate(user_id, data.template_id, transaction)
+      : await getActiveTemplate(user_id, undefined, transaction);
 
     // 2. 현재 템플릿의 shift_types 개수 확인 (최대 10개 제한)
     const current_count = await ShiftType.count({
@@ -416,19 +616,26 @@ export async function createShiftType(
       duration_minutes = time_info.duration_minutes;
     }
 
-    // 현재 활성 버전 조회
-    const current_version = await getCurrentVersion(template.template_id);
+    // 모든 버전에 스케줄 생성 (시간 정보가 없어도 기본값으로 생성)
+    // 새 근무 타입은 과거 기록이 없으므로 모든 기간에 같은 시간 적용
+    const versions = await ShiftTemplateVersion.findAll({
+      where: { template_id: template.template_id },
+      transaction,
+    });
 
-    // 스케줄 생성 (시간 정보가 없어도 기본값으로 생성)
-    await ShiftTypeSchedule.create(
-      {
+    if (versions.length === 0) {
+      throw new Error("TEMPLATE_NOT_FOUND");
+    }
+
+    await ShiftTypeSchedule.bulkCreate(
+      versions.map((version) => ({
         shift_type_id: shift_type.shift_type_id,
-        template_version_id: current_version.template_version_id,
+        template_version_id: version.template_version_id,
         start_time: start_time,
         end_time: end_time,
         crosses_midnight: crosses_midnight,
         duration_minutes: duration_minutes,
-      },
+      })),
       { transaction }
     );
 
@@ -460,7 +667,8 @@ export async function updateShiftType(
     start_time?: string | null;
     end_time?: string | null;
     sort_order?: number | null;
-  }
+  },
+  timezone?: string | null
 ): Promise<{
   shift_type_id: string;
   code: string;
@@ -520,10 +728,15 @@ export async function updateShiftType(
     let crosses_midnight = false;
     let duration_minutes = 0;
 
-    const current_version = await getCurrentVersion(template.template_id);
+    const today = getToday(timezone);
+    let current_version = await getCurrentVersion(
+      template.template_id,
+      timezone,
+      transaction
+    );
 
     // 기존 스케줄 조회
-    const existing_schedule = await ShiftTypeSchedule.findOne({
+    let existing_schedule = await ShiftTypeSchedule.findOne({
       where: {
         shift_type_id: shift_type_id,
         template_version_id: current_version.template_version_id,
@@ -531,6 +744,20 @@ export async function updateShiftType(
       transaction,
     });
 
+    if (data.start_time !== undefined && data.end_time !== undefined) {
+      ({ version: current_version, schedule: existing_schedule } =
+        await prepareScheduleTimeChange(
+          current_version,
+          shift_type_id,
+          existing_schedule,
+          data.start_time || null,
+          data.end_time || null,
+          today,
+          user_id,
+          transaction
+        ));
+    }
+
     if (data.start_time !== undefined && data.end_time !== undefined) {
       // 시간이 모두 제공된 경우
       if (data.start_time && data.end_time) {
@@ -625,6 +852,110 @@ export async function updateShiftType(
   });
 }
 
+/**
+ * 시간 변경 전 수정할 버전 결정
+ * - 지난 근무가 사용 중인 버전의 시간을 바꾸면 과거 근무 시간까지 바뀌므로
+ *   오늘부터 적용되는 새 버전을 만들어 그 버전의 스케줄을 반환
+ */
+async function prepareScheduleTimeChange(
+  current_version: ShiftTemplateVersion,
+  shift_type_id: string,
+  existing_schedule: ShiftTypeSchedule | null,
+  start_time: string | null,
+  end_time: string | null,
+  today: string,
+  user_id: string,
+  transaction: Transaction
+): Promise<{
+  version: ShiftTemplateVersion;
+  schedule: ShiftTypeSchedule | null;
+}> {
+  const first_work_date = isScheduleTimeChanged(
+    existing_schedule,
+    start_time,
+    end_time
+  )
+    ? await findFirstWorkDateBefore(current_version, today, transaction)
+    : null;
+
+  if (!first_work_date) {
+    return { version: current_version, schedule: existing_schedule };
+  }
+
+  // 오늘 시작한 첫 버전을 가입 전 날짜의 근무가 사용 중인 경우:
+  // 첫 버전은 이전 날짜에도 적용되므로 시작일을 해당 근무 날짜로 앞당김
+  if (String(current_version.effective_from) >= today) {
+    current_version.effective_from = new Date(first_work_date);
+    await current_version.save({ transaction });
+  }
+
+  const version = await createVersionFrom(
+    current_version,
+    today,
+    user_id,
+    transaction
+  );
+  const schedule = await ShiftTypeSchedule.findOne({
+    where: {
+      shift_type_id,
+      template_version_id: version.template_version_id,
+    },
+    transaction,
+  });
+
+  return { version, schedule };
+}
+
+/**
+ * 근무 타입의 현재 시간표 변경 (지난 근무의 시간은 유지)
+ */
+async function setCurrentScheduleTime(
+  shift_type: ShiftType,
+  start_time: string | null,
+  end_time: string | null,
+  user_id: string,
+  timezone: string | null | undefined,
+  transaction: Transaction
+): Promise<void> {
+  const current_version = await getCurrentVersion(
+    shift_type.template_id,
+    timezone,
+    transaction
+  );
+  const existing_schedule = await ShiftTypeSchedule.findOne({
+    where: {
+      shift_type_id: shift_type.shift_type_id,
+      template_version_id: current_version.template_version_id,
+    },
+    transaction,
+  });
+
+  const { version, schedule } = await prepareScheduleTimeChange(
+    current_version,
+    shift_type.shift_type_id,
+    existing_schedule,
+    start_time,
+    end_time,
+    getToday(timezone),
+    user_id,
+    transaction
+  );
+
+  const target =
+    schedule ??
+    (await findOrCreateSchedule(
+      shift_type.shift_type_id,
+      version.template_version_id,
+      transaction
+    ));
+  const time_info = calculateTimeInfo(start_time, end_time);
+  target.start_time = start_time;
+  target.end_time = end_time;
+  target.crosses_midnight = time_info.crosses_midnight;
+  target.duration_minutes = time_info.duration_minutes;
+  await target.save({ transaction });
+}
+
 /**
  * 근무 타입 삭제 (Soft Delete)
  */
@@ -699,3 +1030,1169 @@ export async function deleteShiftType(
     };
   });
 }
+
+// ============================================================
+// 템플릿 버전 타임라인
+// ============================================================
+
+export interface TemplateVersionScheduleItem {
+  schedule_id: string;
+  shift_type_id: string;
+  code: string;
+  name: string;
+  start_time: string | null;
+  end_time: string | null;
+  crosses_midnight: boolean;
+  duration_minutes: number;
+}
+
+export interface TemplateVersionItem {
+  template_version_id: string;
+  version_no: number;
+  effective_from: string;
+  effective_to: string | null; // 다음 버전 적용 전날 (마지막 버전은 null)
+  is_current: boolean; // 오늘 적용 중인 버전 여부
+  created_at: Date;
+  schedules: TemplateVersionScheduleItem[];
+}
+
+/**
+ * 스케줄 시간이 변경되는지 확인
+ */
+function isScheduleTimeChanged(
+  schedule: ShiftTypeSchedule | null,
+  start_time: string | null,
+  end_time: string | null
+): boolean {
+  return (
+    (schedule?.start_time ?? null) !== start_time ||
+    (schedule?.end_time ?? null) !== end_time
+  );
+}
+
+/**
+ * 특정 날짜 이전에 해당 버전의 스케줄을 사용하는 가장 이른 근무 날짜 (없으면 null)
+ * - 휴지통의 근무도 복원될 수 있으므로 포함
+ */
+async function findFirstWorkDateBefore(
+  version: ShiftTemplateVersion,
+  date: string,
+  transaction?: Transaction
+): Promise<string | null> {
+  const work_shift = await WorkShift.findOne({
+    where: {
+      work_date: { [Op.lt]: date },
+    },
+    include: [
+      {
+        model: ShiftTypeSchedule,
+        as: "schedule",
+        required: true,
+        where: { template_version_id: version.template_version_id },
+        attributes: [],
+      },
+    ],
+    order: [["work_date", "ASC"]],
+    transaction,
+  });
+  return work_shift ? String(work_shift.work_date) : null;
+}
+
+/**
+ * 새 버전의 적용 기간에 해당하는 근무를 새 버전의 스케줄로 다시 연결
+ * - 적용 기간: effective_from ~ 다음 버전 적용 전날
+ * - 새 버전에 해당 근무 타입의 스케줄이 없으면 기존 스케줄 시간을 복사해 생성
+ */
+async function relinkWorkShifts(
+  version: ShiftTemplateVersion,
+  effective_from: string,
+  transaction: Transaction
+): Promise<void> {
+  const next_version = await ShiftTemplateVersion.findOne({
+    where: {
+      template_id: version.template_id,
+      effective_from: { [Op.gt]: effective_from },
+    },
+    order: [["effective_from", "ASC"]],
+    transaction,
+  });
+
+  const work_shifts = await WorkShift.findAll({
+    where: {
+      work_date: next_version
+        ? {
+            [Op.gte]: effective_from,
+            [Op.lt]: next_version.effective_from,
+          }
+        : { [Op.gte]: effective_from },
+    },
+    include: [
+      {
+        model: ShiftTypeSchedule,
+        as: "schedule",
+        required: true,
+        where: {
+          template_version_id: { [Op.ne]: version.template_version_id },
+        },
+        include: [
+          {
+            model: ShiftType,
+            as: "shift_type",
+            required: true,
+            where: { template_id: version.template_id },
+            attributes: [],
+          },
+        ],
+      },
+    ],
+    transaction,
+  });
+
+  if (work_shifts.length === 0) {
+    return;
+  }
+
+  const schedules = await ShiftTypeSchedule.findAll({
+    where: { template_version_id: version.template_version_id },
+    transaction,
+  });
+  const schedule_by_type = new Map(schedules.map((s) => [s.shift_type_id, s]));
+
+  // 새 스케줄별로 근무 ID를 모아 한 번에 갱신
+  const work_shift_ids_by_schedule = new Map<string, string[]>();
+  for (const work_shift of work_shifts) {
+    const old_schedule = (work_shift as any).schedule as ShiftTypeSchedule;
+
+    let schedule = schedule_by_type.get(old_schedule.shift_type_id);
+    if (!schedule) {
+      schedule = await ShiftTypeSchedule.create(
+        {
+          shift_type_id: old_schedule.shift_type_id,
+          template_version_id: version.template_version_id,
+          start_time: old_schedule.start_time ?? null,
+          end_time: old_schedule.end_time ?? null,
+          crosses_midnight: old_schedule.crosses_midnight,
+          duration_minutes: old_schedule.duration_minutes,
+        },
+        { transaction }
+      );
+      schedule_by_type.set(schedule.shift_type_id, schedule);
+    }
+
+    const ids = work_shift_ids_by_schedule.get(schedule.schedule_id) ?? [];
+    ids.push(work_shift.work_shift_id);
+    work_shift_ids_by_schedule.set(schedule.schedule_id, ids);
+  }
+
+  for (const [schedule_id, work_shift_ids] of work_shift_ids_by_schedule) {
+    await WorkShift.update(
+      { schedule_id },
+      {
+        where: { work_shift_id: { [Op.in]: work_shift_ids } },
+        transaction,
+      }
+    );
+  }
+}
+
+/**
+ * 기존 버전의 시간표를 복사해 새 버전 생성
+ * - 새 버전 적용 기간의 근무는 새 버전 스케줄로 다시 연결
+ */
+async function createVersionFrom(
+  source_version: ShiftTemplateVersion,
+  effective_from: string,
+  user_id: string,
+  transaction: Transaction
+): Promise<ShiftTemplateVersion> {
+  const template_id = source_version.template_id;
+
+  const max_version_no = (await ShiftTemplateVersion.max("version_no", {
+    where: { template_id },
+    transaction,
+  })) as number | null;
+
+  const version = await ShiftTemplateVersion.create(
+    {
+      template_id,
+      version_no: (max_version_no ?? 0) + 1,
+      effective_from: new Date(effective_from),
+      created_by_user_id: user_id,
+    },
+    { transaction }
+  );
+
+  const source_schedules = await ShiftTypeSchedule.findAll({
+    where: { template_version_id: source_version.template_version_id },
+    transaction,
+  });
+
+  await ShiftTypeSchedule.bulkCreate(
+    source_schedules.map((schedule) => ({
+      shift_type_id: schedule.shift_type_id,
+      template_version_id: version.template_version_id,
+      start_time: schedule.start_time ?? null,
+      end_time: schedule.end_time ?? null,
+      crosses_midnight: schedule.crosses_midnight,
+      duration_minutes: schedule.duration_minutes,
+    })),
+    { transaction }
+  );
+
+  await relinkWorkShifts(version, effective_from, transaction);
+
+  return version;
+}
+
+/**
+ * 템플릿의 전체 버전 목록 (적용 시작일 오름차순, 삭제된 근무 타입 제외)
+ */
+async function loadTemplateVersions(
+  template_id: string,
+  today: string,
+  transaction?: Transaction
+): Promise<TemplateVersionItem[]> {
+  const versions = await ShiftTemplateVersion.findAll({
+    where: { template_id },
+    include: [
+      {
+        model: ShiftTypeSchedule,
+        as: "schedules",
+        required: false,
+        include: [
+          {
+            model: ShiftType,
+            as: "shift_type",
+            required: true,
+            where: { deleted_at: null },
+          },
+        ],
+      },
+    ],
+    order: [["effective_from", "ASC"]],
+    transaction,
+  });
+
+  const current_index = versions.reduce(
+    (found, version, index) =>
+      String(version.effective_from) <= today ? index : found,
+    0
+  );
+
+  return versions.map((version, index) => {
+    const next_version = versions[index + 1];
+    const schedules = ((version as any).schedules ?? []) as ShiftTypeSchedule[];
+
+    return {
+      template_version_id: version.template_version_id,
+      version_no: version.version_no,
+      effective_from: String(version.effective_from),
+      effective_to: next_version
+        ? addDays(String(next_version.effective_from), -1)
+        : null,
+      is_current: index === current_index,
+      created_at: version.created_at!,
+      schedules: schedules
+        .map((schedule) => ({
+          shift_type: (schedule as any).shift_type as ShiftType,
+          schedule,
+        }))
+        .sort(
+          (a, b) =>
+            (a.shift_type.sort_order ?? 0) - (b.shift_type.sort_order ?? 0)
+        )
+        .map(({ shift_type, schedule }) => ({
+          schedule_id: schedule.schedule_id,
+          shift_type_id: shift_type.shift_type_id,
+          code: shift_type.code,
+          name: shift_type.name,
+          start_time: schedule.start_time ?? null,
+          end_time: schedule.end_time ?? null,
+          crosses_midnight: schedule.crosses_midnight,
+          duration_minutes: schedule.duration_minutes,
+        })),
+    };
+  });
+}
+
+/**
+ * 활성 템플릿의 버전 타임라인 조회
+ */
+export async function getTemplateVersions(
+  user_id: string,
+  timezone?: string | null
+): Promise<TemplateVersionItem[]> {
+  const template = await getActiveTemplate(user_id, timezone);
+  return loadTemplateVersions(template.template_id, getToday(timezone));
+}
+
+/**
+ * 새 템플릿 버전 생성 (미래 날짜부터 적용)
+ * - source_version_id가 없으면 적용 시작일 직전에 유효한 버전의 시간표를 복사
+ * - 적용 시작일 이후 근무는 새 버전의 시간표를 따름
+ */
+export async function createTemplateVersion(
+  user_id: string,
+  data: {
+    effective_from: string;
+    source_version_id?: string | null;
+  },
+  timezone?: string | null
+): Promise<TemplateVersionItem> {
+  const today = getToday(timezone);
+
+  if (data.effective_from <= today) {
+    throw new Error("INVALID_EFFECTIVE_FROM");
+  }
+
+  return sequelize.transaction(async (transaction) => {
+    const template = await getActiveTemplate(user_id, timezone, transaction);
+
+    const duplicate = await ShiftTemplateVersion.findOne({
+      where: {
+        template_id: template.template_id,
+        effective_from: data.effective_from,
+      },
+      transaction,
+    });
+
+    if (duplicate) {
+      throw new Error("DUPLICATE_EFFECTIVE_FROM");
+    }
+
+    const source_version = data.source_version_id
+      ? await ShiftTemplateVersion.findOne({
+          where: {
+            template_version_id: data.source_version_id,
+            template_id: template.template_id,
+          },
+          transaction,
+        })
+      : await findTemplateVersionForDate(
+          template.template_id,
+          data.effective_from,
+          transaction
+        );
+
+    if (!source_version) {
+      throw new Error("TEMPLATE_VERSION_NOT_FOUND");
+    }
+
+    const version = await createVersionFrom(
+      source_version,
+      data.effective_from,
+      user_id,
+      transaction
+    );
+
+    const versions = await loadTemplateVersions(
+      template.template_id,
+      today,
+      transaction
+    );
+    return versions.find(
+      (v) => v.template_version_id === version.template_version_id
+    )!;
+  });
+}
+
+/**
+ * 특정 버전의 근무 타입 시간 수정
+ * - 오늘 이전 근무가 사용 중인 버전은 수정 불가 (VERSION_IN_USE)
+ *   → 지난 근무는 해당 날짜에 유효했던 시간을 그대로 유지
+ */
+export async function updateTemplateVersionSchedule(
+  user_id: string,
+  template_version_id: string,
+  shift_type_id: string,
+  data: {
+    start_time: string | null;
+    end_time: string | null;
+  },
+  timezone?: string | null
+): Promise<TemplateVersionScheduleItem> {
+  return sequelize.transaction(async (transaction) => {
+    const template = await getActiveTemplate(user_id, timezone, transaction);
+
+    const version = await ShiftTemplateVersion.findOne({
+      where: {
+        template_version_id,
+        template_id: template.template_id,
+      },
+      transaction,
+    });
+
+    if (!version) {
+      throw new Error("TEMPLATE_VERSION_NOT_FOUND");
+    }
+
+    const shift_type = await ShiftType.findOne({
+      where: {
+        shift_type_id,
+        template_id: template.template_id,
+        deleted_at: null,
+      },
+      transaction,
+    });
+
+    if (!shift_type) {
+      throw new Error("SHIFT_TYPE_NOT_FOUND");
+    }
+
+    const schedule = await findOrCreateSchedule(
+      shift_type_id,
+      template_version_id,
+      transaction
+    );
+
+    if (
+      isScheduleTimeChanged(schedule, data.start_time, data.end_time) &&
+      (await findFirstWorkDateBefore(version, getToday(timezone), transaction))
+    ) {
+      throw new Error("VERSION_IN_USE");
+    }
+
+    const time_info = calculateTimeInfo(data.start_time, data.end_time);
+    schedule.start_time = data.start_time;
+    schedule.end_time = data.end_time;
+    schedule.crosses_midnight = time_info.crosses_midnight;
+    schedule.duration_minutes = time_info.duration_minutes;
+    await schedule.save({ transaction });
+
+    return {
+      schedule_id: schedule.schedule_id,
+      shift_type_id: shift_type.shift_type_id,
+      code: shift_type.code,
+      name: shift_type.name,
+      start_time: schedule.start_time ?? null,
+      end_time: schedule.end_time ?? null,
+      crosses_midnight: schedule.crosses_midnight,
+      duration_minutes: schedule.duration_minutes,
+    };
+  });
+}
+
+// ============================================================
+// 템플릿 관리 (사용자별 여러 템플릿)
+// ============================================================
+
+export interface ShiftTemplateItem {
+  template_id: string;
+  template_name: string;
+  is_current: boolean; // 오늘 적용 중인 템플릿 여부
+  shift_type_count: number;
+  archived_at: Date | null;
+  created_at: Date;
+}
+
+export interface TemplateActivationItem {
+  template_id: string;
+  effective_from: string;
+  effective_to: string | null; // 다음 활성화 전날 (마지막 활성화는 null)
+}
+
+/**
+ * 템플릿 목록 조회 (보관된 템플릿은 include_archived일 때만 포함)
+ * - activations: 날짜별 활성 템플릿 타임라인
+ */
+export async function getTemplates(
+  user_id: string,
+  include_archived: boolean,
+  timezone?: string | null
+): Promise<{
+  templates: ShiftTemplateItem[];
+  activations: TemplateActivationItem[];
+}> {
+  const [templates, activations, current_template] = await Promise.all([
+    ShiftTemplate.findAll({
+      where: {
+        owner_user_id: user_id,
+        deleted_at: null,
+        ...(!include_archived && { archived_at: null }),
+      },
+      order: [["created_at", "ASC"]],
+    }),
+    ShiftTemplateActivation.findAll({
+      where: { owner_user_id: user_id },
+      order: [["effective_from", "ASC"]],
+    }),
+    findTemplateForDate(user_id, getToday(timezone)),
+  ]);
+
+  const shift_types = await ShiftType.findAll({
+    where: {
+      template_id: { [Op.in]: templates.map((t) => t.template_id) },
+      deleted_at: null,
+    },
+    attributes: ["template_id"],
+  });
+  const count_by_template = new Map<string, number>();
+  for (const shift_type of shift_types) {
+    count_by_template.set(
+      shift_type.template_id,
+      (count_by_template.get(shift_type.template_id) ?? 0) + 1
+    );
+  }
+
+  return {
+    templates: templates.map((template) => ({
+      template_id: template.template_id,
+      template_name: template.name,
+      is_current: template.template_id === current_template?.template_id,
+      shift_type_count: count_by_template.get(template.template_id) ?? 0,
+      archived_at: template.archived_at ?? null,
+      created_at: template.created_at!,
+    })),
+    activations: activations.map((activation, index) => {
+      const next_activation = activations[index + 1];
+      return {
+        template_id: activation.template_id,
+        effective_from: String(activation.effective_from),
+        effective_to: next_activation
+          ? addDays(String(next_activation.effective_from), -1)
+          : null,
+      };
+    }),
+  };
+}
+
+// 템플릿 복사/공유에 사용하는 근무 타입 정의 (시간표 포함)
+export type ShiftTypeDefinition = SharedShiftTypeDefinition;
+
+/**
+ * 템플릿의 근무 타입 정의 조회 (시간표는 특정 날짜에 유효한 버전 기준)
+ */
+export async function getShiftTypeDefinitions(
+  template_id: string,
+  date: string,
+  transaction?: Transaction
+): Promise<ShiftTypeDefinition[]> {
+  const version = await findTemplateVersionForDate(
+    template_id,
+    date,
+    transaction
+  );
+
+  const shift_types = await ShiftType.findAll({
+    where: {
+      template_id,
+      deleted_at: null,
+    },
+    include: version
+      ? [
+          {
+            model: ShiftTypeSchedule,
+            as: "schedules",
+            where: { template_version_id: version.template_version_id },
+            required: false,
+          },
+        ]
+      : [],
+    order: [["sort_order", "ASC"]],
+    transaction,
+  });
+
+  return shift_types.map((shift_type) => {
+    const schedule = (
+      (shift_type as any).schedules as ShiftTypeSchedule[] | undefined
+    )?.[0];
+    return {
+      code: shift_type.code,
+      name: shift_type.name,
+      color: shift_type.color ?? null,
+      sort_order: shift_type.sort_order ?? null,
+      start_time: schedule?.start_time ?? null,
+      end_time: schedule?.end_time ?? null,
+    };
+  });
+}
+
+// 버전별 시간표 정의 (JSON 가져오기 등 여러 버전을 한 번에 만들 때 사용)
+export interface TemplateVersionDefinition {
+  effective_from: string; // YYYY-MM-DD
+  schedules: Array<{
+    code: string;
+    start_time: string | null;
+    end_time: string | null;
+  }>;
+}
+
+/**
+ * 근무 타입 정의로 새 템플릿 생성 (버전 1은 effective_from부터 적용)
+ */
+export async function createTemplateFromDefinitions(
+  owner_user_id: string,
+  name: string,
+  effective_from: string,
+  definitions: ShiftTypeDefinition[],
+  transaction: Transaction
+): Promise<ShiftTemplate> {
+  return createTemplateWithVersions(
+    owner_user_id,
+    name,
+    definitions,
+    [{ effective_from, schedules: definitions }],
+    transaction
+  );
+}
+
+/**
+ * 근무 타입과 버전별 시간표로 새 템플릿 생성
+ * - 버전 번호는 적용 시작일 순서대로 1부터 부여
+ * - 버전에 시간표가 없는 근무 타입은 시간 없음(null)으로 생성
+ */
+export async function createTemplateWithVersions(
+  owner_user_id: string,
+  name: string,
+  shift_types: Array<
+    Pick<ShiftTypeDefinition, "code" | "name" | "color" | "sort_order">
+  >,
+  versions: TemplateVersionDefinition[],
+  transaction: Transaction
+): Promise<ShiftTemplate> {
+  const template = await ShiftTemplate.create(
+    { owner_user_id, name },
+    { transaction }
+  );
+
+  const created_types: ShiftType[] = [];
+  for (const definition of shift_types) {
+    created_types.push(
+      await ShiftType.create(
+        {
+          template_id: template.template_id,
+          code: definition.code,
+          name: definition.name,
+          color: definition.color,
+          sort_order: definition.sort_order,
+        },
+        { transaction }
+      )
+    );
+  }
+
+  const sorted_versions = [...versions].sort((a, b) =>
+    a.effective_from.localeCompare(b.effective_from)
+  );
+  for (const [index, definition] of sorted_versions.entries()) {
+    const version = await ShiftTemplateVersion.create(
+      {
+        template_id: template.template_id,
+        version_no: index + 1,
+        effective_from: new Date(definition.effective_from),
+        created_by_user_id: owner_user_id,
+      },
+      { transaction }
+    );
+
+    const schedules_by_code = new Map(
+      definition.schedules.map((schedule) => [schedule.code, schedule])
+    );
+    await ShiftTypeSchedule.bulkCreate(
+      created_types.map((shift_type) => {
+        const schedule = schedules_by_code.get(shift_type.code);
+        const start_time = schedule?.start_time ?? null;
+        const end_time = schedule?.end_time ?? null;
+        return {
+          shift_type_id: shift_type.shift_type_id,
+          template_version_id: version.template_version_id,
+          start_time,
+          end_time,
+          ...calculateTimeInfo(start_time, end_time),
+        };
+      }),
+      { transaction }
+    );
+  }
+
+  return template;
+}
+
+/**
+ * 새 템플릿 생성
+ * - source_template_id가 있으면 해당 템플릿의 근무 타입/시간표 복사, 없으면 기본 근무 타입
+ * - 생성만 하고 활성화는 별도로 요청해야 함
+ */
+export async function createTemplate(
+  user_id: string,
+  data: {
+    name: string;
+    source_template_id?: string | null;
+  },
+  timezone?: string | null
+): Promise<ShiftTemplateItem> {
+  return sequelize.transaction(async (transaction) => {
+    const duplicate = await ShiftTemplate.findOne({
+      where: {
+        owner_user_id: user_id,
+        name: data.name,
+        deleted_at: null,
+      },
+      transaction,
+    });
+
+    if (duplicate) {
+      throw new Error("DUPLICATE_NAME");
+    }
+
+    let template: ShiftTemplate;
+    if (data.source_template_id) {
+      const source_template = await findOwnedTemplate(
+        user_id,
+        data.source_template_id,
+        transaction
+      );
+      const today = getToday(timezone);
+      template = await createTemplateFromDefinitions(
+        user_id,
+        data.name,
+        today,
+        await getShiftTypeDefinitions(
+          source_template.template_id,
+          today,
+          transaction
+        ),
+        transaction
+      );
+    } else {
+      template = (
+        await createDefaultShiftTemplate(user_id, transaction, data.name)
+      ).template;
+    }
+
+    const shift_type_count = await ShiftType.count({
+      where: { template_id: template.template_id, deleted_at: null },
+      transaction,
+    });
+
+    return {
+      template_id: template.template_id,
+      template_name: template.name,
+      is_current: false,
+      shift_type_count,
+      archived_at: null,
+      created_at: template.created_at!,
+    };
+  });
+}
+
+/**
+ * 활성화 기록이 없는 사용자(여러 템플릿 지원 이전 가입)의 기존 템플릿 활성화 기록 생성
+ * - 시작일: 첫 버전 적용일과 첫 근무 날짜 중 이른 날짜
+ */
+async function backfillLegacyActivation(
+  user_id: string,
+  effective_from: string,
+  transaction: Transaction
+): Promise<void> {
+  const activation_count = await ShiftTemplateActivation.count({
+    where: { owner_user_id: user_id },
+    transaction,
+  });
+  if (activation_count > 0) {
+    return;
+  }
+
+  const legacy_template = await findTemplateForDate(
+    user_id,
+    effective_from,
+    transaction
+  );
+  if (!legacy_template) {
+    return;
+  }
+
+  const [first_version, first_work_shift] = await Promise.all([
+    ShiftTemplateVersion.findOne({
+      where: { template_id: legacy_template.template_id },
+      order: [["effective_from", "ASC"]],
+      transaction,
+    }),
+    WorkShift.findOne({
+      where: { owner_user_id: user_id },
+      order: [["work_date", "ASC"]],
+      transaction,
+    }),
+  ]);
+
+  const start_date = [first_version?.effective_from, first_work_shift?.work_date]
+    .filter((date): date is Date => Boolean(date))
+    .map(String)
+    .sort()[0];
+
+  // 새 활성화 이전 기간이 없으면 기존 템플릿 기록이 필요 없음
+  if (!start_date || start_date >= effective_from) {
+    return;
+  }
+
+  await ShiftTemplateActivation.create(
+    {
+      owner_user_id: user_id,
+      template_id: legacy_template.template_id,
+      effective_from: start_date,
+    },
+    { transaction }
+  );
+}
+
+/**
+ * 활성화 기간의 근무를 새 템플릿의 같은 코드 근무 타입으로 다시 연결
+ * - 적용 기간: effective_from ~ 다음 활성화 전날
+ * - 새 템플릿에 같은 코드가 없으면 기존 근무를 그대로 두고 날짜를 반환
+ */
+async function relinkWorkShiftsToTemplate(
+  user_id: string,
+  template: ShiftTemplate,
+  effective_from: string,
+  transaction: Transaction
+): Promise<{ relinked_count: number; unmatched_dates: string[] }> {
+  const next_activation = await ShiftTemplateActivation.findOne({
+    where: {
+      owner_user_id: user_id,
+      effective_from: { [Op.gt]: effective_from },
+    },
+    order: [["effective_from", "ASC"]],
+    transaction,
+  });
+
+  const work_shifts = await WorkShift.findAll({
+    where: {
+      owner_user_id: user_id,
+      work_date: next_activation
+        ? {
+            [Op.gte]: effective_from,
+            [Op.lt]: next_activation.effective_from,
+          }
+        : { [Op.gte]: effective_from },
+    },
+    include: [
+      {
+        model: ShiftTypeSchedule,
+        as: "schedule",
+        required: true,
+        include: [
+          {
+            model: ShiftType,
+            as: "shift_type",
+            required: true,
+            where: { template_id: { [Op.ne]: template.template_id } },
+          },
+        ],
+      },
+    ],
+    order: [["work_date", "ASC"]],
+    transaction,
+  });
+
+  const shift_types = await ShiftType.findAll({
+    where: {
+      template_id: template.template_id,
+      deleted_at: null,
+    },
+    transaction,
+  });
+  const shift_type_by_code = new Map(shift_types.map((st) => [st.code, st]));
+
+  let relinked_count = 0;
+  const unmatched_dates: string[] = [];
+
+  for (const work_shift of work_shifts) {
+    const work_date = String(work_shift.work_date);
+    const code = (work_shift as any).schedule.shift_type.code as string;
+    const shift_type = shift_type_by_code.get(code);
+    const version = shift_type
+      ? await findTemplateVersionForDate(
+          template.template_id,
+          work_date,
+          transaction
+        )
+      : null;
+
+    if (!shift_type || !version) {
+      unmatched_dates.push(work_date);
+      continue;
+    }
+
+    const schedule = await findOrCreateSchedule(
+      shift_type.shift_type_id,
+      version.template_version_id,
+      transaction
+    );
+    await WorkShift.update(
+      { schedule_id: schedule.schedule_id },
+      {
+        where: { work_shift_id: work_shift.work_shift_id },
+        transaction,
+      }
+    );
+    relinked_count += 1;
+  }
+
+  return { relinked_count, unmatched_dates };
+}
+
+/**
+ * 템플릿 활성화 (effective_from부터 적용, 기본: 오늘)
+ * - 지난 날짜부터는 활성화할 수 없음 (지난 근무의 근무 타입 유지)
+ * - 같은 날짜의 활성화 기록이 있으면 대체
+ * - 적용 기간에 이미 입력된 근무는 새 템플릿의 같은 코드 근무 타입으로 다시 연결
+ */
+export async function activateTemplate(
+  user_id: string,
+  template_id: string,
+  effective_from?: string | null,
+  timezone?: string | null
+): Promise<{
+  template_id: string;
+  effective_from: string;
+  relinked_count: number;
+  unmatched_dates: string[];
+}> {
+  const today = getToday(timezone);
+  const start_date = effective_from || today;
+
+  if (start_date < today) {
+    throw new Error("INVALID_EFFECTIVE_FROM");
+  }
+
+  return sequelize.transaction(async (transaction) => {
+    const template = await findOwnedTemplate(
+      user_id,
+      template_id,
+      transaction
+    );
+
+    if (template.archived_at) {
+      throw new Error("TEMPLATE_ARCHIVED");
+    }
+
+    await backfillLegacyActivation(user_id, start_date, transaction);
+
+    await ShiftTemplateActivation.upsert(
+      {
+        owner_user_id: user_id,
+        template_id: template.template_id,
+        effective_from: start_date,
+      },
+      {
+        conflictFields: ["owner_user_id", "effective_from"],
+        transaction,
+      }
+    );
+
+    const result = await relinkWorkShiftsToTemplate(
+      user_id,
+      template,
+      start_date,
+      transaction
+    );
+
+    return {
+      template_id: template.template_id,
+      effective_from: start_date,
+      ...result,
+    };
+  });
+}
+
+/**
+ * 템플릿 보관
+ * - 오늘 적용 중이거나 이후 활성화가 예정된 템플릿은 보관 불가 (TEMPLATE_IN_USE)
+ */
+export async function archiveTemplate(
+  user_id: string,
+  template_id: string,
+  timezone?: string | null
+): Promise<ShiftTemplate> {
+  return sequelize.transaction(async (transaction) => {
+    const template = await findOwnedTemplate(
+      user_id,
+      template_id,
+      transaction
+    );
+
+    const today = getToday(timezone);
+    const current_template = await findTemplateForDate(
+      user_id,
+      today,
+      transaction
+    );
+    const scheduled = await ShiftTemplateActivation.findOne({
+      where: {
+        owner_user_id: user_id,
+        template_id,
+        effective_from: { [Op.gt]: today },
+      },
+      transaction,
+    });
+
+    if (current_template?.template_id === template_id || scheduled) {
+      throw new Error("TEMPLATE_IN_USE");
+    }
+
+    if (!template.archived_at) {
+      template.archived_at = new Date();
+      await template.save({ transaction });
+    }
+
+    return template;
+  });
+}
+
+/**
+ * 템플릿 보관 해제
+ */
+export async function unarchiveTemplate(
+  user_id: string,
+  template_id: string
+): Promise<ShiftTemplate> {
+  const template = await findOwnedTemplate(user_id, template_id);
+
+  if (template.archived_at) {
+    template.archived_at = null;
+    await template.save();
+  }
+
+  return template;
+}
+
+// 병합 시 같은 코드의 근무 타입 처리 방식
+// - skip: 기존 근무 타입 유지
+// - overwrite: 이름/색상/현재 시간표를 가져온 값으로 변경
+// - rename: 코드 뒤에 숫자를 붙여 새 근무 타입으로 추가
+export type ShiftTypeConflictResolution = "skip" | "overwrite" | "rename";
+
+/**
+ * 근무 타입 정의를 기존 템플릿에 병합
+ * - 코드가 겹치면 resolutions[code] → conflict_resolution 순으로 처리 방식 결정
+ * - 새 근무 타입은 모든 버전에 같은 시간표로 추가
+ * - 시간표 덮어쓰기는 오늘부터 적용 (지난 근무의 시간은 유지)
+ */
+export async function mergeShiftTypes(
+  user_id: string,
+  template: ShiftTemplate,
+  definitions: ShiftTypeDefinition[],
+  options: {
+    conflict_resolution: ShiftTypeConflictResolution;
+    resolutions?: Record<string, ShiftTypeConflictResolution>;
+  },
+  timezone: string | null | undefined,
+  transaction: Transaction
+): Promise<{
+  created: string[];
+  updated: string[];
+  skipped: string[];
+  renamed: Array<{ from: string; to: string }>;
+}> {
+  const existing_types = await ShiftType.findAll({
+    where: {
+      template_id: template.template_id,
+      deleted_at: null,
+    },
+    transaction,
+  });
+  const existing_by_code = new Map(existing_types.map((st) => [st.code, st]));
+  const used_codes = new Set(existing_by_code.keys());
+
+  const result = {
+    created: [] as string[],
+    updated: [] as string[],
+    skipped: [] as string[],
+    renamed: [] as Array<{ from: string; to: string }>,
+  };
+
+  // 1. 근무 타입별 처리 방식 결정
+  const to_create: ShiftTypeDefinition[] = [];
+  const to_overwrite: Array<[ShiftType, ShiftTypeDefinition]> = [];
+  for (const definition of definitions) {
+    const existing = existing_by_code.get(definition.code);
+    if (!existing) {
+      to_create.push(definition);
+      used_codes.add(definition.code);
+      continue;
+    }
+
+    const resolution =
+      options.resolutions?.[definition.code] ?? options.conflict_resolution;
+    if (resolution === "overwrite") {
+      to_overwrite.push([existing, definition]);
+    } else if (resolution === "rename") {
+      let suffix = 2;
+      while (used_codes.has(`${definition.code}${suffix}`)) {
+        suffix += 1;
+      }
+      const code = `${definition.code}${suffix}`;
+      used_codes.add(code);
+      to_create.push({ ...definition, code });
+      result.renamed.push({ from: definition.code, to: code });
+    } else {
+      result.skipped.push(definition.code);
+    }
+  }
+
+  if (existing_types.length + to_create.length > MAX_SHIFT_TYPES_PER_TEMPLATE) {
+    throw new Error("MAX_SHIFT_TYPES_EXCEEDED");
+  }
+
+  // 2. 덮어쓰기
+  for (const [shift_type, definition] of to_overwrite) {
+    shift_type.name = definition.name;
+    shift_type.color = definition.color;
+    await shift_type.save({ transaction });
+    await setCurrentScheduleTime(
+      shift_type,
+      definition.start_time,
+      definition.end_time,
+      user_id,
+      timezone,
+      transaction
+    );
+    result.updated.push(shift_type.code);
+  }
+
+  // 3. 새 근무 타입 추가 (정렬 순서는 기존 근무 타입 뒤로)
+  const versions = await ShiftTemplateVersion.findAll({
+    where: { template_id: template.template_id },
+    transaction,
+  });
+  let sort_order = Math.max(
+    0,
+    ...existing_types.map((st) => st.sort_order ?? 0)
+  );
+
+  for (const definition of to_create) {
+    sort_order += 1;
+    const shift_type = await ShiftType.create(
+      {
+        template_id: template.template_id,
+        code: definition.code,
+        name: definition.name,
+        color: definition.color,
+        sort_order,
+      },
+      { transaction }
+    );
+
+    const time_info = calculateTimeInfo(
+      definition.start_time,
+      definition.end_time
+    );
+    await ShiftTypeSchedule.bulkCreate(
+      versions.map((version) => ({
+        shift_type_id: shift_type.shift_type_id,
+        template_version_id: version.template_version_id,
+        start_time: definition.start_time,
+        end_time: definition.end_time,
+        crosses_midnight: time_info.crosses_midnight,
+        duration_minutes: time_info.duration_minutes,
+      })),
+      { transaction }
+    );
+
+    if (!result.renamed.some((r) => r.to === definition.code)) {
+      result.created.push(definition.code);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,270 @@
+import { sequelize } from "../config/database";
+import {
+  ShiftTemplate,
+  ShiftTemplateVersion,
+  ShiftType,
+  ShiftTypeSchedule,
+} from "../models";
+import {
+  MAX_SHIFT_TYPES_PER_TEMPLATE,
+  ShiftTypeConflictResolution,
+  ShiftTypeDefinition,
+  createTemplateWithVersions,
+  findOwnedTemplate,
+  getActiveTemplate,
+  mergeShiftTypes,
+} from "./shiftTemplateService";
+import { formatDateInTimezone, resolveTimezone } from "../utils/dateUtils";
+
+export const TEMPLATE_DOCUMENT_FORMAT = "shift-template";
+export const TEMPLATE_DOCUMENT_VERSION = 1;
+
+// ============================================================
+// 타입 정의
+// ============================================================
+
+// 템플릿 JSON 문서 (백업/공유용, ID 없이 코드로만 연결)
+export interface TemplateDocument {
+  format: typeof TEMPLATE_DOCUMENT_FORMAT;
+  format_version: number;
+  exported_at: string;
+  template: {
+    name: string;
+    shift_types: Array<{
+      code: string;
+      name: string;
+      color: number | null;
+      sort_order: number | null;
+    }>;
+    versions: Array<{
+      version_no: number;
+      effective_from: string; // YYYY-MM-DD
+      schedules: Array<{
+        code: string;
+        start_time: string | null; // HH:mm:ss
+        end_time: string | null; // HH:mm:ss
+      }>;
+    }>;
+  };
+}
+
+export type TemplateDocumentImportMode = "new" | "merge";
+
+export interface TemplateDocumentImportResult {
+  mode: TemplateDocumentImportMode;
+  template_id: string;
+  template_name: string;
+  created: string[];
+  updated: string[];
+  skipped: string[];
+  renamed: Array<{ from: string; to: string }>;
+}
+
+// ============================================================
+// 헬퍼 함수
+// ============================================================
+
+/**
+ * 문서 내부 참조 검증 (형식 검증은 라우트에서 처리)
+ * - 근무 타입 코드 중복, 버전 적용일 중복, 없는 코드의 시간표가 있으면 INVALID_TEMPLATE_DOCUMENT
+ */
+function assertDocumentConsistency(document: TemplateDocument): void {
+  const { shift_types, versions } = document.template;
+
+  if (shift_types.length > MAX_SHIFT_TYPES_PER_TEMPLATE) {
+    throw new Error("MAX_SHIFT_TYPES_EXCEEDED");
+  }
+
+  const codes = new Set(shift_types.map((st) => st.code));
+  if (codes.size !== shift_types.length) {
+    throw new Error("INVALID_TEMPLATE_DOCUMENT");
+  }
+
+  const effective_dates = new Set(versions.map((v) => v.effective_from));
+  if (effective_dates.size !== versions.length) {
+    throw new Error("INVALID_TEMPLATE_DOCUMENT");
+  }
+
+  for (const version of versions) {
+    const schedule_codes = version.schedules.map((s) => s.code);
+    if (
+      new Set(schedule_codes).size !== schedule_codes.length ||
+      schedule_codes.some((code) => !codes.has(code))
+    ) {
+      throw new Error("INVALID_TEMPLATE_DOCUMENT");
+    }
+  }
+}
+
+/**
+ * 문서에서 특정 날짜에 유효한 버전 기준 근무 타입 정의
+ * - effective_from <= date 중 가장 최근 버전, 없으면 첫 버전
+ */
+function getDocumentDefinitions(
+  document: TemplateDocument,
+  date: string
+): ShiftTypeDefinition[] {
+  const versions = [...document.template.versions].sort((a, b) =>
+    a.effective_from.localeCompare(b.effective_from)
+  );
+  const version =
+    [...versions].reverse().find((v) => v.effective_from <= date) ??
+    versions[0];
+  const schedules_by_code = new Map(
+    version.schedules.map((schedule) => [schedule.code, schedule])
+  );
+
+  return document.template.shift_types.map((shift_type) => ({
+    code: shift_type.code,
+    name: shift_type.name,
+    color: shift_type.color,
+    sort_order: shift_type.sort_order,
+    start_time: schedules_by_code.get(shift_type.code)?.start_time ?? null,
+    end_time: schedules_by_code.get(shift_type.code)?.end_time ?? null,
+  }));
+}
+
+// ============================================================
+// 내보내기
+// ============================================================
+
+/**
+ * 템플릿을 JSON 문서로 내보내기 (모든 버전의 시간표 포함, 삭제된 근무 타입 제외)
+ */
+export async function exportTemplateDocument(
+  user_id: string,
+  template_id: string
+): Promise<TemplateDocument> {
+  const template = await findOwnedTemplate(user_id, template_id);
+
+  const [shift_types, versions] = await Promise.all([
+    ShiftType.findAll({
+      where: { template_id: template.template_id, deleted_at: null },
+      order: [["sort_order", "ASC"]],
+    }),
+    ShiftTemplateVersion.findAll({
+      where: { template_id: template.template_id },
+      include: [
+        {
+          model: ShiftTypeSchedule,
+          as: "schedules",
+          required: false,
+        },
+      ],
+      order: [["effective_from", "ASC"]],
+    }),
+  ]);
+
+  return {
+    format: TEMPLATE_DOCUMENT_FORMAT,
+    format_version: TEMPLATE_DOCUMENT_VERSION,
+    exported_at: new Date().toISOString(),
+    template: {
+      name: template.name,
+      shift_types: shift_types.map((st) => ({
+        code: st.code,
+        name: st.name,
+        color: st.color ?? null,
+        sort_order: st.sort_order ?? null,
+      })),
+      versions: versions.map((version) => {
+        const schedules = ((version as any).schedules ??
+          []) as ShiftTypeSchedule[];
+        return {
+          version_no: version.version_no,
+          effective_from: String(version.effective_from),
+          schedules: shift_types.flatMap((st) => {
+            const schedule = schedules.find(
+              (s) => s.shift_type_id === st.shift_type_id
+            );
+            return schedule
+              ? [
+                  {
+                    code: st.code,
+                    start_time: schedule.start_time ?? null,
+                    end_time: schedule.end_time ?? null,
+                  },
+                ]
+              : [];
+          }),
+        };
+      }),
+    },
+  };
+}
+
+// ============================================================
+// 가져오기
+// ============================================================
+
+/**
+ * JSON 문서에서 템플릿 가져오기
+ * - new: 모든 버전을 포함한 새 템플릿 생성 (활성화는 별도로 요청)
+ * - merge: template_id(없으면 현재 적용 중인 템플릿)에 오늘 유효한 버전 기준으로 근무 타입 병합
+ *   (이전 버전의 시간표는 병합하지 않음)
+ */
+export async function importTemplateDocument(
+  user_id: string,
+  document: TemplateDocument,
+  options: {
+    mode: TemplateDocumentImportMode;
+    name?: string | null;
+    template_id?: string | null;
+    conflict_resolution?: ShiftTypeConflictResolution;
+  },
+  timezone?: string | null
+): Promise<TemplateDocumentImportResult> {
+  assertDocumentConsistency(document);
+
+  return sequelize.transaction(async (transaction) => {
+    if (options.mode === "new") {
+      const name = options.name ?? document.template.name;
+      const duplicate = await ShiftTemplate.findOne({
+        where: { owner_user_id: user_id, name, deleted_at: null },
+        transaction,
+      });
+      if (duplicate) {
+        throw new Error("DUPLICATE_NAME");
+      }
+
+      const template = await createTemplateWithVersions(
+        user_id,
+        name,
+        document.template.shift_types,
+        document.template.versions,
+        transaction
+      );
+
+      return {
+        mode: "new" as const,
+        template_id: template.template_id,
+        template_name: template.name,
+        created: document.template.shift_types.map((st) => st.code),
+        updated: [],
+        skipped: [],
+        renamed: [],
+      };
+    }
+
+    const template = options.template_id
+      ? await findOwnedTemplate(user_id, options.template_id, transaction)
+      : await getActiveTemplate(user_id, timezone, transaction);
+    const today = formatDateInTimezone(new Date(), resolveTimezone(timezone));
+
+    const merged = await mergeShiftTypes(
+      user_id,
+      template,
+      getDocumentDefinitions(document, today),
+      { conflict_resolution: options.conflict_resolution ?? "skip" },
+      timezone,
+      transaction
+    );
+
+    return {
+      mode: "merge" as const,
+      template_id: template.template_id,
+      template_name: template.name,
+      ...merged,
+    };
+  });
+}
@@ -0,0 +1,491 @@
+import crypto from "crypto";
+import { Op } from "sequelize";
+import { sequelize } from "../config/database";
+import {
+  Notification,
+  ShiftTemplate,
+  ShiftTemplateShare,
+  ShiftType,
+  User,
+} from "../models";
+import {
+  ShiftTypeConflictResolution,
+  ShiftTypeDefinition,
+  createTemplateFromDefinitions,
+  findOwnedTemplate,
+  getActiveTemplate,
+  getShiftTypeDefinitions,
+  mergeShiftTypes,
+} from "./shiftTemplateService";
+import { PaginationInfo, assertFriends } from "./friendService";
+import { formatDateInTimezone, resolveTimezone } from "../utils/dateUtils";
+
+// ============================================================
+// 에러 코드 상수
+// ============================================================
+export const TemplateShareErrorCodes = {
+  TEMPLATE_NOT_FOUND: "TEMPLATE_NOT_FOUND",
+  USER_NOT_FOUND: "USER_NOT_FOUND",
+  SELF_SHARE: "SELF_SHARE",
+  NOT_FRIENDS: "NOT_FRIENDS",
+  SHARE_NOT_FOUND: "SHARE_NOT_FOUND",
+  SHARE_EXPIRED: "SHARE_EXPIRED",
+  NOT_RECIPIENT: "NOT_RECIPIENT",
+  NOT_OWNER: "NOT_OWNER",
+  DUPLICATE_NAME: "DUPLICATE_NAME",
+  MAX_SHIFT_TYPES_EXCEEDED: "MAX_SHIFT_TYPES_EXCEEDED",
+} as const;
+
+// 공유 코드 유효 기간 (일)
+const SHARE_VALID_DAYS = 30;
+// 공유 코드 길이 및 사용 문자 (혼동하기 쉬운 0/O, 1/I 제외)
+const SHARE_CODE_LENGTH = 8;
+const SHARE_CODE_ALPHABET = "23456789ABCDEFGHJKLMNPQRSTUVWXYZ";
+const MAX_SHARE_CODE_ATTEMPTS = 5;
+
+// ============================================================
+// 타입 정의
+// ============================================================
+export interface TemplateShareInfo {
+  share_code: string;
+  template_id: string;
+  template_name: string;
+  shift_types: ShiftTypeDefinition[];
+  recipient_user_id: string | null;
+  import_count: number;
+  expires_at: Date;
+  revoked_at: Date | null;
+  created_at: Date;
+}
+
+interface ShareUserInfo {
+  user_id: string;
+  name: string;
+  profile_image_url: string | null;
+}
+
+export type TemplateImportMode = "new" | "merge";
+
+export interface TemplateImportResult {
+  mode: TemplateImportMode;
+  template_id: string;
+  template_name: string;
+  created: string[];
+  updated: string[];
+  skipped: string[];
+  renamed: Array<{ from: string; to: string }>;
+}
+
+// ============================================================
+// 헬퍼 함수
+// ============================================================
+
+function formatShare(share: ShiftTemplateShare): TemplateShareInfo {
+  return {
+    share_code: share.share_code,
+    template_id: share.template_id,
+    template_name: share.template_name,
+    shift_types: share.shift_types,
+    recipient_user_id: share.recipient_user_id ?? null,
+    import_count: share.import_count,
+    expires_at: share.expires_at,
+    revoked_at: share.revoked_at ?? null,
+    created_at: share.created_at!,
+  };
+}
+
+function formatShareUser(user: User): ShareUserInfo {
+  return {
+    user_id: user.user_id,
+    name: user.name,
+    profile_image_url: user.profile_image_url ?? null,
+  };
+}
+
+function generateShareCode(): string {
+  const bytes = crypto.randomBytes(SHARE_CODE_LENGTH);
+  return Array.from(
+    bytes,
+    (byte) => SHARE_CODE_ALPHABET[byte % SHARE_CODE_ALPHABET.length]
+  ).join("");
+}
+
+/**
+ * 사용하지 않은 공유 코드 생성 (충돌 시 재시도)
+ */
+async function generateUniqueShareCode(): Promise<string> {
+  for (let attempt = 0; attempt < MAX_SHARE_CODE_ATTEMPTS; attempt++) {
+    const share_code = generateShareCode();
+    const existing = await ShiftTemplateShare.findOne({
+      where: { share_code },
+      attributes: ["share_id"],
+    });
+    if (!existing) {
+      return share_code;
+    }
+  }
+
+  throw new Error("SHARE_CODE_GENERATION_FAILED");
+}
+
+/**
+ * 가져올 수 있는 공유 조회
+ * - 취소된 공유는 SHARE_NOT_FOUND, 만료된 공유는 SHARE_EXPIRED
+ * - 친구에게 보낸 공유는 보낸 사람과 받는 사람만 조회 가능
+ */
+async function findAccessibleShare(
+  user_id: string,
+  share_code: string
+): Promise<ShiftTemplateShare> {
+  const share = await ShiftTemplateShare.findOne({
+    where: { share_code: share_code.toUpperCase(), revoked_at: null },
+    include: [
+      {
+        model: User,
+        as: "owner",
+        attributes: ["user_id", "name", "profile_image_url"],
+      },
+    ],
+  });
+
+  if (!share) {
+    throw new Error(TemplateShareErrorCodes.SHARE_NOT_FOUND);
+  }
+  if (share.expires_at <= new Date()) {
+    throw new Error(TemplateShareErrorCodes.SHARE_EXPIRED);
+  }
+  if (
+    share.recipient_user_id &&
+    share.recipient_user_id !== user_id &&
+    share.owner_user_id !== user_id
+  ) {
+    throw new Error(TemplateShareErrorCodes.NOT_RECIPIENT);
+  }
+
+  return share;
+}
+
+/**
+ * 겹치지 않는 템플릿 이름 생성 ("이름", "이름 (2)", "이름 (3)" ...)
+ */
+async function resolveTemplateName(
+  user_id: string,
+  name: string
+): Promise<string> {
+  const templates = await ShiftTemplate.findAll({
+    where: {
+      owner_user_id: user_id,
+      name: { [Op.startsWith]: name },
+      deleted_at: null,
+    },
+    attributes: ["name"],
+  });
+  const used_names = new Set(templates.map((t) => t.name));
+
+  let candidate = name;
+  let suffix = 2;
+  while (used_names.has(candidate)) {
+    candidate = `${name} (${suffix})`;
+    suffix += 1;
+  }
+  return candidate;
+}
+
+// ============================================================
+// 템플릿 공유
+// ============================================================
+
+/**
+ * 템플릿 공유 코드 발급
+ * - 공유 시점의 근무 타입/시간표(오늘 유효한 버전)를 저장하므로 이후 원본을 수정해도 공유 내용은 바뀌지 않음
+ * - recipient_user_id가 있으면 해당 친구만 가져올 수 있고 알림을 보냄
+ */
+export async function createTemplateShare(
+  user_id: string,
+  template_id: string,
+  data: { recipient_user_id?: string | null },
+  timezone?: string | null
+): Promise<TemplateShareInfo> {
+  const recipient_user_id = data.recipient_user_id ?? null;
+
+  // 1. 받는 사용자 및 친구 관계 확인
+  let recipient: User | null = null;
+  if (recipient_user_id) {
+    if (recipient_user_id === user_id) {
+      throw new Error(TemplateShareErrorCodes.SELF_SHARE);
+    }
+    recipient = await User.findByPk(recipient_user_id);
+    if (!recipient) {
+      throw new Error(TemplateShareErrorCodes.USER_NOT_FOUND);
+    }
+    await assertFriends(user_id, recipient_user_id);
+  }
+
+  // 2. 템플릿 스냅샷
+  const template = await findOwnedTemplate(user_id, template_id);
+  const shift_types = await getShiftTypeDefinitions(
+    template.template_id,
+    formatDateInTimezone(new Date(), resolveTimezone(timezone))
+  );
+
+  // 3. 공유 생성
+  const expires_at = new Date();
+  expires_at.setDate(expires_at.getDate() + SHARE_VALID_DAYS);
+
+  const share = await ShiftTemplateShare.create({
+    share_code: await generateUniqueShareCode(),
+    owner_user_id: user_id,
+    template_id: template.template_id,
+    recipient_user_id,
+    template_name: template.name,
+    shift_types,
+    expires_at,
+  });
+
+  // 4. 알림 생성 (받는 친구에게)
+  if (recipient) {
+    const owner = await User.findByPk(user_id);
+    await createTemplateSharedNotification(recipient.user_id, share, owner!);
+  }
+
+  return formatShare(share);
+}
+
+/**
+ * 공유 내용 미리보기
+ * - conflicts: 현재 적용 중인 내 템플릿과 코드가 겹치는 근무 타입
+ */
+export async function getTemplateShare(
+  user_id: string,
+  share_code: string,
+  timezone?: string | null
+): Promise<
+  TemplateShareInfo & {
+    owner: ShareUserInfo;
+    conflicts: string[];
+  }
+> {
+  const share = await findAccessibleShare(user_id, share_code);
+  const current_template = await getActiveTemplate(user_id, timezone);
+
+  const shift_types = await ShiftType.findAll({
+    where: {
+      template_id: current_template.template_id,
+      code: { [Op.in]: share.shift_types.map((st) => st.code) },
+      deleted_at: null,
+    },
+    attributes: ["code"],
+  });
+
+  return {
+    ...formatShare(share),
+    owner: formatShareUser(share.owner!),
+    conflicts: shift_types.map((st) => st.code),
+  };
+}
+
+/**
+ * 공유된 템플릿 가져오기
+ * - new: 새 템플릿으로 생성 (활성화는 별도로 요청), 이름을 지정하지 않으면 겹치지 않게 번호를 붙임
+ * - merge: template_id(없으면 현재 적용 중인 템플릿)에 근무 타입 병합
+ */
+export async function importTemplateShare(
+  user_id: string,
+  share_code: string,
+  data: {
+    mode: TemplateImportMode;
+    name?: string | null;
+    template_id?: string | null;
+    conflict_resolution?: ShiftTypeConflictResolution;
+    resolutions?: Record<string, ShiftTypeConflictResolution>;
+  },
+  timezone?: string | null
+): Promise<TemplateImportResult> {
+  const share = await findAccessibleShare(user_id, share_code);
+
+  let result: TemplateImportResult;
+  if (data.mode === "new") {
+    let name = data.name ?? null;
+    if (name) {
+      const duplicate = await ShiftTemplate.findOne({
+        where: { owner_user_id: user_id, name, deleted_at: null },
+      });
+      if (duplicate) {
+        throw new Error(TemplateShareErrorCodes.DUPLICATE_NAME);
+      }
+    } else {
+      name = await resolveTemplateName(user_id, share.template_name);
+    }
+
+    const template = await sequelize.transaction((transaction) =>
+      createTemplateFromDefinitions(
+        user_id,
+        name!,
+        formatDateInTimezone(new Date(), resolveTimezone(timezone)),
+        share.shift_types,
+        transaction
+      )
+    );
+
+    result = {
+      mode: "new",
+      template_id: template.template_id,
+      template_name: template.name,
+      created: share.shift_types.map((st) => st.code),
+      updated: [],
+      skipped: [],
+      renamed: [],
+    };
+  } else {
+    result = await sequelize.transaction(async (transaction) => {
+      const template = data.template_id
+        ? await findOwnedTemplate(user_id, data.template_id, transaction)
+        : await getActiveTemplate(user_id, timezone, transaction);
+
+      const merged = await mergeShiftTypes(
+        user_id,
+        template,
+        share.shift_types,
+        {
+          conflict_resolution: data.conflict_resolution ?? "skip",
+          resolutions: data.resolutions,
+        },
+        timezone,
+        transaction
+      );
+
+      return {
+        mode: "merge" as const,
+        template_id: template.template_id,
+        template_name: template.name,
+        ...merged,
+      };
+    });
+  }
+
+  await share.increment("import_count");
+
+  return result;
+}
+
+// ============================================================
+// 공유 목록 조회 / 취소
+// ============================================================
+
+/**
+ * 공유 목록 조회
+ * - sent: 내가 만든 공유 (취소/만료 포함)
+ * - received: 친구가 나에게 보낸 공유 (유효한 공유만)
+ */
+export async function getTemplateShares(
+  user_id: string,
+  direction: "sent" | "received",
+  page: number = 1,
+  limit: number = 20
+): Promise<{
+  shares: Array<
+    TemplateShareInfo & {
+      counterpart: ShareUserInfo | null;
+    }
+  >;
+  pagination: PaginationInfo;
+}> {
+  const offset = (page - 1) * limit;
+  const counterpart_alias = direction === "received" ? "owner" : "recipient";
+  const where_condition: Record<string, unknown> =
+    direction === "received"
+      ? {
+          recipient_user_id: user_id,
+          revoked_at: null,
+          expires_at: { [Op.gt]: new Date() },
+        }
+      : { owner_user_id: user_id };
+
+  const { count, rows } = await ShiftTemplateShare.findAndCountAll({
+    where: where_condition,
+    include: [
+      {
+        model: User,
+        as: counterpart_alias,
+        attributes: ["user_id", "name", "profile_image_url"],
+      },
+    ],
+    order: [["created_at", "DESC"]],
+    limit,
+    offset,
+  });
+
+  const shares = rows.map((row) => {
+    const counterpart = row[counterpart_alias];
+    return {
+      ...formatShare(row),
+      counterpart: counterpart ? formatShareUser(counterpart) : null,
+    };
+  });
+
+  return {
+    shares,
+    pagination: {
+      page,
+      limit,
+      total: count,
+      total_pages: Math.ceil(count / limit),
+    },
+  };
+}
+
+/**
+ * 공유 취소 (이미 가져간 템플릿에는 영향 없음)
+ */
+export async function revokeTemplateShare(
+  user_id: string,
+  share_code: string
+): Promise<TemplateShareInfo> {
+  const share = await ShiftTemplateShare.findOne({
+    where: { share_code: share_code.toUpperCase(), revoked_at: null },
+  });
+
+  if (!share) {
+    throw new Error(TemplateShareErrorCodes.SHARE_NOT_FOUND);
+  }
+  if (share.owner_user_id !== user_id) {
+    throw new Error(TemplateShareErrorCodes.NOT_OWNER);
+  }
+
+  await share.update({ revoked_at: new Date() });
+
+  return formatShare(share);
+}
+
+// ============================================================
+// 알림 생성 헬퍼
+// ============================================================
+
+/**
+ * 템플릿 공유 알림 생성
+ */
+async function createTemplateSharedNotification(
+  user_id: string,
+  share: ShiftTemplateShare,
+  owner: User
+): Promise<void> {
+  await Notification.create({
+    user_id,
+    notification_type: "TEMPLATE_SHARED",
+    title: "근무 템플릿 공유",
+    body: `${owner.name}님이 근무 템플릿 '${share.template_name}'을(를) 공유했습니다.`,
+    payload: {
+      related_user_id: owner.user_id,
+      share_code: share.share_code,
+      user_name: owner.name,
+      profile_image_url: owner.profile_image_url ?? null,
+    },
+    actions: [
+      {
+        type: "navigate",
+        label: "템플릿 보기",
+        route: `/shift-template-shares/${share.share_code}`,
+      },
+    ],
+  });
+}
@@ -0,0 +1,350 @@
+import { Op } from "sequelize";
+import { sequelize } from "../config/database";
+import {
+  Event,
+  EventOccurrenceOverride,
+  ShiftType,
+  ShiftTypeSchedule,
+  WorkShift,
+  WorkShiftHistory,
+} from "../models";
+import { getWorkShifts } from "./calendarService";
+import {
+  recordWorkShiftChange,
+  toWorkShiftSnapshot,
+} from "./workShiftHistoryService";
+import { DAY_MS, getPurgeAt, toDateString } from "../utils/dateUtils";
+
+// 휴지통 보관 기간 (일), 지나면 백그라운드 작업에서 완전 삭제
+export const TRASH_RETENTION_DAYS = parseInt(
+  process.env.TRASH_RETENTION_DAYS || "30",
+  10
+);
+
+// ============================================================
+// 타입 정의
+// ============================================================
+export interface TrashWorkShiftItem {
+  work_shift_id: string;
+  work_date: string;
+  shift_type_code: string;
+  shift_type_name: string;
+  shift_type_color: number | null;
+  note: string | null;
+  deleted_at: Date;
+  deleted_by_user_id: string | null;
+  purge_at: Date;
+}
+
+export interface TrashEventItem {
+  event_id: string;
+  title: string;
+  memo: string | null;
+  place: string | null;
+  all_day: boolean;
+  start_at: Date;
+  end_at: Date;
+  rrule: string | null;
+  deleted_at: Date;
+  deleted_by_user_id: string | null;
+  purge_at: Date;
+}
+
+// ============================================================
+// 헬퍼 함수
+// ============================================================
+
+function formatTrashWorkShift(ws: WorkShift): TrashWorkShiftItem {
+  const schedule = (ws as any).schedule as
+    | (ShiftTypeSchedule & { shift_type?: ShiftType })
+    | undefined;
+  const shift_type = schedule?.shift_type;
+
+  return {
+    work_shift_id: ws.work_shift_id,
+    work_date: toDateString(ws.work_date),
+    shift_type_code: shift_type?.code || "",
+    shift_type_name: shift_type?.name || "",
+    shift_type_color: shift_type?.color ?? null,
+    note: ws.note || null,
+    deleted_at: ws.deleted_at!,
+    deleted_by_user_id: ws.deleted_by_user_id ?? null,
+    purge_at: getPurgeAt(ws.deleted_at!, TRASH_RETENTION_DAYS),
+  };
+}
+
+function formatTrashEvent(e: Event): TrashEventItem {
+  return {
+    event_id: e.event_id,
+    title: e.title,
+    memo: e.memo || null,
+    place: e.place || null,
+    all_day: e.all_day,
+    start_at: e.start_at,
+    end_at: e.end_at,
+    rrule: e.rrule || null,
+    deleted_at: e.deleted_at!,
+    deleted_by_user_id: e.deleted_by_user_id ?? null,
+    purge_at: getPurgeAt(e.deleted_at!, TRASH_RETENTION_DAYS),
+  };
+}
+
+function includeShiftType() {
+  return [
+    {
+      model: ShiftTypeSchedule,
+      as: "schedule",
+      required: true,
+      include: [
+        {
+          model: ShiftType,
+          as: "shift_type",
+          required: true,
+        },
+      ],
+    },
+  ];
+}
+
+// ============================================================
+// 휴지통 조회
+// ============================================================
+
+/**
+ * 최근 N일 이내에 삭제된 근무표/일정 목록 (최근 삭제순)
+ */
+export async function getTrash(
+  user_id: string,
+  days: number = TRASH_RETENTION_DAYS
+): Promise<{
+  retention_days: number;
+  work_shifts: TrashWorkShiftItem[];
+  events: TrashEventItem[];
+}> {
+  const since = new Date(Date.now() - days * DAY_MS);
+
+  const [work_shifts, events] = await Promise.all([
+    WorkShift.findAll({
+      where: {
+        owner_user_id: user_id,
+        deleted_at: { [Op.gte]: since },
+      },
+      include: includeShiftType(),
+      order: [["deleted_at", "DESC"]],
+    }),
+    Event.findAll({
+      where: {
+        owner_user_id: user_id,
+        deleted_at: { [Op.gte]: since },
+      },
+      order: [["deleted_at", "DESC"]],
+    }),
+  ]);
+
+  return {
+    retention_days: TRASH_RETENTION_DAYS,
+    work_shifts: work_shifts.map(formatTrashWorkShift),
+    events: events.map(formatTrashEvent),
+  };
+}
+
+// ============================================================
+// 복원
+// ============================================================
+
+/**
+ * 삭제된 근무 복원
+ * - 같은 날짜에 다른 근무가 이미 있으면 WORK_SHIFT_DATE_CONFLICT (existing_work_shift 포함)
+ *   (overwrite=true면 기존 근무를 휴지통으로 옮기고 복원)
+ * - 복원도 변경 이력에 기록
+ */
+export async function restoreWorkShift(
+  user_id: string,
+  work_shift_id: string,
+  overwrite: boolean = false
+): Promise<Awaited<ReturnType<typeof getWorkShifts>>[number]> {
+  const work_shift = await WorkShift.findOne({
+    where: {
+      work_shift_id,
+      owner_user_id: user_id,
+      deleted_at: { [Op.ne]: null },
+    },
+    include: includeShiftType(),
+  });
+
+  if (!work_shift) {
+    throw new Error("WORK_SHIFT_NOT_FOUND");
+  }
+
+  const work_date = formatTrashWorkShift(work_shift).work_date;
+
+  await sequelize.transaction(async (transaction) => {
+    // 1. 같은 날짜의 활성 근무 확인
+    const existing = await WorkShift.findOne({
+      where: {
+        owner_user_id: user_id,
+        work_date,
+        deleted_at: null,
+        work_shift_id: { [Op.ne]: work_shift_id },
+      },
+      include: includeShiftType(),
+      transaction,
+    });
+
+    if (existing) {
+      if (!overwrite) {
+        const schedule = (existing as any).schedule as
+          | (ShiftTypeSchedule & { shift_type?: ShiftType })
+          | undefined;
+        const error = new Error("WORK_SHIFT_DATE_CONFLICT") as any;
+        error.work_date = work_date;
+        error.existing_work_shift = {
+          work_shift_id: existing.work_shift_id,
+          shift_type_code: schedule?.shift_type?.code || "",
+          shift_type_name: schedule?.shift_type?.name || "",
+          note: existing.note || null,
+        };
+        throw error;
+      }
+
+      await existing.update(
+        {
+          deleted_at: new Date(),
+          deleted_by_user_id: user_id,
+        },
+        { transaction }
+      );
+      await recordWorkShiftChange(
+        {
+          work_shift_id: existing.work_shift_id,
+          owner_user_id: user_id,
+          work_date,
+          before: toWorkShiftSnapshot(existing).state,
+          after: null,
+          changed_by_user_id: user_id,
+        },
+        transaction
+      );
+    }
+
+    // 2. 복원
+    await work_shift.update(
+      {
+        deleted_at: null,
+        deleted_by_user_id: null,
+      },
+      { transaction }
+    );
+    await recordWorkShiftChange(
+      {
+        work_shift_id,
+        owner_user_id: user_id,
+        work_date,
+        before: null,
+        after: toWorkShiftSnapshot(work_shift).state,
+        changed_by_user_id: user_id,
+      },
+      transaction
+    );
+  });
+
+  const [restored] = await getWorkShifts(user_id, work_date, work_date);
+  return restored;
+}
+
+/**
+ * 삭제된 일정 복원
+ */
+export async function restoreEvent(
+  user_id: string,
+  event_id: string
+): Promise<{
+  event_id: string;
+  title: string;
+  start_at: Date;
+  end_at: Date;
+  rrule: string | null;
+}> {
+  const event = await Event.findOne({
+    where: {
+      event_id,
+      owner_user_id: user_id,
+      deleted_at: { [Op.ne]: null },
+    },
+  });
+
+  if (!event) {
+    throw new Error("EVENT_NOT_FOUND");
+  }
+
+  await event.update({
+    deleted_at: null,
+    deleted_by_user_id: null,
+  });
+
+  return {
+    event_id: event.event_id,
+    title: event.title,
+    start_at: event.start_at,
+    end_at: event.end_at,
+    rrule: event.rrule || null,
+  };
+}
+
+// ============================================================
+// 보관 기간이 지난 항목 완전 삭제
+// ============================================================
+
+/**
+ * 보관 기간이 지난 삭제 근무표/일정 완전 삭제 (백그라운드 작업용)
+ * - 근무 변경 이력, 반복 일정 예외 수정도 함께 삭제
+ */
+export async function purgeExpiredTrash(now: Date = new Date()): Promise<{
+  work_shifts: number;
+  events: number;
+}> {
+  const cutoff = new Date(now.getTime() - TRASH_RETENTION_DAYS * DAY_MS);
+
+  return sequelize.transaction(async (transaction) => {
+    const expired_work_shifts = await WorkShift.findAll({
+      attributes: ["work_shift_id"],
+      where: { deleted_at: { [Op.lt]: cutoff } },
+      transaction,
+    });
+    const work_shift_ids = expired_work_shifts.map((ws) => ws.work_shift_id);
+
+    const expired_events = await Event.findAll({
+      attributes: ["event_id"],
+      where: { deleted_at: { [Op.lt]: cutoff } },
+      transaction,
+    });
+    const event_ids = expired_events.map((e) => e.event_id);
+
+    if (work_shift_ids.length > 0) {
+      await WorkShiftHistory.destroy({
+        where: { work_shift_id: { [Op.in]: work_shift_ids } },
+        transaction,
+      });
+      await WorkShift.destroy({
+        where: { work_shift_id: { [Op.in]: work_shift_ids } },
+        transaction,
+      });
+    }
+
+    if (event_ids.length > 0) {
+      await EventOccurrenceOverride.destroy({
+        where: { event_id: { [Op.in]: event_ids } },
+        transaction,
+      });
+      await Event.destroy({
+        where: { event_id: { [Op.in]: event_ids } },
+        transaction,
+      });
+    }
+
+    return {
+      work_shifts: work_shift_ids.length,
+      events: event_ids.length,
+    };
+  });
+}
@@ -0,0 +1,297 @@
+import { Op, Transaction } from "sequelize";
+import {
+  ShiftType,
+  ShiftTypeSchedule,
+  User,
+  WorkShift,
+  WorkShiftHistory,
+  WorkShiftHistoryAction,
+} from "../models";
+import { toDateString } from "../utils/dateUtils";
+
+// ============================================================
+// 타입 정의
+// ============================================================
+
+// 특정 시점의 근무 상태
+export interface WorkShiftState {
+  schedule_id: string;
+  shift_type_code: string;
+  note: string | null;
+}
+
+// 날짜별 근무 행 스냅샷 (삭제된 근무면 state가 null)
+export interface WorkShiftSnapshot {
+  work_shift_id: string;
+  state: WorkShiftState | null;
+}
+
+export interface WorkShiftHistoryItem {
+  history_id: string;
+  work_shift_id: string;
+  work_date: string;
+  action: WorkShiftHistoryAction;
+  before: { shift_type_code: string; note: string | null } | null;
+  after: { shift_type_code: string; note: string | null } | null;
+  changed_by: {
+    user_id: string;
+    name: string;
+  } | null;
+  reverted_history_id: string | null;
+  created_at: Date;
+}
+
+// ============================================================
+// 헬퍼 함수
+// ============================================================
+
+function isSameState(
+  a: WorkShiftState | null,
+  b: WorkShiftState | null
+): boolean {
+  if (!a || !b) {
+    return a === b;
+  }
+  return (
+    a.schedule_id === b.schedule_id && (a.note || null) === (b.note || null)
+  );
+}
+
+function formatHistory(history: WorkShiftHistory): WorkShiftHistoryItem {
+  return {
+    history_id: history.history_id,
+    work_shift_id: history.work_shift_id,
+    work_date: toDateString(history.work_date),
+    action: history.action,
+    before: history.old_shift_type_code
+      ? {
+          shift_type_code: history.old_shift_type_code,
+          note: history.old_note ?? null,
+        }
+      : null,
+    after: history.new_shift_type_code
+      ? {
+          shift_type_code: history.new_shift_type_code,
+          note: history.new_note ?? null,
+        }
+      : null,
+    changed_by: history.changed_by
+      ? {
+          user_id: history.changed_by.user_id,
+          name: history.changed_by.name,
+        }
+      : null,
+    reverted_history_id: history.reverted_history_id ?? null,
+    created_at: history.created_at!,
+  };
+}
+
+// ============================================================
+// 이력 기록
+// ============================================================
+
+/**
+ * 날짜별 근무 행 스냅샷 조회 (삭제된 근무 포함)
+ * 변경 전 상태를 이력에 남기기 위해 쓰기 전에 호출
+ */
+export async function getWorkShiftSnapshots(
+  owner_user_id: string,
+  dates: string[],
+  transaction?: Transaction
+): Promise<Map<string, WorkShiftSnapshot>> {
+  const work_shifts = await WorkShift.findAll({
+    where: {
+      owner_user_id,
+      work_date: { [Op.in]: dates },
+    },
+    include: [
+      {
+        model: ShiftTypeSchedule,
+        as: "schedule",
+        required: true,
+        include: [
+          {
+            model: ShiftType,
+            as: "shift_type",
+            required: true,
+          },
+        ],
+      },
+    ],
+    transaction,
+  });
+
+  // 같은 날짜에 삭제된 근무가 여러 개일 수 있으므로 활성 근무 우선, 없으면 가장 최근 삭제된 근무
+  const by_date = new Map<string, WorkShift>();
+  for (const ws of work_shifts) {
+    const date = toDateString(ws.work_date);
+    const current = by_date.get(date);
+    if (
+      !current ||
+      (current.deleted_at &&
+        (!ws.deleted_at || ws.deleted_at > current.deleted_at))
+    ) {
+      by_date.set(date, ws);
+    }
+  }
+
+  return new Map(
+    [...by_date].map(([date, ws]) => [date, toWorkShiftSnapshot(ws)])
+  );
+}
+
+/**
+ * 근무 행을 스냅샷으로 변환 (schedule.shift_type이 포함된 행이어야 함)
+ */
+export function toWorkShiftSnapshot(work_shift: WorkShift): WorkShiftSnapshot {
+  const schedule = (work_shift as any).schedule as ShiftTypeSchedule & {
+    shift_type?: ShiftType;
+  };
+
+  return {
+    work_shift_id: work_shift.work_shift_id,
+    state: work_shift.deleted_at
+      ? null
+      : {
+          schedule_id: work_shift.schedule_id,
+          shift_type_code: schedule.shift_type!.code,
+          note: work_shift.note || null,
+        },
+  };
+}
+
+/**
+ * 근무 변경 이력 기록
+ * - 변경 전/후 상태로 CREATE/UPDATE/DELETE 판단
+ * - 실제로 바뀐 것이 없으면 기록하지 않음
+ */
+export async function recordWorkShiftChange(
+  change: {
+    work_shift_id: string;
+    owner_user_id: string;
+    work_date: Date | string;
+    before: WorkShiftState | null;
+    after: WorkShiftState | null;
+    changed_by_user_id: string;
+    reverted_history_id?: string | null;
+  },
+  transaction?: Transaction
+): Promise<WorkShiftHistory | null> {
+  const { before, after } = change;
+  if (isSameState(before, after)) {
+    return null;
+  }
+
+  const action: WorkShiftHistoryAction = !before
+    ? "CREATE"
+    : !after
+    ? "DELETE"
+    : "UPDATE";
+
+  return WorkShiftHistory.create(
+    {
+      work_shift_id: change.work_shift_id,
+      owner_user_id: change.owner_user_id,
+      work_date: toDateString(change.work_date),
+      action,
+      old_schedule_id: before?.schedule_id ?? null,
+      old_shift_type_code: before?.shift_type_code ?? null,
+      old_note: before?.note ?? null,
+      new_schedule_id: after?.schedule_id ?? null,
+      new_shift_type_code: after?.shift_type_code ?? null,
+      new_note: after?.note ?? null,
+      changed_by_user_id: change.changed_by_user_id,
+      reverted_history_id: change.reverted_history_id ?? null,
+    },
+    { transaction }
+  );
+}
+
+// ============================================================
+// 이력 조회
+// ============================================================
+
+/**
+ * 근무 한 건의 변경 이력 (최신순)
+ * - 삭제된 근무의 이력도 조회 가능
+ */
+export async function getWorkShiftHistory(
+  user_id: string,
+  work_shift_id: string
+): Promise<WorkShiftHistoryItem[]> {
+  const work_shift = await WorkShift.findOne({
+    where: {
+      work_shift_id,
+      owner_user_id: user_id,
+    },
+  });
+
+  if (!work_shift) {
+    throw new Error("WORK_SHIFT_NOT_FOUND");
+  }
+
+  const histories = await WorkShiftHistory.findAll({
+    where: { work_shift_id },
+    include: [
+      {
+        model: User,
+        as: "changed_by",
+        attributes: ["user_id", "name"],
+      },
+    ],
+    order: [["created_at", "DESC"]],
+  });
+
+  return histories.map(formatHistory);
+}
+
+/**
+ * 기간별 근무 변경 이력 (최신순, 페이지네이션)
+ */
+export async function getWorkShiftHistoryFeed(
+  user_id: string,
+  start_date: string,
+  end_date: string,
+  page: number = 1,
+  limit: number = 50
+): Promise<{
+  histories: WorkShiftHistoryItem[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    total_pages: number;
+  };
+}> {
+  const { count, rows } = await WorkShiftHistory.findAndCountAll({
+    where: {
+      owner_user_id: user_id,
+      work_date: {
+        [Op.between]: [start_date, end_date],
+      },
+    },
+    include: [
+      {
+        model: User,
+        as: "changed_by",
+        attributes: ["user_id", "name"],
+      },
+    ],
+    order: [
+      ["created_at", "DESC"],
+      ["work_date", "ASC"],
+    ],
+    limit,
+    offset: (page - 1) * limit,
+  });
+
+  return {
+    histories: rows.map(formatHistory),
+    pagination: {
+      page,
+      limit,
+      total: count,
+      total_pages: Math.ceil(count / limit),
+    },
+  };
+}
@@ -0,0 +1,207 @@
+// 기본 타임존 (사용자 타임존 정보가 없을 때 사용)
+export const DEFAULT_TIMEZONE = "Asia/Seoul";
+
+// 하루 (밀리초)
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 유효한 IANA 타임존인지 확인
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 사용자 타임존 결정 (없거나 잘못된 값이면 기본 타임존 사용)
+ */
+export function resolveTimezone(timezone?: string | null): string {
+  if (timezone && isValidTimezone(timezone)) {
+    return timezone;
+  }
+  return DEFAULT_TIMEZONE;
+}
+
+/**
+ * 특정 시각을 타임존 기준의 날짜/시간 구성 요소로 분해
+ */
+function getZonedParts(
+  date: Date,
+  timezone: string
+): {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+} {
+  const formatter = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(date)) {
+    if (part.type !== "literal") {
+      parts[part.type] = Number(part.value);
+    }
+  }
+
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+}
+
+/**
+ * 특정 시각의 타임존 오프셋 (분 단위, UTC 기준 동쪽이 양수)
+ */
+export function getTimezoneOffsetMinutes(date: Date, timezone: string): number {
+  const parts = getZonedParts(date, timezone);
+  const as_utc = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second
+  );
+  const truncated = date.getTime() - date.getMilliseconds();
+  return Math.round((as_utc - truncated) / 60000);
+}
+
+/**
+ * 타임존 기준 날짜(YYYY-MM-DD) + 시간(HH:mm:ss)을 UTC Date로 변환
+ */
+export function zonedTimeToUtc(
+  date_str: string,
+  time_str: string,
+  timezone: string
+): Date {
+  const [year, month, day] = date_str.split("-").map(Number);
+  const [hour, minute, second] = time_str.split(":").map(Number);
+  const local_as_utc = Date.UTC(
+    year,
+    month - 1,
+    day,
+    hour,
+    minute,
+    second || 0
+  );
+
+  // DST 경계 대응: 오프셋을 한 번 더 계산하여 보정
+  const first_offset = getTimezoneOffsetMinutes(
+    new Date(local_as_utc),
+    timezone
+  );
+  let result = local_as_utc - first_offset * 60000;
+  const second_offset = getTimezoneOffsetMinutes(new Date(result), timezone);
+  if (second_offset !== first_offset) {
+    result = local_as_utc - second_offset * 60000;
+  }
+
+  return new Date(result);
+}
+
+/**
+ * 특정 시각을 타임존 기준 날짜 문자열(YYYY-MM-DD)로 변환
+ */
+export function formatDateInTimezone(date: Date, timezone: string): string {
+  const parts = getZonedParts(date, timezone);
+  const month = String(parts.month).padStart(2, "0");
+  const day = String(parts.day).padStart(2, "0");
+  return `${parts.year}-${month}-${day}`;
+}
+
+/**
+ * 특정 시각을 타임존 기준 시간 문자열(HH:mm:ss)로 변환
+ */
+export function formatTimeInTimezone(date: Date, timezone: string): string {
+  const parts = getZonedParts(date, timezone);
+  return [parts.hour, parts.minute, parts.second]
+    .map((value) => String(value).padStart(2, "0"))
+    .join(":");
+}
+
+/**
+ * 날짜 문자열(YYYY-MM-DD)에 일 수 더하기
+ */
+export function addDays(date_str: string, days: number): string {
+  const [year, month, day] = date_str.split("-").map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day + days));
+  return date.toISOString().split("T")[0];
+}
+
+/**
+ * 두 날짜 문자열(YYYY-MM-DD) 사이의 일 수 (to - from)
+ */
+export function diffDays(from_date: string, to_date: string): number {
+  const [from_year, from_month, from_day] = from_date.split("-").map(Number);
+  const [to_year, to_month, to_day] = to_date.split("-").map(Number);
+  const from = Date.UTC(from_year, from_month - 1, from_day);
+  const to = Date.UTC(to_year, to_month - 1, to_day);
+  return Math.round((to - from) / DAY_MS);
+}
+
+/**
+ * DATEONLY 컬럼 값을 날짜 문자열(YYYY-MM-DD)로 변환 (Date 객체로 올 수도 있음)
+ */
+export function toDateString(value: Date | string): string {
+  return value instanceof Date
+    ? value.toISOString().split("T")[0]
+    : String(value);
+}
+
+/**
+ * 기준 시각에서 보관 기간(일)이 지난 시각 (휴지통, 탈퇴 유예 기간 등의 삭제 예정 시각)
+ */
+export function getPurgeAt(from: Date, retention_days: number): Date {
+  return new Date(from.getTime() + retention_days * DAY_MS);
+}
+
+/**
+ * 날짜 문자열(YYYY-MM-DD)의 요일 (0: 일요일 ~ 6: 토요일)
+ */
+export function getDayOfWeek(date_str: string): number {
+  const [year, month, day] = date_str.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+/**
+ * 해당 월의 일 수 (month: 1~12)
+ */
+export function getDaysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/**
+ * 시간 문자열(HH:mm 또는 HH:mm:ss)을 자정 기준 분 단위로 변환
+ */
+export function timeToMinutes(time_str: string): number {
+  const [hour, minute] = time_str.split(":").map(Number);
+  return hour * 60 + minute;
+}
+
+/**
+ * 자정 기준 분을 시간 문자열(HH:mm)로 변환 (1440분은 "24:00")
+ */
+export function minutesToTime(minutes: number): string {
+  const hour = Math.floor(minutes / 60);
+  const minute = minutes % 60;
+  return `${String(hour).padStart(2, "0")}:${String(minute).padStart(2, "0")}`;
+}
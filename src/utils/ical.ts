@@ -0,0 +1,407 @@
+import { isValidTimezone, zonedTimeToUtc } from "./dateUtils";
+
+// iCalendar (RFC 5545) 문서 생성/파싱 유틸리티
+
+const PRODUCT_ID = "-//Shift Calendar//Shift Calendar Server//KO";
+const MAX_LINE_OCTETS = 75;
+
+// 날짜/일시 값 (종일이면 date, 아니면 date_time)
+export type IcsDateValue = { date: string } | { date_time: Date };
+
+export interface IcsEvent {
+  uid: string;
+  summary: string;
+  description?: string | null;
+  location?: string | null;
+  start: IcsDateValue;
+  end: IcsDateValue;
+  categories?: string[];
+  transparent?: boolean; // 바쁨 표시 여부 (true면 한가함으로 표시)
+  last_modified?: Date | null;
+}
+
+/**
+ * TEXT 값 이스케이프 (백슬래시, 세미콜론, 쉼표, 줄바꿈)
+ */
+export function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r\n|\r|\n/g, "\\n");
+}
+
+/**
+ * 75 옥텟 단위 줄 접기 (UTF-8 멀티바이트 문자가 잘리지 않도록 처리)
+ */
+export function foldIcsLine(line: string): string {
+  if (Buffer.byteLength(line, "utf8") <= MAX_LINE_OCTETS) {
+    return line;
+  }
+
+  const chunks: string[] = [];
+  let current = "";
+  let current_octets = 0;
+  // 이어지는 줄은 앞에 공백 1자가 붙으므로 74 옥텟까지 사용
+  let limit = MAX_LINE_OCTETS;
+
+  for (const char of line) {
+    const char_octets = Buffer.byteLength(char, "utf8");
+    if (current_octets + char_octets > limit) {
+      chunks.push(current);
+      current = "";
+      current_octets = 0;
+      limit = MAX_LINE_OCTETS - 1;
+    }
+    current += char;
+    current_octets += char_octets;
+  }
+  chunks.push(current);
+
+  return chunks.join("\r\n ");
+}
+
+/**
+ * UTC 일시 형식 (YYYYMMDDTHHMMSSZ)
+ */
+export function formatIcsDateTime(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+}
+
+/**
+ * 날짜 형식 (YYYYMMDD)
+ */
+export function formatIcsDate(date_str: string): string {
+  return date_str.replace(/-/g, "");
+}
+
+function formatDateProperty(name: string, value: IcsDateValue): string {
+  if ("date" in value) {
+    return `${name};VALUE=DATE:${formatIcsDate(value.date)}`;
+  }
+  return `${name}:${formatIcsDateTime(value.date_time)}`;
+}
+
+/**
+ * VEVENT 블록 생성
+ */
+function buildIcsEvent(event: IcsEvent, dtstamp: Date): string[] {
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatIcsDateTime(dtstamp)}`,
+    formatDateProperty("DTSTART", event.start),
+    formatDateProperty("DTEND", event.end),
+    `SUMMARY:${escapeIcsText(event.summary)}`,
+  ];
+
+  if (event.description) {
+    lines.push(`DESCRIPTION:${escapeIcsText(event.description)}`);
+  }
+  if (event.location) {
+    lines.push(`LOCATION:${escapeIcsText(event.location)}`);
+  }
+  if (event.categories && event.categories.length > 0) {
+    lines.push(`CATEGORIES:${event.categories.map(escapeIcsText).join(",")}`);
+  }
+  if (event.transparent) {
+    lines.push("TRANSP:TRANSPARENT");
+  }
+  if (event.last_modified) {
+    lines.push(`LAST-MODIFIED:${formatIcsDateTime(event.last_modified)}`);
+  }
+
+  lines.push("END:VEVENT");
+  return lines;
+}
+
+/**
+ * VCALENDAR 문서 생성 (CRLF 줄바꿈, 줄 접기 적용)
+ */
+export function buildIcsCalendar(
+  events: IcsEvent[],
+  options: { name: string; timezone: string }
+): string {
+  const dtstamp = new Date();
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeIcsText(options.name)}`,
+    `X-WR-TIMEZONE:${options.timezone}`,
+  ];
+
+  for (const event of events) {
+    lines.push(...buildIcsEvent(event, dtstamp));
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldIcsLine).join("\r\n") + "\r\n";
+}
+
+// ============================================================
+// 파싱
+// ============================================================
+
+// 파싱된 VEVENT (가져오기용)
+export interface ParsedIcsEvent {
+  uid: string | null;
+  summary: string;
+  description: string | null;
+  location: string | null;
+  start: IcsDateValue | null; // 형식 오류 또는 누락 시 null
+  end: IcsDateValue | null; // DTEND/DURATION이 없으면 null
+  rrule: string | null;
+  exdates: IcsDateValue[];
+  status: string | null; // TENTATIVE, CONFIRMED, CANCELLED
+  is_recurrence_override: boolean; // RECURRENCE-ID가 있는 발생 수정본
+}
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+/**
+ * TEXT 값 이스케이프 해제
+ */
+export function unescapeIcsText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char === "n" || char === "N" ? "\n" : char
+  );
+}
+
+/**
+ * 줄 펼치기 (CRLF 뒤 공백/탭으로 시작하는 줄은 이전 줄에 이어붙임)
+ */
+function unfoldIcsLines(text: string): string[] {
+  return text
+    .replace(/\r\n|\r/g, "\n")
+    .replace(/\n[ \t]/g, "")
+    .split("\n")
+    .filter((line) => line.trim() !== "");
+}
+
+/**
+ * 속성 줄 파싱 (NAME;PARAM=VALUE:value)
+ * - 따옴표로 감싼 파라미터 값 안의 콜론/세미콜론은 구분자로 보지 않음
+ */
+function parseIcsProperty(line: string): IcsProperty | null {
+  let in_quotes = false;
+  let colon_index = -1;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      in_quotes = !in_quotes;
+    } else if (char === ":" && !in_quotes) {
+      colon_index = i;
+      break;
+    }
+  }
+  if (colon_index < 0) {
+    return null;
+  }
+
+  const head = line.slice(0, colon_index);
+  const value = line.slice(colon_index + 1);
+  const parts = head.match(/(?:[^;"]|"[^"]*")+/g) ?? [];
+  const [name, ...param_parts] = parts;
+  if (!name) {
+    return null;
+  }
+
+  const params: Record<string, string> = {};
+  for (const part of param_parts) {
+    const eq_index = part.indexOf("=");
+    if (eq_index > 0) {
+      params[part.slice(0, eq_index).toUpperCase()] = part
+        .slice(eq_index + 1)
+        .replace(/^"|"$/g, "");
+    }
+  }
+
+  return { name: name.toUpperCase(), params, value };
+}
+
+/**
+ * 날짜/일시 값 파싱
+ * - YYYYMMDD 또는 VALUE=DATE: 종일 날짜
+ * - YYYYMMDDTHHMMSSZ: UTC 일시
+ * - YYYYMMDDTHHMMSS: TZID 기준 (없거나 알 수 없으면 기본 타임존)
+ */
+function parseIcsDateValue(
+  property: IcsProperty,
+  raw_value: string,
+  default_timezone: string
+): IcsDateValue | null {
+  const value = raw_value.trim();
+
+  const date_match = /^(\d{4})(\d{2})(\d{2})$/.exec(value);
+  if (date_match) {
+    const [, y, mo, d] = date_match;
+    return { date: `${y}-${mo}-${d}` };
+  }
+
+  const datetime_match =
+    /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/i.exec(value);
+  if (!datetime_match || property.params.VALUE === "DATE") {
+    return null;
+  }
+
+  const [, y, mo, d, h, mi, s, utc] = datetime_match;
+  if (utc) {
+    return {
+      date_time: new Date(Date.UTC(+y, +mo - 1, +d, +h, +mi, +s)),
+    };
+  }
+
+  const tzid = property.params.TZID;
+  const timezone = tzid && isValidTimezone(tzid) ? tzid : default_timezone;
+  return {
+    date_time: zonedTimeToUtc(`${y}-${mo}-${d}`, `${h}:${mi}:${s}`, timezone),
+  };
+}
+
+/**
+ * DURATION 값을 초 단위로 변환 (예: PT8H, P1D, P1W)
+ */
+function parseIcsDuration(value: string): number | null {
+  const match =
+    /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(
+      value.trim()
+    );
+  if (!match || value.trim() === "P" || value.trim().endsWith("T")) {
+    return null;
+  }
+  const [, sign, w, d, h, mi, s] = match;
+  const seconds =
+    Number(w || 0) * 604800 +
+    Number(d || 0) * 86400 +
+    Number(h || 0) * 3600 +
+    Number(mi || 0) * 60 +
+    Number(s || 0);
+  return sign === "-" ? -seconds : seconds;
+}
+
+function addDurationToIcsDate(
+  start: IcsDateValue,
+  seconds: number
+): IcsDateValue {
+  if ("date" in start) {
+    const date = new Date(`${start.date}T00:00:00Z`);
+    date.setUTCDate(date.getUTCDate() + Math.floor(seconds / 86400));
+    return { date: date.toISOString().split("T")[0] };
+  }
+  return { date_time: new Date(start.date_time.getTime() + seconds * 1000) };
+}
+
+/**
+ * iCalendar 문서에서 VEVENT 목록 파싱
+ * - VCALENDAR가 없으면 INVALID_ICS 에러
+ * - 개별 VEVENT의 형식 오류는 start/end를 null로 두고 호출 측에서 판단
+ */
+export function parseIcsEvents(
+  text: string,
+  default_timezone: string
+): ParsedIcsEvent[] {
+  const lines = unfoldIcsLines(text);
+  if (!lines.some((line) => /^BEGIN:VCALENDAR$/i.test(line.trim()))) {
+    throw new Error("INVALID_ICS");
+  }
+
+  const events: ParsedIcsEvent[] = [];
+  let properties: IcsProperty[] | null = null;
+  // VEVENT 안의 VALARM 등 하위 컴포넌트는 무시
+  let nested_depth = 0;
+
+  for (const line of lines) {
+    const trimmed = line.trim();
+    const begin = /^BEGIN:(.+)$/i.exec(trimmed);
+    const end = /^END:(.+)$/i.exec(trimmed);
+
+    if (begin) {
+      if (begin[1].toUpperCase() === "VEVENT" && properties === null) {
+        properties = [];
+      } else if (properties !== null) {
+        nested_depth++;
+      }
+      continue;
+    }
+
+    if (end) {
+      if (properties !== null && nested_depth > 0) {
+        nested_depth--;
+      } else if (end[1].toUpperCase() === "VEVENT" && properties !== null) {
+        events.push(buildParsedEvent(properties, default_timezone));
+        properties = null;
+      }
+      continue;
+    }
+
+    if (properties !== null && nested_depth === 0) {
+      const property = parseIcsProperty(line);
+      if (property) {
+        properties.push(property);
+      }
+    }
+  }
+
+  return events;
+}
+
+function buildParsedEvent(
+  properties: IcsProperty[],
+  default_timezone: string
+): ParsedIcsEvent {
+  const find = (name: string) => properties.find((p) => p.name === name);
+  const text = (name: string): string | null => {
+    const property = find(name);
+    const value = property ? unescapeIcsText(property.value).trim() : "";
+    return value || null;
+  };
+  const dateValue = (name: string): IcsDateValue | null => {
+    const property = find(name);
+    return property
+      ? parseIcsDateValue(property, property.value, default_timezone)
+      : null;
+  };
+
+  const start = dateValue("DTSTART");
+  let end = dateValue("DTEND");
+  const duration = find("DURATION");
+  if (!end && start && duration) {
+    const seconds = parseIcsDuration(duration.value);
+    end = seconds === null ? null : addDurationToIcsDate(start, seconds);
+  }
+
+  const exdates: IcsDateValue[] = [];
+  for (const property of properties.filter((p) => p.name === "EXDATE")) {
+    for (const value of property.value.split(",")) {
+      const exdate = parseIcsDateValue(property, value, default_timezone);
+      if (exdate) {
+        exdates.push(exdate);
+      }
+    }
+  }
+
+  const rrule = find("RRULE");
+
+  return {
+    uid: text("UID"),
+    summary: text("SUMMARY") ?? "",
+    description: text("DESCRIPTION"),
+    location: text("LOCATION"),
+    start,
+    end,
+    rrule: rrule ? rrule.value.trim() : null,
+    exdates,
+    status: text("STATUS")?.toUpperCase() ?? null,
+    is_recurrence_override: Boolean(find("RECURRENCE-ID")),
+  };
+}
@@ -0,0 +1,389 @@
+import {
+  addDays,
+  diffDays,
+  getDayOfWeek,
+  getDaysInMonth,
+  zonedTimeToUtc,
+} from "./dateUtils";
+
+// 지원하는 반복 주기 (RFC 5545 RRULE 부분 집합)
+export type RRuleFrequency = "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+
+// BYDAY 항목 (weekday: 0=일요일 ~ 6=토요일, ordinal: 월간 n번째 요일, 없으면 null)
+export interface RRuleByDay {
+  weekday: number;
+  ordinal: number | null;
+}
+
+export interface ParsedRRule {
+  freq: RRuleFrequency;
+  interval: number;
+  by_day: RRuleByDay[];
+  count: number | null;
+  until_date: string | null; // UNTIL=YYYYMMDD 형식 (사용자 타임존 기준 날짜)
+  until_at: Date | null; // UNTIL=YYYYMMDDTHHMMSSZ 형식
+}
+
+const WEEKDAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const FREQUENCIES: RRuleFrequency[] = ["DAILY", "WEEKLY", "MONTHLY", "YEARLY"];
+
+const MAX_INTERVAL = 999;
+const MAX_COUNT = 1000;
+// 무한 루프 방지를 위한 최대 반복 주기 수
+const MAX_PERIODS = 50000;
+
+function invalid(): Error {
+  return new Error("INVALID_RRULE");
+}
+
+/**
+ * RRULE 문자열 파싱
+ * - 지원: FREQ, INTERVAL, BYDAY, COUNT, UNTIL
+ * - 형식 오류 또는 미지원 항목이 있으면 INVALID_RRULE 에러
+ */
+export function parseRRule(rule: string): ParsedRRule {
+  const body = rule.trim().replace(/^RRULE:/i, "");
+  if (!body) {
+    throw invalid();
+  }
+
+  const parsed: ParsedRRule = {
+    freq: "DAILY",
+    interval: 1,
+    by_day: [],
+    count: null,
+    until_date: null,
+    until_at: null,
+  };
+  let has_freq = false;
+
+  for (const part of body.split(";")) {
+    const [raw_key, value] = part.split("=");
+    const key = raw_key?.trim().toUpperCase();
+    if (!key || value === undefined || value === "") {
+      throw invalid();
+    }
+
+    switch (key) {
+      case "FREQ": {
+        const freq = value.toUpperCase() as RRuleFrequency;
+        if (!FREQUENCIES.includes(freq)) {
+          throw invalid();
+        }
+        parsed.freq = freq;
+        has_freq = true;
+        break;
+      }
+      case "INTERVAL": {
+        const interval = Number(value);
+        if (!Number.isInteger(interval) || interval < 1) {
+          throw invalid();
+        }
+        if (interval > MAX_INTERVAL) {
+          throw invalid();
+        }
+        parsed.interval = interval;
+        break;
+      }
+      case "COUNT": {
+        const count = Number(value);
+        if (!Number.isInteger(count) || count < 1 || count > MAX_COUNT) {
+          throw invalid();
+        }
+        parsed.count = count;
+        break;
+      }
+      case "UNTIL": {
+        const date_match = /^(\d{4})(\d{2})(\d{2})$/.exec(value);
+        const datetime_match =
+          /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z?$/i.exec(value);
+        if (date_match) {
+          const [, y, mo, d] = date_match;
+          parsed.until_date = `${y}-${mo}-${d}`;
+        } else if (datetime_match) {
+          const [, y, mo, d, h, mi, s] = datetime_match.map(Number);
+          parsed.until_at = new Date(Date.UTC(y, mo - 1, d, h, mi, s));
+        } else {
+          throw invalid();
+        }
+        break;
+      }
+      case "BYDAY": {
+        for (const token of value.toUpperCase().split(",")) {
+          const match = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/.exec(token);
+          if (!match) {
+            throw invalid();
+          }
+          const ordinal = match[1] ? Number(match[1]) : null;
+          if (ordinal !== null && (ordinal === 0 || Math.abs(ordinal) > 5)) {
+            throw invalid();
+          }
+          parsed.by_day.push({
+            weekday: WEEKDAY_CODES.indexOf(match[2]),
+            ordinal,
+          });
+        }
+        break;
+      }
+      default:
+        throw invalid();
+    }
+  }
+
+  if (!has_freq) {
+    throw invalid();
+  }
+
+  // COUNT와 UNTIL은 동시에 사용할 수 없음 (RFC 5545)
+  if (parsed.count !== null && (parsed.until_date || parsed.until_at)) {
+    throw invalid();
+  }
+
+  // BYDAY는 DAILY/WEEKLY/MONTHLY에서만 지원, n번째 요일은 MONTHLY에서만 허용
+  if (parsed.by_day.length > 0) {
+    if (parsed.freq === "YEARLY") {
+      throw invalid();
+    }
+    const has_ordinal = parsed.by_day.some((d) => d.ordinal !== null);
+    if (has_ordinal && parsed.freq !== "MONTHLY") {
+      throw invalid();
+    }
+  }
+
+  return parsed;
+}
+
+/**
+ * 파싱된 RRULE을 정규화된 문자열로 변환
+ */
+export function formatRRule(rule: ParsedRRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval !== 1) {
+    parts.push(`INTERVAL=${rule.interval}`);
+  }
+  if (rule.by_day.length > 0) {
+    const by_day = rule.by_day
+      .map((d) => `${d.ordinal ?? ""}${WEEKDAY_CODES[d.weekday]}`)
+      .join(",");
+    parts.push(`BYDAY=${by_day}`);
+  }
+  if (rule.count !== null) {
+    parts.push(`COUNT=${rule.count}`);
+  }
+  if (rule.until_date) {
+    parts.push(`UNTIL=${rule.until_date.replace(/-/g, "")}`);
+  }
+  if (rule.until_at) {
+    const until = rule.until_at
+      .toISOString()
+      .replace(/[-:]/g, "")
+      .replace(/\.\d{3}/, "");
+    parts.push(`UNTIL=${until}`);
+  }
+  return parts.join(";");
+}
+
+/**
+ * 해당 월의 n번째 요일 날짜 (ordinal이 음수면 뒤에서 n번째)
+ */
+function nthWeekdayOfMonth(
+  year: number,
+  month: number,
+  weekday: number,
+  ordinal: number
+): string | null {
+  const days_in_month = getDaysInMonth(year, month);
+  const month_str = String(month).padStart(2, "0");
+  const first = `${year}-${month_str}-01`;
+
+  const matches: string[] = [];
+  for (let day = 0; day < days_in_month; day++) {
+    const date = addDays(first, day);
+    if (getDayOfWeek(date) === weekday) {
+      matches.push(date);
+    }
+  }
+
+  const index = ordinal > 0 ? ordinal - 1 : matches.length + ordinal;
+  return matches[index] ?? null;
+}
+
+/**
+ * 한 주기(period)에 해당하는 후보 날짜 목록 (정렬됨)
+ */
+function getPeriodCandidates(
+  rule: ParsedRRule,
+  dtstart_date: string,
+  period: number
+): string[] {
+  const [start_year, start_month, start_day] = dtstart_date
+    .split("-")
+    .map(Number);
+
+  switch (rule.freq) {
+    case "DAILY": {
+      const date = addDays(dtstart_date, period * rule.interval);
+      if (
+        rule.by_day.length > 0 &&
+        !rule.by_day.some((d) => d.weekday === getDayOfWeek(date))
+      ) {
+        return [];
+      }
+      return [date];
+    }
+    case "WEEKLY": {
+      // 주 시작은 월요일 (RFC 5545 기본 WKST=MO)
+      const week_start = addDays(
+        dtstart_date,
+        -((getDayOfWeek(dtstart_date) + 6) % 7) + period * rule.interval * 7
+      );
+      const weekdays =
+        rule.by_day.length > 0
+          ? rule.by_day.map((d) => d.weekday)
+          : [getDayOfWeek(dtstart_date)];
+      const dates = weekdays.map((wd) => addDays(week_start, (wd + 6) % 7));
+      return [...new Set(dates)].sort();
+    }
+    case "MONTHLY": {
+      const month_index = start_month - 1 + period * rule.interval;
+      const year = start_year + Math.floor(month_index / 12);
+      const month = (month_index % 12) + 1;
+      const month_str = String(month).padStart(2, "0");
+
+      if (rule.by_day.length === 0) {
+        if (start_day > getDaysInMonth(year, month)) {
+          return [];
+        }
+        return [`${year}-${month_str}-${String(start_day).padStart(2, "0")}`];
+      }
+
+      const dates = new Set<string>();
+      for (const by_day of rule.by_day) {
+        if (by_day.ordinal !== null) {
+          const date = nthWeekdayOfMonth(
+            year,
+            month,
+            by_day.weekday,
+            by_day.ordinal
+          );
+          if (date) {
+            dates.add(date);
+          }
+        } else {
+          const first = `${year}-${month_str}-01`;
+          for (let day = 0; day < getDaysInMonth(year, month); day++) {
+            const date = addDays(first, day);
+            if (getDayOfWeek(date) === by_day.weekday) {
+              dates.add(date);
+            }
+          }
+        }
+      }
+      return [...dates].sort();
+    }
+    case "YEARLY": {
+      const year = start_year + period * rule.interval;
+      // 2월 29일 등 해당 연도에 없는 날짜는 건너뜀
+      if (start_day > getDaysInMonth(year, start_month)) {
+        return [];
+      }
+      return [
+        `${year}-${String(start_month).padStart(2, "0")}-${String(
+          start_day
+        ).padStart(2, "0")}`,
+      ];
+    }
+  }
+}
+
+/**
+ * 반복 규칙에 따른 발생 날짜 목록 계산 (사용자 타임존 기준 날짜)
+ * - DTSTART 날짜는 항상 첫 번째 발생으로 포함 (RFC 5545)
+ * - horizon_date 이후의 날짜는 계산하지 않음
+ */
+export function expandRRuleDates(
+  rule: ParsedRRule,
+  dtstart_date: string,
+  dtstart_time: string,
+  timezone: string,
+  horizon_date: string
+): string[] {
+  const dates: string[] = [];
+
+  const isWithinUntil = (date: string): boolean => {
+    if (rule.until_date) {
+      return date <= rule.until_date;
+    }
+    if (rule.until_at) {
+      return zonedTimeToUtc(date, dtstart_time, timezone) <= rule.until_at;
+    }
+    return true;
+  };
+
+  const push = (date: string): boolean => {
+    dates.push(date);
+    return rule.count === null || dates.length < rule.count;
+  };
+
+  if (dtstart_date > horizon_date || !isWithinUntil(dtstart_date)) {
+    return dates;
+  }
+  if (!push(dtstart_date)) {
+    return dates;
+  }
+
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    const candidates = getPeriodCandidates(rule, dtstart_date, period);
+
+    for (const date of candidates) {
+      if (date <= dtstart_date) {
+        continue;
+      }
+      if (date > horizon_date || !isWithinUntil(date)) {
+        return dates;
+      }
+      if (!push(date)) {
+        return dates;
+      }
+    }
+
+    // 후보가 없는 주기가 있어도 horizon을 넘으면 종료
+    if (
+      candidates.length === 0 &&
+      diffDays(dtstart_date, horizon_date) < period * rule.interval
+    ) {
+      return dates;
+    }
+  }
+
+  return dates;
+}
+
+/**
+ * 반복 일정의 마지막 발생 날짜 (COUNT/UNTIL이 없으면 null = 무기한)
+ */
+export function getLastOccurrenceDate(
+  rule: ParsedRRule,
+  dtstart_date: string,
+  dtstart_time: string,
+  timezone: string
+): string | null {
+  if (rule.count === null && !rule.until_date && !rule.until_at) {
+    return null;
+  }
+
+  const horizon_date = rule.until_date
+    ? rule.until_date
+    : rule.until_at
+    ? addDays(rule.until_at.toISOString().split("T")[0], 1)
+    : "9999-12-31";
+
+  const dates = expandRRuleDates(
+    rule,
+    dtstart_date,
+    dtstart_time,
+    timezone,
+    horizon_date
+  );
+  return dates.length > 0 ? dates[dates.length - 1] : dtstart_date;
+}
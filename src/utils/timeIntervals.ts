@@ -0,0 +1,55 @@
+// 시간 구간 계산 유틸리티 (분 단위 또는 epoch ms 등 숫자 구간, [start, end) 반열린 구간)
+
+export interface TimeInterval {
+  start: number;
+  end: number;
+}
+
+/**
+ * 겹치거나 맞닿은 구간 병합 (정렬된 결과 반환)
+ */
+export function mergeIntervals(intervals: TimeInterval[]): TimeInterval[] {
+  const sorted = intervals
+    .filter((i) => i.end > i.start)
+    .sort((a, b) => a.start - b.start);
+
+  const merged: TimeInterval[] = [];
+  for (const interval of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end) {
+      last.end = Math.max(last.end, interval.end);
+    } else {
+      merged.push({ ...interval });
+    }
+  }
+  return merged;
+}
+
+/**
+ * 기준 구간에서 바쁜 구간들을 제외한 빈 구간 목록
+ */
+export function subtractIntervals(
+  range: TimeInterval,
+  busy: TimeInterval[]
+): TimeInterval[] {
+  const free: TimeInterval[] = [];
+  let cursor = range.start;
+
+  for (const interval of mergeIntervals(busy)) {
+    if (interval.end <= cursor) {
+      continue;
+    }
+    if (interval.start >= range.end) {
+      break;
+    }
+    if (interval.start > cursor) {
+      free.push({ start: cursor, end: interval.start });
+    }
+    cursor = Math.max(cursor, interval.end);
+  }
+
+  if (cursor < range.end) {
+    free.push({ start: cursor, end: range.end });
+  }
+  return free;
+}
@@ -0,0 +1,147 @@
+// User-Agent 문자열 파싱 유틸리티 (세션 목록 표시용, 주요 OS/브라우저/앱만 구분)
+
+export type DeviceType = "mobile" | "tablet" | "desktop" | "unknown";
+
+export interface ParsedUserAgent {
+  device_type: DeviceType;
+  os: string | null; // 예: "iOS 17.2", "Android 14", "Windows", "macOS 10.15.7"
+  browser: string | null; // 예: "Chrome 120", "Safari 17", "Android 앱"
+}
+
+// 로그인 시 저장되는 device_info 형식: "<user-agent> | <ip>"
+const DEVICE_INFO_SEPARATOR = " | ";
+
+// 앞에 있는 패턴이 우선 (Edge/삼성 인터넷 UA에도 Chrome이 포함되는 등)
+const BROWSER_PATTERNS: Array<{ name: string; pattern: RegExp }> = [
+  { name: "카카오톡", pattern: /KAKAOTALK\s?([\d.]+)?/i },
+  { name: "네이버 앱", pattern: /NAVER\(inapp/ },
+  { name: "Edge", pattern: /Edg(?:e|A|iOS)?\/([\d.]+)/ },
+  { name: "Samsung Internet", pattern: /SamsungBrowser\/([\d.]+)/ },
+  { name: "Opera", pattern: /(?:OPR|OPiOS)\/([\d.]+)/ },
+  { name: "Firefox", pattern: /(?:Firefox|FxiOS)\/([\d.]+)/ },
+  { name: "Chrome", pattern: /(?:Chrome|CriOS)\/([\d.]+)/ },
+  { name: "Safari", pattern: /Version\/([\d.]+).*Safari\// },
+];
+
+// 브라우저가 아닌 앱 HTTP 클라이언트
+const APP_CLIENT_PATTERNS: Array<{ name: string; pattern: RegExp }> = [
+  { name: "Android 앱", pattern: /okhttp\/([\d.]+)/i },
+  { name: "iOS 앱", pattern: /CFNetwork\/([\d.]+)/ },
+  { name: "Flutter 앱", pattern: /Dart\/([\d.]+)/ },
+];
+
+function majorVersion(version: string | undefined): string {
+  return version ? ` ${version.split(".")[0]}` : "";
+}
+
+function parseOs(user_agent: string): string | null {
+  let match = user_agent.match(/(?:iPhone|CPU) OS ([\d_]+)/);
+  if (match) {
+    const version = match[1].replace(/_/g, ".");
+    return /iPad/.test(user_agent) ? `iPadOS ${version}` : `iOS ${version}`;
+  }
+  if (/iPad|iPhone|iPod/.test(user_agent) || /Darwin\//.test(user_agent)) {
+    return /iPad/.test(user_agent) ? "iPadOS" : "iOS";
+  }
+
+  match = user_agent.match(/Android\s?([\d.]+)?/);
+  if (match) {
+    return match[1] ? `Android ${match[1]}` : "Android";
+  }
+  if (/okhttp/i.test(user_agent)) {
+    return "Android";
+  }
+
+  if (/Windows/.test(user_agent)) {
+    return "Windows";
+  }
+
+  match = user_agent.match(/Mac OS X ([\d_.]+)/);
+  if (match) {
+    return `macOS ${match[1].replace(/_/g, ".")}`;
+  }
+  if (/Macintosh/.test(user_agent)) {
+    return "macOS";
+  }
+
+  if (/CrOS/.test(user_agent)) {
+    return "ChromeOS";
+  }
+  if (/Linux/.test(user_agent)) {
+    return "Linux";
+  }
+
+  return null;
+}
+
+function parseDeviceType(user_agent: string, os: string | null): DeviceType {
+  if (/iPad|Tablet/i.test(user_agent)) {
+    return "tablet";
+  }
+  if (os?.startsWith("Android")) {
+    // 안드로이드 태블릿 브라우저는 UA에 Mobile이 없음 (앱 클라이언트는 모바일로 간주)
+    return /Mobile|okhttp|Dart\//i.test(user_agent) ? "mobile" : "tablet";
+  }
+  if (os?.startsWith("iOS") || /Mobile/.test(user_agent)) {
+    return "mobile";
+  }
+  if (os) {
+    return "desktop";
+  }
+  return "unknown";
+}
+
+function parseBrowser(user_agent: string): string | null {
+  for (const { name, pattern } of BROWSER_PATTERNS) {
+    const match = user_agent.match(pattern);
+    if (match) {
+      return `${name}${majorVersion(match[1])}`;
+    }
+  }
+  for (const { name, pattern } of APP_CLIENT_PATTERNS) {
+    if (pattern.test(user_agent)) {
+      return name;
+    }
+  }
+  return null;
+}
+
+/**
+ * User-Agent 문자열에서 기기 종류, OS, 브라우저(앱) 추출
+ */
+export function parseUserAgent(user_agent: string | null): ParsedUserAgent {
+  if (!user_agent || user_agent === "unknown") {
+    return { device_type: "unknown", os: null, browser: null };
+  }
+
+  const os = parseOs(user_agent);
+  return {
+    device_type: parseDeviceType(user_agent, os),
+    os,
+    browser: parseBrowser(user_agent),
+  };
+}
+
+/**
+ * refresh token에 저장된 device_info를 User-Agent와 IP로 분리
+ */
+export function splitDeviceInfo(device_info: string | null | undefined): {
+  user_agent: string | null;
+  ip: string | null;
+} {
+  if (!device_info) {
+    return { user_agent: null, ip: null };
+  }
+
+  const index = device_info.lastIndexOf(DEVICE_INFO_SEPARATOR);
+  if (index === -1) {
+    return { user_agent: device_info, ip: null };
+  }
+
+  const user_agent = device_info.slice(0, index);
+  const ip = device_info.slice(index + DEVICE_INFO_SEPARATOR.length);
+  return {
+    user_agent: user_agent === "unknown" ? null : user_agent,
+    ip: ip === "unknown" ? null : ip,
+  };
+}
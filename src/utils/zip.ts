@@ -0,0 +1,111 @@
+import zlib from "zlib";
+
+// ZIP 아카이브에 담을 파일
+export interface ZipEntry {
+  name: string; // 아카이브 내 경로 (UTF-8)
+  content: string | Buffer;
+  modified_at?: Date;
+}
+
+// 한글 파일명 표시를 위한 UTF-8 플래그 (general purpose bit 11)
+const UTF8_FLAG = 0x0800;
+const METHOD_DEFLATE = 8;
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(buffer: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of buffer) {
+    crc = CRC32_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * MS-DOS 날짜/시간 (ZIP 헤더 형식, 로컬 시간 기준)
+ */
+function toDosDateTime(date: Date): { dos_date: number; dos_time: number } {
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    dos_date:
+      ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+    dos_time:
+      (date.getHours() << 11) |
+      (date.getMinutes() << 5) |
+      Math.floor(date.getSeconds() / 2),
+  };
+}
+
+/**
+ * ZIP 아카이브 생성 (deflate 압축, ZIP64 미지원)
+ */
+export function createZipArchive(entries: ZipEntry[]): Buffer {
+  const local_parts: Buffer[] = [];
+  const central_parts: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, "utf8");
+    const data =
+      typeof entry.content === "string"
+        ? Buffer.from(entry.content, "utf8")
+        : entry.content;
+    const compressed = zlib.deflateRawSync(data);
+    const checksum = crc32(data);
+    const { dos_date, dos_time } = toDosDateTime(
+      entry.modified_at ?? new Date()
+    );
+
+    const local_header = Buffer.alloc(30);
+    local_header.writeUInt32LE(0x04034b50, 0);
+    local_header.writeUInt16LE(20, 4); // version needed
+    local_header.writeUInt16LE(UTF8_FLAG, 6);
+    local_header.writeUInt16LE(METHOD_DEFLATE, 8);
+    local_header.writeUInt16LE(dos_time, 10);
+    local_header.writeUInt16LE(dos_date, 12);
+    local_header.writeUInt32LE(checksum, 14);
+    local_header.writeUInt32LE(compressed.length, 18);
+    local_header.writeUInt32LE(data.length, 22);
+    local_header.writeUInt16LE(name.length, 26);
+    local_header.writeUInt16LE(0, 28); // extra field length
+
+    const central_header = Buffer.alloc(46);
+    central_header.writeUInt32LE(0x02014b50, 0);
+    central_header.writeUInt16LE(20, 4); // version made by
+    central_header.writeUInt16LE(20, 6); // version needed
+    central_header.writeUInt16LE(UTF8_FLAG, 8);
+    central_header.writeUInt16LE(METHOD_DEFLATE, 10);
+    central_header.writeUInt16LE(dos_time, 12);
+    central_header.writeUInt16LE(dos_date, 14);
+    central_header.writeUInt32LE(checksum, 16);
+    central_header.writeUInt32LE(compressed.length, 20);
+    central_header.writeUInt32LE(data.length, 24);
+    central_header.writeUInt16LE(name.length, 28);
+    // extra/comment 길이, 디스크 번호, 내부/외부 속성은 0
+    central_header.writeUInt32LE(offset, 42);
+
+    local_parts.push(local_header, name, compressed);
+    central_parts.push(central_header, name);
+    offset += local_header.length + name.length + compressed.length;
+  }
+
+  const central_directory = Buffer.concat(central_parts);
+  const end_record = Buffer.alloc(22);
+  end_record.writeUInt32LE(0x06054b50, 0);
+  end_record.writeUInt16LE(entries.length, 8);
+  end_record.writeUInt16LE(entries.length, 10);
+  end_record.writeUInt32LE(central_directory.length, 12);
+  end_record.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...local_parts, central_directory, end_record]);
+}